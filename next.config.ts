@@ -1,7 +1,12 @@
 import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
-  /* config options here */
+  experimental: {
+    serverActions: {
+      // resumes and message attachments (5 MB max) are uploaded through server actions; leave room for the multipart overhead
+      bodySizeLimit: "6mb",
+    },
+  },
 };
 
 export default nextConfig;
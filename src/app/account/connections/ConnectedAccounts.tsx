@@ -0,0 +1,116 @@
+"use client"
+
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { unlinkAccountAction } from "@/features/auth/server/oidc.action";
+import { Link2 } from "lucide-react";
+import { useTransition } from "react";
+import { toast } from "sonner";
+
+export interface ConnectionListItem {
+  providerId: string;
+  providerName: string;
+  isAvailable: boolean;
+  account: { id: number; email: string | null; createdAt: string; lastUsedAt: string | null } | null;
+}
+
+const formatDate = (value: string) => new Date(value).toLocaleString();
+
+const ConnectedAccounts = ({
+  connections,
+  errorMessage,
+}: {
+  connections: ConnectionListItem[];
+  errorMessage: string | null;
+}) => {
+  const [isPending, startTransition] = useTransition();
+
+  const handleUnlink = (connection: ConnectionListItem) => {
+    if (!connection.account) return;
+
+    const accountId = connection.account.id;
+
+    if (
+      !window.confirm(
+        `Disconnect ${connection.providerName}? If you never set a password, use "Forgot password" to set one before you do.`,
+      )
+    ) {
+      return;
+    }
+
+    startTransition(async () => {
+      const result = await unlinkAccountAction(accountId);
+
+      if (result.status === "SUCCESS") toast.success(result.message);
+      else toast.error(result.message);
+    });
+  };
+
+  return (
+    <div className="min-h-screen bg-background p-8">
+      <Card className="mx-auto w-full max-w-3xl">
+        <CardHeader>
+          <CardTitle className="text-2xl">Connected Accounts</CardTitle>
+          <CardDescription>Sign in with these providers instead of your password.</CardDescription>
+        </CardHeader>
+
+        <CardContent className="space-y-4">
+          {errorMessage && <p className="text-sm text-destructive">{errorMessage}</p>}
+
+          {connections.length === 0 && (
+            <p className="text-sm text-muted-foreground">No sign-in providers are configured.</p>
+          )}
+
+          {connections.map((connection) => (
+            <div key={connection.providerId} className="flex items-start justify-between gap-4 rounded-md border p-4">
+              <div className="flex gap-3">
+                <Link2 className="w-5 h-5 mt-1 text-muted-foreground" />
+                <div className="space-y-1">
+                  <p className="font-medium">{connection.providerName}</p>
+                  {connection.account ? (
+                    <>
+                      {connection.account.email && (
+                        <p className="text-sm text-muted-foreground">{connection.account.email}</p>
+                      )}
+                      <p className="text-sm text-muted-foreground">
+                        Connected: {formatDate(connection.account.createdAt)}
+                      </p>
+                      {connection.account.lastUsedAt && (
+                        <p className="text-sm text-muted-foreground">
+                          Last used: {formatDate(connection.account.lastUsedAt)}
+                        </p>
+                      )}
+                    </>
+                  ) : (
+                    <p className="text-sm text-muted-foreground">Not connected</p>
+                  )}
+                </div>
+              </div>
+
+              {connection.account ? (
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  disabled={isPending}
+                  onClick={() => handleUnlink(connection)}
+                >
+                  Disconnect
+                </Button>
+              ) : (
+                connection.isAvailable && (
+                  <Button asChild variant="outline" size="sm">
+                    {/* a plain link: the route handler redirects to the provider */}
+                    <a href={`/auth/oidc/${connection.providerId}?intent=link`}>Connect</a>
+                  </Button>
+                )
+              )}
+            </div>
+          ))}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default ConnectedAccounts;
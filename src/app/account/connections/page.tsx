@@ -0,0 +1,48 @@
+import { OIDC_ERROR_MESSAGES } from "@/features/auth/auth.constants";
+import { getCurrentUser } from "@/features/auth/server/auth.queries";
+import { getUserAccounts } from "@/features/auth/server/use-cases/oidc";
+import { getOidcProviders } from "@/features/auth/server/use-cases/oidcProviders";
+import { redirect } from "next/navigation";
+import ConnectedAccounts from "./ConnectedAccounts";
+
+export default async function ConnectionsPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ error?: string }>;
+}) {
+  const user = await getCurrentUser();
+
+  if (!user) redirect("/login");
+
+  const { error } = await searchParams;
+  const accounts = await getUserAccounts(user.id);
+
+  // connections of a provider that has since been removed from the registry are still listed (and removable)
+  const providers = getOidcProviders().map(({ id, name }) => ({ id, name }));
+  const providerIds = new Set([...providers.map((provider) => provider.id), ...accounts.map((account) => account.provider)]);
+
+  const connections = [...providerIds].map((id) => {
+    const account = accounts.find((item) => item.provider === id);
+
+    return {
+      providerId: id,
+      providerName: providers.find((provider) => provider.id === id)?.name ?? id,
+      isAvailable: providers.some((provider) => provider.id === id),
+      account: account
+        ? {
+            id: account.id,
+            email: account.email,
+            createdAt: account.createdAt.toISOString(),
+            lastUsedAt: account.lastUsedAt?.toISOString() ?? null,
+          }
+        : null,
+    };
+  });
+
+  return (
+    <ConnectedAccounts
+      connections={connections}
+      errorMessage={error ? (OIDC_ERROR_MESSAGES[error] ?? OIDC_ERROR_MESSAGES.failed) : null}
+    />
+  );
+}
@@ -0,0 +1,11 @@
+import { requireRole } from "@/features/auth/server/auth.queries";
+
+export default async function AccountLayout({
+  children,
+}: Readonly<{
+  children: React.ReactNode;
+}>) {
+  await requireRole();
+
+  return <>{children}</>;
+}
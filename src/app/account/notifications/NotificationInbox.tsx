@@ -0,0 +1,97 @@
+"use client"
+
+import { Button } from "@/components/ui/button";
+import {
+  markAllNotificationsReadAction,
+  markNotificationReadAction,
+} from "@/features/notifications/server/notifications.action";
+import { cn } from "@/lib/utils";
+import Link from "next/link";
+import { useTransition } from "react";
+import { toast } from "sonner";
+
+export interface InboxNotification {
+  id: number;
+  title: string;
+  body: string | null;
+  url: string | null;
+  isRead: boolean;
+  createdAt: string;
+}
+
+const NotificationInbox = ({ notifications }: { notifications: InboxNotification[] }) => {
+  const [isPending, startTransition] = useTransition();
+
+  const runAction = (action: () => Promise<{ status: string; message: string }>, showSuccess = true) => {
+    startTransition(async () => {
+      const result = await action();
+
+      if (result.status !== "SUCCESS") toast.error(result.message);
+      else if (showSuccess) toast.success(result.message);
+    });
+  };
+
+  const hasUnread = notifications.some((notification) => !notification.isRead);
+
+  return (
+    <div className="space-y-3">
+      {hasUnread && (
+        <div className="flex justify-end">
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            disabled={isPending}
+            onClick={() => runAction(markAllNotificationsReadAction)}
+          >
+            Mark all read
+          </Button>
+        </div>
+      )}
+
+      {notifications.length === 0 && <p className="text-sm text-muted-foreground">No notifications yet.</p>}
+      {notifications.map((notification) => (
+        <div
+          key={notification.id}
+          className={cn(
+            "flex items-start justify-between gap-4 rounded-md border p-4",
+            !notification.isRead && "border-primary/50 bg-muted/50",
+          )}
+        >
+          <div className="space-y-1">
+            {notification.url ? (
+              <Link
+                href={notification.url}
+                className={cn("hover:underline", !notification.isRead && "font-medium")}
+                onClick={() => {
+                  if (!notification.isRead) void markNotificationReadAction(notification.id);
+                }}
+              >
+                {notification.title}
+              </Link>
+            ) : (
+              <p className={cn(!notification.isRead && "font-medium")}>{notification.title}</p>
+            )}
+            {notification.body && (
+              <p className="whitespace-pre-line text-sm text-muted-foreground">{notification.body}</p>
+            )}
+            <p className="text-xs text-muted-foreground">{new Date(notification.createdAt).toLocaleString()}</p>
+          </div>
+          {!notification.isRead && (
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              disabled={isPending}
+              onClick={() => runAction(() => markNotificationReadAction(notification.id), false)}
+            >
+              Mark read
+            </Button>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default NotificationInbox;
@@ -0,0 +1,71 @@
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { getRoleHomeRoute } from "@/features/auth/auth.constants";
+import { requireRole } from "@/features/auth/server/auth.queries";
+import { getUserNotifications } from "@/features/notifications/server/notifications.queries";
+import { Settings } from "lucide-react";
+import Link from "next/link";
+import NotificationInbox from "./NotificationInbox";
+
+export default async function NotificationsPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ before?: string }>;
+}) {
+  const { before } = await searchParams;
+  const user = await requireRole();
+  const { notifications, nextBefore } = await getUserNotifications({
+    userId: user.id,
+    before: Number(before) || undefined,
+  });
+
+  return (
+    <div className="min-h-screen bg-background p-8">
+      <Card className="mx-auto w-full max-w-3xl">
+        <CardHeader>
+          <Link href={getRoleHomeRoute(user.role)} className="text-sm text-primary hover:underline">
+            ← Back to dashboard
+          </Link>
+          <CardTitle className="text-2xl">Notifications</CardTitle>
+          <CardDescription>Updates about your applications, jobs and messages.</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <Button asChild variant="outline" size="sm">
+            <Link href="/account/notifications/preferences">
+              <Settings className="w-4 h-4" />
+              Notification settings
+            </Link>
+          </Button>
+
+          <NotificationInbox
+            notifications={notifications.map((notification) => ({
+              id: notification.id,
+              title: notification.title,
+              body: notification.body,
+              url: notification.url,
+              isRead: notification.readAt !== null,
+              createdAt: notification.createdAt.toISOString(),
+            }))}
+          />
+
+          {(before || nextBefore) && (
+            <div className="flex justify-between">
+              {before ? (
+                <Button asChild variant="outline">
+                  <Link href="/account/notifications">← Newest</Link>
+                </Button>
+              ) : (
+                <span />
+              )}
+              {nextBefore && (
+                <Button asChild variant="outline">
+                  <Link href={`/account/notifications?before=${nextBefore}`}>Older →</Link>
+                </Button>
+              )}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
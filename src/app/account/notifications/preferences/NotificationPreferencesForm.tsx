@@ -0,0 +1,67 @@
+"use client"
+
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  NOTIFICATION_CHANNEL_LABELS,
+  NOTIFICATION_TYPE_CHANNELS,
+  NOTIFICATION_TYPE_LABELS,
+  NotificationChannel,
+  NotificationType,
+} from "@/features/notifications/notifications.constants";
+import { updateNotificationPreferenceAction } from "@/features/notifications/server/notifications.action";
+import { useState, useTransition } from "react";
+import { toast } from "sonner";
+
+//* Each change is saved on its own, so there is no submit button to forget.
+const NotificationPreferencesForm = ({
+  types,
+  initialPreferences,
+}: {
+  types: NotificationType[];
+  initialPreferences: Record<NotificationType, NotificationChannel>;
+}) => {
+  const [preferences, setPreferences] = useState(initialPreferences);
+  const [isPending, startTransition] = useTransition();
+
+  const handleChange = (type: NotificationType, channel: NotificationChannel) => {
+    const previous = preferences[type];
+    setPreferences((prev) => ({ ...prev, [type]: channel }));
+
+    startTransition(async () => {
+      const result = await updateNotificationPreferenceAction({ type, channel });
+
+      if (result.status === "SUCCESS") {
+        toast.success(result.message);
+      } else {
+        toast.error(result.message);
+        setPreferences((prev) => ({ ...prev, [type]: previous }));
+      }
+    });
+  };
+
+  return (
+    <div className="divide-y rounded-md border">
+      {types.map((type) => (
+        <div key={type} className="flex items-center justify-between gap-4 p-4">
+          <span className="text-sm font-medium">{NOTIFICATION_TYPE_LABELS[type]}</span>
+          <Select
+            value={preferences[type]}
+            disabled={isPending}
+            onValueChange={(value) => handleChange(type, value as NotificationChannel)}
+          >
+            <SelectTrigger size="sm" className="w-48" aria-label={`${NOTIFICATION_TYPE_LABELS[type]} delivery`}>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {NOTIFICATION_TYPE_CHANNELS[type].map((channel) => (
+                <SelectItem key={channel} value={channel}>{NOTIFICATION_CHANNEL_LABELS[channel]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default NotificationPreferencesForm;
@@ -0,0 +1,36 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { requireRole } from "@/features/auth/server/auth.queries";
+import { NOTIFICATION_TYPES_BY_ROLE } from "@/features/notifications/notifications.constants";
+import { getNotificationPreferences } from "@/features/notifications/server/notifications.queries";
+import Link from "next/link";
+import NotificationPreferencesForm from "./NotificationPreferencesForm";
+
+export default async function NotificationPreferencesPage() {
+  const user = await requireRole();
+  const preferences = await getNotificationPreferences(user.id);
+  const types = NOTIFICATION_TYPES_BY_ROLE[user.role ?? "applicant"];
+
+  return (
+    <div className="min-h-screen bg-background p-8">
+      <Card className="mx-auto w-full max-w-3xl">
+        <CardHeader>
+          <Link href="/account/notifications" className="text-sm text-primary hover:underline">
+            ← Back to notifications
+          </Link>
+          <CardTitle className="text-2xl">Notification Settings</CardTitle>
+          <CardDescription>
+            Choose how you hear about each kind of event. In-app notifications show up in the bell and as a pop-up;
+            the email digest collects them into one email a day.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {types.length === 0 ? (
+            <p className="text-sm text-muted-foreground">There are no notifications to configure for your account.</p>
+          ) : (
+            <NotificationPreferencesForm types={types} initialPreferences={preferences} />
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
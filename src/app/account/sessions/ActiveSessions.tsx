@@ -0,0 +1,109 @@
+"use client"
+
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import LogoutButton from "@/features/auth/components/LogoutButton";
+import { revokeOtherSessionsAction, revokeSessionAction } from "@/features/auth/server/session.action";
+import { Monitor } from "lucide-react";
+import { useTransition } from "react";
+import { toast } from "sonner";
+
+export interface SessionListItem {
+  id: string;
+  browser: string;
+  os: string;
+  ipAddress: string;
+  createdAt: string;
+  lastSeenAt: string;
+  isCurrent: boolean;
+}
+
+const formatDate = (value: string) => new Date(value).toLocaleString();
+
+const ActiveSessions = ({ sessions }: { sessions: SessionListItem[] }) => {
+  const [isPending, startTransition] = useTransition();
+
+  const handleRevoke = (sessionId: string) => {
+    startTransition(async () => {
+      const result = await revokeSessionAction(sessionId);
+
+      if (result.status === "SUCCESS") toast.success(result.message);
+      else toast.error(result.message);
+    });
+  };
+
+  const handleRevokeOthers = () => {
+    startTransition(async () => {
+      const result = await revokeOtherSessionsAction();
+
+      if (result.status === "SUCCESS") toast.success(result.message);
+      else toast.error(result.message);
+    });
+  };
+
+  const hasOtherSessions = sessions.some((session) => !session.isCurrent);
+
+  return (
+    <div className="min-h-screen bg-background p-8">
+      <Card className="mx-auto w-full max-w-3xl">
+        <CardHeader>
+          <CardTitle className="text-2xl">Active Sessions</CardTitle>
+          <CardDescription>
+            These devices are currently signed in to your account. Revoke any session you don&apos;t recognise.
+          </CardDescription>
+        </CardHeader>
+
+        <CardContent className="space-y-4">
+          {sessions.map((session) => (
+            <div key={session.id} className="flex items-start justify-between gap-4 rounded-md border p-4">
+              <div className="flex gap-3">
+                <Monitor className="w-5 h-5 mt-1 text-muted-foreground" />
+                <div className="space-y-1">
+                  <p className="font-medium">
+                    {session.browser} on {session.os}
+                    {session.isCurrent && (
+                      <span className="ml-2 rounded-full bg-primary px-2 py-0.5 text-xs text-primary-foreground">
+                        This device
+                      </span>
+                    )}
+                  </p>
+                  <p className="text-sm text-muted-foreground">IP address: {session.ipAddress}</p>
+                  <p className="text-sm text-muted-foreground">Signed in: {formatDate(session.createdAt)}</p>
+                  <p className="text-sm text-muted-foreground">Last seen: {formatDate(session.lastSeenAt)}</p>
+                </div>
+              </div>
+
+              {session.isCurrent ? (
+                <LogoutButton />
+              ) : (
+                <Button
+                  type="button"
+                  variant="destructive"
+                  size="sm"
+                  disabled={isPending}
+                  onClick={() => handleRevoke(session.id)}
+                >
+                  Revoke
+                </Button>
+              )}
+            </div>
+          ))}
+
+          {hasOtherSessions && (
+            <Button
+              type="button"
+              variant="destructive"
+              className="w-full"
+              disabled={isPending}
+              onClick={handleRevokeOthers}
+            >
+              Sign out everywhere else
+            </Button>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default ActiveSessions;
@@ -0,0 +1,23 @@
+import { getCurrentSession, getUserActiveSessions } from "@/features/auth/server/auth.queries";
+import { parseUserAgent } from "@/lib/userAgent";
+import { redirect } from "next/navigation";
+import ActiveSessions from "./ActiveSessions";
+
+export default async function SessionsPage() {
+  const current = await getCurrentSession();
+
+  if (!current) redirect("/login");
+
+  const activeSessions = await getUserActiveSessions(current.user.id);
+
+  const sessionList = activeSessions.map((session) => ({
+    id: session.id,
+    ...parseUserAgent(session.userAgent),
+    ipAddress: session.ipAddress,
+    createdAt: session.createdAt.toISOString(),
+    lastSeenAt: session.lastSeenAt.toISOString(),
+    isCurrent: session.id === current.session.id,
+  }));
+
+  return <ActiveSessions sessions={sessionList} />;
+}
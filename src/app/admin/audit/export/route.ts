@@ -0,0 +1,69 @@
+import { getAuditFilterQuery, parseAuditEventSearchParams } from "@/features/audit/audit.schema";
+import { recordAuditEvent } from "@/features/audit/server/audit";
+import { getAuditEventsForExport } from "@/features/audit/server/audit.queries";
+import { getAuthorizedUser, getCurrentUser } from "@/features/auth/server/auth.queries";
+import { toCsvRow } from "@/lib/csv";
+import { NextRequest, NextResponse } from "next/server";
+
+const CSV_HEADER = [
+  "id",
+  "created_at",
+  "type",
+  "actor_id",
+  "actor_email",
+  "target_user_id",
+  "target_email",
+  "ip_address",
+  "user_agent",
+  "metadata",
+];
+
+//* The proxy already turns non-admins away from /admin; like requireRole() in pages, this is the second check.
+export async function GET(request: NextRequest) {
+  const user = await getCurrentUser();
+
+  if (!user) return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+
+  if (!(await getAuthorizedUser("admin"))) {
+    return NextResponse.json({ message: "Forbidden" }, { status: 403 });
+  }
+
+  const params = parseAuditEventSearchParams(Object.fromEntries(request.nextUrl.searchParams));
+  const events = await getAuditEventsForExport(params);
+
+  const csv =
+    toCsvRow(CSV_HEADER) +
+    events
+      .map((event) =>
+        toCsvRow([
+          event.id,
+          event.createdAt,
+          event.type,
+          event.actorId,
+          event.actorEmail,
+          event.targetUserId,
+          event.targetEmail,
+          event.ipAddress,
+          event.userAgent,
+          JSON.stringify(event.metadata),
+        ]),
+      )
+      .join("");
+
+  // exporting the trail is itself part of the trail
+  await recordAuditEvent({
+    type: "admin.audit_exported",
+    actorId: user.id,
+    metadata: { filters: getAuditFilterQuery(params) || null, rows: events.length },
+  });
+
+  const date = new Date().toISOString().slice(0, 10);
+
+  return new NextResponse(csv, {
+    headers: {
+      "Content-Type": "text/csv; charset=utf-8",
+      "Content-Disposition": `attachment; filename="audit-log-${date}.csv"`,
+      "Cache-Control": "private, no-store",
+    },
+  });
+}
@@ -0,0 +1,118 @@
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { AUDIT_EVENT_LABELS } from "@/features/audit/audit.constants";
+import { getAuditFilterQuery, parseAuditEventSearchParams } from "@/features/audit/audit.schema";
+import AuditEventFilters from "@/features/audit/components/AuditEventFilters";
+import { getAuditEvents } from "@/features/audit/server/audit.queries";
+import { requireRole } from "@/features/auth/server/auth.queries";
+import { Download } from "lucide-react";
+import Link from "next/link";
+
+export const dynamic = "force-dynamic";
+
+const formatUser = (id: number | null, email: string | null) => {
+  if (id === null) return "—";
+  return email ?? `#${id}`;
+};
+
+export default async function AuditLogPage({
+  searchParams,
+}: {
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+}) {
+  await requireRole("admin");
+
+  const params = parseAuditEventSearchParams(await searchParams);
+  const { events, nextBefore } = await getAuditEvents(params);
+
+  const filterQuery = getAuditFilterQuery(params);
+  const withFilters = (path: string, extra?: string) => {
+    const query = [filterQuery, extra].filter(Boolean).join("&");
+    return query ? `${path}?${query}` : path;
+  };
+
+  return (
+    <div className="min-h-screen bg-background p-8">
+      <Card className="mx-auto w-full max-w-6xl">
+        <CardHeader>
+          <Link href="/admin" className="text-sm text-primary hover:underline">
+            ← Back to dashboard
+          </Link>
+          <CardTitle className="text-2xl">Audit Log</CardTitle>
+          <CardDescription>Sign-ins, password changes, role changes and admin actions, newest first.</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <AuditEventFilters params={params} />
+
+          <Button asChild variant="outline" size="sm">
+            <a href={withFilters("/admin/audit/export")}>
+              <Download className="w-4 h-4" />
+              Export CSV
+            </a>
+          </Button>
+
+          {events.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No events match these filters.</p>
+          ) : (
+            <div className="overflow-x-auto rounded-md border">
+              <table className="w-full text-sm">
+                <thead className="bg-muted/50 text-left text-muted-foreground">
+                  <tr>
+                    <th className="px-4 py-2 font-medium">When</th>
+                    <th className="px-4 py-2 font-medium">Event</th>
+                    <th className="px-4 py-2 font-medium">Actor</th>
+                    <th className="px-4 py-2 font-medium">Target</th>
+                    <th className="px-4 py-2 font-medium">IP / device</th>
+                    <th className="px-4 py-2 font-medium">Details</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {events.map((event) => (
+                    <tr key={event.id} className="border-t align-top">
+                      <td className="whitespace-nowrap px-4 py-3 text-muted-foreground">
+                        {event.createdAt.toLocaleString()}
+                      </td>
+                      <td className="px-4 py-3 font-medium">{AUDIT_EVENT_LABELS[event.type]}</td>
+                      <td className="px-4 py-3">{formatUser(event.actorId, event.actorEmail)}</td>
+                      <td className="px-4 py-3">{formatUser(event.targetUserId, event.targetEmail)}</td>
+                      <td className="px-4 py-3">
+                        <p>{event.ipAddress}</p>
+                        <p className="max-w-56 truncate text-xs text-muted-foreground" title={event.userAgent}>
+                          {event.userAgent || "Unknown device"}
+                        </p>
+                      </td>
+                      <td className="px-4 py-3 text-xs text-muted-foreground">
+                        {Object.entries(event.metadata).map(([key, value]) => (
+                          <p key={key}>
+                            {key}: {String(value)}
+                          </p>
+                        ))}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          {(params.before || nextBefore) && (
+            <div className="flex justify-between">
+              {params.before ? (
+                <Button asChild variant="outline">
+                  <Link href={withFilters("/admin/audit")}>← Newest</Link>
+                </Button>
+              ) : (
+                <span />
+              )}
+              {nextBefore && (
+                <Button asChild variant="outline">
+                  <Link href={withFilters("/admin/audit", `before=${nextBefore}`)}>Older →</Link>
+                </Button>
+              )}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
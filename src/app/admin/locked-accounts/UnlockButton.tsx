@@ -0,0 +1,27 @@
+"use client"
+
+import { Button } from "@/components/ui/button";
+import { unlockLoginAction } from "@/features/admin/server/admin.action";
+import { useTransition } from "react";
+import { toast } from "sonner";
+
+const UnlockButton = ({ lockKey }: { lockKey: string }) => {
+  const [isPending, startTransition] = useTransition();
+
+  const handleUnlock = () => {
+    startTransition(async () => {
+      const result = await unlockLoginAction(lockKey);
+
+      if (result.status === "SUCCESS") toast.success(result.message);
+      else toast.error(result.message);
+    });
+  };
+
+  return (
+    <Button type="button" variant="outline" size="sm" disabled={isPending} onClick={handleUnlock}>
+      Unlock
+    </Button>
+  );
+};
+
+export default UnlockButton;
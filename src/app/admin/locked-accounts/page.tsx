@@ -0,0 +1,50 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { requireRole } from "@/features/auth/server/auth.queries";
+import { getLockedLogins } from "@/features/auth/server/use-cases/loginThrottle";
+import Link from "next/link";
+import UnlockButton from "./UnlockButton";
+
+export const dynamic = "force-dynamic";
+
+export default async function LockedAccountsPage() {
+  await requireRole("admin");
+
+  const lockedLogins = await getLockedLogins();
+
+  return (
+    <div className="min-h-screen bg-background p-8">
+      <Card className="mx-auto w-full max-w-3xl">
+        <CardHeader>
+          <Link href="/admin" className="text-sm text-primary hover:underline">
+            ← Back to dashboard
+          </Link>
+          <CardTitle className="text-2xl">Locked Logins</CardTitle>
+          <CardDescription>
+            Accounts and IP addresses that are temporarily blocked after repeated failed sign-in attempts.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {lockedLogins.length === 0 && (
+            <p className="text-sm text-muted-foreground">Nothing is locked right now.</p>
+          )}
+          {lockedLogins.map((entry) => (
+            <div key={entry.key} className="flex items-center justify-between gap-4 rounded-md border p-4">
+              <div className="space-y-1">
+                <p className="font-medium">
+                  {entry.subject}
+                  <span className="ml-2 rounded-full bg-muted px-2 py-0.5 text-xs text-muted-foreground">
+                    {entry.type === "account" ? "Account" : "IP address"}
+                  </span>
+                </p>
+                <p className="text-sm text-muted-foreground">
+                  {entry.count} failed attempts · locked until {entry.lockedUntil?.toLocaleString()}
+                </p>
+              </div>
+              <UnlockButton lockKey={entry.key} />
+            </div>
+          ))}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
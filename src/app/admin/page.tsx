@@ -0,0 +1,44 @@
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import AccountLinks from "@/features/auth/components/AccountLinks";
+import { requireRole } from "@/features/auth/server/auth.queries";
+import { LockKeyhole, ScrollText, Users } from "lucide-react";
+import Link from "next/link";
+
+export default async function AdminDashboardPage() {
+  const user = await requireRole("admin");
+
+  return (
+    <div className="min-h-screen bg-background p-8">
+      <Card className="mx-auto w-full max-w-3xl">
+        <CardHeader>
+          <CardTitle className="text-2xl">Admin Dashboard</CardTitle>
+          <CardDescription>Welcome back, {user.name}. Manage users and keep the portal healthy.</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex flex-wrap gap-2">
+            <Button asChild variant="outline">
+              <Link href="/admin/users">
+                <Users className="w-4 h-4" />
+                Users
+              </Link>
+            </Button>
+            <Button asChild variant="outline">
+              <Link href="/admin/locked-accounts">
+                <LockKeyhole className="w-4 h-4" />
+                Locked Logins
+              </Link>
+            </Button>
+            <Button asChild variant="outline">
+              <Link href="/admin/audit">
+                <ScrollText className="w-4 h-4" />
+                Audit Log
+              </Link>
+            </Button>
+          </div>
+          <AccountLinks />
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,91 @@
+"use client"
+
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { USER_ROLE_LABELS } from "@/features/admin/admin.constants";
+import {
+  forceLogoutUserAction,
+  restoreUserAction,
+  suspendUserAction,
+  updateUserRoleAction,
+} from "@/features/admin/server/admin.action";
+import { UserRole } from "@/features/auth/auth.constants";
+import { useTransition } from "react";
+import { toast } from "sonner";
+
+const UserActions = ({
+  userId,
+  userName,
+  role,
+  isSuspended,
+  activeSessions,
+}: {
+  userId: number;
+  userName: string;
+  role: UserRole;
+  isSuspended: boolean;
+  activeSessions: number;
+}) => {
+  const [isPending, startTransition] = useTransition();
+
+  const runAction = (action: () => Promise<{ status: string; message: string }>) => {
+    startTransition(async () => {
+      const result = await action();
+
+      if (result.status === "SUCCESS") toast.success(result.message);
+      else toast.error(result.message);
+    });
+  };
+
+  const handleRoleChange = (value: string) => {
+    if (!window.confirm(`Make @${userName} ${USER_ROLE_LABELS[value as UserRole].toLowerCase()}?`)) return;
+    runAction(() => updateUserRoleAction({ userId, role: value as UserRole }));
+  };
+
+  const handleSuspend = () => {
+    if (!window.confirm(`Suspend @${userName}? They will be signed out and can't sign in until restored.`)) return;
+    runAction(() => suspendUserAction(userId));
+  };
+
+  const handleForceLogout = () => {
+    if (!window.confirm(`Sign @${userName} out of every device?`)) return;
+    runAction(() => forceLogoutUserAction(userId));
+  };
+
+  return (
+    <div className="flex flex-wrap justify-end gap-2">
+      <Select value={role} disabled={isPending} onValueChange={handleRoleChange}>
+        <SelectTrigger size="sm" className="w-32" aria-label="Role">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {Object.entries(USER_ROLE_LABELS).map(([value, label]) => (
+            <SelectItem key={value} value={value}>{label}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      {activeSessions > 0 && (
+        <Button type="button" variant="outline" size="sm" disabled={isPending} onClick={handleForceLogout}>
+          Sign out
+        </Button>
+      )}
+      {isSuspended ? (
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          disabled={isPending}
+          onClick={() => runAction(() => restoreUserAction(userId))}
+        >
+          Restore
+        </Button>
+      ) : (
+        <Button type="button" variant="destructive" size="sm" disabled={isPending} onClick={handleSuspend}>
+          Suspend
+        </Button>
+      )}
+    </div>
+  );
+};
+
+export default UserActions;
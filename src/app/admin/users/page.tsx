@@ -0,0 +1,143 @@
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { getUserStatus, USER_ROLE_LABELS, USER_STATUS_LABELS } from "@/features/admin/admin.constants";
+import { parseAdminUserSearchParams } from "@/features/admin/admin.schema";
+import UserSearchFilters from "@/features/admin/components/UserSearchFilters";
+import { getAdminUsers } from "@/features/admin/server/admin.queries";
+import { requireRole } from "@/features/auth/server/auth.queries";
+import { cn } from "@/lib/utils";
+import Link from "next/link";
+import UserActions from "./UserActions";
+
+export const dynamic = "force-dynamic";
+
+export default async function AdminUsersPage({
+  searchParams,
+}: {
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+}) {
+  const admin = await requireRole("admin");
+
+  const params = parseAdminUserSearchParams(await searchParams);
+  const { users, total, page, pageCount } = await getAdminUsers(params);
+
+  //* Keep every active filter in the pagination links, swapping only the page.
+  const buildPageHref = (targetPage: number) => {
+    const query = new URLSearchParams();
+    for (const [key, value] of Object.entries({ ...params, page: targetPage > 1 ? targetPage : undefined })) {
+      if (value !== undefined && value !== "") query.set(key, String(value));
+    }
+    const queryString = query.toString();
+    return queryString ? `/admin/users?${queryString}` : "/admin/users";
+  };
+
+  return (
+    <div className="min-h-screen bg-background p-8">
+      <Card className="mx-auto w-full max-w-6xl">
+        <CardHeader>
+          <Link href="/admin" className="text-sm text-primary hover:underline">
+            ← Back to dashboard
+          </Link>
+          <CardTitle className="text-2xl">Users</CardTitle>
+          <CardDescription>
+            Search accounts, change roles, sign users out and suspend or restore them. {total} matching{" "}
+            {total === 1 ? "user" : "users"}.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <UserSearchFilters params={params} />
+
+          {users.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No users match these filters.</p>
+          ) : (
+            <div className="overflow-x-auto rounded-md border">
+              <table className="w-full text-sm">
+                <thead className="bg-muted/50 text-left text-muted-foreground">
+                  <tr>
+                    <th className="px-4 py-2 font-medium">User</th>
+                    <th className="px-4 py-2 font-medium">Status</th>
+                    <th className="px-4 py-2 font-medium">Joined</th>
+                    <th className="px-4 py-2 font-medium">Sessions</th>
+                    <th className="px-4 py-2 font-medium text-right">Actions</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {users.map((user) => {
+                    const status = getUserStatus(user);
+                    const role = user.role ?? "applicant";
+
+                    return (
+                      <tr key={user.id} className="border-t align-top">
+                        <td className="px-4 py-3">
+                          <p className="font-medium">
+                            {user.name}
+                            {user.id === admin.id && <span className="ml-2 text-xs text-muted-foreground">(you)</span>}
+                          </p>
+                          <p className="text-muted-foreground">@{user.userName} · {user.email}</p>
+                        </td>
+                        <td className="px-4 py-3">
+                          <span
+                            className={cn(
+                              "rounded-full px-2 py-0.5 text-xs",
+                              status === "suspended"
+                                ? "bg-destructive/10 text-destructive"
+                                : "bg-muted text-muted-foreground",
+                            )}
+                          >
+                            {USER_STATUS_LABELS[status]}
+                          </span>
+                          {user.deletedAt && (
+                            <p className="mt-1 text-xs text-muted-foreground">
+                              since {user.deletedAt.toLocaleDateString()}
+                            </p>
+                          )}
+                        </td>
+                        <td className="px-4 py-3 text-muted-foreground">{user.createdAt.toLocaleDateString()}</td>
+                        <td className="px-4 py-3 text-muted-foreground">{user.activeSessions}</td>
+                        <td className="px-4 py-3">
+                          {user.id === admin.id ? (
+                            <p className="text-right text-muted-foreground">{USER_ROLE_LABELS[role]}</p>
+                          ) : (
+                            <UserActions
+                              userId={user.id}
+                              userName={user.userName}
+                              role={role}
+                              isSuspended={status === "suspended"}
+                              activeSessions={user.activeSessions}
+                            />
+                          )}
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          {pageCount > 1 && (
+            <div className="flex items-center justify-between">
+              {page > 1 ? (
+                <Button asChild variant="outline">
+                  <Link href={buildPageHref(page - 1)}>← Previous</Link>
+                </Button>
+              ) : (
+                <span />
+              )}
+              <p className="text-sm text-muted-foreground">
+                Page {page} of {pageCount}
+              </p>
+              {page < pageCount ? (
+                <Button asChild variant="outline">
+                  <Link href={buildPageHref(page + 1)}>Next →</Link>
+                </Button>
+              ) : (
+                <span />
+              )}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,17 @@
+import { unsubscribeFromJobAlert } from "@/features/savedSearches/server/use-cases/jobAlerts";
+import { NextRequest, NextResponse } from "next/server";
+
+//* POST only: link scanners and prefetchers issue GETs, so opening the email link alone never unsubscribes.
+//* Mail clients that support List-Unsubscribe-Post call this directly; everyone else submits the form on
+//* /alerts/unsubscribe.
+export async function POST(request: NextRequest) {
+  const token = request.nextUrl.searchParams.get("token");
+
+  const savedSearch = token ? await unsubscribeFromJobAlert(token) : null;
+
+  const redirectUrl = new URL("/alerts/unsubscribe", request.url);
+  redirectUrl.searchParams.set("status", savedSearch ? "unsubscribed" : "invalid");
+
+  // 303 so the browser follows up with a GET instead of re-posting
+  return NextResponse.redirect(redirectUrl, 303);
+}
@@ -0,0 +1,67 @@
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { findSavedSearchByUnsubscribeToken } from "@/features/savedSearches/server/savedSearches.queries";
+import { BellOff } from "lucide-react";
+import Link from "next/link";
+
+//* Works without signing in: the token in the link is the only credential, and it can only turn alerts off.
+export default async function UnsubscribePage({
+  searchParams,
+}: {
+  searchParams: Promise<{ token?: string; status?: string }>;
+}) {
+  const { token, status } = await searchParams;
+  const savedSearch = token ? await findSavedSearchByUnsubscribeToken(token) : null;
+
+  const renderMessage = (title: string, description: string) => (
+    <Card className="w-full max-w-md text-center">
+      <CardHeader>
+        <div className="mx-auto w-20 h-20 bg-primary rounded-full flex items-center justify-center mb-4">
+          <BellOff className="text-primary-foreground w-8 h-8" />
+        </div>
+        <CardTitle>{title}</CardTitle>
+        <CardDescription>{description}</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <Button asChild variant="outline" className="w-full">
+          <Link href="/dashboard/saved">Manage saved searches</Link>
+        </Button>
+      </CardContent>
+    </Card>
+  );
+
+  let content;
+  if (status === "unsubscribed") {
+    content = renderMessage(
+      "You're unsubscribed",
+      "You won't get emails for this search any more. The search itself is still saved.",
+    );
+  } else if (!savedSearch) {
+    content = renderMessage("Invalid link", "This unsubscribe link is invalid. You can manage your alerts from your account.");
+  } else if (savedSearch.frequency === "off") {
+    content = renderMessage("Already unsubscribed", `Alerts for "${savedSearch.name}" are already turned off.`);
+  } else {
+    content = (
+      <Card className="w-full max-w-md text-center">
+        <CardHeader>
+          <div className="mx-auto w-20 h-20 bg-primary rounded-full flex items-center justify-center mb-4">
+            <BellOff className="text-primary-foreground w-8 h-8" />
+          </div>
+          <CardTitle>Unsubscribe from job alerts?</CardTitle>
+          <CardDescription>
+            You&apos;ll stop getting emails for your saved search &quot;{savedSearch.name}&quot;.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form method="post" action={`/alerts/unsubscribe/confirm?token=${encodeURIComponent(token ?? "")}`}>
+            <Button type="submit" className="w-full">
+              Unsubscribe
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return <div className="flex justify-center items-center min-h-screen bg-background">{content}</div>;
+}
@@ -0,0 +1,46 @@
+import { parseApiId } from "@/features/api/server/apiHandler";
+import { getAuthorizedUser } from "@/features/auth/server/auth.queries";
+import {
+  getConversationAccess,
+  getConversationMessages,
+  getMessagingBlocks,
+  getOtherPartyLastReadId,
+} from "@/features/messaging/server/messaging.queries";
+import { NextRequest, NextResponse } from "next/server";
+
+//* Polled by an open conversation: returns messages after ?after=<id> plus the state that can change
+//* underneath the page (read receipts, archiving, blocks).
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ applicationId: string }> },
+) {
+  const { applicationId } = await params;
+  const user = await getAuthorizedUser();
+
+  if (!user) return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+
+  const id = parseApiId(applicationId);
+  const access = id ? await getConversationAccess({ applicationId: id, user }) : null;
+
+  if (!access) return NextResponse.json({ message: "Not Found" }, { status: 404 });
+
+  const afterId = Number(request.nextUrl.searchParams.get("after") ?? 0);
+
+  if (!Number.isSafeInteger(afterId) || afterId < 0) {
+    return NextResponse.json({ message: "Bad Request" }, { status: 400 });
+  }
+  const { conversationId } = access.thread;
+
+  const [messages, otherPartyLastReadId, blockedBy] = await Promise.all([
+    conversationId ? getConversationMessages({ conversationId, viewerId: user.id, afterId }) : [],
+    conversationId
+      ? getOtherPartyLastReadId({ conversationId, applicantId: access.thread.applicantId, party: access.party })
+      : 0,
+    getMessagingBlocks({ applicantId: access.thread.applicantId, companyId: access.thread.companyId }),
+  ]);
+
+  return NextResponse.json(
+    { messages, otherPartyLastReadId, isArchived: access.isArchived, blockedBy },
+    { headers: { "Cache-Control": "private, no-store" } },
+  );
+}
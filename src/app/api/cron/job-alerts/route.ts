@@ -0,0 +1,14 @@
+import { runJobAlertDigests } from "@/features/savedSearches/server/use-cases/jobAlerts";
+import { authorizeCronRequest } from "@/lib/cron";
+import { NextRequest, NextResponse } from "next/server";
+
+//* Running it more often than daily is fine: only searches whose interval has passed are sent.
+export async function GET(request: NextRequest) {
+  const denied = authorizeCronRequest(request);
+
+  if (denied) return denied;
+
+  const result = await runJobAlertDigests();
+
+  return NextResponse.json(result);
+}
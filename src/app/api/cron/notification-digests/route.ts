@@ -0,0 +1,14 @@
+import { runNotificationDigests } from "@/features/notifications/server/use-cases/notificationDigests";
+import { authorizeCronRequest } from "@/lib/cron";
+import { NextRequest, NextResponse } from "next/server";
+
+//* Meant to run once a day: every run sends whatever has piled up since the previous one.
+export async function GET(request: NextRequest) {
+  const denied = authorizeCronRequest(request);
+
+  if (denied) return denied;
+
+  const result = await runNotificationDigests();
+
+  return NextResponse.json(result);
+}
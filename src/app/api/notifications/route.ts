@@ -0,0 +1,26 @@
+import { getAuthorizedUser } from "@/features/auth/server/auth.queries";
+import {
+  getRecentNotifications,
+  getUnreadNotificationCount,
+} from "@/features/notifications/server/notifications.queries";
+import { NextRequest, NextResponse } from "next/server";
+
+const RECENT_LIMIT = 10;
+
+//* With ?after=<id>: notifications newer than that id (the live poller). Without it: the latest few
+//* (the bell dropdown). Both include the unread count for the badge, and the user id so the poller notices
+//* when a different account signs in within the same tab.
+export async function GET(request: NextRequest) {
+  const user = await getAuthorizedUser();
+
+  if (!user) return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+
+  const afterId = Number(request.nextUrl.searchParams.get("after")) || undefined;
+
+  const [notifications, unreadCount] = await Promise.all([
+    getRecentNotifications({ userId: user.id, afterId, limit: RECENT_LIMIT }),
+    getUnreadNotificationCount(user.id),
+  ]);
+
+  return NextResponse.json({ userId: user.id, notifications, unreadCount }, { headers: { "Cache-Control": "private, no-store" } });
+}
@@ -0,0 +1,11 @@
+import { getApiApplication } from "@/features/api/server/api.queries";
+import { apiJson, apiNotFound, parseApiId, withApiKey } from "@/features/api/server/apiHandler";
+
+export const GET = withApiKey<{ applicationId: string }>("applications:read", async (_request, { apiKey, params }) => {
+  const applicationId = parseApiId(params.applicationId);
+  const application = applicationId ? await getApiApplication({ applicationId, companyId: apiKey.companyId }) : null;
+
+  if (!application) return apiNotFound("Application not found");
+
+  return apiJson({ data: application });
+});
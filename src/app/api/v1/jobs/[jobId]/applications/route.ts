@@ -0,0 +1,30 @@
+import { apiApplicationListQuerySchema } from "@/features/api/api.schema";
+import { getApiJobApplications } from "@/features/api/server/api.queries";
+import {
+  apiInvalidCursor,
+  apiJson,
+  apiNotFound,
+  apiValidationError,
+  decodeApiCursor,
+  parseApiId,
+  parseApiQuery,
+  withApiKey,
+} from "@/features/api/server/apiHandler";
+import { getCompanyJobById } from "@/features/jobs/server/jobs.queries";
+
+export const GET = withApiKey<{ jobId: string }>("applications:read", async (request, { apiKey, params }) => {
+  const jobId = parseApiId(params.jobId);
+  const job = jobId ? await getCompanyJobById({ jobId, companyId: apiKey.companyId }) : null;
+
+  if (!job) return apiNotFound("Job not found");
+
+  const { data: query, error } = parseApiQuery(request, apiApplicationListQuerySchema);
+
+  if (error) return apiValidationError(error);
+
+  const beforeId = query.cursor ? decodeApiCursor(query.cursor) : undefined;
+
+  if (beforeId === null) return apiInvalidCursor();
+
+  return apiJson(await getApiJobApplications({ jobId: job.id, status: query.status, beforeId, limit: query.limit }));
+});
@@ -0,0 +1,20 @@
+import { toApiJob } from "@/features/api/server/api.queries";
+import { apiError, apiJson, apiNotFound, parseApiId, withApiKey } from "@/features/api/server/apiHandler";
+import { getCompanyJobById } from "@/features/jobs/server/jobs.queries";
+import { closeJob } from "@/features/jobs/server/use-cases/jobPostings";
+
+//* Closing is its own endpoint (like the dashboard action) because it notifies the open applicants.
+export const POST = withApiKey<{ jobId: string }>("jobs:write", async (_request, { apiKey, params }) => {
+  const jobId = parseApiId(params.jobId);
+  const job = jobId ? await getCompanyJobById({ jobId, companyId: apiKey.companyId }) : null;
+
+  if (!job) return apiNotFound("Job not found");
+
+  if (job.status === "closed") return apiError(409, "conflict", "Job is already closed");
+
+  await closeJob(job);
+
+  const closed = await getCompanyJobById({ jobId: job.id, companyId: apiKey.companyId });
+
+  return apiJson({ data: closed && toApiJob(closed) });
+});
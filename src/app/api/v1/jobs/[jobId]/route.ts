@@ -0,0 +1,76 @@
+import { toApiJob } from "@/features/api/server/api.queries";
+import {
+  apiError,
+  apiJson,
+  apiNotFound,
+  apiValidationError,
+  parseApiId,
+  readJsonBody,
+  withApiKey,
+} from "@/features/api/server/apiHandler";
+import { JobInput, jobSchema } from "@/features/jobs/jobs.schema";
+import { getCompanyJobById, Job } from "@/features/jobs/server/jobs.queries";
+import { deleteJob, updateJob } from "@/features/jobs/server/use-cases/jobPostings";
+import { NextResponse } from "next/server";
+
+type Params = { jobId: string };
+
+const findJob = async (jobId: string, companyId: number) => {
+  const id = parseApiId(jobId);
+  return id ? getCompanyJobById({ jobId: id, companyId }) : null;
+};
+
+//* The editable fields of a stored job, in the shape jobSchema accepts.
+const toJobInput = (job: Job): JobInput => ({
+  title: job.title,
+  description: job.description,
+  employmentType: job.employmentType,
+  workMode: job.workMode,
+  location: job.location ?? "",
+  salaryMin: job.salaryMin,
+  salaryMax: job.salaryMax,
+  salaryCurrency: job.salaryCurrency as JobInput["salaryCurrency"],
+  experienceLevel: job.experienceLevel,
+  skills: job.skills,
+  status: job.status === "published" ? "published" : "draft",
+});
+
+export const GET = withApiKey<Params>("jobs:read", async (_request, { apiKey, params }) => {
+  const job = await findJob(params.jobId, apiKey.companyId);
+
+  if (!job) return apiNotFound("Job not found");
+
+  return apiJson({ data: toApiJob(job) });
+});
+
+//* Partial update: the body is merged over the current job and the result is validated as a whole,
+//* so cross-field rules (salary range, location for on-site jobs) still hold.
+export const PATCH = withApiKey<Params>("jobs:write", async (request, { apiKey, params }) => {
+  const job = await findJob(params.jobId, apiKey.companyId);
+
+  if (!job) return apiNotFound("Job not found");
+
+  if (job.status === "closed") return apiError(409, "conflict", "Closed jobs cannot be edited");
+
+  const { body, error: bodyError } = await readJsonBody(request);
+
+  if (bodyError) return bodyError;
+
+  const { data: validatedData, error } = jobSchema.safeParse({ ...toJobInput(job), ...body });
+
+  if (error) return apiValidationError(error);
+
+  await updateJob({ job, data: validatedData });
+
+  const updated = await getCompanyJobById({ jobId: job.id, companyId: apiKey.companyId });
+
+  return apiJson({ data: updated && toApiJob(updated) });
+});
+
+export const DELETE = withApiKey<Params>("jobs:write", async (_request, { apiKey, params }) => {
+  const jobId = parseApiId(params.jobId);
+
+  if (!jobId || !(await deleteJob({ jobId, companyId: apiKey.companyId }))) return apiNotFound("Job not found");
+
+  return new NextResponse(null, { status: 204 });
+});
@@ -0,0 +1,42 @@
+import { apiJobListQuerySchema } from "@/features/api/api.schema";
+import { getApiJobs, toApiJob } from "@/features/api/server/api.queries";
+import {
+  apiInvalidCursor,
+  apiJson,
+  apiValidationError,
+  decodeApiCursor,
+  parseApiQuery,
+  readJsonBody,
+  withApiKey,
+} from "@/features/api/server/apiHandler";
+import { jobSchema } from "@/features/jobs/jobs.schema";
+import { getCompanyJobById } from "@/features/jobs/server/jobs.queries";
+import { createJob } from "@/features/jobs/server/use-cases/jobPostings";
+
+export const GET = withApiKey("jobs:read", async (request, { apiKey }) => {
+  const { data: query, error } = parseApiQuery(request, apiJobListQuerySchema);
+
+  if (error) return apiValidationError(error);
+
+  const beforeId = query.cursor ? decodeApiCursor(query.cursor) : undefined;
+
+  if (beforeId === null) return apiInvalidCursor();
+
+  return apiJson(await getApiJobs({ companyId: apiKey.companyId, status: query.status, beforeId, limit: query.limit }));
+});
+
+//* Posted on behalf of the member who created the key.
+export const POST = withApiKey("jobs:write", async (request, { apiKey }) => {
+  const { body, error: bodyError } = await readJsonBody(request);
+
+  if (bodyError) return bodyError;
+
+  const { data: validatedData, error } = jobSchema.safeParse(body);
+
+  if (error) return apiValidationError(error);
+
+  const jobId = await createJob({ data: validatedData, companyId: apiKey.companyId, employerId: apiKey.createdBy });
+  const job = await getCompanyJobById({ jobId, companyId: apiKey.companyId });
+
+  return apiJson({ data: job && toApiJob(job) }, 201);
+});
@@ -0,0 +1,7 @@
+import { buildOpenApiDocument } from "@/features/api/server/openapi";
+import { NextResponse } from "next/server";
+
+//* Public, so API clients and doc viewers can load it without a key.
+export async function GET() {
+  return NextResponse.json(buildOpenApiDocument(), { headers: { "Cache-Control": "public, max-age=3600" } });
+}
@@ -0,0 +1,15 @@
+import { completeOidcFlow } from "@/features/auth/server/use-cases/oidc";
+import { NextRequest, NextResponse } from "next/server";
+
+//* The redirect URI registered with every provider.
+export async function GET(request: NextRequest, { params }: { params: Promise<{ provider: string }> }) {
+  const { provider } = await params;
+
+  try {
+    const redirectTo = await completeOidcFlow({ providerId: provider, searchParams: request.nextUrl.searchParams });
+    return NextResponse.redirect(new URL(redirectTo, request.url));
+  } catch (error) {
+    console.error("OIDC Callback Error:", error);
+    return NextResponse.redirect(new URL("/login?error=failed", request.url));
+  }
+}
@@ -0,0 +1,31 @@
+import { getAuthorizedUser } from "@/features/auth/server/auth.queries";
+import { startOidcFlow } from "@/features/auth/server/use-cases/oidc";
+import { getOidcProvider } from "@/features/auth/server/use-cases/oidcProviders";
+import { NextRequest, NextResponse } from "next/server";
+
+//* Sends the browser to the provider. ?intent=link connects the provider to the signed-in user instead
+//* of signing in.
+export async function GET(request: NextRequest, { params }: { params: Promise<{ provider: string }> }) {
+  const { provider: providerId } = await params;
+  const provider = getOidcProvider(providerId);
+
+  if (!provider) return NextResponse.redirect(new URL("/login?error=unavailable", request.url));
+
+  const isLink = request.nextUrl.searchParams.get("intent") === "link";
+  const user = isLink ? await getAuthorizedUser() : null;
+
+  if (isLink && !user) return NextResponse.redirect(new URL("/login", request.url));
+
+  try {
+    const authorizationUrl = await startOidcFlow({
+      provider,
+      intent: isLink ? "link" : "login",
+      userId: user?.id ?? null,
+    });
+
+    return NextResponse.redirect(authorizationUrl);
+  } catch (error) {
+    console.error("OIDC Start Error:", error);
+    return NextResponse.redirect(new URL("/login?error=unavailable", request.url));
+  }
+}
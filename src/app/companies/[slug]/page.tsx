@@ -0,0 +1,122 @@
+import SiteHeader from "@/components/layout/SiteHeader";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { COMPANY_SIZE_LABELS } from "@/features/companies/companies.constants";
+import { getCompanyBySlug, getCompanyOpenJobs } from "@/features/companies/server/companies.queries";
+import {
+  EMPLOYMENT_TYPE_LABELS,
+  formatSalaryRange,
+  WORK_MODE_LABELS,
+} from "@/features/jobs/jobs.constants";
+import { toMetaDescription } from "@/features/jobs/server/use-cases/jobSyndication";
+import type { Metadata } from "next";
+import Link from "next/link";
+import { notFound } from "next/navigation";
+
+export async function generateMetadata({
+  params,
+}: {
+  params: Promise<{ slug: string }>;
+}): Promise<Metadata> {
+  const { slug } = await params;
+  const company = await getCompanyBySlug(slug);
+
+  if (!company) return { title: "Company not found" };
+
+  const description = company.description
+    ? toMetaDescription(company.description)
+    : `Open roles at ${company.name} on Job Portal.`;
+
+  return {
+    title: `${company.name} Jobs`,
+    description,
+    alternates: {
+      canonical: `/companies/${company.slug}`,
+      types: {
+        "application/rss+xml": [{ url: `/jobs/feed.xml?company=${company.slug}`, title: `Jobs at ${company.name}` }],
+        "application/feed+json": [{ url: `/jobs/feed.json?company=${company.slug}`, title: `Jobs at ${company.name}` }],
+      },
+    },
+    openGraph: {
+      title: company.name,
+      description,
+      url: `/companies/${company.slug}`,
+      ...(company.logoUrl ? { images: [company.logoUrl] } : {}),
+    },
+  };
+}
+
+export default async function CompanyProfilePage({
+  params,
+}: {
+  params: Promise<{ slug: string }>;
+}) {
+  const { slug } = await params;
+  const company = await getCompanyBySlug(slug);
+
+  if (!company) notFound();
+
+  const openJobs = await getCompanyOpenJobs(company.id);
+  const facts = [company.industry, company.size && COMPANY_SIZE_LABELS[company.size]].filter(Boolean);
+
+  return (
+    <div className="min-h-screen bg-zinc-50 dark:bg-black">
+      <SiteHeader />
+      <main className="mx-auto w-full max-w-4xl space-y-6 px-4 py-10">
+        <Card>
+          <CardHeader className="flex flex-row items-center gap-4">
+            {company.logoUrl && (
+              <img src={company.logoUrl} alt="" className="h-16 w-16 rounded-md border object-contain" />
+            )}
+            <div className="space-y-1">
+              <CardTitle className="text-2xl">{company.name}</CardTitle>
+              <CardDescription>
+                {facts.join(" · ")}
+                {company.website && (
+                  <>
+                    {facts.length > 0 && " · "}
+                    <a href={company.website} target="_blank" rel="noopener noreferrer" className="text-primary hover:underline">
+                      {new URL(company.website).host}
+                    </a>
+                  </>
+                )}
+              </CardDescription>
+            </div>
+          </CardHeader>
+          {company.description && (
+            <CardContent>
+              <div className="whitespace-pre-line text-sm leading-6">{company.description}</div>
+            </CardContent>
+          )}
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-xl">Open Roles</CardTitle>
+            <CardDescription>
+              {openJobs.length} open position(s) ·{" "}
+              <a href={`/jobs/feed.xml?company=${company.slug}`} className="text-primary hover:underline">
+                RSS feed
+              </a>
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {openJobs.length === 0 && (
+              <p className="text-sm text-muted-foreground">{company.name} has no open roles right now.</p>
+            )}
+            {openJobs.map((job) => (
+              <div key={job.id} className="space-y-1 rounded-md border p-4">
+                <Link href={`/jobs/${job.id}`} className="font-medium hover:underline">
+                  {job.title}
+                </Link>
+                <p className="text-sm text-muted-foreground">
+                  {EMPLOYMENT_TYPE_LABELS[job.employmentType]} · {WORK_MODE_LABELS[job.workMode]}
+                  {job.location && ` · ${job.location}`} · {formatSalaryRange(job)}
+                </p>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      </main>
+    </div>
+  );
+}
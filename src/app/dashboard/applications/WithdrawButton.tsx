@@ -0,0 +1,29 @@
+"use client"
+
+import { Button } from "@/components/ui/button";
+import { withdrawApplicationAction } from "@/features/applications/server/applications.action";
+import { useTransition } from "react";
+import { toast } from "sonner";
+
+const WithdrawButton = ({ applicationId }: { applicationId: number }) => {
+  const [isPending, startTransition] = useTransition();
+
+  const handleWithdraw = () => {
+    if (!window.confirm("Withdraw this application? You won't be able to apply to this job again.")) return;
+
+    startTransition(async () => {
+      const result = await withdrawApplicationAction(applicationId);
+
+      if (result.status === "SUCCESS") toast.success(result.message);
+      else toast.error(result.message);
+    });
+  };
+
+  return (
+    <Button type="button" variant="outline" size="sm" disabled={isPending} onClick={handleWithdraw}>
+      Withdraw
+    </Button>
+  );
+};
+
+export default WithdrawButton;
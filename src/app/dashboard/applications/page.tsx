@@ -0,0 +1,68 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { APPLICATION_STATUS_TRANSITIONS } from "@/features/applications/applications.constants";
+import ApplicationStatusBadge from "@/features/applications/components/ApplicationStatusBadge";
+import StatusHistory from "@/features/applications/components/StatusHistory";
+import { getApplicantApplications } from "@/features/applications/server/applications.queries";
+import { requireRole } from "@/features/auth/server/auth.queries";
+import Link from "next/link";
+import WithdrawButton from "./WithdrawButton";
+
+export default async function MyApplicationsPage() {
+  const applicant = await requireRole("applicant");
+  const myApplications = await getApplicantApplications(applicant.id);
+
+  return (
+    <div className="min-h-screen bg-background p-8">
+      <Card className="mx-auto w-full max-w-4xl">
+        <CardHeader>
+          <Link href="/dashboard" className="text-sm text-primary hover:underline">
+            ← Back to dashboard
+          </Link>
+          <CardTitle className="text-2xl">My Applications</CardTitle>
+          <CardDescription>Track where each of your applications stands.</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {myApplications.length === 0 && (
+            <p className="text-sm text-muted-foreground">
+              You haven&apos;t applied to any jobs yet. <Link href="/" className="text-primary hover:underline">Browse jobs</Link>
+            </p>
+          )}
+          {myApplications.map((application) => (
+            <div key={application.id} className="space-y-3 rounded-md border p-4">
+              <div className="flex items-start justify-between gap-4">
+                <div className="space-y-1">
+                  <p className="font-medium">
+                    {application.jobStatus === "published" ? (
+                      <Link href={`/jobs/${application.jobId}`} className="hover:underline">{application.jobTitle}</Link>
+                    ) : (
+                      application.jobTitle
+                    )}{" "}
+                    <ApplicationStatusBadge status={application.status} />
+                  </p>
+                  <p className="text-sm text-muted-foreground">
+                    <Link href={`/companies/${application.companySlug}`} className="hover:underline">
+                      {application.companyName}
+                    </Link>{" "}
+                    · applied {application.createdAt.toLocaleDateString()}
+                  </p>
+                  <Link href={`/dashboard/messages/${application.id}`} className="mr-3 text-sm text-primary hover:underline">
+                    Messages
+                  </Link>
+                  {application.status === "interview" && (
+                    <Link href="/dashboard/interviews" className="text-sm text-primary hover:underline">
+                      Interviews
+                    </Link>
+                  )}
+                </div>
+                {APPLICATION_STATUS_TRANSITIONS[application.status].includes("withdrawn") && (
+                  <WithdrawButton applicationId={application.id} />
+                )}
+              </div>
+              <StatusHistory history={application.history} />
+            </div>
+          ))}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,55 @@
+"use client"
+
+import { Button } from "@/components/ui/button";
+import { pickInterviewSlotAction } from "@/features/interviews/server/interviews.action";
+import { useState, useTransition } from "react";
+import { toast } from "sonner";
+
+//* Slot labels are formatted on the server in the interview's time zone, so both sides see the same text.
+const SlotPicker = ({
+  interviewId,
+  slots,
+}: {
+  interviewId: number;
+  slots: { id: number; label: string; isPast: boolean }[];
+}) => {
+  const [slotId, setSlotId] = useState<number | null>(null);
+  const [isPending, startTransition] = useTransition();
+
+  const handlePick = () => {
+    if (!slotId) return;
+
+    startTransition(async () => {
+      const result = await pickInterviewSlotAction({ interviewId, slotId });
+
+      if (result.status === "SUCCESS") {
+        toast.success(result.message);
+      } else {
+        toast.error(result.message);
+      }
+    });
+  };
+
+  return (
+    <div className="space-y-2 rounded-md bg-muted p-3 text-sm">
+      <p className="font-medium">Pick a time</p>
+      {slots.map((slot) => (
+        <label key={slot.id} className="flex items-center gap-2">
+          <input
+            type="radio"
+            name={`interview-${interviewId}-slot`}
+            checked={slotId === slot.id}
+            disabled={slot.isPast}
+            onChange={() => setSlotId(slot.id)}
+          />
+          <span className={slot.isPast ? "text-muted-foreground line-through" : undefined}>{slot.label}</span>
+        </label>
+      ))}
+      <Button type="button" size="sm" disabled={!slotId || isPending} onClick={handlePick}>
+        Confirm Time
+      </Button>
+    </div>
+  );
+};
+
+export default SlotPicker;
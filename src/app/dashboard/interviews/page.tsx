@@ -0,0 +1,103 @@
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { requireRole } from "@/features/auth/server/auth.queries";
+import CancelInterviewButton from "@/features/interviews/components/CancelInterviewButton";
+import InterviewStatusBadge from "@/features/interviews/components/InterviewStatusBadge";
+import { formatInterviewTime } from "@/features/interviews/interviews.constants";
+import { getApplicantInterviews, getInterviewSlots } from "@/features/interviews/server/interviews.queries";
+import { CalendarDays } from "lucide-react";
+import Link from "next/link";
+import SlotPicker from "./SlotPicker";
+
+export const dynamic = "force-dynamic";
+
+export default async function MyInterviewsPage() {
+  const applicant = await requireRole("applicant");
+  const interviews = await getApplicantInterviews(applicant.id);
+
+  const slotsByInterview = new Map(
+    await Promise.all(
+      interviews
+        .filter((interview) => interview.status === "proposed")
+        .map(async (interview) => [interview.id, await getInterviewSlots(interview.id)] as const),
+    ),
+  );
+
+  return (
+    <div className="min-h-screen bg-background p-8">
+      <Card className="mx-auto w-full max-w-4xl">
+        <CardHeader>
+          <Link href="/dashboard" className="text-sm text-primary hover:underline">
+            ← Back to dashboard
+          </Link>
+          <CardTitle className="text-2xl">My Interviews</CardTitle>
+          <CardDescription>Pick a time for new invitations and keep track of upcoming interviews.</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {interviews.length === 0 && <p className="text-sm text-muted-foreground">No interviews yet.</p>}
+          {interviews.map((interview) => (
+            <div key={interview.id} className="space-y-3 rounded-md border p-4">
+              <div className="flex items-start justify-between gap-4">
+                <div className="space-y-1 text-sm">
+                  <p className="text-base font-medium">
+                    {interview.jobTitle} <InterviewStatusBadge status={interview.status} />
+                  </p>
+                  <p className="text-muted-foreground">
+                    {interview.companyName} · {interview.durationMinutes} minutes
+                  </p>
+                  {interview.startsAt && (
+                    <p>
+                      <span className="font-medium">When:</span>{" "}
+                      {formatInterviewTime(interview.startsAt, interview.timeZone)}
+                    </p>
+                  )}
+                  {interview.location && (
+                    <p>
+                      <span className="font-medium">Where:</span> {interview.location}
+                    </p>
+                  )}
+                  {interview.meetingUrl && interview.status !== "cancelled" && (
+                    <p>
+                      <span className="font-medium">Meeting link:</span>{" "}
+                      <a
+                        href={interview.meetingUrl}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="text-primary hover:underline"
+                      >
+                        {interview.meetingUrl}
+                      </a>
+                    </p>
+                  )}
+                </div>
+                {interview.status !== "cancelled" && (
+                  <div className="flex flex-col items-end gap-2">
+                    {interview.status === "scheduled" && (
+                      <Button asChild size="sm" variant="outline">
+                        <a href={`/interviews/${interview.id}/calendar`}>
+                          <CalendarDays className="w-4 h-4" />
+                          Add to Calendar
+                        </a>
+                      </Button>
+                    )}
+                    <CancelInterviewButton interviewId={interview.id} />
+                  </div>
+                )}
+              </div>
+              {interview.status === "proposed" && (
+                <SlotPicker
+                  interviewId={interview.id}
+                  slots={(slotsByInterview.get(interview.id) ?? []).map((slot) => ({
+                    id: slot.id,
+                    label: formatInterviewTime(slot.startsAt, interview.timeZone),
+                    isPast: slot.startsAt.getTime() <= Date.now(),
+                  }))}
+                />
+              )}
+            </div>
+          ))}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,35 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { requireRole } from "@/features/auth/server/auth.queries";
+import ConversationView from "@/features/messaging/components/ConversationView";
+import { getConversationAccess } from "@/features/messaging/server/messaging.queries";
+import Link from "next/link";
+import { notFound } from "next/navigation";
+
+export default async function ApplicantConversationPage({
+  params,
+}: {
+  params: Promise<{ applicationId: string }>;
+}) {
+  const { applicationId } = await params;
+  const applicant = await requireRole("applicant");
+  const access = await getConversationAccess({ applicationId: Number(applicationId), user: applicant });
+
+  if (!access) notFound();
+
+  return (
+    <div className="min-h-screen bg-background p-8">
+      <Card className="mx-auto w-full max-w-3xl">
+        <CardHeader>
+          <Link href="/dashboard/messages" className="text-sm text-primary hover:underline">
+            ← Back to messages
+          </Link>
+          <CardTitle className="text-2xl">{access.thread.companyName}</CardTitle>
+          <CardDescription>About your application for {access.thread.jobTitle}</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <ConversationView access={access} user={applicant} />
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,33 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { requireRole } from "@/features/auth/server/auth.queries";
+import ConversationList from "@/features/messaging/components/ConversationList";
+import { getApplicantConversations } from "@/features/messaging/server/messaging.queries";
+import Link from "next/link";
+
+export default async function ApplicantMessagesPage() {
+  const applicant = await requireRole("applicant");
+  const conversations = await getApplicantConversations(applicant.id);
+
+  return (
+    <div className="min-h-screen bg-background p-8">
+      <Card className="mx-auto w-full max-w-3xl">
+        <CardHeader>
+          <Link href="/dashboard" className="text-sm text-primary hover:underline">
+            ← Back to dashboard
+          </Link>
+          <CardTitle className="text-2xl">Messages</CardTitle>
+          <CardDescription>
+            Conversations with hiring teams about your applications. Start one from{" "}
+            <Link href="/dashboard/applications" className="text-primary hover:underline">
+              My Applications
+            </Link>
+            .
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <ConversationList conversations={conversations} basePath="/dashboard/messages" />
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,76 @@
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import AccountLinks from "@/features/auth/components/AccountLinks";
+import { requireRole } from "@/features/auth/server/auth.queries";
+import { getUnreadMessageCount } from "@/features/messaging/server/messaging.queries";
+import { Bookmark, CalendarDays, FileText, MessageSquare, Search, Sparkles, Upload, UserRound } from "lucide-react";
+import Link from "next/link";
+
+export default async function ApplicantDashboardPage() {
+  const user = await requireRole("applicant");
+  const unreadMessages = await getUnreadMessageCount(user);
+
+  return (
+    <div className="min-h-screen bg-background p-8">
+      <Card className="mx-auto w-full max-w-3xl">
+        <CardHeader>
+          <CardTitle className="text-2xl">Applicant Dashboard</CardTitle>
+          <CardDescription>Welcome back, {user.name}. Find jobs and track your applications.</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex flex-wrap gap-2">
+            <Button asChild>
+              <Link href="/">
+                <Search className="w-4 h-4" />
+                Browse Jobs
+              </Link>
+            </Button>
+            <Button asChild variant="outline">
+              <Link href="/dashboard/recommended">
+                <Sparkles className="w-4 h-4" />
+                Recommended
+              </Link>
+            </Button>
+            <Button asChild variant="outline">
+              <Link href="/dashboard/messages">
+                <MessageSquare className="w-4 h-4" />
+                Messages{unreadMessages > 0 && ` (${unreadMessages})`}
+              </Link>
+            </Button>
+            <Button asChild variant="outline">
+              <Link href="/dashboard/saved">
+                <Bookmark className="w-4 h-4" />
+                Saved
+              </Link>
+            </Button>
+            <Button asChild variant="outline">
+              <Link href="/dashboard/profile">
+                <UserRound className="w-4 h-4" />
+                My Profile
+              </Link>
+            </Button>
+            <Button asChild variant="outline">
+              <Link href="/dashboard/applications">
+                <FileText className="w-4 h-4" />
+                My Applications
+              </Link>
+            </Button>
+            <Button asChild variant="outline">
+              <Link href="/dashboard/interviews">
+                <CalendarDays className="w-4 h-4" />
+                Interviews
+              </Link>
+            </Button>
+            <Button asChild variant="outline">
+              <Link href="/dashboard/resumes">
+                <Upload className="w-4 h-4" />
+                My Resumes
+              </Link>
+            </Button>
+          </div>
+          <AccountLinks />
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,33 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { APP_URL } from "@/config/constant";
+import { requireRole } from "@/features/auth/server/auth.queries";
+import ProfileEditor from "@/features/profiles/components/ProfileEditor";
+import { getApplicantProfile } from "@/features/profiles/server/profiles.queries";
+import Link from "next/link";
+
+export default async function EditProfilePage() {
+  const user = await requireRole("applicant");
+  const profile = await getApplicantProfile(user.id);
+
+  return (
+    <div className="min-h-screen bg-background p-8">
+      <Card className="mx-auto w-full max-w-3xl">
+        <CardHeader>
+          <Link href="/dashboard" className="text-sm text-primary hover:underline">
+            ← Back to dashboard
+          </Link>
+          <CardTitle className="text-2xl">Your Profile</CardTitle>
+          <CardDescription>
+            Employers see this alongside your applications.{" "}
+            <Link href={`/u/${user.userName}`} className="text-primary hover:underline">
+              Preview
+            </Link>
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <ProfileEditor profile={profile} publicUrl={`${APP_URL}/u/${user.userName}`} />
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,62 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { requireRole } from "@/features/auth/server/auth.queries";
+import {
+  EMPLOYMENT_TYPE_LABELS,
+  formatSalaryRange,
+  WORK_MODE_LABELS,
+} from "@/features/jobs/jobs.constants";
+import MatchBreakdown, { MatchScoreBadge } from "@/features/matching/components/MatchBreakdown";
+import { getRecommendedJobs } from "@/features/matching/server/matching.queries";
+import Link from "next/link";
+
+export default async function RecommendedJobsPage() {
+  const user = await requireRole("applicant");
+  const recommendations = await getRecommendedJobs(user.id);
+
+  return (
+    <div className="min-h-screen bg-background p-8">
+      <Card className="mx-auto w-full max-w-4xl">
+        <CardHeader>
+          <Link href="/dashboard" className="text-sm text-primary hover:underline">
+            ← Back to dashboard
+          </Link>
+          <CardTitle className="text-2xl">Recommended Jobs</CardTitle>
+          <CardDescription>
+            Open roles ranked by how well they fit your{" "}
+            <Link href="/dashboard/profile" className="text-primary hover:underline">
+              profile
+            </Link>
+            : skills, experience, location preferences and salary expectation.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {recommendations.length === 0 && (
+            <p className="text-sm text-muted-foreground">
+              No recommendations yet. Add skills, experience and preferences to your profile to get matched.
+            </p>
+          )}
+          {recommendations.map(({ job, match }) => (
+            <div key={job.id} className="space-y-2 rounded-md border p-4">
+              <div className="flex items-start justify-between gap-4">
+                <div className="space-y-1">
+                  <Link href={`/jobs/${job.id}`} className="font-medium hover:underline">
+                    {job.title}
+                  </Link>
+                  <p className="text-sm text-muted-foreground">
+                    <Link href={`/companies/${job.companySlug}`} className="hover:underline">
+                      {job.companyName}
+                    </Link>{" "}
+                    · {EMPLOYMENT_TYPE_LABELS[job.employmentType]} · {WORK_MODE_LABELS[job.workMode]}
+                    {job.location && ` · ${job.location}`} · {formatSalaryRange(job)}
+                  </p>
+                </div>
+                <MatchScoreBadge score={match.score} />
+              </div>
+              <MatchBreakdown match={match} />
+            </div>
+          ))}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,29 @@
+"use client"
+
+import { Button } from "@/components/ui/button";
+import { deleteResumeAction } from "@/features/resumes/server/resumes.action";
+import { useTransition } from "react";
+import { toast } from "sonner";
+
+const DeleteResumeButton = ({ resumeId }: { resumeId: number }) => {
+  const [isPending, startTransition] = useTransition();
+
+  const handleDelete = () => {
+    if (!window.confirm("Delete this resume? Employers you already applied to keep their copy.")) return;
+
+    startTransition(async () => {
+      const result = await deleteResumeAction(resumeId);
+
+      if (result.status === "SUCCESS") toast.success(result.message);
+      else toast.error(result.message);
+    });
+  };
+
+  return (
+    <Button type="button" variant="destructive" size="sm" disabled={isPending} onClick={handleDelete}>
+      Delete
+    </Button>
+  );
+};
+
+export default DeleteResumeButton;
@@ -0,0 +1,53 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { requireRole } from "@/features/auth/server/auth.queries";
+import ResumeUploadForm from "@/features/resumes/components/ResumeUploadForm";
+import { getUserResumes } from "@/features/resumes/server/resumes.queries";
+import { formatFileSize } from "@/lib/fileType";
+import { FileText } from "lucide-react";
+import Link from "next/link";
+import DeleteResumeButton from "./DeleteResumeButton";
+
+export default async function ResumesPage() {
+  const applicant = await requireRole("applicant");
+  const userResumes = await getUserResumes(applicant.id);
+
+  return (
+    <div className="min-h-screen bg-background p-8">
+      <Card className="mx-auto w-full max-w-3xl">
+        <CardHeader>
+          <Link href="/dashboard" className="text-sm text-primary hover:underline">
+            ← Back to dashboard
+          </Link>
+          <CardTitle className="text-2xl">My Resumes</CardTitle>
+          <CardDescription>
+            Upload resumes once and attach them when you apply. Only you and employers you apply to can download them.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <ResumeUploadForm />
+
+          <div className="space-y-3">
+            {userResumes.length === 0 && <p className="text-sm text-muted-foreground">No resumes uploaded yet.</p>}
+            {userResumes.map((resume) => (
+              <div key={resume.id} className="flex items-center justify-between gap-4 rounded-md border p-4">
+                <div className="flex gap-3">
+                  <FileText className="w-5 h-5 mt-0.5 text-muted-foreground" />
+                  <div className="space-y-1">
+                    <a href={`/resumes/${resume.id}/download`} className="font-medium hover:underline">
+                      {resume.originalName}
+                    </a>
+                    <p className="text-sm text-muted-foreground">
+                      {formatFileSize(resume.size)} · uploaded {resume.createdAt.toLocaleDateString()}
+                      {!resume.hasText && " · text could not be extracted"}
+                    </p>
+                  </div>
+                </div>
+                <DeleteResumeButton resumeId={resume.id} />
+              </div>
+            ))}
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
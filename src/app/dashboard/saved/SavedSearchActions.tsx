@@ -0,0 +1,61 @@
+"use client"
+
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { JOB_ALERT_FREQUENCY_LABELS, JobAlertFrequency } from "@/features/savedSearches/savedSearches.constants";
+import {
+  deleteSavedSearchAction,
+  updateSavedSearchFrequencyAction,
+} from "@/features/savedSearches/server/savedSearches.action";
+import { useTransition } from "react";
+import { toast } from "sonner";
+
+const SavedSearchActions = ({
+  savedSearchId,
+  frequency,
+}: {
+  savedSearchId: number;
+  frequency: JobAlertFrequency;
+}) => {
+  const [isPending, startTransition] = useTransition();
+
+  const runAction = (action: () => Promise<{ status: string; message: string }>) => {
+    startTransition(async () => {
+      const result = await action();
+
+      if (result.status === "SUCCESS") toast.success(result.message);
+      else toast.error(result.message);
+    });
+  };
+
+  const handleDelete = () => {
+    if (!window.confirm("Delete this saved search? You will stop getting alerts for it.")) return;
+    runAction(() => deleteSavedSearchAction(savedSearchId));
+  };
+
+  return (
+    <div className="flex gap-2">
+      <Select
+        value={frequency}
+        disabled={isPending}
+        onValueChange={(value) =>
+          runAction(() => updateSavedSearchFrequencyAction({ savedSearchId, frequency: value as JobAlertFrequency }))
+        }
+      >
+        <SelectTrigger size="sm" className="w-36" aria-label="Alert frequency">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {Object.entries(JOB_ALERT_FREQUENCY_LABELS).map(([value, label]) => (
+            <SelectItem key={value} value={value}>{label}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <Button type="button" variant="outline" size="sm" disabled={isPending} onClick={handleDelete}>
+        Delete
+      </Button>
+    </div>
+  );
+};
+
+export default SavedSearchActions;
@@ -0,0 +1,91 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { requireRole } from "@/features/auth/server/auth.queries";
+import { JOB_STATUS_LABELS, WORK_MODE_LABELS } from "@/features/jobs/jobs.constants";
+import SaveJobButton from "@/features/savedJobs/components/SaveJobButton";
+import { getSavedJobs } from "@/features/savedJobs/server/savedJobs.queries";
+import { getSavedSearchHref, SavedSearchParams } from "@/features/savedSearches/savedSearches.schema";
+import { getUserSavedSearches } from "@/features/savedSearches/server/savedSearches.queries";
+import Link from "next/link";
+import SavedSearchActions from "./SavedSearchActions";
+
+const describeSearch = (params: SavedSearchParams) => {
+  const parts = [
+    params.q && `"${params.q}"`,
+    params.location && `in ${params.location}`,
+    params.workMode && WORK_MODE_LABELS[params.workMode],
+  ].filter(Boolean);
+
+  return parts.length > 0 ? parts.join(" · ") : "All jobs";
+};
+
+export default async function SavedPage() {
+  const applicant = await requireRole("applicant");
+  const [savedJobs, savedSearches] = await Promise.all([
+    getSavedJobs(applicant.id),
+    getUserSavedSearches(applicant.id),
+  ]);
+
+  return (
+    <div className="min-h-screen bg-background p-8">
+      <div className="mx-auto w-full max-w-3xl space-y-6">
+        <Card>
+          <CardHeader>
+            <Link href="/dashboard" className="text-sm text-primary hover:underline">
+              ← Back to dashboard
+            </Link>
+            <CardTitle className="text-2xl">Saved Jobs</CardTitle>
+            <CardDescription>Jobs you bookmarked from the listing.</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {savedJobs.length === 0 && <p className="text-sm text-muted-foreground">No saved jobs yet.</p>}
+            {savedJobs.map((job) => (
+              <div key={job.id} className="flex items-center justify-between gap-4 rounded-md border p-4">
+                <div className="space-y-1">
+                  {job.status === "published" ? (
+                    <Link href={`/jobs/${job.id}`} className="font-medium hover:underline">
+                      {job.title}
+                    </Link>
+                  ) : (
+                    <p className="font-medium">{job.title}</p>
+                  )}
+                  <p className="text-sm text-muted-foreground">
+                    {job.companyName} · {WORK_MODE_LABELS[job.workMode]}
+                    {job.location && ` · ${job.location}`}
+                    {job.status !== "published" && ` · ${JOB_STATUS_LABELS[job.status]}`}
+                  </p>
+                </div>
+                <SaveJobButton jobId={job.id} initialSaved />
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-2xl">Saved Searches</CardTitle>
+            <CardDescription>
+              Save a search from the job listing to get new matching jobs by email and in your notifications.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {savedSearches.length === 0 && <p className="text-sm text-muted-foreground">No saved searches yet.</p>}
+            {savedSearches.map((savedSearch) => (
+              <div key={savedSearch.id} className="flex items-center justify-between gap-4 rounded-md border p-4">
+                <div className="space-y-1">
+                  <Link href={getSavedSearchHref(savedSearch.params)} className="font-medium hover:underline">
+                    {savedSearch.name}
+                  </Link>
+                  <p className="text-sm text-muted-foreground">
+                    {describeSearch(savedSearch.params)}
+                    {savedSearch.lastSentAt && ` · last alert ${savedSearch.lastSentAt.toLocaleDateString()}`}
+                  </p>
+                </div>
+                <SavedSearchActions savedSearchId={savedSearch.id} frequency={savedSearch.frequency} />
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,53 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { getOutboxEmailById } from "@/features/email/server/email.queries";
+import { Paperclip } from "lucide-react";
+import Link from "next/link";
+import { notFound } from "next/navigation";
+
+export default async function EmailPreviewPage({
+  params,
+}: {
+  params: Promise<{ id: string }>;
+}) {
+  const { id } = await params;
+  const email = await getOutboxEmailById(Number(id));
+
+  if (!email) notFound();
+
+  return (
+    <div className="min-h-screen bg-background p-8">
+      <Card className="mx-auto w-full max-w-3xl">
+        <CardHeader>
+          <Link href="/dev/emails" className="text-sm text-primary hover:underline">
+            ← Back to outbox
+          </Link>
+          <CardTitle className="text-2xl">{email.subject}</CardTitle>
+          <CardDescription>
+            To {email.recipient} · {email.createdAt.toLocaleString()}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {/* sandboxed so the email markup cannot run scripts against the app */}
+          <iframe title={email.subject} srcDoc={email.html} sandbox="allow-popups" className="h-[480px] w-full rounded-md border" />
+          <pre className="whitespace-pre-wrap rounded-md bg-muted p-4 text-sm">{email.text}</pre>
+          {email.headers && (
+            <pre className="whitespace-pre-wrap rounded-md bg-muted p-4 text-xs">
+              {Object.entries(email.headers).map(([name, value]) => `${name}: ${value}`).join("\n")}
+            </pre>
+          )}
+          {email.attachments?.map((attachment) => (
+            <div key={attachment.filename} className="space-y-1">
+              <p className="flex items-center gap-1 text-sm font-medium">
+                <Paperclip className="w-4 h-4" />
+                {attachment.filename} ({attachment.contentType})
+              </p>
+              <pre className="max-h-64 overflow-auto whitespace-pre-wrap rounded-md bg-muted p-4 text-xs">
+                {attachment.content}
+              </pre>
+            </div>
+          ))}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
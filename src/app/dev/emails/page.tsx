@@ -0,0 +1,35 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { getOutboxEmails } from "@/features/email/server/email.queries";
+import Link from "next/link";
+
+export const dynamic = "force-dynamic";
+
+export default async function EmailOutboxPage() {
+  const emails = await getOutboxEmails();
+
+  return (
+    <div className="min-h-screen bg-background p-8">
+      <Card className="mx-auto w-full max-w-3xl">
+        <CardHeader>
+          <CardTitle className="text-2xl">Email Outbox</CardTitle>
+          <CardDescription>Emails the app would have sent. Only available in development.</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-2">
+          {emails.length === 0 && <p className="text-sm text-muted-foreground">No emails yet.</p>}
+          {emails.map((email) => (
+            <Link
+              key={email.id}
+              href={`/dev/emails/${email.id}`}
+              className="block rounded-md border p-3 hover:bg-accent"
+            >
+              <p className="font-medium">{email.subject}</p>
+              <p className="text-sm text-muted-foreground">
+                To {email.recipient} · {email.createdAt.toLocaleString()}
+              </p>
+            </Link>
+          ))}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,12 @@
+import { notFound } from "next/navigation";
+
+//* Developer-only tools (e.g. the email outbox preview). They never exist in production builds.
+export default function DevLayout({
+  children,
+}: Readonly<{
+  children: React.ReactNode;
+}>) {
+  if (process.env.NODE_ENV === "production") notFound();
+
+  return <>{children}</>;
+}
@@ -0,0 +1,9 @@
+import { getMockOidcConfiguration } from "@/lib/mockOidcProvider";
+import { NextResponse } from "next/server";
+
+// route handlers aren't covered by the dev layout, so each one checks for itself
+export async function GET() {
+  if (process.env.NODE_ENV === "production") return new NextResponse(null, { status: 404 });
+
+  return NextResponse.json(getMockOidcConfiguration());
+}
@@ -0,0 +1,39 @@
+import { createMockAuthorizationCode, isMockRedirectUri, MOCK_OIDC_CLIENT_ID } from "@/lib/mockOidcProvider";
+import { NextRequest, NextResponse } from "next/server";
+
+//* Receives the form of the authorize page and sends the browser back to the client with a code.
+export async function POST(request: NextRequest) {
+  if (process.env.NODE_ENV === "production") return new NextResponse(null, { status: 404 });
+
+  const form = await request.formData();
+  const field = (name: string) => String(form.get(name) ?? "");
+
+  const redirectUri = field("redirect_uri");
+
+  if (field("client_id") !== MOCK_OIDC_CLIENT_ID || !isMockRedirectUri(redirectUri)) {
+    return NextResponse.json({ error: "invalid_request" }, { status: 400 });
+  }
+
+  const url = new URL(redirectUri);
+  url.searchParams.set("state", field("state"));
+
+  if (form.has("deny")) {
+    url.searchParams.set("error", "access_denied");
+    return NextResponse.redirect(url, 303);
+  }
+
+  const code = createMockAuthorizationCode({
+    clientId: MOCK_OIDC_CLIENT_ID,
+    redirectUri,
+    codeChallenge: field("code_challenge"),
+    nonce: field("nonce") || null,
+    email: field("email"),
+    name: field("name") || field("email").split("@")[0],
+    emailVerified: form.get("email_verified") === "on",
+  });
+
+  url.searchParams.set("code", code);
+
+  // 303 so the browser follows up with a GET
+  return NextResponse.redirect(url, 303);
+}
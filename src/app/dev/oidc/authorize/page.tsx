@@ -0,0 +1,69 @@
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { isMockRedirectUri, MOCK_OIDC_CLIENT_ID } from "@/lib/mockOidcProvider";
+
+//* The mock provider's "login screen": pick any identity, tick whether its email counts as verified.
+export default async function MockOidcAuthorizePage({
+  searchParams,
+}: {
+  searchParams: Promise<Record<string, string | undefined>>;
+}) {
+  const params = await searchParams;
+
+  const isValidRequest =
+    params.response_type === "code" &&
+    params.client_id === MOCK_OIDC_CLIENT_ID &&
+    isMockRedirectUri(params.redirect_uri ?? "") &&
+    params.code_challenge_method === "S256" &&
+    Boolean(params.code_challenge);
+
+  return (
+    <div className="min-h-screen bg-background p-8">
+      <Card className="mx-auto w-full max-w-md">
+        <CardHeader>
+          <CardTitle className="text-2xl">Mock OpenID Provider</CardTitle>
+          <CardDescription>Development only. Choose who you want to sign in as.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isValidRequest ? (
+            <form method="POST" action="/dev/oidc/authorize/approve" className="space-y-4">
+              {["client_id", "redirect_uri", "state", "nonce", "code_challenge"].map((name) => (
+                <input key={name} type="hidden" name={name} value={params[name] ?? ""} />
+              ))}
+
+              <div className="space-y-2">
+                <Label htmlFor="email">Email *</Label>
+                <Input id="email" name="email" type="email" required placeholder="jane@example.com" />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="name">Name</Label>
+                <Input id="name" name="name" placeholder="Jane Doe" />
+              </div>
+
+              <label className="flex items-center gap-2 text-sm">
+                <input type="checkbox" name="email_verified" defaultChecked />
+                Email is verified
+              </label>
+
+              <div className="flex gap-2">
+                <Button type="submit" className="flex-1">
+                  Sign In
+                </Button>
+                <Button type="submit" name="deny" value="1" variant="outline" formNoValidate>
+                  Cancel
+                </Button>
+              </div>
+            </form>
+          ) : (
+            <p className="text-sm text-destructive">
+              Invalid authorization request: the client, redirect URI or PKCE parameters are missing or wrong.
+            </p>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,8 @@
+import { getMockOidcJwks } from "@/lib/mockOidcProvider";
+import { NextResponse } from "next/server";
+
+export async function GET() {
+  if (process.env.NODE_ENV === "production") return new NextResponse(null, { status: 404 });
+
+  return NextResponse.json(getMockOidcJwks());
+}
@@ -0,0 +1,34 @@
+import { redeemMockAuthorizationCode } from "@/lib/mockOidcProvider";
+import { NextRequest, NextResponse } from "next/server";
+
+//* Accepts client_secret_basic and client_secret_post, like a real provider would.
+export async function POST(request: NextRequest) {
+  if (process.env.NODE_ENV === "production") return new NextResponse(null, { status: 404 });
+
+  const form = new URLSearchParams(await request.text());
+  const [basicId, basicSecret] = Buffer.from(
+    (request.headers.get("authorization") ?? "").replace(/^Basic /, ""),
+    "base64",
+  )
+    .toString("utf8")
+    .split(":")
+    .map(decodeURIComponent);
+
+  if (form.get("grant_type") !== "authorization_code") {
+    return NextResponse.json({ error: "unsupported_grant_type" }, { status: 400 });
+  }
+
+  const result = redeemMockAuthorizationCode({
+    code: form.get("code") ?? "",
+    clientId: basicId || (form.get("client_id") ?? ""),
+    clientSecret: basicSecret ?? form.get("client_secret") ?? "",
+    redirectUri: form.get("redirect_uri") ?? "",
+    codeVerifier: form.get("code_verifier") ?? "",
+  });
+
+  if ("error" in result) {
+    return NextResponse.json({ error: result.error }, { status: result.error === "invalid_client" ? 401 : 400 });
+  }
+
+  return NextResponse.json(result.tokens, { headers: { "Cache-Control": "no-store" } });
+}
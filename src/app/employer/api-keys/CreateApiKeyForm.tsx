@@ -0,0 +1,118 @@
+"use client"
+
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  API_KEY_RATE_LIMITS,
+  API_KEY_SCOPE_LABELS,
+  API_KEY_SCOPES,
+  ApiKeyScope,
+} from "@/features/api/api.constants";
+import { createApiKeyAction } from "@/features/api/server/apiKeys.action";
+import { FormEvent, useState, useTransition } from "react";
+import { toast } from "sonner";
+
+const CreateApiKeyForm = () => {
+  const [name, setName] = useState("");
+  const [scopes, setScopes] = useState<ApiKeyScope[]>(["jobs:read"]);
+  const [rateLimitPerMinute, setRateLimitPerMinute] = useState<number>(API_KEY_RATE_LIMITS[0]);
+  const [createdToken, setCreatedToken] = useState<string | null>(null);
+  const [isPending, startTransition] = useTransition();
+
+  const toggleScope = (scope: ApiKeyScope) => {
+    setScopes((prev) => (prev.includes(scope) ? prev.filter((value) => value !== scope) : [...prev, scope]));
+  };
+
+  const handleSubmit = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+
+    startTransition(async () => {
+      const result = await createApiKeyAction({ name, scopes, rateLimitPerMinute });
+
+      if (result.status === "SUCCESS" && result.token) {
+        toast.success(result.message);
+        setCreatedToken(result.token);
+        setName("");
+      } else {
+        toast.error(result.message);
+      }
+    });
+  };
+
+  const handleCopy = async () => {
+    if (!createdToken) return;
+    await navigator.clipboard.writeText(createdToken);
+    toast.success("Copied to clipboard");
+  };
+
+  return (
+    <div className="space-y-4">
+      {createdToken && (
+        <div className="space-y-2 rounded-md bg-muted p-4 text-sm">
+          <p className="font-medium">Your new key. Copy it now: it won&apos;t be shown again.</p>
+          <div className="flex gap-2">
+            <Input readOnly className="font-mono" value={createdToken} aria-label="New API key" />
+            <Button type="button" variant="outline" onClick={handleCopy}>
+              Copy
+            </Button>
+            <Button type="button" variant="ghost" onClick={() => setCreatedToken(null)}>
+              Done
+            </Button>
+          </div>
+        </div>
+      )}
+
+      <form className="space-y-4 rounded-md border p-4" onSubmit={handleSubmit}>
+        <h3 className="font-medium">Create a Key</h3>
+        <div className="grid gap-4 sm:grid-cols-2">
+          <div className="space-y-2">
+            <Label htmlFor="apiKeyName">Name</Label>
+            <Input
+              id="apiKeyName"
+              required
+              placeholder="e.g. Greenhouse sync"
+              value={name}
+              onChange={(event) => setName(event.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="rateLimitPerMinute">Rate Limit</Label>
+            <Select
+              value={String(rateLimitPerMinute)}
+              onValueChange={(value) => setRateLimitPerMinute(Number(value))}
+            >
+              <SelectTrigger id="rateLimitPerMinute" className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {API_KEY_RATE_LIMITS.map((limit) => (
+                  <SelectItem key={limit} value={String(limit)}>
+                    {limit} requests per minute
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+        <div className="flex flex-col gap-2 text-sm">
+          {API_KEY_SCOPES.map((scope) => (
+            <label key={scope} className="flex items-center gap-2">
+              <input type="checkbox" checked={scopes.includes(scope)} onChange={() => toggleScope(scope)} />
+              <span className="font-mono text-xs">{scope}</span>
+              <span className="text-muted-foreground">{API_KEY_SCOPE_LABELS[scope]}</span>
+            </label>
+          ))}
+        </div>
+        <div className="flex justify-end">
+          <Button type="submit" disabled={isPending}>
+            {isPending ? "Creating..." : "Create Key"}
+          </Button>
+        </div>
+      </form>
+    </div>
+  );
+};
+
+export default CreateApiKeyForm;
@@ -0,0 +1,32 @@
+"use client"
+
+import { Button } from "@/components/ui/button";
+import { revokeApiKeyAction } from "@/features/api/server/apiKeys.action";
+import { useTransition } from "react";
+import { toast } from "sonner";
+
+const RevokeApiKeyButton = ({ apiKeyId, name }: { apiKeyId: number; name: string }) => {
+  const [isPending, startTransition] = useTransition();
+
+  const handleRevoke = () => {
+    if (!window.confirm(`Revoke "${name}"? Anything using it stops working immediately.`)) return;
+
+    startTransition(async () => {
+      const result = await revokeApiKeyAction(apiKeyId);
+
+      if (result.status === "SUCCESS") {
+        toast.success(result.message);
+      } else {
+        toast.error(result.message);
+      }
+    });
+  };
+
+  return (
+    <Button type="button" size="sm" variant="outline" disabled={isPending} onClick={handleRevoke}>
+      Revoke
+    </Button>
+  );
+};
+
+export default RevokeApiKeyButton;
@@ -0,0 +1,96 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { API_KEY_SCOPE_LABELS } from "@/features/api/api.constants";
+import { getCompanyApiKeys } from "@/features/api/server/apiKeys.queries";
+import { canManageCompany } from "@/features/companies/companies.constants";
+import { requireCompanyMembership } from "@/features/companies/server/companies.queries";
+import Link from "next/link";
+import CreateApiKeyForm from "./CreateApiKeyForm";
+import RevokeApiKeyButton from "./RevokeApiKeyButton";
+
+export const dynamic = "force-dynamic";
+
+export default async function ApiKeysPage() {
+  const { membership } = await requireCompanyMembership();
+  const isOwner = canManageCompany(membership.role);
+  const apiKeys = isOwner ? await getCompanyApiKeys(membership.company.id) : [];
+
+  return (
+    <div className="min-h-screen bg-background p-8">
+      <Card className="mx-auto w-full max-w-4xl">
+        <CardHeader>
+          <Link href="/employer" className="text-sm text-primary hover:underline">
+            ← Back to dashboard
+          </Link>
+          <CardTitle className="text-2xl">API Keys</CardTitle>
+          <CardDescription>
+            Connect your ATS or scripts to {membership.company.name} through the REST API. Send a key as{" "}
+            <span className="font-mono">Authorization: Bearer &lt;key&gt;</span>; the endpoints are described in the{" "}
+            <a href="/api/v1/openapi.json" className="text-primary hover:underline">
+              OpenAPI document
+            </a>
+            .
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          {!isOwner ? (
+            <p className="text-sm text-muted-foreground">Only company owners can create and revoke API keys.</p>
+          ) : (
+            <>
+              <CreateApiKeyForm />
+
+              {apiKeys.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No API keys yet.</p>
+              ) : (
+                <div className="overflow-x-auto rounded-md border">
+                  <table className="w-full text-sm">
+                    <thead className="bg-muted/50 text-left text-muted-foreground">
+                      <tr>
+                        <th className="px-4 py-2 font-medium">Key</th>
+                        <th className="px-4 py-2 font-medium">Scopes</th>
+                        <th className="px-4 py-2 font-medium">Last used</th>
+                        <th className="px-4 py-2 font-medium text-right">Actions</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {apiKeys.map((apiKey) => (
+                        <tr key={apiKey.id} className="border-t align-top">
+                          <td className="px-4 py-3">
+                            <p className="font-medium">{apiKey.name}</p>
+                            <p className="font-mono text-xs text-muted-foreground">{apiKey.keyPrefix}…</p>
+                            <p className="text-xs text-muted-foreground">
+                              by {apiKey.createdByName} · {apiKey.createdAt.toLocaleDateString()} ·{" "}
+                              {apiKey.rateLimitPerMinute} requests/min
+                            </p>
+                          </td>
+                          <td className="px-4 py-3">
+                            {apiKey.scopes.map((scope) => (
+                              <p key={scope} title={API_KEY_SCOPE_LABELS[scope]} className="font-mono text-xs">
+                                {scope}
+                              </p>
+                            ))}
+                          </td>
+                          <td className="px-4 py-3 text-muted-foreground">
+                            {apiKey.lastUsedAt?.toLocaleString() ?? "Never"}
+                          </td>
+                          <td className="px-4 py-3 text-right">
+                            {apiKey.revokedAt ? (
+                              <span className="text-xs text-muted-foreground">
+                                Revoked {apiKey.revokedAt.toLocaleDateString()}
+                              </span>
+                            ) : (
+                              <RevokeApiKeyButton apiKeyId={apiKey.id} name={apiKey.name} />
+                            )}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
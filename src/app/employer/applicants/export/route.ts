@@ -0,0 +1,52 @@
+import { applicantExportSchema } from "@/features/applications/applications.schema";
+import { createApplicantExport } from "@/features/applications/server/use-cases/applicantExport";
+import { recordAuditEvent } from "@/features/audit/server/audit";
+import { getAuthorizedUser } from "@/features/auth/server/auth.queries";
+import { getUserMembership } from "@/features/companies/server/companies.queries";
+import { getCompanyJobById } from "@/features/jobs/server/jobs.queries";
+import { NextRequest, NextResponse } from "next/server";
+
+//* Any member of the company may export, the same people who can see the applicants page.
+//* ?jobId= limits the export to one job, ?status= to one pipeline stage, ?format= is csv (default) or xlsx.
+export async function GET(request: NextRequest) {
+  const user = await getAuthorizedUser("employer");
+
+  if (!user) return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+
+  const membership = await getUserMembership(user.id);
+
+  if (!membership) return NextResponse.json({ message: "Forbidden" }, { status: 403 });
+
+  const { jobId, status, format } = applicantExportSchema.parse(Object.fromEntries(request.nextUrl.searchParams));
+  const companyId = membership.company.id;
+
+  const job = jobId ? await getCompanyJobById({ jobId, companyId }) : null;
+
+  if (jobId && !job) return NextResponse.json({ message: "Not Found" }, { status: 404 });
+
+  // the row count isn't known until the stream ends, so the filters are what gets recorded
+  await recordAuditEvent({
+    type: "company.applicants_exported",
+    actorId: user.id,
+    metadata: { companyId, jobId: jobId ?? null, status: status ?? null, format },
+  });
+
+  const { contentType, body } = createApplicantExport({
+    companyId,
+    jobId,
+    status,
+    format,
+    sheetName: job?.title ?? "Applicants",
+  });
+
+  const slug = (job?.title ?? membership.company.slug).toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "");
+  const date = new Date().toISOString().slice(0, 10);
+
+  return new NextResponse(body, {
+    headers: {
+      "Content-Type": contentType,
+      "Content-Disposition": `attachment; filename="applicants-${slug || "export"}-${date}.${format}"`,
+      "Cache-Control": "private, no-store",
+    },
+  });
+}
@@ -0,0 +1,62 @@
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import ApplicationStatusBadge from "@/features/applications/components/ApplicationStatusBadge";
+import { requireCompanyMembership } from "@/features/companies/server/companies.queries";
+import { searchCompanyCandidates } from "@/features/resumes/server/resumes.queries";
+import Link from "next/link";
+
+export default async function CandidateSearchPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ q?: string }>;
+}) {
+  const { membership } = await requireCompanyMembership();
+  const query = (await searchParams).q?.trim().slice(0, 200) ?? "";
+
+  const candidates = query ? await searchCompanyCandidates({ companyId: membership.company.id, query }) : [];
+
+  return (
+    <div className="min-h-screen bg-background p-8">
+      <Card className="mx-auto w-full max-w-4xl">
+        <CardHeader>
+          <Link href="/employer" className="text-sm text-primary hover:underline">
+            ← Back to dashboard
+          </Link>
+          <CardTitle className="text-2xl">Search Candidates</CardTitle>
+          <CardDescription>Search the resumes of everyone who applied to {membership.company.name}&apos;s jobs.</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <form method="get" className="flex gap-2">
+            <Input name="q" defaultValue={query} placeholder="e.g. kubernetes golang" aria-label="Resume keywords" />
+            <Button type="submit">Search</Button>
+          </form>
+
+          {query && candidates.length === 0 && (
+            <p className="text-sm text-muted-foreground">No resumes match &ldquo;{query}&rdquo;.</p>
+          )}
+
+          <div className="space-y-3">
+            {candidates.map((candidate) => (
+              <div key={candidate.applicationId} className="space-y-2 rounded-md border p-4">
+                <p className="font-medium">
+                  {candidate.applicantName} <ApplicationStatusBadge status={candidate.applicationStatus} />
+                </p>
+                <p className="text-sm text-muted-foreground">
+                  Applied to{" "}
+                  <Link href={`/employer/jobs/${candidate.jobId}/applicants`} className="text-primary hover:underline">
+                    {candidate.jobTitle}
+                  </Link>
+                </p>
+                <p className="line-clamp-3 text-sm">{candidate.excerpt}</p>
+                <a href={`/resumes/${candidate.resumeId}/download`} className="text-sm text-primary hover:underline">
+                  Download {candidate.resumeName}
+                </a>
+              </div>
+            ))}
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
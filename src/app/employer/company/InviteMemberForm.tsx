@@ -0,0 +1,58 @@
+"use client"
+
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { COMPANY_MEMBER_ROLE_LABELS, CompanyMemberRole } from "@/features/companies/companies.constants";
+import { inviteMemberAction } from "@/features/companies/server/companies.action";
+import { FormEvent, useState, useTransition } from "react";
+import { toast } from "sonner";
+
+const InviteMemberForm = () => {
+  const [email, setEmail] = useState("");
+  const [role, setRole] = useState<CompanyMemberRole>("recruiter");
+  const [isPending, startTransition] = useTransition();
+
+  const handleSubmit = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+
+    startTransition(async () => {
+      const result = await inviteMemberAction({ email, role });
+
+      if (result.status === "SUCCESS") {
+        toast.success(result.message);
+        setEmail("");
+      } else {
+        toast.error(result.message);
+      }
+    });
+  };
+
+  return (
+    <form className="flex flex-col gap-2 sm:flex-row" onSubmit={handleSubmit}>
+      <Input
+        type="email"
+        required
+        placeholder="colleague@company.com"
+        aria-label="Colleague's email"
+        value={email}
+        onChange={(event) => setEmail(event.target.value)}
+      />
+      <Select value={role} onValueChange={(value) => setRole(value as CompanyMemberRole)}>
+        <SelectTrigger className="sm:w-40" aria-label="Role">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {Object.entries(COMPANY_MEMBER_ROLE_LABELS).map(([value, label]) => (
+            <SelectItem key={value} value={value}>{label}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <Button type="submit" disabled={isPending}>
+        {isPending ? "Sending..." : "Send Invite"}
+      </Button>
+    </form>
+  );
+};
+
+export default InviteMemberForm;
@@ -0,0 +1,27 @@
+"use client"
+
+import { Button } from "@/components/ui/button";
+import { revokeInviteAction } from "@/features/companies/server/companies.action";
+import { useTransition } from "react";
+import { toast } from "sonner";
+
+const RevokeInviteButton = ({ inviteId }: { inviteId: number }) => {
+  const [isPending, startTransition] = useTransition();
+
+  const handleRevoke = () => {
+    startTransition(async () => {
+      const result = await revokeInviteAction(inviteId);
+
+      if (result.status === "SUCCESS") toast.success(result.message);
+      else toast.error(result.message);
+    });
+  };
+
+  return (
+    <Button type="button" variant="outline" size="sm" disabled={isPending} onClick={handleRevoke}>
+      Revoke
+    </Button>
+  );
+};
+
+export default RevokeInviteButton;
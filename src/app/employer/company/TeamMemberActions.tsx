@@ -0,0 +1,59 @@
+"use client"
+
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { COMPANY_MEMBER_ROLE_LABELS, CompanyMemberRole } from "@/features/companies/companies.constants";
+import { removeMemberAction, updateMemberRoleAction } from "@/features/companies/server/companies.action";
+import { useTransition } from "react";
+import { toast } from "sonner";
+
+const TeamMemberActions = ({
+  memberId,
+  role,
+  isSelf,
+}: {
+  memberId: number;
+  role: CompanyMemberRole;
+  isSelf: boolean;
+}) => {
+  const [isPending, startTransition] = useTransition();
+
+  const runAction = (action: () => Promise<{ status: string; message: string }>) => {
+    startTransition(async () => {
+      const result = await action();
+
+      if (result.status === "SUCCESS") toast.success(result.message);
+      else toast.error(result.message);
+    });
+  };
+
+  const handleRemove = () => {
+    const question = isSelf ? "Leave this company?" : "Remove this person from your team?";
+    if (!window.confirm(question)) return;
+    runAction(() => removeMemberAction(memberId));
+  };
+
+  return (
+    <div className="flex gap-2">
+      <Select
+        value={role}
+        disabled={isPending}
+        onValueChange={(value) => runAction(() => updateMemberRoleAction({ memberId, role: value as CompanyMemberRole }))}
+      >
+        <SelectTrigger size="sm" className="w-32" aria-label="Role">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {Object.entries(COMPANY_MEMBER_ROLE_LABELS).map(([value, label]) => (
+            <SelectItem key={value} value={value}>{label}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <Button type="button" variant="outline" size="sm" disabled={isPending} onClick={handleRemove}>
+        {isSelf ? "Leave" : "Remove"}
+      </Button>
+    </div>
+  );
+};
+
+export default TeamMemberActions;
@@ -0,0 +1,154 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { requireRole } from "@/features/auth/server/auth.queries";
+import {
+  canManageCompany,
+  COMPANY_MEMBER_ROLE_DESCRIPTIONS,
+  COMPANY_MEMBER_ROLE_LABELS,
+  COMPANY_SIZE_LABELS,
+} from "@/features/companies/companies.constants";
+import CompanyForm from "@/features/companies/components/CompanyForm";
+import {
+  getCompanyMembers,
+  getPendingCompanyInvites,
+  getUserMembership,
+} from "@/features/companies/server/companies.queries";
+import Link from "next/link";
+import InviteMemberForm from "./InviteMemberForm";
+import RevokeInviteButton from "./RevokeInviteButton";
+import TeamMemberActions from "./TeamMemberActions";
+
+export default async function CompanySettingsPage() {
+  const employer = await requireRole("employer");
+  const membership = await getUserMembership(employer.id);
+
+  //* First visit: an employer without a company sets one up (or waits for an invite from a colleague).
+  if (!membership) {
+    return (
+      <div className="min-h-screen bg-background p-8">
+        <Card className="mx-auto w-full max-w-3xl">
+          <CardHeader>
+            <Link href="/employer" className="text-sm text-primary hover:underline">
+              ← Back to dashboard
+            </Link>
+            <CardTitle className="text-2xl">Set Up Your Company</CardTitle>
+            <CardDescription>
+              Jobs are posted on behalf of a company. Create one here, or ask a colleague who already owns your
+              company&apos;s profile to invite {employer.email}.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <CompanyForm />
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  const { company } = membership;
+  const isOwner = canManageCompany(membership.role);
+  const [members, invites] = await Promise.all([
+    getCompanyMembers(company.id),
+    isOwner ? getPendingCompanyInvites(company.id) : [],
+  ]);
+
+  return (
+    <div className="min-h-screen bg-background p-8">
+      <div className="mx-auto w-full max-w-3xl space-y-6">
+        <Card>
+          <CardHeader>
+            <Link href="/employer" className="text-sm text-primary hover:underline">
+              ← Back to dashboard
+            </Link>
+            <CardTitle className="text-2xl">{company.name}</CardTitle>
+            <CardDescription>
+              You are {COMPANY_MEMBER_ROLE_LABELS[membership.role].toLowerCase()} of this company.{" "}
+              <Link href={`/companies/${company.slug}`} className="text-primary hover:underline">
+                View public profile
+              </Link>
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {isOwner ? (
+              <CompanyForm
+                initialValues={{
+                  name: company.name,
+                  slug: company.slug,
+                  logoUrl: company.logoUrl ?? "",
+                  website: company.website ?? "",
+                  size: company.size ?? "",
+                  industry: company.industry ?? "",
+                  description: company.description ?? "",
+                }}
+              />
+            ) : (
+              <dl className="grid gap-4 text-sm sm:grid-cols-2">
+                <div>
+                  <dt className="text-muted-foreground">Industry</dt>
+                  <dd>{company.industry ?? "—"}</dd>
+                </div>
+                <div>
+                  <dt className="text-muted-foreground">Size</dt>
+                  <dd>{company.size ? COMPANY_SIZE_LABELS[company.size] : "—"}</dd>
+                </div>
+              </dl>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-xl">Team</CardTitle>
+            <CardDescription>
+              {Object.entries(COMPANY_MEMBER_ROLE_DESCRIPTIONS).map(([role, description]) => (
+                <span key={role} className="block">
+                  <strong>{COMPANY_MEMBER_ROLE_LABELS[role as keyof typeof COMPANY_MEMBER_ROLE_LABELS]}:</strong>{" "}
+                  {description}
+                </span>
+              ))}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            <div className="space-y-3">
+              {members.map((member) => (
+                <div
+                  key={member.id}
+                  className="flex flex-col gap-3 rounded-md border p-4 sm:flex-row sm:items-center sm:justify-between"
+                >
+                  <div className="space-y-1">
+                    <p className="font-medium">
+                      {member.name} {member.userId === employer.id && <span className="text-muted-foreground">(you)</span>}
+                    </p>
+                    <p className="text-sm text-muted-foreground">
+                      {member.email} · joined {member.joinedAt.toLocaleDateString()}
+                    </p>
+                  </div>
+                  {isOwner ? (
+                    <TeamMemberActions memberId={member.id} role={member.role} isSelf={member.userId === employer.id} />
+                  ) : (
+                    <span className="text-sm">{COMPANY_MEMBER_ROLE_LABELS[member.role]}</span>
+                  )}
+                </div>
+              ))}
+            </div>
+
+            {isOwner && (
+              <div className="space-y-3 border-t pt-6">
+                <h3 className="font-medium">Invite a Colleague</h3>
+                <InviteMemberForm />
+                {invites.map((invite) => (
+                  <div key={invite.id} className="flex items-center justify-between gap-3 rounded-md border p-3 text-sm">
+                    <span>
+                      {invite.email} · {COMPANY_MEMBER_ROLE_LABELS[invite.role]} · expires{" "}
+                      {invite.expiresAt.toLocaleDateString()}
+                    </span>
+                    <RevokeInviteButton inviteId={invite.id} />
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
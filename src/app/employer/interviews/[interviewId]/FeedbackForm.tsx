@@ -0,0 +1,43 @@
+"use client"
+
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { saveInterviewFeedbackAction } from "@/features/interviews/server/interviews.action";
+import { useState, useTransition } from "react";
+import { toast } from "sonner";
+
+//* Internal notes for the hiring team; the candidate never sees them.
+const FeedbackForm = ({ interviewId, initialFeedback }: { interviewId: number; initialFeedback: string }) => {
+  const [feedback, setFeedback] = useState(initialFeedback);
+  const [isPending, startTransition] = useTransition();
+
+  const handleSave = () => {
+    startTransition(async () => {
+      const result = await saveInterviewFeedbackAction({ interviewId, feedback });
+
+      if (result.status === "SUCCESS") {
+        toast.success(result.message);
+      } else {
+        toast.error(result.message);
+      }
+    });
+  };
+
+  return (
+    <div className="space-y-2">
+      <Textarea
+        rows={6}
+        placeholder="How did it go? Only your team can see this."
+        value={feedback}
+        onChange={(event) => setFeedback(event.target.value)}
+      />
+      <div className="flex justify-end">
+        <Button type="button" size="sm" disabled={isPending} onClick={handleSave}>
+          Save Feedback
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default FeedbackForm;
@@ -0,0 +1,117 @@
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { requireRole } from "@/features/auth/server/auth.queries";
+import CancelInterviewButton from "@/features/interviews/components/CancelInterviewButton";
+import InterviewStatusBadge from "@/features/interviews/components/InterviewStatusBadge";
+import { formatInterviewTime } from "@/features/interviews/interviews.constants";
+import { getInterviewAccess, getInterviewers, getInterviewSlots } from "@/features/interviews/server/interviews.queries";
+import { CalendarDays } from "lucide-react";
+import Link from "next/link";
+import { notFound } from "next/navigation";
+import FeedbackForm from "./FeedbackForm";
+
+export const dynamic = "force-dynamic";
+
+export default async function EmployerInterviewPage({ params }: { params: Promise<{ interviewId: string }> }) {
+  const { interviewId } = await params;
+  const user = await requireRole("employer");
+
+  const access = await getInterviewAccess({ interviewId: Number(interviewId), user });
+
+  if (!access || access.party !== "company") notFound();
+
+  const { interview, canManage, canWriteFeedback } = access;
+  const [slots, interviewers] = await Promise.all([getInterviewSlots(interview.id), getInterviewers(interview.id)]);
+  const isOpen = interview.status !== "cancelled";
+
+  return (
+    <div className="min-h-screen bg-background p-8">
+      <Card className="mx-auto w-full max-w-3xl">
+        <CardHeader>
+          <Link href="/employer/interviews" className="text-sm text-primary hover:underline">
+            ← Back to interviews
+          </Link>
+          <CardTitle className="text-2xl">
+            {interview.applicantName} <InterviewStatusBadge status={interview.status} />
+          </CardTitle>
+          <CardDescription>
+            {interview.jobTitle} · {interview.durationMinutes} minutes · times in {interview.timeZone}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <section className="space-y-1 text-sm">
+            {interview.startsAt && (
+              <p>
+                <span className="font-medium">When:</span> {formatInterviewTime(interview.startsAt, interview.timeZone)}
+              </p>
+            )}
+            {interview.location && (
+              <p>
+                <span className="font-medium">Where:</span> {interview.location}
+              </p>
+            )}
+            {interview.meetingUrl && (
+              <p>
+                <span className="font-medium">Meeting link:</span>{" "}
+                <a href={interview.meetingUrl} target="_blank" rel="noopener noreferrer" className="text-primary hover:underline">
+                  {interview.meetingUrl}
+                </a>
+              </p>
+            )}
+          </section>
+
+          {interview.status === "proposed" && (
+            <section className="space-y-2">
+              <h2 className="font-medium">Offered times</h2>
+              <ul className="list-inside list-disc text-sm text-muted-foreground">
+                {slots.map((slot) => (
+                  <li key={slot.id}>{formatInterviewTime(slot.startsAt, interview.timeZone)}</li>
+                ))}
+              </ul>
+              <p className="text-sm text-muted-foreground">Waiting for the candidate to pick one.</p>
+            </section>
+          )}
+
+          <section className="space-y-2">
+            <h2 className="font-medium">Interviewers</h2>
+            <ul className="text-sm">
+              {interviewers.map((interviewer) => (
+                <li key={interviewer.userId}>
+                  {interviewer.name} <span className="text-muted-foreground">{interviewer.email}</span>
+                </li>
+              ))}
+            </ul>
+          </section>
+
+          <div className="flex flex-wrap gap-2">
+            {interview.status === "scheduled" && (
+              <Button asChild size="sm" variant="outline">
+                <a href={`/interviews/${interview.id}/calendar`}>
+                  <CalendarDays className="w-4 h-4" />
+                  Add to Calendar
+                </a>
+              </Button>
+            )}
+            {canManage && isOpen && interview.applicationStatus === "interview" && (
+              <Button asChild size="sm" variant="outline">
+                <Link href={`/employer/interviews/${interview.id}/reschedule`}>Reschedule</Link>
+              </Button>
+            )}
+            {canManage && isOpen && <CancelInterviewButton interviewId={interview.id} />}
+          </div>
+
+          <section className="space-y-2">
+            <h2 className="font-medium">Feedback</h2>
+            {canWriteFeedback ? (
+              <FeedbackForm interviewId={interview.id} initialFeedback={interview.feedback ?? ""} />
+            ) : (
+              <p className="whitespace-pre-line text-sm text-muted-foreground">
+                {interview.feedback || "No feedback yet."}
+              </p>
+            )}
+          </section>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,58 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { requireRole } from "@/features/auth/server/auth.queries";
+import { getCompanyMembers } from "@/features/companies/server/companies.queries";
+import InterviewForm from "@/features/interviews/components/InterviewForm";
+import { getInterviewAccess, getInterviewers } from "@/features/interviews/server/interviews.queries";
+import Link from "next/link";
+import { notFound, redirect } from "next/navigation";
+
+export default async function RescheduleInterviewPage({ params }: { params: Promise<{ interviewId: string }> }) {
+  const { interviewId } = await params;
+  const user = await requireRole("employer");
+
+  const access = await getInterviewAccess({ interviewId: Number(interviewId), user });
+
+  if (!access || access.party !== "company") notFound();
+
+  const { interview } = access;
+
+  if (!access.canManage || interview.status === "cancelled") redirect(`/employer/interviews/${interview.id}`);
+
+  const [members, interviewers] = await Promise.all([
+    getCompanyMembers(interview.companyId),
+    getInterviewers(interview.id),
+  ]);
+
+  return (
+    <div className="min-h-screen bg-background p-8">
+      <Card className="mx-auto w-full max-w-3xl">
+        <CardHeader>
+          <Link href={`/employer/interviews/${interview.id}`} className="text-sm text-primary hover:underline">
+            ← Back to interview
+          </Link>
+          <CardTitle className="text-2xl">Reschedule Interview</CardTitle>
+          <CardDescription>
+            {interview.applicantName} · {interview.jobTitle}.{" "}
+            {interview.status === "scheduled"
+              ? "The confirmed time is withdrawn from everyone's calendar and the candidate picks again."
+              : "The candidate will pick from the new times instead."}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <InterviewForm
+            target={{ interviewId: interview.id }}
+            members={members}
+            initialValues={{
+              timeZone: interview.timeZone,
+              durationMinutes: interview.durationMinutes,
+              slots: [""],
+              interviewerIds: interviewers.map((interviewer) => interviewer.userId),
+              location: interview.location ?? "",
+              meetingUrl: interview.meetingUrl ?? "",
+            }}
+          />
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,47 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { getApplicationWithJob } from "@/features/applications/server/applications.queries";
+import { canManageJobs } from "@/features/companies/companies.constants";
+import { getCompanyMembers, requireCompanyMembership } from "@/features/companies/server/companies.queries";
+import InterviewForm from "@/features/interviews/components/InterviewForm";
+import Link from "next/link";
+import { notFound, redirect } from "next/navigation";
+
+export default async function NewInterviewPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ applicationId?: string }>;
+}) {
+  const { applicationId } = await searchParams;
+  const { membership } = await requireCompanyMembership();
+
+  if (!canManageJobs(membership.role)) redirect("/employer/interviews");
+
+  const application = await getApplicationWithJob(Number(applicationId));
+
+  if (!application || application.companyId !== membership.company.id) notFound();
+
+  const members = await getCompanyMembers(membership.company.id);
+
+  return (
+    <div className="min-h-screen bg-background p-8">
+      <Card className="mx-auto w-full max-w-3xl">
+        <CardHeader>
+          <Link href={`/employer/jobs/${application.jobId}/applicants`} className="text-sm text-primary hover:underline">
+            ← Back to applicants
+          </Link>
+          <CardTitle className="text-2xl">Schedule Interview</CardTitle>
+          <CardDescription>
+            {application.applicantName} · {application.jobTitle}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {application.status === "interview" ? (
+            <InterviewForm target={{ applicationId: application.id }} members={members} />
+          ) : (
+            <p className="text-sm text-muted-foreground">Move the candidate to the interview stage first.</p>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,68 @@
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { requireCompanyMembership } from "@/features/companies/server/companies.queries";
+import InterviewStatusBadge from "@/features/interviews/components/InterviewStatusBadge";
+import { formatInterviewTime } from "@/features/interviews/interviews.constants";
+import { getCompanyInterviews } from "@/features/interviews/server/interviews.queries";
+import Link from "next/link";
+
+export const dynamic = "force-dynamic";
+
+export default async function EmployerInterviewsPage() {
+  const { membership } = await requireCompanyMembership();
+  const interviews = await getCompanyInterviews(membership.company.id);
+
+  return (
+    <div className="min-h-screen bg-background p-8">
+      <Card className="mx-auto w-full max-w-5xl">
+        <CardHeader>
+          <Link href="/employer" className="text-sm text-primary hover:underline">
+            ← Back to dashboard
+          </Link>
+          <CardTitle className="text-2xl">Interviews</CardTitle>
+          <CardDescription>
+            Interviews are set up from a job&apos;s applicants page once a candidate reaches the interview stage.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {interviews.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No interviews yet.</p>
+          ) : (
+            <div className="overflow-x-auto rounded-md border">
+              <table className="w-full text-sm">
+                <thead className="bg-muted/50 text-left text-muted-foreground">
+                  <tr>
+                    <th className="px-4 py-2 font-medium">Candidate</th>
+                    <th className="px-4 py-2 font-medium">Job</th>
+                    <th className="px-4 py-2 font-medium">Status</th>
+                    <th className="px-4 py-2 font-medium">When</th>
+                    <th className="px-4 py-2 font-medium text-right">Details</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {interviews.map((interview) => (
+                    <tr key={interview.id} className="border-t align-top">
+                      <td className="px-4 py-3 font-medium">{interview.applicantName}</td>
+                      <td className="px-4 py-3">{interview.jobTitle}</td>
+                      <td className="px-4 py-3">
+                        <InterviewStatusBadge status={interview.status} />
+                      </td>
+                      <td className="px-4 py-3 text-muted-foreground">
+                        {interview.startsAt ? formatInterviewTime(interview.startsAt, interview.timeZone) : "—"}
+                      </td>
+                      <td className="px-4 py-3 text-right">
+                        <Button asChild size="sm" variant="outline">
+                          <Link href={`/employer/interviews/${interview.id}`}>Open</Link>
+                        </Button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,62 @@
+"use client"
+
+import { Button } from "@/components/ui/button";
+import { JobStatus } from "@/features/jobs/jobs.constants";
+import { closeJobAction, deleteJobAction } from "@/features/jobs/server/jobs.action";
+import Link from "next/link";
+import { useTransition } from "react";
+import { toast } from "sonner";
+
+const JobRowActions = ({
+  jobId,
+  status,
+  canManage,
+}: {
+  jobId: number;
+  status: JobStatus;
+  canManage: boolean;
+}) => {
+  const [isPending, startTransition] = useTransition();
+
+  const runAction = (action: (jobId: number) => Promise<{ status: string; message: string }>) => {
+    startTransition(async () => {
+      const result = await action(jobId);
+
+      if (result.status === "SUCCESS") toast.success(result.message);
+      else toast.error(result.message);
+    });
+  };
+
+  const handleDelete = () => {
+    if (!window.confirm("Delete this job posting? This cannot be undone.")) return;
+    runAction(deleteJobAction);
+  };
+
+  return (
+    <div className="flex gap-2">
+      <Button asChild variant="outline" size="sm">
+        <Link href={`/employer/jobs/${jobId}/applicants`}>Applicants</Link>
+      </Button>
+      <Button asChild variant="outline" size="sm">
+        <Link href={`/employer/jobs/${jobId}/candidates`}>Suggested</Link>
+      </Button>
+      {canManage && status !== "closed" && (
+        <>
+          <Button asChild variant="outline" size="sm">
+            <Link href={`/employer/jobs/${jobId}/edit`}>Edit</Link>
+          </Button>
+          <Button type="button" variant="outline" size="sm" disabled={isPending} onClick={() => runAction(closeJobAction)}>
+            Close
+          </Button>
+        </>
+      )}
+      {canManage && (
+        <Button type="button" variant="destructive" size="sm" disabled={isPending} onClick={handleDelete}>
+          Delete
+        </Button>
+      )}
+    </div>
+  );
+};
+
+export default JobRowActions;
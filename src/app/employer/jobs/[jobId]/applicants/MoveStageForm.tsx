@@ -0,0 +1,60 @@
+"use client"
+
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { APPLICATION_STATUS_LABELS, ApplicationStatus } from "@/features/applications/applications.constants";
+import { updateApplicationStatusAction } from "@/features/applications/server/applications.action";
+import { useState, useTransition } from "react";
+import { toast } from "sonner";
+
+const MoveStageForm = ({
+  applicationId,
+  nextStatuses,
+}: {
+  applicationId: number;
+  nextStatuses: ApplicationStatus[];
+}) => {
+  const [status, setStatus] = useState<ApplicationStatus | "">("");
+  const [note, setNote] = useState("");
+  const [isPending, startTransition] = useTransition();
+
+  const handleMove = () => {
+    if (!status) return;
+
+    startTransition(async () => {
+      const result = await updateApplicationStatusAction({ applicationId, status, note });
+
+      if (result.status === "SUCCESS") {
+        toast.success(result.message);
+        setStatus("");
+        setNote("");
+      } else {
+        toast.error(result.message);
+      }
+    });
+  };
+
+  return (
+    <div className="flex flex-col gap-2 sm:w-64">
+      <Select value={status} onValueChange={(value) => setStatus(value as ApplicationStatus)}>
+        <SelectTrigger className="w-full" aria-label="Move to stage">
+          <SelectValue placeholder="Move to stage..." />
+        </SelectTrigger>
+        <SelectContent>
+          {nextStatuses.map((nextStatus) => (
+            <SelectItem key={nextStatus} value={nextStatus}>
+              {APPLICATION_STATUS_LABELS[nextStatus]}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <Input placeholder="Note (optional)" value={note} onChange={(event) => setNote(event.target.value)} />
+      <Button type="button" size="sm" disabled={!status || isPending} onClick={handleMove}>
+        Update Stage
+      </Button>
+    </div>
+  );
+};
+
+export default MoveStageForm;
@@ -0,0 +1,102 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { APPLICATION_STATUS_TRANSITIONS } from "@/features/applications/applications.constants";
+import ApplicantExportForm from "@/features/applications/components/ApplicantExportForm";
+import ApplicationStatusBadge from "@/features/applications/components/ApplicationStatusBadge";
+import StatusHistory from "@/features/applications/components/StatusHistory";
+import { getJobApplicants } from "@/features/applications/server/applications.queries";
+import { canManageJobs } from "@/features/companies/companies.constants";
+import { requireCompanyMembership } from "@/features/companies/server/companies.queries";
+import { getCompanyJobById } from "@/features/jobs/server/jobs.queries";
+import Link from "next/link";
+import { notFound } from "next/navigation";
+import MoveStageForm from "./MoveStageForm";
+
+export default async function JobApplicantsPage({
+  params,
+}: {
+  params: Promise<{ jobId: string }>;
+}) {
+  const { jobId } = await params;
+  const { membership } = await requireCompanyMembership();
+  const isRecruiter = canManageJobs(membership.role);
+
+  const job = await getCompanyJobById({ jobId: Number(jobId), companyId: membership.company.id });
+
+  if (!job) notFound();
+
+  const applicants = await getJobApplicants(job.id);
+
+  return (
+    <div className="min-h-screen bg-background p-8">
+      <Card className="mx-auto w-full max-w-4xl">
+        <CardHeader>
+          <Link href="/employer/jobs" className="text-sm text-primary hover:underline">
+            ← Back to your jobs
+          </Link>
+          <CardTitle className="text-2xl">Applicants · {job.title}</CardTitle>
+          <CardDescription>{applicants.length} application(s). Move candidates through your hiring pipeline.</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {applicants.length > 0 && <ApplicantExportForm jobId={job.id} />}
+          {applicants.length === 0 && <p className="text-sm text-muted-foreground">No applications yet.</p>}
+          {applicants.map((application) => {
+            const nextStatuses = APPLICATION_STATUS_TRANSITIONS[application.status].filter(
+              (status) => status !== "withdrawn",
+            );
+
+            return (
+              <div key={application.id} className="space-y-3 rounded-md border p-4">
+                <div className="flex flex-col gap-3 sm:flex-row sm:items-start sm:justify-between">
+                  <div className="space-y-1">
+                    <p className="font-medium">
+                      {application.applicantName} <ApplicationStatusBadge status={application.status} />
+                    </p>
+                    <p className="text-sm text-muted-foreground">
+                      <Link href={`/u/${application.applicantUserName}`} className="hover:underline">
+                        @{application.applicantUserName}
+                      </Link>{" "}
+                      · applied {application.createdAt.toLocaleDateString()}
+                    </p>
+                    <Link href={`/employer/messages/${application.id}`} className="mr-3 text-sm text-primary hover:underline">
+                      Message
+                    </Link>
+                    {isRecruiter && application.status === "interview" && (
+                      <Link
+                        href={`/employer/interviews/new?applicationId=${application.id}`}
+                        className="mr-3 text-sm text-primary hover:underline"
+                      >
+                        Schedule interview
+                      </Link>
+                    )}
+                    {application.resumeId && (
+                      <a href={`/resumes/${application.resumeId}/download`} className="mr-3 text-sm text-primary hover:underline">
+                        Download resume
+                      </a>
+                    )}
+                    {application.resumeUrl && (
+                      <a
+                        href={application.resumeUrl}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="text-sm text-primary hover:underline"
+                      >
+                        Resume link
+                      </a>
+                    )}
+                  </div>
+                  {isRecruiter && nextStatuses.length > 0 && (
+                    <MoveStageForm applicationId={application.id} nextStatuses={nextStatuses} />
+                  )}
+                </div>
+                {application.coverLetter && (
+                  <p className="whitespace-pre-line rounded-md bg-muted p-3 text-sm">{application.coverLetter}</p>
+                )}
+                <StatusHistory history={application.history} />
+              </div>
+            );
+          })}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,59 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { requireCompanyMembership } from "@/features/companies/server/companies.queries";
+import { getCompanyJobById } from "@/features/jobs/server/jobs.queries";
+import MatchBreakdown, { MatchScoreBadge } from "@/features/matching/components/MatchBreakdown";
+import { getSuggestedCandidates } from "@/features/matching/server/matching.queries";
+import Link from "next/link";
+import { notFound } from "next/navigation";
+
+export default async function SuggestedCandidatesPage({
+  params,
+}: {
+  params: Promise<{ jobId: string }>;
+}) {
+  const { jobId } = await params;
+  const { membership } = await requireCompanyMembership();
+
+  const job = await getCompanyJobById({ jobId: Number(jobId), companyId: membership.company.id });
+
+  if (!job) notFound();
+
+  const suggestions = await getSuggestedCandidates(job);
+
+  return (
+    <div className="min-h-screen bg-background p-8">
+      <Card className="mx-auto w-full max-w-4xl">
+        <CardHeader>
+          <Link href="/employer/jobs" className="text-sm text-primary hover:underline">
+            ← Back to your jobs
+          </Link>
+          <CardTitle className="text-2xl">Suggested Candidates · {job.title}</CardTitle>
+          <CardDescription>
+            Applicants with public profiles, and everyone who applied, ranked against this job&apos;s skills,
+            experience level, location and salary range.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {suggestions.length === 0 && <p className="text-sm text-muted-foreground">No matching candidates yet.</p>}
+          {suggestions.map(({ candidate, match }) => (
+            <div key={candidate.id} className="space-y-2 rounded-md border p-4">
+              <div className="flex items-start justify-between gap-4">
+                <div className="space-y-1">
+                  <Link href={`/u/${candidate.userName}`} className="font-medium hover:underline">
+                    {candidate.name}
+                  </Link>
+                  <p className="text-sm text-muted-foreground">
+                    {candidate.headline ?? `@${candidate.userName}`}
+                    {candidate.hasApplied && " · already applied"}
+                  </p>
+                </div>
+                <MatchScoreBadge score={match.score} />
+              </div>
+              <MatchBreakdown match={match} />
+            </div>
+          ))}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,51 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { canManageJobs } from "@/features/companies/companies.constants";
+import { requireCompanyMembership } from "@/features/companies/server/companies.queries";
+import JobForm from "@/features/jobs/components/JobForm";
+import { getCompanyJobById } from "@/features/jobs/server/jobs.queries";
+import Link from "next/link";
+import { notFound } from "next/navigation";
+
+export default async function EditJobPage({
+  params,
+}: {
+  params: Promise<{ jobId: string }>;
+}) {
+  const { jobId } = await params;
+  const { membership } = await requireCompanyMembership();
+
+  const job = await getCompanyJobById({ jobId: Number(jobId), companyId: membership.company.id });
+
+  if (!job || job.status === "closed" || !canManageJobs(membership.role)) notFound();
+
+  return (
+    <div className="min-h-screen bg-background p-8">
+      <Card className="mx-auto w-full max-w-3xl">
+        <CardHeader>
+          <Link href="/employer/jobs" className="text-sm text-primary hover:underline">
+            ← Back to your jobs
+          </Link>
+          <CardTitle className="text-2xl">Edit Job</CardTitle>
+          <CardDescription>{job.title}</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <JobForm
+            jobId={job.id}
+            initialValues={{
+              title: job.title,
+              description: job.description,
+              employmentType: job.employmentType,
+              workMode: job.workMode,
+              location: job.location ?? "",
+              salaryMin: job.salaryMin?.toString() ?? "",
+              salaryMax: job.salaryMax?.toString() ?? "",
+              salaryCurrency: job.salaryCurrency,
+              experienceLevel: job.experienceLevel,
+              skills: job.skills.join(", "),
+            }}
+          />
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
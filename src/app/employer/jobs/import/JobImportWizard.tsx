@@ -0,0 +1,256 @@
+"use client"
+
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  JOB_IMPORT_CHOICES,
+  JOB_IMPORT_FIELD_LABELS,
+  JOB_IMPORT_FIELDS,
+  JOB_IMPORT_FIELDS_WITH_FALLBACK,
+  JOB_IMPORT_FORMAT_LABELS,
+  JOB_IMPORT_OUTCOME_LABELS,
+  JobImportField,
+  JobImportFieldWithFallback,
+  JobImportFormat,
+  JobImportOutcome,
+  REQUIRED_JOB_IMPORT_FIELDS,
+} from "@/features/jobImports/jobImports.constants";
+import { JobImportMapping } from "@/features/jobImports/jobImports.schema";
+import { inspectJobImportAction, runJobImportAction } from "@/features/jobImports/server/jobImports.action";
+import type { JobImportRowResult } from "@/features/jobImports/server/use-cases/jobImport";
+import { cn } from "@/lib/utils";
+import { ChangeEvent, useState, useTransition } from "react";
+import { toast } from "sonner";
+
+// Radix selects can't hold an empty value
+const NONE = "__none__";
+
+const OUTCOME_CLASSES: Record<JobImportOutcome, string> = {
+  create: "text-green-700 dark:text-green-400",
+  update: "text-blue-700 dark:text-blue-400",
+  unchanged: "text-muted-foreground",
+  error: "text-destructive",
+};
+
+const isFieldWithFallback = (field: JobImportField): field is JobImportFieldWithFallback =>
+  (JOB_IMPORT_FIELDS_WITH_FALLBACK as readonly string[]).includes(field);
+
+interface Report {
+  isDryRun: boolean;
+  rows: JobImportRowResult[];
+  summary: Record<JobImportOutcome, number>;
+}
+
+const JobImportWizard = ({ maxRows }: { maxRows: number }) => {
+  const [file, setFile] = useState<File | null>(null);
+  const [source, setSource] = useState<{ format: JobImportFormat; columns: string[]; rowCount: number } | null>(
+    null,
+  );
+  const [mapping, setMapping] = useState<JobImportMapping>({ columns: {}, fallbacks: {} });
+  const [report, setReport] = useState<Report | null>(null);
+  const [isPending, startTransition] = useTransition();
+
+  const handleFileChange = (event: ChangeEvent<HTMLInputElement>) => {
+    const selected = event.target.files?.[0] ?? null;
+
+    setFile(selected);
+    setSource(null);
+    setReport(null);
+
+    if (!selected) return;
+
+    startTransition(async () => {
+      const formData = new FormData();
+      formData.append("file", selected);
+
+      const result = await inspectJobImportAction(formData);
+
+      if (result.status === "SUCCESS" && result.format && result.columns && result.mapping) {
+        setSource({ format: result.format, columns: result.columns, rowCount: result.rowCount });
+        setMapping(result.mapping);
+      } else {
+        toast.error(result.message);
+      }
+    });
+  };
+
+  //* Any mapping change invalidates the preview, so an import always matches what was last previewed.
+  const updateMapping = (update: (current: JobImportMapping) => JobImportMapping) => {
+    setMapping(update);
+    setReport(null);
+  };
+
+  const setColumn = (field: JobImportField, column: string) =>
+    updateMapping((current) => ({
+      ...current,
+      columns: { ...current.columns, [field]: column === NONE ? undefined : column },
+    }));
+
+  const setFallback = (field: JobImportFieldWithFallback, value: string) =>
+    updateMapping((current) => ({
+      ...current,
+      fallbacks: { ...current.fallbacks, [field]: value === NONE ? undefined : value },
+    }));
+
+  const run = (isDryRun: boolean) => {
+    if (!file) return;
+
+    const confirmMessage = "Import the new and changed jobs from this file? Rows with errors are skipped.";
+    if (!isDryRun && !window.confirm(confirmMessage)) return;
+
+    startTransition(async () => {
+      const formData = new FormData();
+      formData.append("file", file);
+      formData.append("mapping", JSON.stringify(mapping));
+      formData.append("dryRun", String(isDryRun));
+
+      const result = await runJobImportAction(formData);
+
+      if (result.status === "SUCCESS" && result.rows && result.summary) {
+        setReport({ isDryRun, rows: result.rows, summary: result.summary });
+        if (isDryRun) toast.info(result.message);
+        else toast.success(result.message);
+      } else {
+        toast.error(result.message);
+      }
+    });
+  };
+
+  const pendingChanges = report ? report.summary.create + report.summary.update : 0;
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-2">
+        <Label htmlFor="importFile">File</Label>
+        <Input
+          id="importFile"
+          type="file"
+          accept=".csv,.xml,text/csv,text/xml,application/xml"
+          disabled={isPending}
+          onChange={handleFileChange}
+        />
+        <p className="text-xs text-muted-foreground">
+          A CSV file with a header row, or an XML feed with one element per job (e.g. &lt;job&gt;). Up to{" "}
+          {maxRows} jobs per file.
+        </p>
+      </div>
+
+      {source && (
+        <div className="space-y-4">
+          <div>
+            <h3 className="font-medium">Map Columns</h3>
+            <p className="text-sm text-muted-foreground">
+              {JOB_IMPORT_FORMAT_LABELS[source.format]} with {source.rowCount} job(s). Choose where each field comes
+              from; defaults fill in empty cells. The mapping is remembered for your next import.
+            </p>
+          </div>
+
+          <div className="grid gap-4 sm:grid-cols-2">
+            {JOB_IMPORT_FIELDS.map((field) => (
+              <div key={field} className="space-y-2 rounded-md border p-3">
+                <Label htmlFor={`column-${field}`}>
+                  {JOB_IMPORT_FIELD_LABELS[field]}
+                  {(REQUIRED_JOB_IMPORT_FIELDS as readonly string[]).includes(field) && " *"}
+                </Label>
+                <Select value={mapping.columns[field] ?? NONE} onValueChange={(value) => setColumn(field, value)}>
+                  <SelectTrigger id={`column-${field}`} className="w-full">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NONE}>Not imported</SelectItem>
+                    {source.columns.map((column) => (
+                      <SelectItem key={column} value={column}>
+                        {column}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {isFieldWithFallback(field) && (
+                  <Select
+                    value={mapping.fallbacks[field] ?? NONE}
+                    onValueChange={(value) => setFallback(field, value)}
+                  >
+                    <SelectTrigger aria-label={`Default ${JOB_IMPORT_FIELD_LABELS[field]}`} className="w-full">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NONE}>No default</SelectItem>
+                      {JOB_IMPORT_CHOICES[field].map((choice) => (
+                        <SelectItem key={choice.value} value={choice.value}>
+                          Default: {choice.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                )}
+              </div>
+            ))}
+          </div>
+
+          <div className="flex flex-wrap justify-end gap-2">
+            <Button type="button" variant="outline" disabled={isPending} onClick={() => run(true)}>
+              {isPending ? "Checking..." : "Preview Import"}
+            </Button>
+            <Button
+              type="button"
+              disabled={isPending || !report?.isDryRun || pendingChanges === 0}
+              onClick={() => run(false)}
+            >
+              Import {report?.isDryRun ? pendingChanges : ""} Job(s)
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {report && (
+        <div className="space-y-3">
+          <h3 className="font-medium">{report.isDryRun ? "Preview (nothing saved yet)" : "Import Result"}</h3>
+          <p className="text-sm text-muted-foreground">
+            {report.isDryRun
+              ? `${report.summary.create} new, ${report.summary.update} to update, `
+              : `${report.summary.create} created, ${report.summary.update} updated, `}
+            {report.summary.unchanged} unchanged, {report.summary.error}{" "}
+            {report.isDryRun ? "with errors" : "skipped"}.
+          </p>
+          <div className="overflow-x-auto rounded-md border">
+            <table className="w-full text-sm">
+              <thead className="bg-muted/50 text-left text-muted-foreground">
+                <tr>
+                  <th className="px-4 py-2 font-medium">Row</th>
+                  <th className="px-4 py-2 font-medium">Reference ID</th>
+                  <th className="px-4 py-2 font-medium">Title</th>
+                  <th className="px-4 py-2 font-medium">Result</th>
+                </tr>
+              </thead>
+              <tbody>
+                {report.rows.map((row) => (
+                  <tr key={row.row} className="border-t align-top">
+                    <td className="px-4 py-2 text-muted-foreground">{row.row}</td>
+                    <td className="px-4 py-2 font-mono text-xs">{row.externalRef || "—"}</td>
+                    <td className="px-4 py-2">{row.title || "—"}</td>
+                    <td className="px-4 py-2">
+                      <span className={cn("font-medium", OUTCOME_CLASSES[row.outcome])}>
+                        {JOB_IMPORT_OUTCOME_LABELS[row.outcome]}
+                      </span>
+                      {row.errors.length > 0 && (
+                        <ul className="mt-1 list-disc space-y-0.5 pl-4 text-xs text-destructive">
+                          {row.errors.map((error) => (
+                            <li key={error}>{error}</li>
+                          ))}
+                        </ul>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default JobImportWizard;
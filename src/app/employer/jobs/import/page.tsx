@@ -0,0 +1,33 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { JOB_IMPORT_MAX_ROWS } from "@/config/constant";
+import { canManageJobs } from "@/features/companies/companies.constants";
+import { requireCompanyMembership } from "@/features/companies/server/companies.queries";
+import Link from "next/link";
+import { redirect } from "next/navigation";
+import JobImportWizard from "./JobImportWizard";
+
+export default async function ImportJobsPage() {
+  const { membership } = await requireCompanyMembership();
+
+  if (!canManageJobs(membership.role)) redirect("/employer/jobs");
+
+  return (
+    <div className="min-h-screen bg-background p-8">
+      <Card className="mx-auto w-full max-w-5xl">
+        <CardHeader>
+          <Link href="/employer/jobs" className="text-sm text-primary hover:underline">
+            ← Back to your jobs
+          </Link>
+          <CardTitle className="text-2xl">Import Jobs</CardTitle>
+          <CardDescription>
+            Load many postings for {membership.company.name} from a CSV file or an XML job feed. Every row needs a
+            reference ID: importing the same file again updates those jobs instead of creating duplicates.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <JobImportWizard maxRows={JOB_IMPORT_MAX_ROWS} />
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
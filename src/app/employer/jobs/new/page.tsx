@@ -0,0 +1,31 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { canManageJobs } from "@/features/companies/companies.constants";
+import { requireCompanyMembership } from "@/features/companies/server/companies.queries";
+import JobForm from "@/features/jobs/components/JobForm";
+import Link from "next/link";
+import { redirect } from "next/navigation";
+
+export default async function NewJobPage() {
+  const { membership } = await requireCompanyMembership();
+
+  if (!canManageJobs(membership.role)) redirect("/employer/jobs");
+
+  return (
+    <div className="min-h-screen bg-background p-8">
+      <Card className="mx-auto w-full max-w-3xl">
+        <CardHeader>
+          <Link href="/employer/jobs" className="text-sm text-primary hover:underline">
+            ← Back to your jobs
+          </Link>
+          <CardTitle className="text-2xl">Post a Job</CardTitle>
+          <CardDescription>
+            Posted on behalf of {membership.company.name}. Save it as a draft or publish it straight away.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <JobForm />
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,77 @@
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import ApplicantExportForm from "@/features/applications/components/ApplicantExportForm";
+import { canManageJobs } from "@/features/companies/companies.constants";
+import { requireCompanyMembership } from "@/features/companies/server/companies.queries";
+import JobStatusBadge from "@/features/jobs/components/JobStatusBadge";
+import {
+  EMPLOYMENT_TYPE_LABELS,
+  formatSalaryRange,
+  WORK_MODE_LABELS,
+} from "@/features/jobs/jobs.constants";
+import { getCompanyJobs } from "@/features/jobs/server/jobs.queries";
+import { Plus, Upload } from "lucide-react";
+import Link from "next/link";
+import JobRowActions from "./JobRowActions";
+
+export default async function EmployerJobsPage() {
+  const { membership } = await requireCompanyMembership();
+  const companyJobs = await getCompanyJobs(membership.company.id);
+  const isRecruiter = canManageJobs(membership.role);
+
+  return (
+    <div className="min-h-screen bg-background p-8">
+      <Card className="mx-auto w-full max-w-4xl">
+        <CardHeader className="flex flex-row items-start justify-between gap-4">
+          <div className="space-y-2">
+            <Link href="/employer" className="text-sm text-primary hover:underline">
+              ← Back to dashboard
+            </Link>
+            <CardTitle className="text-2xl">{membership.company.name} Job Postings</CardTitle>
+            <CardDescription>Every job your team has posted on behalf of {membership.company.name}.</CardDescription>
+          </div>
+          {isRecruiter && (
+            <div className="flex flex-wrap gap-2">
+              <Button asChild variant="outline">
+                <Link href="/employer/jobs/import">
+                  <Upload className="w-4 h-4" />
+                  Import Jobs
+                </Link>
+              </Button>
+              <Button asChild>
+                <Link href="/employer/jobs/new">
+                  <Plus className="w-4 h-4" />
+                  Post a Job
+                </Link>
+              </Button>
+            </div>
+          )}
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {companyJobs.length > 0 && <ApplicantExportForm />}
+          {companyJobs.length === 0 && (
+            <p className="text-sm text-muted-foreground">Your company hasn&apos;t posted any jobs yet.</p>
+          )}
+          {companyJobs.map(({ job, postedBy }) => (
+            <div key={job.id} className="flex flex-col gap-3 rounded-md border p-4 sm:flex-row sm:items-center sm:justify-between">
+              <div className="space-y-1">
+                <p className="font-medium">
+                  {job.title} <JobStatusBadge status={job.status} />
+                </p>
+                <p className="text-sm text-muted-foreground">
+                  {EMPLOYMENT_TYPE_LABELS[job.employmentType]} · {WORK_MODE_LABELS[job.workMode]}
+                  {job.location && ` · ${job.location}`} · {formatSalaryRange(job)}
+                </p>
+                <p className="text-xs text-muted-foreground">
+                  Posted by {postedBy} · last updated {job.updatedAt.toLocaleDateString()}
+                  {job.externalRef && ` · import ref ${job.externalRef}`}
+                </p>
+              </div>
+              <JobRowActions jobId={job.id} status={job.status} canManage={isRecruiter} />
+            </div>
+          ))}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
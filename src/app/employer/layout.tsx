@@ -0,0 +1,11 @@
+import { requireRole } from "@/features/auth/server/auth.queries";
+
+export default async function EmployerDashboardLayout({
+  children,
+}: Readonly<{
+  children: React.ReactNode;
+}>) {
+  await requireRole("employer");
+
+  return <>{children}</>;
+}
@@ -0,0 +1,40 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { requireCompanyMembership } from "@/features/companies/server/companies.queries";
+import ConversationView from "@/features/messaging/components/ConversationView";
+import { getConversationAccess } from "@/features/messaging/server/messaging.queries";
+import Link from "next/link";
+import { notFound } from "next/navigation";
+
+export default async function EmployerConversationPage({
+  params,
+}: {
+  params: Promise<{ applicationId: string }>;
+}) {
+  const { applicationId } = await params;
+  const { employer } = await requireCompanyMembership();
+  const access = await getConversationAccess({ applicationId: Number(applicationId), user: employer });
+
+  if (!access) notFound();
+
+  return (
+    <div className="min-h-screen bg-background p-8">
+      <Card className="mx-auto w-full max-w-3xl">
+        <CardHeader>
+          <Link href="/employer/messages" className="text-sm text-primary hover:underline">
+            ← Back to messages
+          </Link>
+          <CardTitle className="text-2xl">{access.thread.applicantName}</CardTitle>
+          <CardDescription>
+            Applicant for{" "}
+            <Link href={`/employer/jobs/${access.thread.jobId}/applicants`} className="text-primary hover:underline">
+              {access.thread.jobTitle}
+            </Link>
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <ConversationView access={access} user={employer} />
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
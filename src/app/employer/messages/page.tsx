@@ -0,0 +1,30 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { requireCompanyMembership } from "@/features/companies/server/companies.queries";
+import ConversationList from "@/features/messaging/components/ConversationList";
+import { getCompanyConversations } from "@/features/messaging/server/messaging.queries";
+import Link from "next/link";
+
+export default async function EmployerMessagesPage() {
+  const { employer, membership } = await requireCompanyMembership();
+  const conversations = await getCompanyConversations({ companyId: membership.company.id, userId: employer.id });
+
+  return (
+    <div className="min-h-screen bg-background p-8">
+      <Card className="mx-auto w-full max-w-3xl">
+        <CardHeader>
+          <Link href="/employer" className="text-sm text-primary hover:underline">
+            ← Back to dashboard
+          </Link>
+          <CardTitle className="text-2xl">Messages</CardTitle>
+          <CardDescription>
+            Conversations with candidates, shared by everyone at {membership.company.name}. Start one from a job&apos;s
+            applicants list.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <ConversationList conversations={conversations} basePath="/employer/messages" />
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,74 @@
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import AccountLinks from "@/features/auth/components/AccountLinks";
+import { requireRole } from "@/features/auth/server/auth.queries";
+import { canManageCompany } from "@/features/companies/companies.constants";
+import { getUserMembership } from "@/features/companies/server/companies.queries";
+import { getUnreadMessageCount } from "@/features/messaging/server/messaging.queries";
+import { BriefcaseBusiness, Building2, CalendarDays, KeyRound, MessageSquare, UserSearch } from "lucide-react";
+import Link from "next/link";
+
+export default async function EmployerDashboardPage() {
+  const user = await requireRole("employer");
+  const membership = await getUserMembership(user.id);
+  const unreadMessages = await getUnreadMessageCount(user);
+
+  return (
+    <div className="min-h-screen bg-background p-8">
+      <Card className="mx-auto w-full max-w-3xl">
+        <CardHeader>
+          <CardTitle className="text-2xl">Employer Dashboard</CardTitle>
+          <CardDescription>Welcome back, {user.name}. Manage your job postings and candidates.</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {!membership && (
+            <p className="rounded-md bg-muted p-3 text-sm">
+              Set up your company profile (or accept a colleague&apos;s invitation) before posting jobs.
+            </p>
+          )}
+          <div className="flex flex-wrap gap-2">
+            <Button asChild>
+              <Link href="/employer/jobs">
+                <BriefcaseBusiness className="w-4 h-4" />
+                Manage Job Postings
+              </Link>
+            </Button>
+            <Button asChild variant="outline">
+              <Link href="/employer/company">
+                <Building2 className="w-4 h-4" />
+                {membership ? "Company & Team" : "Set Up Company"}
+              </Link>
+            </Button>
+            <Button asChild variant="outline">
+              <Link href="/employer/messages">
+                <MessageSquare className="w-4 h-4" />
+                Messages{unreadMessages > 0 && ` (${unreadMessages})`}
+              </Link>
+            </Button>
+            <Button asChild variant="outline">
+              <Link href="/employer/interviews">
+                <CalendarDays className="w-4 h-4" />
+                Interviews
+              </Link>
+            </Button>
+            <Button asChild variant="outline">
+              <Link href="/employer/candidates">
+                <UserSearch className="w-4 h-4" />
+                Search Candidates
+              </Link>
+            </Button>
+            {membership && canManageCompany(membership.role) && (
+              <Button asChild variant="outline">
+                <Link href="/employer/api-keys">
+                  <KeyRound className="w-4 h-4" />
+                  API Keys
+                </Link>
+              </Button>
+            )}
+          </div>
+          <AccountLinks />
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
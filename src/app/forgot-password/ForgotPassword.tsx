@@ -0,0 +1,81 @@
+"use client"
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { forgotPasswordAction } from '@/features/auth/server/auth.action'
+import { KeyRound, Mail } from 'lucide-react'
+import Link from 'next/link'
+import React, { ChangeEvent, FormEvent, useState } from 'react'
+import { toast } from 'sonner'
+
+const ForgotPassword = () => {
+  const [email , setEmail] = useState("");
+  const [isSubmitted , setIsSubmitted] = useState(false);
+  const [isPending , setIsPending] = useState(false);
+
+  const handleFormSubmit = async (event : FormEvent<HTMLFormElement>) =>{
+    event.preventDefault();
+    setIsPending(true);
+
+    const result = await forgotPasswordAction({ email : email.toLowerCase().trim() });
+
+    setIsPending(false);
+
+    if(result.status === "SUCCESS"){
+      setIsSubmitted(true);
+      toast.success(result.message);
+    }else{
+      toast.error(result.message);
+    }
+  }
+
+  return (
+    <div className='flex justify-center items-center min-h-screen bg-background'>
+       <Card className='w-full max-w-md'>
+          <CardHeader className='text-center'>
+            <div className="mx-auto w-20 h-20 bg-primary rounded-full flex items-center justify-center mb-4">
+               <KeyRound className='text-primary-foreground w-8 h-8' />
+            </div>
+            <CardTitle>Forgot Your Password?</CardTitle>
+            <CardDescription>
+              {isSubmitted
+                ? "If an account exists for that email, we've sent a link to reset your password."
+                : "Enter your email and we'll send you a link to reset your password"}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {!isSubmitted && (
+             <form className='space-y-6' onSubmit={handleFormSubmit}>
+                  <div className='space-y-2'>
+                    <Label htmlFor='email'>Email Address *</Label>
+                    <div className='relative'>
+                      <Mail className='absolute left-3 top-2.5 transform-translate-y-1/2 w-4 h-4 text-muted-foreground'/>
+                      <Input 
+                        id='email' 
+                        type='email' 
+                        placeholder='Enter your email' 
+                        required 
+                        className='pl-10'
+                        value={email} 
+                        onChange={(event : ChangeEvent<HTMLInputElement>) => setEmail(event.target.value)}
+                      />
+                    </div>
+                  </div>
+
+                  <Button type="submit" className='w-full' disabled={isPending}>
+                      {isPending ? "Sending..." : "Send Reset Link"}
+                  </Button>
+             </form>
+            )}
+
+             <div className='text-center mt-6'>
+                <Link href="/login" className='text-sm text-primary hover:text-primary/80 font-medium underline-offset-4 hover:underline'>Back to sign in</Link>
+             </div>
+          </CardContent>
+       </Card>
+    </div>
+  )
+}
+
+export default ForgotPassword
@@ -0,0 +1,7 @@
+import ForgotPassword from "./ForgotPassword";
+
+export default function ForgotPasswordPage() {
+  return (
+    <ForgotPassword />
+  );
+}
@@ -0,0 +1,39 @@
+import { getAuthorizedUser } from "@/features/auth/server/auth.queries";
+import { getInterviewAccess, getInterviewers } from "@/features/interviews/server/interviews.queries";
+import { buildInterviewCalendar } from "@/features/interviews/server/use-cases/interviewInvites";
+import { ICS_CONTENT_TYPE } from "@/lib/ics";
+import { NextRequest, NextResponse } from "next/server";
+
+//* Download of a scheduled interview for either side. Same UID and sequence as the emailed invite,
+//* so importing it next to the invite doesn't create a duplicate entry.
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ interviewId: string }> },
+) {
+  const { interviewId } = await params;
+  const user = await getAuthorizedUser();
+
+  if (!user) return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+
+  const access = await getInterviewAccess({ interviewId: Number(interviewId), user });
+
+  if (!access || access.interview.status !== "scheduled") {
+    return NextResponse.json({ message: "Not Found" }, { status: 404 });
+  }
+
+  const calendar = buildInterviewCalendar({
+    interview: access.interview,
+    interviewers: await getInterviewers(access.interview.id),
+    method: "PUBLISH",
+  });
+
+  if (!calendar) return NextResponse.json({ message: "Not Found" }, { status: 404 });
+
+  return new NextResponse(calendar, {
+    headers: {
+      "Content-Type": ICS_CONTENT_TYPE,
+      "Content-Disposition": `attachment; filename="interview-${access.interview.id}.ics"`,
+      "Cache-Control": "private, no-store",
+    },
+  });
+}
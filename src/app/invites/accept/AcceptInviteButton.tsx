@@ -0,0 +1,33 @@
+"use client"
+
+import { Button } from "@/components/ui/button";
+import { acceptInviteAction } from "@/features/companies/server/companies.action";
+import { useRouter } from "next/navigation";
+import { useTransition } from "react";
+import { toast } from "sonner";
+
+const AcceptInviteButton = ({ token }: { token: string }) => {
+  const router = useRouter();
+  const [isPending, startTransition] = useTransition();
+
+  const handleAccept = () => {
+    startTransition(async () => {
+      const result = await acceptInviteAction(token);
+
+      if (result.status === "SUCCESS") {
+        toast.success(result.message);
+        if (result.redirectTo) router.replace(result.redirectTo);
+      } else {
+        toast.error(result.message);
+      }
+    });
+  };
+
+  return (
+    <Button type="button" className="w-full" disabled={isPending} onClick={handleAccept}>
+      {isPending ? "Joining..." : "Accept Invitation"}
+    </Button>
+  );
+};
+
+export default AcceptInviteButton;
@@ -0,0 +1,76 @@
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { getCurrentUser } from "@/features/auth/server/auth.queries";
+import { COMPANY_MEMBER_ROLE_LABELS } from "@/features/companies/companies.constants";
+import { findValidCompanyInvite, getUserMembership } from "@/features/companies/server/companies.queries";
+import { Users } from "lucide-react";
+import Link from "next/link";
+import AcceptInviteButton from "./AcceptInviteButton";
+
+export default async function AcceptInvitePage({
+  searchParams,
+}: {
+  searchParams: Promise<{ token?: string }>;
+}) {
+  const { token } = await searchParams;
+  const invite = token ? await findValidCompanyInvite(token) : null;
+  const user = await getCurrentUser();
+
+  //* Works out why the signed-in visitor can't accept yet; null means they can.
+  const getBlocker = async () => {
+    if (!invite) return "This invitation is invalid, has expired or has already been used.";
+
+    if (!user) {
+      return `Sign in (or create an employer account) with ${invite.email}, then open the link from the email again.`;
+    }
+
+    if (user.role !== "employer") return "Invitations can only be accepted from an employer account.";
+
+    if (!user.emailVerifiedAt) return "Please verify your email address first, then open this link again.";
+
+    if (user.email.toLowerCase() !== invite.email) {
+      return `This invitation was sent to ${invite.email}. Sign in with that account to accept it.`;
+    }
+
+    if (await getUserMembership(user.id)) return "You already belong to a company.";
+
+    return null;
+  };
+
+  const blocker = await getBlocker();
+
+  return (
+    <div className="flex justify-center items-center min-h-screen bg-background">
+      <Card className="w-full max-w-md text-center">
+        <CardHeader>
+          <div className="mx-auto w-20 h-20 bg-primary rounded-full flex items-center justify-center mb-4">
+            <Users className="text-primary-foreground w-8 h-8" />
+          </div>
+          <CardTitle>{invite ? `Join ${invite.companyName}` : "Company Invitation"}</CardTitle>
+          <CardDescription>
+            {invite && `You've been invited as a ${COMPANY_MEMBER_ROLE_LABELS[invite.role].toLowerCase()}. `}
+            {blocker}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-2">
+          {!blocker && token && <AcceptInviteButton token={token} />}
+          {invite && !user && (
+            <div className="flex gap-2">
+              <Button asChild variant="outline" className="flex-1">
+                <Link href="/login">Sign in</Link>
+              </Button>
+              <Button asChild variant="outline" className="flex-1">
+                <Link href="/register">Create account</Link>
+              </Button>
+            </div>
+          )}
+          {(!invite || (user && blocker)) && (
+            <Button asChild variant="outline" className="w-full">
+              <Link href="/">Back to jobs</Link>
+            </Button>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,133 @@
+import SiteHeader from "@/components/layout/SiteHeader";
+import { Card, CardAction, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import JobApplyPanel from "@/features/applications/components/JobApplyPanel";
+import { getCurrentUser } from "@/features/auth/server/auth.queries";
+import {
+  EMPLOYMENT_TYPE_LABELS,
+  EXPERIENCE_LEVEL_LABELS,
+  formatSalaryRange,
+  WORK_MODE_LABELS,
+} from "@/features/jobs/jobs.constants";
+import { getPublishedJobById } from "@/features/jobs/server/jobs.queries";
+import {
+  buildJobPostingJsonLd,
+  getJobUrl,
+  toMetaDescription,
+} from "@/features/jobs/server/use-cases/jobSyndication";
+import SaveJobButton from "@/features/savedJobs/components/SaveJobButton";
+import { getSavedJobIds } from "@/features/savedJobs/server/savedJobs.queries";
+import type { Metadata } from "next";
+import Link from "next/link";
+import { notFound } from "next/navigation";
+
+export async function generateMetadata({
+  params,
+}: {
+  params: Promise<{ jobId: string }>;
+}): Promise<Metadata> {
+  const { jobId } = await params;
+  const result = await getPublishedJobById(Number(jobId));
+
+  if (!result) return { title: "Job not found" };
+
+  const { job, company } = result;
+  const title = `${job.title} at ${company.name}`;
+  const description = toMetaDescription(job.description);
+
+  return {
+    title,
+    description,
+    alternates: { canonical: getJobUrl(job.id) },
+    openGraph: {
+      title,
+      description,
+      url: getJobUrl(job.id),
+      ...(company.logoUrl ? { images: [company.logoUrl] } : {}),
+    },
+  };
+}
+
+export default async function JobDetailsPage({
+  params,
+}: {
+  params: Promise<{ jobId: string }>;
+}) {
+  const { jobId } = await params;
+  const result = await getPublishedJobById(Number(jobId));
+
+  if (!result) notFound();
+
+  const { job, company } = result;
+
+  const user = await getCurrentUser();
+  const savedJobIds = user?.role === "applicant" && user.emailVerifiedAt ? await getSavedJobIds(user.id) : null;
+
+  return (
+    <div className="min-h-screen bg-zinc-50 dark:bg-black">
+      <script
+        type="application/ld+json"
+        // "<" is escaped so a job description can't close the script tag
+        dangerouslySetInnerHTML={{
+          __html: JSON.stringify(buildJobPostingJsonLd({ job, company })).replace(/</g, "\\u003c"),
+        }}
+      />
+      <SiteHeader />
+      <main className="mx-auto w-full max-w-4xl px-4 py-10">
+        <Card>
+          <CardHeader>
+            <Link href="/" className="text-sm text-primary hover:underline">
+              ← Back to jobs
+            </Link>
+            <CardTitle className="text-2xl">{job.title}</CardTitle>
+            <CardDescription>
+              <Link href={`/companies/${company.slug}`} className="hover:underline">
+                {company.name}
+              </Link>
+            </CardDescription>
+            {savedJobIds && (
+              <CardAction>
+                <SaveJobButton jobId={job.id} initialSaved={savedJobIds.has(job.id)} />
+              </CardAction>
+            )}
+          </CardHeader>
+          <CardContent className="space-y-6">
+            <dl className="grid gap-4 text-sm sm:grid-cols-2">
+              <div>
+                <dt className="text-muted-foreground">Work mode</dt>
+                <dd>{WORK_MODE_LABELS[job.workMode]}{job.location && ` · ${job.location}`}</dd>
+              </div>
+              <div>
+                <dt className="text-muted-foreground">Salary</dt>
+                <dd>{formatSalaryRange(job)}</dd>
+              </div>
+              <div>
+                <dt className="text-muted-foreground">Employment type</dt>
+                <dd>{EMPLOYMENT_TYPE_LABELS[job.employmentType]}</dd>
+              </div>
+              <div>
+                <dt className="text-muted-foreground">Experience</dt>
+                <dd>{EXPERIENCE_LEVEL_LABELS[job.experienceLevel]}</dd>
+              </div>
+            </dl>
+
+            {job.skills.length > 0 && (
+              <div className="flex flex-wrap gap-1">
+                {job.skills.map((skill) => (
+                  <span key={skill} className="rounded-full bg-muted px-2 py-0.5 text-xs">
+                    {skill}
+                  </span>
+                ))}
+              </div>
+            )}
+
+            <div className="whitespace-pre-line text-sm leading-6">{job.description}</div>
+
+            <div className="border-t pt-6">
+              <JobApplyPanel jobId={job.id} />
+            </div>
+          </CardContent>
+        </Card>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,18 @@
+import { JOB_FEED_CACHE_MAX_AGE } from "@/config/constant";
+import { getJobFeed } from "@/features/jobs/server/use-cases/jobSyndication";
+import { buildJsonFeed, JSON_FEED_CONTENT_TYPE } from "@/lib/feeds";
+import { NextRequest, NextResponse } from "next/server";
+
+//* JSON Feed 1.1 version of /jobs/feed.xml, with the same items and filters.
+export async function GET(request: NextRequest) {
+  const feed = await getJobFeed(request.nextUrl.searchParams);
+
+  if (!feed) return NextResponse.json({ message: "Not Found" }, { status: 404 });
+
+  return new NextResponse(JSON.stringify(buildJsonFeed(feed)), {
+    headers: {
+      "Content-Type": JSON_FEED_CONTENT_TYPE,
+      "Cache-Control": `public, max-age=${JOB_FEED_CACHE_MAX_AGE}`,
+    },
+  });
+}
@@ -0,0 +1,18 @@
+import { JOB_FEED_CACHE_MAX_AGE } from "@/config/constant";
+import { getJobFeed } from "@/features/jobs/server/use-cases/jobSyndication";
+import { buildRssFeed, RSS_CONTENT_TYPE } from "@/lib/feeds";
+import { NextRequest, NextResponse } from "next/server";
+
+//* RSS 2.0 feed of the newest published jobs, optionally filtered with ?company=<slug>&location=<text>.
+export async function GET(request: NextRequest) {
+  const feed = await getJobFeed(request.nextUrl.searchParams);
+
+  if (!feed) return NextResponse.json({ message: "Not Found" }, { status: 404 });
+
+  return new NextResponse(buildRssFeed(feed), {
+    headers: {
+      "Content-Type": RSS_CONTENT_TYPE,
+      "Cache-Control": `public, max-age=${JOB_FEED_CACHE_MAX_AGE}`,
+    },
+  });
+}
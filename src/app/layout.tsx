@@ -2,6 +2,8 @@ import type { Metadata } from "next";
 import { Geist, Geist_Mono } from "next/font/google";
 import "./globals.css";
 import { Toaster } from "@/components/ui/sonner";
+import { APP_URL, NOTIFICATION_POLL_INTERVAL } from "@/config/constant";
+import LiveNotifications from "@/features/notifications/components/LiveNotifications";
 
 const geistSans = Geist({
   variable: "--font-geist-sans",
@@ -13,9 +15,25 @@ const geistMono = Geist_Mono({
   subsets: ["latin"],
 });
 
+//* Site-wide defaults; pages set their own title (slotted into the template) and description.
 export const metadata: Metadata = {
-  title: "Create Next App",
-  description: "Generated by create next app",
+  metadataBase: new URL(APP_URL),
+  title: {
+    default: "Job Portal",
+    template: "%s | Job Portal",
+  },
+  description: "Find your next job and apply in minutes, or post openings and hire from one dashboard.",
+  applicationName: "Job Portal",
+  openGraph: {
+    type: "website",
+    siteName: "Job Portal",
+  },
+  alternates: {
+    types: {
+      "application/rss+xml": [{ url: "/jobs/feed.xml", title: "Latest Jobs" }],
+      "application/feed+json": [{ url: "/jobs/feed.json", title: "Latest Jobs" }],
+    },
+  },
 };
 
 export default function RootLayout({
@@ -30,6 +48,7 @@ export default function RootLayout({
       >
         {children}
         <Toaster position="top-right" richColors/>
+        <LiveNotifications pollInterval={NOTIFICATION_POLL_INTERVAL} />
       </body>
     </html>
   );
@@ -1,3 +1,4 @@
+"use client"
 import { Button } from '@/components/ui/button'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Input } from '@/components/ui/input'
@@ -5,6 +6,7 @@ import { Label } from '@/components/ui/label'
 import { loginUserAction } from '@/features/auth/server/auth.action'
 import { Eye, EyeOff, Lock, Mail, UserCheck } from 'lucide-react'
 import Link from 'next/link'
+import { useRouter } from 'next/navigation'
 import React, { ChangeEvent, FormEvent, useState } from 'react'
 import { toast } from 'sonner'
 
@@ -13,8 +15,14 @@ interface LoginFormData {
   password : string;
 }
 
+interface LoginProps {
+  providers : { id : string; name : string }[];
+  errorMessage : string | null;
+}
+
 
-const Login = () => {
+const Login = ({ providers , errorMessage } : LoginProps) => {
+   const router = useRouter();
    const [showPassword , setShowPassword] = useState(false);
    const [formData , setFormData] = useState<LoginFormData>({
     email :"",
@@ -41,6 +49,7 @@ const Login = () => {
 
       if(result.status === "SUCCESS"){
         toast.success(result.message);
+        if(result.redirectTo) router.replace(result.redirectTo);
       }else{
         toast.error(result.message);
       }
@@ -64,6 +73,7 @@ const Login = () => {
             </CardDescription>
           </CardHeader>
           <CardContent>
+             {errorMessage && <p className='mb-4 text-sm text-destructive'>{errorMessage}</p>}
              <form className='space-y-6' onSubmit={handleFormSubmit}>
                  {/* Email Field */}
                   <div className='space-y-2'>
@@ -85,7 +95,10 @@ const Login = () => {
                  
                  {/* PASSWORD */}
                   <div className='space-y-2'>
-                    <Label htmlFor='password'>Password*</Label>
+                    <div className='flex items-center justify-between'>
+                      <Label htmlFor='password'>Password*</Label>
+                      <Link href="/forgot-password" className='text-sm text-primary hover:text-primary/80 font-medium underline-offset-4 hover:underline'>Forgot password?</Link>
+                    </div>
                       <div className='relative'>
                         <Lock className="absolute left-3 top-2.5 transform-translate-y-1/2 w-4 h-4 text-muted-foreground " />
                         <Input
@@ -119,6 +132,22 @@ const Login = () => {
                       Sign In
                   </Button>
 
+                  {/* EXTERNAL PROVIDERS : plain links, the route handler redirects to the provider */}
+                  {providers.length > 0 && (
+                    <div className='space-y-3'>
+                      <div className='flex items-center gap-3 text-xs text-muted-foreground'>
+                        <span className='h-px flex-1 bg-border' />
+                        OR
+                        <span className='h-px flex-1 bg-border' />
+                      </div>
+                      {providers.map((provider) => (
+                        <Button key={provider.id} asChild variant="outline" className='w-full'>
+                          <a href={`/auth/oidc/${provider.id}`}>Continue with {provider.name}</a>
+                        </Button>
+                      ))}
+                    </div>
+                  )}
+
                  <div className='text-center'>
                     <p className='text-sm text-muted-foreground'>
                       New to Job Portal?  
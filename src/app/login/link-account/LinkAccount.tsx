@@ -0,0 +1,106 @@
+"use client"
+
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { confirmAccountLinkAction } from "@/features/auth/server/oidc.action";
+import { Link2 } from "lucide-react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { FormEvent, useState, useTransition } from "react";
+import { toast } from "sonner";
+
+interface LinkAccountProps {
+  providerName: string;
+  email: string;
+  requiresCode: boolean;
+}
+
+const LinkAccount = ({ providerName, email, requiresCode }: LinkAccountProps) => {
+  const router = useRouter();
+  const [password, setPassword] = useState("");
+  const [code, setCode] = useState("");
+  const [isPending, startTransition] = useTransition();
+
+  const handleSubmit = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+
+    startTransition(async () => {
+      const result = await confirmAccountLinkAction({ password, code: requiresCode ? code : undefined });
+
+      if (result.status === "SUCCESS") {
+        toast.success(result.message);
+      } else {
+        toast.error(result.message);
+        setPassword("");
+        setCode("");
+      }
+
+      if (result.redirectTo) router.replace(result.redirectTo);
+    });
+  };
+
+  return (
+    <div className="flex justify-center items-center min-h-screen bg-background">
+      <Card className="w-full max-w-md">
+        <CardHeader className="text-center">
+          <div className="mx-auto w-20 h-20 bg-primary rounded-full flex items-center justify-center mb-4">
+            <Link2 className="text-primary-foreground w-8 h-8" />
+          </div>
+          <CardTitle>Connect {providerName}</CardTitle>
+          <CardDescription>
+            An account with {email} already exists. Enter its password to connect your {providerName} account to
+            it; next time you can sign in with either.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form className="space-y-6" onSubmit={handleSubmit}>
+            <div className="space-y-2">
+              <Label htmlFor="password">Password *</Label>
+              <Input
+                id="password"
+                type="password"
+                required
+                autoFocus
+                autoComplete="current-password"
+                value={password}
+                onChange={(event) => setPassword(event.target.value)}
+              />
+            </div>
+
+            {requiresCode && (
+              <div className="space-y-2">
+                <Label htmlFor="code">Authentication Code *</Label>
+                <Input
+                  id="code"
+                  required
+                  autoComplete="one-time-code"
+                  placeholder="123456 or a recovery code"
+                  className="font-mono"
+                  value={code}
+                  onChange={(event) => setCode(event.target.value)}
+                />
+              </div>
+            )}
+
+            <Button type="submit" className="w-full" disabled={isPending}>
+              {isPending ? "Connecting..." : "Connect and Sign In"}
+            </Button>
+
+            <div className="flex justify-between text-sm">
+              <Link href="/forgot-password" className="text-primary hover:underline">
+                Forgot password?
+              </Link>
+              <Link href="/login" className="text-muted-foreground hover:underline">
+                Cancel
+              </Link>
+            </div>
+          </form>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default LinkAccount;
@@ -0,0 +1,24 @@
+import { getPendingAccountLink } from "@/features/auth/server/use-cases/oidc";
+import { getOidcProvider } from "@/features/auth/server/use-cases/oidcProviders";
+import { isTwoFactorEnabled } from "@/features/auth/server/use-cases/twoFactor";
+import { redirect } from "next/navigation";
+import LinkAccount from "./LinkAccount";
+
+//* Only reachable after an external sign-in matched an existing account by email.
+export default async function LinkAccountPage() {
+  const pending = await getPendingAccountLink();
+
+  if (!pending) redirect("/login");
+
+  const provider = getOidcProvider(pending.provider);
+
+  if (!provider) redirect("/login?error=unavailable");
+
+  return (
+    <LinkAccount
+      providerName={provider.name}
+      email={pending.email}
+      requiresCode={await isTwoFactorEnabled(pending.userId)}
+    />
+  );
+}
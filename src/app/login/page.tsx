@@ -1,11 +1,18 @@
-"use client"
+import { OIDC_ERROR_MESSAGES } from '@/features/auth/auth.constants'
+import { getOidcProviders } from '@/features/auth/server/use-cases/oidcProviders'
 import React from 'react'
 import Login from './Login'
 
-const page = () => {
+const page = async ({ searchParams } : { searchParams : Promise<{ error ?: string }> }) => {
+  const { error } = await searchParams;
+  const providers = getOidcProviders().map(({ id , name }) => ({ id , name }));
+
   return (
-    <Login />
+    <Login
+      providers={providers}
+      errorMessage={error ? (OIDC_ERROR_MESSAGES[error] ?? OIDC_ERROR_MESSAGES.failed) : null}
+    />
   )
 }
 
-export default page
\ No newline at end of file
+export default page
@@ -0,0 +1,94 @@
+"use client"
+
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { verifyTwoFactorLoginAction } from "@/features/auth/server/auth.action";
+import { ShieldCheck } from "lucide-react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { FormEvent, useState, useTransition } from "react";
+import { toast } from "sonner";
+
+const TwoFactorLogin = () => {
+  const router = useRouter();
+  const [code, setCode] = useState("");
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+  const [isPending, startTransition] = useTransition();
+
+  const handleSubmit = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+
+    startTransition(async () => {
+      const result = await verifyTwoFactorLoginAction({ code });
+
+      if (result.status === "SUCCESS") {
+        toast.success(result.message);
+      } else {
+        toast.error(result.message);
+        setCode("");
+      }
+
+      if (result.redirectTo) router.replace(result.redirectTo);
+    });
+  };
+
+  return (
+    <div className="flex justify-center items-center min-h-screen bg-background">
+      <Card className="w-full max-w-md">
+        <CardHeader className="text-center">
+          <div className="mx-auto w-20 h-20 bg-primary rounded-full flex items-center justify-center mb-4">
+            <ShieldCheck className="text-primary-foreground w-8 h-8" />
+          </div>
+          <CardTitle>Two-Factor Authentication</CardTitle>
+          <CardDescription>
+            {useRecoveryCode
+              ? "Enter one of the recovery codes you saved when you set up two-factor authentication."
+              : "Enter the 6-digit code from your authenticator app."}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form className="space-y-6" onSubmit={handleSubmit}>
+            <div className="space-y-2">
+              <Label htmlFor="code">{useRecoveryCode ? "Recovery Code" : "Authentication Code"}</Label>
+              <Input
+                id="code"
+                required
+                autoFocus
+                autoComplete="one-time-code"
+                inputMode={useRecoveryCode ? "text" : "numeric"}
+                placeholder={useRecoveryCode ? "xxxxx-xxxxx" : "123456"}
+                className="font-mono"
+                value={code}
+                onChange={(event) => setCode(event.target.value)}
+              />
+            </div>
+
+            <Button type="submit" className="w-full" disabled={isPending}>
+              {isPending ? "Verifying..." : "Verify"}
+            </Button>
+
+            <div className="flex justify-between text-sm">
+              <button
+                type="button"
+                className="text-primary hover:underline"
+                onClick={() => {
+                  setUseRecoveryCode(!useRecoveryCode);
+                  setCode("");
+                }}
+              >
+                {useRecoveryCode ? "Use your authenticator app" : "Use a recovery code"}
+              </button>
+              <Link href="/login" className="text-muted-foreground hover:underline">
+                Cancel
+              </Link>
+            </div>
+          </form>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default TwoFactorLogin;
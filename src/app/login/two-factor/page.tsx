@@ -0,0 +1,12 @@
+import { getTwoFactorChallenge } from "@/features/auth/server/use-cases/twoFactor";
+import { redirect } from "next/navigation";
+import TwoFactorLogin from "./TwoFactorLogin";
+
+//* Only reachable between the two login steps: without a pending login there is nothing to confirm.
+export default async function TwoFactorLoginPage() {
+  const challenge = await getTwoFactorChallenge();
+
+  if (!challenge) redirect("/login");
+
+  return <TwoFactorLogin />;
+}
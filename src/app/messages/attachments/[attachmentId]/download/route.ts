@@ -0,0 +1,37 @@
+import { getAuthorizedUser } from "@/features/auth/server/auth.queries";
+import { getConversationAccess, getMessageAttachmentById } from "@/features/messaging/server/messaging.queries";
+import { getFileStorage } from "@/lib/storage";
+import { NextRequest, NextResponse } from "next/server";
+
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ attachmentId: string }> },
+) {
+  const { attachmentId } = await params;
+  const user = await getAuthorizedUser();
+
+  if (!user) return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+
+  const attachment = await getMessageAttachmentById(Number(attachmentId));
+
+  // 404 rather than 403, so attachment ids can't be probed
+  if (!attachment || !(await getConversationAccess({ applicationId: attachment.applicationId, user }))) {
+    return NextResponse.json({ message: "Not Found" }, { status: 404 });
+  }
+
+  const file = await getFileStorage().get(attachment.storageKey);
+
+  if (!file) return NextResponse.json({ message: "Not Found" }, { status: 404 });
+
+  const fileName = attachment.originalName.replace(/[^\w.\- ]/g, "_");
+
+  return new NextResponse(new Uint8Array(file), {
+    headers: {
+      "Content-Type": attachment.mimeType,
+      "Content-Length": String(file.length),
+      "Content-Disposition": `attachment; filename="${fileName}"`,
+      "Cache-Control": "private, no-store",
+      "X-Content-Type-Options": "nosniff",
+    },
+  });
+}
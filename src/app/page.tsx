@@ -1,68 +1,87 @@
- import Image from "next/image";
-import { Button } from "@/components/ui/button"
+import SiteHeader from "@/components/layout/SiteHeader";
+import { Button } from "@/components/ui/button";
+import JobCard from "@/features/jobs/components/JobCard";
+import JobSearchFilters from "@/features/jobs/components/JobSearchFilters";
+import { getCurrentUser } from "@/features/auth/server/auth.queries";
+import { parseJobSearchParams } from "@/features/jobs/jobs.schema";
+import { searchPublishedJobs } from "@/features/jobs/server/jobs.queries";
+import { getSavedJobIds } from "@/features/savedJobs/server/savedJobs.queries";
+import SaveSearchForm from "@/features/savedSearches/components/SaveSearchForm";
+import { savedSearchParamsSchema } from "@/features/savedSearches/savedSearches.schema";
+import Link from "next/link";
+
+export default async function Home({
+  searchParams,
+}: {
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+}) {
+  const params = parseJobSearchParams(await searchParams);
+  const { jobs, nextCursor } = await searchPublishedJobs(params);
+
+  const user = await getCurrentUser();
+  const isApplicant = user?.role === "applicant" && !!user.emailVerifiedAt;
+  const savedJobIds = isApplicant ? await getSavedJobIds(user.id) : null;
+
+  const savedSearchParams = savedSearchParamsSchema.parse(params);
+  const hasSearchFilters = Object.values(savedSearchParams).some((value) => value !== undefined);
+
+  //* Keep every active filter in the pagination links, swapping only the cursor.
+  const buildPageHref = (cursor?: string) => {
+    const query = new URLSearchParams();
+    for (const [key, value] of Object.entries({ ...params, cursor })) {
+      if (value !== undefined && value !== "") query.set(key, String(value));
+    }
+    const queryString = query.toString();
+    return queryString ? `/?${queryString}` : "/";
+  };
 
-export default function Home() {
   return (
-    <div className="flex min-h-screen items-center justify-center bg-zinc-50 font-sans dark:bg-black">
-      <main className="flex min-h-screen w-full max-w-3xl flex-col items-center justify-between py-32 px-16 bg-white dark:bg-black sm:items-start">
-        <Image
-          className="dark:invert"
-          src="/next.svg"
-          alt="Next.js logo"
-          width={100}
-          height={20}
-          priority
-        />
-        <div className="flex flex-col items-center gap-6 text-center sm:items-start sm:text-left">
-          <h1 className="max-w-xs text-3xl font-semibold leading-10 tracking-tight text-black dark:text-zinc-50">
-            To get started, edit the page.tsx file.
-          </h1>
-          <p className="max-w-md text-lg leading-8 text-zinc-600 dark:text-zinc-400">
-            Looking for a starting point or more instructions? Head over to{" "}
-             <Button>
-               Add Count
-             </Button>
-            <a
-              href="https://vercel.com/templates?framework=next.js&utm_source=create-next-app&utm_medium=appdir-template-tw&utm_campaign=create-next-app"
-              className="font-medium text-zinc-950 dark:text-zinc-50"
-            >
-              Templates
-            </a>{" "}
-            or the{" "}
-            <a
-              href="https://nextjs.org/learn?utm_source=create-next-app&utm_medium=appdir-template-tw&utm_campaign=create-next-app"
-              className="font-medium text-zinc-950 dark:text-zinc-50"
-            >
-              Learning
-            </a>{" "}
-            center.
-          </p>
+    <div className="min-h-screen bg-zinc-50 dark:bg-black">
+      <SiteHeader />
+      <main className="mx-auto w-full max-w-6xl space-y-8 px-4 py-10">
+        <div className="space-y-2">
+          <h1 className="text-3xl font-semibold tracking-tight">Find your next job</h1>
+          <p className="text-muted-foreground">Search open roles by keyword, location, salary and more.</p>
         </div>
-        <div className="flex flex-col gap-4 text-base font-medium sm:flex-row">
-          <a
-            className="flex h-12 w-full items-center justify-center gap-2 rounded-full bg-foreground px-5 text-background transition-colors hover:bg-[#383838] dark:hover:bg-[#ccc] md:w-[158px]"
-            href="https://vercel.com/new?utm_source=create-next-app&utm_medium=appdir-template-tw&utm_campaign=create-next-app"
-            target="_blank"
-            rel="noopener noreferrer"
-          >
-            <Image
-              className="dark:invert"
-              src="/vercel.svg"
-              alt="Vercel logomark"
-              width={16}
-              height={16}
-            />
-            Deploy Now
-          </a>
-          <a
-            className="flex h-12 w-full items-center justify-center rounded-full border border-solid border-black/[.08] px-5 transition-colors hover:border-transparent hover:bg-black/[.04] dark:border-white/[.145] dark:hover:bg-[#1a1a1a] md:w-[158px]"
-            href="https://nextjs.org/docs?utm_source=create-next-app&utm_medium=appdir-template-tw&utm_campaign=create-next-app"
-            target="_blank"
-            rel="noopener noreferrer"
-          >
-            Documentation
-          </a>
+
+        <div className="rounded-xl border bg-background p-6 shadow-sm">
+          <JobSearchFilters params={params} />
         </div>
+
+        {isApplicant && hasSearchFilters && (
+          <div className="space-y-2 rounded-xl border bg-background p-4 shadow-sm">
+            <p className="text-sm font-medium">Get new jobs for this search by email</p>
+            <SaveSearchForm
+              params={savedSearchParams}
+              defaultName={[params.q, params.location].filter(Boolean).join(" in ") || "My job search"}
+            />
+          </div>
+        )}
+
+        <section className="space-y-4">
+          {jobs.length === 0 ? (
+            <p className="text-center text-muted-foreground">No jobs match your search. Try removing a filter.</p>
+          ) : (
+            jobs.map((job) => <JobCard key={job.id} job={job} isSaved={savedJobIds?.has(job.id)} />)
+          )}
+        </section>
+
+        {(params.cursor || nextCursor) && (
+          <div className="flex justify-between">
+            {params.cursor ? (
+              <Button asChild variant="outline">
+                <Link href={buildPageHref()}>← First page</Link>
+              </Button>
+            ) : (
+              <span />
+            )}
+            {nextCursor && (
+              <Button asChild variant="outline">
+                <Link href={buildPageHref(nextCursor)}>Next page →</Link>
+              </Button>
+            )}
+          </div>
+        )}
       </main>
     </div>
   );
@@ -3,46 +3,38 @@ import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
-import { Select, SelectContent, SelectItem, SelectLabel, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Eye, EyeOff, Lock, Mail, User, UserCheck } from 'lucide-react';
 import Link from 'next/link';
-import React, { ChangeEvent, FormEvent, useState } from 'react'
+import { useRouter } from 'next/navigation';
+import React, { useState } from 'react'
+import { Controller, useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
 import registrationAction from '@/features/auth/server/auth.action';
+import { registerUserWithConfirmSchema, RegisterUserWithConfirmData } from '@/features/auth/auth.schema';
 import { toast } from 'sonner';
 
-// interface RegistrationFormData {
-//   name :string;
-//   userName : string;
-//   email : string;
-//   password : string;
-//   confirmPassword : string;
-//   role : 'applicant'| 'employer';
-// }
-
 const Registration : React.FC = () => {
+  const router = useRouter();
   const [showPassword , setShowPassword] = useState(false);
   const [showConfirmPassword , setShowConfirmPassword] = useState(false);
   const {
     register ,
+    control,
     handleSubmit,
-    watch ,
-    formState:{errors},
-  } = useForm<Inputs>();
-  
-  // const handleInputChange = (name : string, value : string) =>{
-  //    setFormData((prev) => ({
-  //      ...prev,
-  //      [name]:value
-  //    }))
-  // }
-  // console.log(formData);
- 
-  const handleSubmit = async (event : FormEvent<HTMLFormElement>) =>{
-    event.preventDefault();
+    formState:{errors , isSubmitting},
+  } = useForm({
+    resolver : zodResolver(registerUserWithConfirmSchema),
+    defaultValues : { role : "applicant" },
+  });
 
+  const onSubmit = async (registrationData : RegisterUserWithConfirmData) =>{
      const result =  await registrationAction(registrationData);
        
-      if(result.status === 'SUCCESS') toast.success(result.message);
+      if(result.status === 'SUCCESS'){
+        toast.success(result.message);
+        if(result.redirectTo) router.replace(result.redirectTo);
+      }
        else toast.error(result.message);
      
   }
@@ -63,7 +55,7 @@ const Registration : React.FC = () => {
          </CardHeader>
 
           <CardContent>
-             <form onSubmit={handleSubmit} className='space-y-6'>
+             <form onSubmit={handleSubmit(onSubmit)} className='space-y-6'>
              
                {/* Email Field */}
                 <div className='space-y-2'>
@@ -72,7 +64,6 @@ const Registration : React.FC = () => {
                     <Mail className='absolute left-3 top-2.5 transform-translate-y-1/2 w-4 h-4 text-muted-foreground'/>
                     <Input 
                       id='email' 
-                      name='email'
                       type='email' 
                       placeholder='Enter your email' 
                       required 
@@ -81,6 +72,7 @@ const Registration : React.FC = () => {
                     />
 
                   </div>
+                  {errors.email && <p className='text-sm text-destructive'>{errors.email.message}</p>}
                 </div>
              
                {/* NAME FIELD */}
@@ -90,7 +82,6 @@ const Registration : React.FC = () => {
                     <User className="absolute left-3 top-2.5 transform-translate-y-1/2 w-4 h-4 text-muted-foreground" />
                     <Input 
                       id="name" 
-                      name="name"
                       type="text" 
                       placeholder="Enter your full name" 
                       required 
@@ -98,16 +89,16 @@ const Registration : React.FC = () => {
                       className="pl-10 pt-3 pb-3"
                     /> 
                   </div>
+                  {errors.name && <p className='text-sm text-destructive'>{errors.name.message}</p>}
                 </div>
                
 
                 {/* UserName Field */}
                 <div className="space-y-2">
-                  <Label htmlFor="name">Username* </Label>
+                  <Label htmlFor="userName">Username* </Label>
                   <div className="relative">
                     <User className="absolute left-3 top-2.5 transform-translate-y-1/2 w-4 h-4 text-muted-foreground" />
                     <Input
-                     name="userName"
                       id="userName" 
                       type="text" 
                       placeholder="Choose a username" 
@@ -116,23 +107,28 @@ const Registration : React.FC = () => {
                       className="pl-10 pt-3 pb-3"
                     /> 
                   </div>
+                  {errors.userName && <p className='text-sm text-destructive'>{errors.userName.message}</p>}
                 </div>
 
                 {/* Role Selection */}
                 <div className="space-y-2">
-                  <Label htmlFor="name">I am a*</Label>
-                  <Select 
+                  <Label htmlFor="role">I am a*</Label>
+                  <Controller
                     name="role"
-                  >
-                    <SelectTrigger className='w-full'>
-                      <SelectValue placeholder="Select your role"/>  
-                    </SelectTrigger>
-                    <SelectContent>
-                          {/* <SelectLabel>Select your role</SelectLabel> */}
-                          <SelectItem value="applicant">Job Applicant</SelectItem>
-                          <SelectItem value="employer">Employer</SelectItem>
-                      </SelectContent>
-                  </Select>
+                    control={control}
+                    render={({ field }) => (
+                      <Select value={field.value} onValueChange={field.onChange}>
+                        <SelectTrigger id="role" className='w-full'>
+                          <SelectValue placeholder="Select your role"/>  
+                        </SelectTrigger>
+                        <SelectContent>
+                              <SelectItem value="applicant">Job Applicant</SelectItem>
+                              <SelectItem value="employer">Employer</SelectItem>
+                          </SelectContent>
+                      </Select>
+                    )}
+                  />
+                  {errors.role && <p className='text-sm text-destructive'>{errors.role.message}</p>}
                 </div>
                
                {/* PASSWORD */}
@@ -141,12 +137,12 @@ const Registration : React.FC = () => {
                     <div className='relative'>
                       <Lock className="absolute left-3 top-2.5 transform-translate-y-1/2 w-4 h-4 text-muted-foreground " />
                       <Input
-                        name="password"
                           className='pl-10'
                           id="password" 
                           type={showPassword ? "text" : "password"} 
                           placeholder="Enter your password" 
-                          required />
+                          required 
+                          {...register('password')} />
                       <Button 
                         type='button'
                         variant="ghost"
@@ -163,6 +159,7 @@ const Registration : React.FC = () => {
                         }               
                       </Button>
                     </div>
+                    {errors.password && <p className='text-sm text-destructive'>{errors.password.message}</p>}
                 </div>  
               
                   {/* CONFRIM PASSWORD */}
@@ -171,11 +168,11 @@ const Registration : React.FC = () => {
                     <div className='relative'>
                       <Lock className='absolute left-3 top-2.5 text-muted-foreground w-4 h-4 transform-translate-y-1/2'/>
                       <Input
-                        name="confirmPassword"
-                        id="comfirmPassword" 
+                        id="confirmPassword" 
                         type={showConfirmPassword ? "text" : "password" }
                         placeholder="Confirm your password" 
                         required 
+                        {...register('confirmPassword')}
                         className='pl-10'/>
                       <Button type="button" variant="ghost" size='sm' className='absolute right-0 top-0 text-muted-foreground h-full px-3 py-2 hover:bg-transparent' 
                         onClick={() => setShowConfirmPassword(!showConfirmPassword)}
@@ -189,11 +186,12 @@ const Registration : React.FC = () => {
                         }
                       </Button>
                     </div>
+                    {errors.confirmPassword && <p className='text-sm text-destructive'>{errors.confirmPassword.message}</p>}
                 </div>
 
                 {/* SUBMIT  */}
-                <Button type="submit"  className='w-full'>
-                    Create Account
+                <Button type="submit"  className='w-full' disabled={isSubmitting}>
+                    {isSubmitting ? "Creating Account..." : "Create Account"}
                 </Button>
                
                 <div className='text-center'>
@@ -0,0 +1,90 @@
+"use client"
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { ResetPasswordData, resetPasswordSchema } from '@/features/auth/auth.schema'
+import { resetPasswordAction } from '@/features/auth/server/auth.action'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { KeyRound, Lock } from 'lucide-react'
+import Link from 'next/link'
+import { useRouter } from 'next/navigation'
+import React from 'react'
+import { useForm } from 'react-hook-form'
+import { toast } from 'sonner'
+
+const ResetPassword = ({ token } : { token : string }) => {
+  const router = useRouter();
+  const {
+    register,
+    handleSubmit,
+    formState : { errors , isSubmitting },
+  } = useForm({
+    resolver : zodResolver(resetPasswordSchema),
+    defaultValues : { token , password : "" , confirmPassword : "" },
+  });
+
+  const onSubmit = async (data : ResetPasswordData) =>{
+    const result = await resetPasswordAction(data);
+
+    if(result.status === "SUCCESS"){
+      toast.success(result.message);
+      router.replace("/login");
+    }else{
+      toast.error(result.message);
+    }
+  }
+
+  return (
+    <div className='flex justify-center items-center min-h-screen bg-background'>
+       <Card className='w-full max-w-md'>
+          <CardHeader className='text-center'>
+            <div className="mx-auto w-20 h-20 bg-primary rounded-full flex items-center justify-center mb-4">
+               <KeyRound className='text-primary-foreground w-8 h-8' />
+            </div>
+            <CardTitle>Choose a New Password</CardTitle>
+            <CardDescription>
+              Resetting your password will sign you out of every device
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+             {!token ? (
+               <p className='text-sm text-center text-destructive'>This reset link is invalid. Please request a new one.</p>
+             ) : (
+             <form className='space-y-6' onSubmit={handleSubmit(onSubmit)}>
+                  <input type='hidden' {...register('token')} />
+
+                  <div className='space-y-2'>
+                    <Label htmlFor='password'>New Password *</Label>
+                    <div className='relative'>
+                      <Lock className="absolute left-3 top-2.5 transform-translate-y-1/2 w-4 h-4 text-muted-foreground" />
+                      <Input id='password' type='password' placeholder='Enter your new password' required className='pl-10' {...register('password')} />
+                    </div>
+                    {errors.password && <p className='text-sm text-destructive'>{errors.password.message}</p>}
+                  </div>
+
+                  <div className='space-y-2'>
+                    <Label htmlFor='confirmPassword'>Confirm New Password *</Label>
+                    <div className='relative'>
+                      <Lock className="absolute left-3 top-2.5 transform-translate-y-1/2 w-4 h-4 text-muted-foreground" />
+                      <Input id='confirmPassword' type='password' placeholder='Confirm your new password' required className='pl-10' {...register('confirmPassword')} />
+                    </div>
+                    {errors.confirmPassword && <p className='text-sm text-destructive'>{errors.confirmPassword.message}</p>}
+                  </div>
+
+                  <Button type="submit" className='w-full' disabled={isSubmitting}>
+                      {isSubmitting ? "Updating..." : "Reset Password"}
+                  </Button>
+             </form>
+             )}
+
+             <div className='text-center mt-6'>
+                <Link href="/forgot-password" className='text-sm text-primary hover:text-primary/80 font-medium underline-offset-4 hover:underline'>Request a new link</Link>
+             </div>
+          </CardContent>
+       </Card>
+    </div>
+  )
+}
+
+export default ResetPassword
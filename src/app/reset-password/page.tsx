@@ -0,0 +1,13 @@
+import ResetPassword from "./ResetPassword";
+
+export default async function ResetPasswordPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ token?: string }>;
+}) {
+  const { token } = await searchParams;
+
+  return (
+    <ResetPassword token={token ?? ""} />
+  );
+}
@@ -0,0 +1,39 @@
+import { parseApiId } from "@/features/api/server/apiHandler";
+import { getAuthorizedUser } from "@/features/auth/server/auth.queries";
+import { canDownloadResume, getResumeById } from "@/features/resumes/server/resumes.queries";
+import { getFileStorage } from "@/lib/storage";
+import { NextRequest, NextResponse } from "next/server";
+
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ resumeId: string }> },
+) {
+  const { resumeId } = await params;
+  const user = await getAuthorizedUser();
+
+  if (!user) return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+
+  const id = parseApiId(resumeId);
+  const resume = id ? await getResumeById(id) : null;
+
+  // 404 rather than 403, so resume ids can't be probed
+  if (!resume || !(await canDownloadResume({ resume, user }))) {
+    return NextResponse.json({ message: "Not Found" }, { status: 404 });
+  }
+
+  const file = await getFileStorage().get(resume.storageKey);
+
+  if (!file) return NextResponse.json({ message: "Not Found" }, { status: 404 });
+
+  const fileName = resume.originalName.replace(/[^\w.\- ]/g, "_");
+
+  return new NextResponse(new Uint8Array(file), {
+    headers: {
+      "Content-Type": resume.mimeType,
+      "Content-Length": String(file.length),
+      "Content-Disposition": `attachment; filename="${fileName}"`,
+      "Cache-Control": "private, no-store",
+      "X-Content-Type-Options": "nosniff",
+    },
+  });
+}
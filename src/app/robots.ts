@@ -0,0 +1,31 @@
+import { APP_URL } from "@/config/constant";
+import type { MetadataRoute } from "next";
+
+//* Crawlers get the public job board, job and company pages and the feeds; account areas stay out.
+export default function robots(): MetadataRoute.Robots {
+  return {
+    rules: {
+      userAgent: "*",
+      allow: "/",
+      disallow: [
+        "/account/",
+        "/admin/",
+        "/alerts/",
+        "/api/",
+        "/dashboard/",
+        "/dev/",
+        "/employer/",
+        "/interviews/",
+        "/invites/",
+        "/messages/",
+        "/resumes/",
+        "/login",
+        "/register",
+        "/forgot-password",
+        "/reset-password",
+        "/verify-email",
+      ],
+    },
+    sitemap: `${APP_URL}/sitemap.xml`,
+  };
+}
@@ -0,0 +1,28 @@
+import { APP_URL } from "@/config/constant";
+import { getSitemapCompanies } from "@/features/companies/server/companies.queries";
+import { getSitemapJobs } from "@/features/jobs/server/jobs.queries";
+import { getJobUrl } from "@/features/jobs/server/use-cases/jobSyndication";
+import type { MetadataRoute } from "next";
+
+//* Regenerated on request (it reads the database), so a closed job leaves the sitemap as soon as it closes.
+export const dynamic = "force-dynamic";
+
+export default async function sitemap(): Promise<MetadataRoute.Sitemap> {
+  const [jobs, companies] = await Promise.all([getSitemapJobs(), getSitemapCompanies()]);
+
+  return [
+    { url: `${APP_URL}/`, changeFrequency: "hourly", priority: 1 },
+    ...jobs.map((job) => ({
+      url: getJobUrl(job.id),
+      lastModified: job.updatedAt,
+      changeFrequency: "daily" as const,
+      priority: 0.8,
+    })),
+    ...companies.map((company) => ({
+      url: `${APP_URL}/companies/${company.slug}`,
+      lastModified: company.updatedAt,
+      changeFrequency: "weekly" as const,
+      priority: 0.5,
+    })),
+  ];
+}
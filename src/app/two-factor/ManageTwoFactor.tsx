@@ -0,0 +1,91 @@
+"use client"
+
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { disableTwoFactorAction, regenerateRecoveryCodesAction } from "@/features/auth/server/twoFactor.action";
+import { useRouter } from "next/navigation";
+import { FormEvent, useState, useTransition } from "react";
+import { toast } from "sonner";
+import RecoveryCodeList from "./RecoveryCodeList";
+
+//* Both actions need a current code (from the app or a recovery code), not just the session.
+const ManageTwoFactor = ({ canDisable }: { canDisable: boolean }) => {
+  const router = useRouter();
+  const [code, setCode] = useState("");
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [isPending, startTransition] = useTransition();
+
+  const handleRegenerate = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+
+    startTransition(async () => {
+      const result = await regenerateRecoveryCodesAction({ code });
+
+      if (result.status === "SUCCESS" && result.recoveryCodes) {
+        toast.success(result.message);
+        setRecoveryCodes(result.recoveryCodes);
+        setCode("");
+      } else {
+        toast.error(result.message);
+      }
+    });
+  };
+
+  const handleDisable = () => {
+    if (!window.confirm("Turn off two-factor authentication? Your password alone will be enough to sign in.")) return;
+
+    startTransition(async () => {
+      const result = await disableTwoFactorAction({ code });
+
+      if (result.status === "SUCCESS") {
+        toast.success(result.message);
+        setCode("");
+        router.refresh();
+      } else {
+        toast.error(result.message);
+      }
+    });
+  };
+
+  if (recoveryCodes) {
+    return (
+      <RecoveryCodeList
+        codes={recoveryCodes}
+        onDone={() => {
+          setRecoveryCodes(null);
+          router.refresh();
+        }}
+      />
+    );
+  }
+
+  return (
+    <form className="space-y-4 rounded-md border p-4" onSubmit={handleRegenerate}>
+      <div className="space-y-2">
+        <Label htmlFor="manageCode">Authentication or Recovery Code</Label>
+        <Input
+          id="manageCode"
+          required
+          autoComplete="one-time-code"
+          placeholder="123456"
+          className="max-w-52 font-mono"
+          value={code}
+          onChange={(event) => setCode(event.target.value)}
+        />
+      </div>
+      <div className="flex flex-wrap gap-2">
+        <Button type="submit" variant="outline" disabled={isPending}>
+          New Recovery Codes
+        </Button>
+        {canDisable && (
+          <Button type="button" variant="destructive" disabled={isPending || !code} onClick={handleDisable}>
+            Turn Off
+          </Button>
+        )}
+      </div>
+    </form>
+  );
+};
+
+export default ManageTwoFactor;
@@ -0,0 +1,36 @@
+"use client"
+
+import { Button } from "@/components/ui/button";
+import { toast } from "sonner";
+
+//* Shown once, right after enrolment or regeneration: only hashes are kept on the server.
+const RecoveryCodeList = ({ codes, onDone }: { codes: string[]; onDone: () => void }) => {
+  const handleCopy = async () => {
+    await navigator.clipboard.writeText(codes.join("\n"));
+    toast.success("Copied to clipboard");
+  };
+
+  return (
+    <div className="space-y-3 rounded-md bg-muted p-4 text-sm">
+      <p className="font-medium">
+        Save these recovery codes somewhere safe. Each one signs you in once if you lose your authenticator app,
+        and they won&apos;t be shown again.
+      </p>
+      <ul className="grid grid-cols-2 gap-2 font-mono">
+        {codes.map((code) => (
+          <li key={code}>{code}</li>
+        ))}
+      </ul>
+      <div className="flex gap-2">
+        <Button type="button" variant="outline" onClick={handleCopy}>
+          Copy
+        </Button>
+        <Button type="button" onClick={onDone}>
+          I&apos;ve saved them
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default RecoveryCodeList;
@@ -0,0 +1,94 @@
+"use client"
+
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { confirmTwoFactorSetupAction, startTwoFactorSetupAction } from "@/features/auth/server/twoFactor.action";
+import { useRouter } from "next/navigation";
+import { FormEvent, useState, useTransition } from "react";
+import { toast } from "sonner";
+import RecoveryCodeList from "./RecoveryCodeList";
+
+//* Three steps: create a secret, scan it and confirm the first code, then save the recovery codes.
+const TwoFactorSetup = ({ continueTo }: { continueTo: string }) => {
+  const router = useRouter();
+  const [enrolment, setEnrolment] = useState<{ secret: string; qrCodeSvg: string } | null>(null);
+  const [code, setCode] = useState("");
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [isPending, startTransition] = useTransition();
+
+  const handleStart = () => {
+    startTransition(async () => {
+      const result = await startTwoFactorSetupAction();
+
+      if (result.status === "SUCCESS" && result.secret && result.qrCodeSvg) {
+        setEnrolment({ secret: result.secret, qrCodeSvg: result.qrCodeSvg });
+      } else {
+        toast.error(result.message);
+      }
+    });
+  };
+
+  const handleConfirm = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+
+    startTransition(async () => {
+      const result = await confirmTwoFactorSetupAction({ code });
+
+      if (result.status === "SUCCESS" && result.recoveryCodes) {
+        toast.success(result.message);
+        setRecoveryCodes(result.recoveryCodes);
+      } else {
+        toast.error(result.message);
+      }
+    });
+  };
+
+  if (recoveryCodes) {
+    return <RecoveryCodeList codes={recoveryCodes} onDone={() => router.replace(continueTo)} />;
+  }
+
+  if (!enrolment) {
+    return (
+      <Button onClick={handleStart} disabled={isPending}>
+        {isPending ? "Preparing..." : "Set Up Two-Factor Authentication"}
+      </Button>
+    );
+  }
+
+  return (
+    <form className="space-y-4" onSubmit={handleConfirm}>
+      <p className="text-sm">
+        Scan this QR code with an authenticator app (Google Authenticator, 1Password, Authy, ...), then enter
+        the 6-digit code it shows.
+      </p>
+      {/* the SVG is generated on our server from the otpauth URI, it contains no user markup */}
+      <div
+        className="w-48 h-48 rounded-md border [&>svg]:h-full [&>svg]:w-full"
+        aria-label="QR code for your authenticator app"
+        dangerouslySetInnerHTML={{ __html: enrolment.qrCodeSvg }}
+      />
+      <p className="text-sm text-muted-foreground">
+        Can&apos;t scan it? Enter this key instead: <span className="font-mono break-all">{enrolment.secret}</span>
+      </p>
+      <div className="space-y-2">
+        <Label htmlFor="setupCode">Code From the App</Label>
+        <Input
+          id="setupCode"
+          required
+          autoComplete="one-time-code"
+          inputMode="numeric"
+          placeholder="123456"
+          className="max-w-40 font-mono"
+          value={code}
+          onChange={(event) => setCode(event.target.value)}
+        />
+      </div>
+      <Button type="submit" disabled={isPending}>
+        {isPending ? "Verifying..." : "Turn On"}
+      </Button>
+    </form>
+  );
+};
+
+export default TwoFactorSetup;
@@ -0,0 +1,67 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { getRoleHomeRoute, VERIFY_EMAIL_ROUTE } from "@/features/auth/auth.constants";
+import LogoutButton from "@/features/auth/components/LogoutButton";
+import { getCurrentUser } from "@/features/auth/server/auth.queries";
+import { getTwoFactorStatus, isTwoFactorRequired } from "@/features/auth/server/use-cases/twoFactor";
+import Link from "next/link";
+import { redirect } from "next/navigation";
+import ManageTwoFactor from "./ManageTwoFactor";
+import TwoFactorSetup from "./TwoFactorSetup";
+
+//* Outside the role areas on purpose (like /verify-email): users whose role requires 2FA are held here,
+//* so requireRole() can't guard it.
+export default async function TwoFactorPage() {
+  const user = await getCurrentUser();
+
+  if (!user) redirect("/login");
+
+  if (!user.emailVerifiedAt) redirect(VERIFY_EMAIL_ROUTE);
+
+  const { enabledAt, remainingRecoveryCodes } = await getTwoFactorStatus(user.id);
+  const isRequired = isTwoFactorRequired(user.role);
+  const homeRoute = getRoleHomeRoute(user.role);
+
+  return (
+    <div className="min-h-screen bg-background p-8">
+      <Card className="mx-auto w-full max-w-2xl">
+        <CardHeader>
+          {enabledAt || !isRequired ? (
+            <Link href={homeRoute} className="text-sm text-primary hover:underline">
+              ← Back to dashboard
+            </Link>
+          ) : (
+            <div>
+              <LogoutButton />
+            </div>
+          )}
+          <CardTitle className="text-2xl">Two-Factor Authentication</CardTitle>
+          <CardDescription>
+            {enabledAt
+              ? `On since ${enabledAt.toLocaleDateString()}. Signing in needs your password and a code from your authenticator app.`
+              : isRequired
+                ? "Your account type requires two-factor authentication. Set it up to continue."
+                : "Protect your account with a code from an authenticator app in addition to your password."}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {enabledAt ? (
+            <>
+              <p className="text-sm">
+                {remainingRecoveryCodes} unused recovery code(s) left.
+                {remainingRecoveryCodes <= 3 && " Generate new ones before you run out."}
+              </p>
+              <ManageTwoFactor canDisable={!isRequired} />
+              {isRequired && (
+                <p className="text-sm text-muted-foreground">
+                  Two-factor authentication is required for your account and can&apos;t be turned off.
+                </p>
+              )}
+            </>
+          ) : (
+            <TwoFactorSetup continueTo={homeRoute} />
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
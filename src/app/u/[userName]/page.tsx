@@ -0,0 +1,148 @@
+import SiteHeader from "@/components/layout/SiteHeader";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { getCurrentUser } from "@/features/auth/server/auth.queries";
+import { WORK_MODE_LABELS } from "@/features/jobs/jobs.constants";
+import { PROFILE_LINK_TYPE_LABELS, SKILL_PROFICIENCY_LABELS } from "@/features/profiles/profiles.constants";
+import {
+  getApplicantByUserName,
+  getApplicantProfile,
+  hasAppliedToEmployerCompany,
+} from "@/features/profiles/server/profiles.queries";
+import { notFound } from "next/navigation";
+
+const formatMonth = (month: string) =>
+  new Date(`${month}-01T00:00:00Z`).toLocaleDateString("en", { month: "short", year: "numeric", timeZone: "UTC" });
+
+const formatPeriod = ({ startMonth, endMonth }: { startMonth: string; endMonth: string }) =>
+  `${formatMonth(startMonth)} – ${endMonth ? formatMonth(endMonth) : "Present"}`;
+
+//* Public profile. Private profiles are only visible to their owner (as a preview) and to employers the
+//* applicant applied to; everyone else gets a 404, so the URL doesn't even reveal that the account exists.
+//* Salary expectation is never shown here.
+export default async function PublicProfilePage({
+  params,
+}: {
+  params: Promise<{ userName: string }>;
+}) {
+  const { userName } = await params;
+  const applicant = await getApplicantByUserName(decodeURIComponent(userName));
+
+  if (!applicant) notFound();
+
+  const [profile, viewer] = await Promise.all([getApplicantProfile(applicant.id), getCurrentUser()]);
+  const isOwner = viewer?.id === applicant.id;
+
+  const canViewPrivate =
+    isOwner ||
+    (viewer?.role === "employer" &&
+      (await hasAppliedToEmployerCompany({ applicantId: applicant.id, employerId: viewer.id })));
+
+  if (!profile.isPublic && !canViewPrivate) notFound();
+
+  const preferences = [
+    ...profile.preferredWorkModes.map((workMode) => WORK_MODE_LABELS[workMode]),
+    ...profile.preferredLocations,
+    ...(profile.openToRelocation ? ["Open to relocation"] : []),
+  ];
+
+  return (
+    <div className="min-h-screen bg-zinc-50 dark:bg-black">
+      <SiteHeader />
+      <main className="mx-auto w-full max-w-3xl space-y-6 px-4 py-10">
+        {isOwner && !profile.isPublic && (
+          <p className="rounded-md bg-muted p-3 text-sm">
+            Your profile is private. Only you can see this page until you make it public.
+          </p>
+        )}
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-2xl">{applicant.name}</CardTitle>
+            <CardDescription>{profile.headline || `@${applicant.userName}`}</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4 text-sm">
+            {profile.summary && <p className="whitespace-pre-line leading-6">{profile.summary}</p>}
+            {profile.desiredRoles.length > 0 && (
+              <p>
+                <span className="text-muted-foreground">Looking for: </span>
+                {profile.desiredRoles.join(", ")}
+              </p>
+            )}
+            {preferences.length > 0 && (
+              <p>
+                <span className="text-muted-foreground">Preferences: </span>
+                {preferences.join(" · ")}
+              </p>
+            )}
+            {profile.links.length > 0 && (
+              <div className="flex flex-wrap gap-3">
+                {profile.links.map((link) => (
+                  <a key={link.url} href={link.url} target="_blank" rel="noopener noreferrer nofollow" className="text-primary hover:underline">
+                    {PROFILE_LINK_TYPE_LABELS[link.type]}
+                  </a>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        {profile.experiences.length > 0 && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-xl">Experience</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {profile.experiences.map((experience, index) => (
+                <div key={index} className="space-y-1 text-sm">
+                  <p className="font-medium">
+                    {experience.title} · {experience.company}
+                  </p>
+                  <p className="text-muted-foreground">
+                    {formatPeriod(experience)}
+                    {experience.location && ` · ${experience.location}`}
+                  </p>
+                  {experience.description && <p className="whitespace-pre-line">{experience.description}</p>}
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+        )}
+
+        {profile.educations.length > 0 && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-xl">Education</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {profile.educations.map((education, index) => (
+                <div key={index} className="space-y-1 text-sm">
+                  <p className="font-medium">{education.school}</p>
+                  <p className="text-muted-foreground">
+                    {[education.degree, education.fieldOfStudy].filter(Boolean).join(", ")}
+                    {(education.degree || education.fieldOfStudy) && " · "}
+                    {formatPeriod(education)}
+                  </p>
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+        )}
+
+        {profile.skills.length > 0 && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-xl">Skills</CardTitle>
+            </CardHeader>
+            <CardContent className="flex flex-wrap gap-2">
+              {profile.skills.map((skill) => (
+                <span key={skill.name} className="rounded-full bg-muted px-3 py-1 text-xs">
+                  {skill.name} · {SKILL_PROFICIENCY_LABELS[skill.proficiency]}
+                </span>
+              ))}
+            </CardContent>
+          </Card>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,27 @@
+"use client"
+
+import { Button } from "@/components/ui/button";
+import { resendVerificationEmailAction } from "@/features/auth/server/auth.action";
+import { useTransition } from "react";
+import { toast } from "sonner";
+
+const ResendVerificationButton = () => {
+  const [isPending, startTransition] = useTransition();
+
+  const handleResend = () => {
+    startTransition(async () => {
+      const result = await resendVerificationEmailAction();
+
+      if (result.status === "SUCCESS") toast.success(result.message);
+      else toast.error(result.message);
+    });
+  };
+
+  return (
+    <Button type="button" className="w-full" disabled={isPending} onClick={handleResend}>
+      {isPending ? "Sending..." : "Resend verification email"}
+    </Button>
+  );
+};
+
+export default ResendVerificationButton;
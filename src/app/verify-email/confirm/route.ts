@@ -0,0 +1,14 @@
+import { VERIFY_EMAIL_ROUTE } from "@/features/auth/auth.constants";
+import { verifyEmailToken } from "@/features/auth/server/use-cases/emailVerification";
+import { NextRequest, NextResponse } from "next/server";
+
+export async function GET(request: NextRequest) {
+  const token = request.nextUrl.searchParams.get("token");
+
+  const userId = token ? await verifyEmailToken(token) : null;
+
+  const redirectUrl = new URL(VERIFY_EMAIL_ROUTE, request.url);
+  redirectUrl.searchParams.set("status", userId ? "verified" : "invalid");
+
+  return NextResponse.redirect(redirectUrl);
+}
@@ -0,0 +1,70 @@
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { getRoleHomeRoute } from "@/features/auth/auth.constants";
+import LogoutButton from "@/features/auth/components/LogoutButton";
+import { getCurrentUser } from "@/features/auth/server/auth.queries";
+import { MailCheck } from "lucide-react";
+import Link from "next/link";
+import { redirect } from "next/navigation";
+import ResendVerificationButton from "./ResendVerificationButton";
+
+export default async function VerifyEmailPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ status?: string }>;
+}) {
+  const { status } = await searchParams;
+  const user = await getCurrentUser();
+
+  if (status === "verified") {
+    return (
+      <div className="flex justify-center items-center min-h-screen bg-background">
+        <Card className="w-full max-w-md text-center">
+          <CardHeader>
+            <div className="mx-auto w-20 h-20 bg-primary rounded-full flex items-center justify-center mb-4">
+              <MailCheck className="text-primary-foreground w-8 h-8" />
+            </div>
+            <CardTitle>Email Verified</CardTitle>
+            <CardDescription>Your email address has been confirmed. You&apos;re all set!</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Button asChild className="w-full">
+              <Link href={user ? getRoleHomeRoute(user.role) : "/login"}>
+                {user ? "Go to your dashboard" : "Sign in"}
+              </Link>
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  if (!user) redirect("/login");
+
+  if (user.emailVerifiedAt) redirect(getRoleHomeRoute(user.role));
+
+  return (
+    <div className="flex justify-center items-center min-h-screen bg-background">
+      <Card className="w-full max-w-md text-center">
+        <CardHeader>
+          <div className="mx-auto w-20 h-20 bg-primary rounded-full flex items-center justify-center mb-4">
+            <MailCheck className="text-primary-foreground w-8 h-8" />
+          </div>
+          <CardTitle>Verify Your Email</CardTitle>
+          <CardDescription>
+            We sent a verification link to <span className="font-medium">{user.email}</span>. Click it to unlock your account.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {status === "invalid" && (
+            <p className="text-sm text-destructive">
+              That verification link is invalid or has expired. Request a new one below.
+            </p>
+          )}
+          <ResendVerificationButton />
+          <LogoutButton className="w-full" />
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
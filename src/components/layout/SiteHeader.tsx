@@ -0,0 +1,42 @@
+import { Button } from "@/components/ui/button";
+import { getRoleHomeRoute } from "@/features/auth/auth.constants";
+import { getCurrentUser } from "@/features/auth/server/auth.queries";
+import NotificationBell from "@/features/notifications/components/NotificationBell";
+import { BriefcaseBusiness } from "lucide-react";
+import Link from "next/link";
+
+const SiteHeader = async () => {
+  const user = await getCurrentUser();
+
+  return (
+    <header className="border-b bg-background">
+      <div className="mx-auto flex h-16 w-full max-w-6xl items-center justify-between px-4">
+        <Link href="/" className="flex items-center gap-2 font-semibold">
+          <BriefcaseBusiness className="w-5 h-5" />
+          Job Portal
+        </Link>
+        <nav className="flex items-center gap-2">
+          {user ? (
+            <>
+              <NotificationBell />
+              <Button asChild variant="outline">
+                <Link href={getRoleHomeRoute(user.role)}>Dashboard</Link>
+              </Button>
+            </>
+          ) : (
+            <>
+              <Button asChild variant="ghost">
+                <Link href="/login">Sign In</Link>
+              </Button>
+              <Button asChild>
+                <Link href="/register">Sign Up</Link>
+              </Button>
+            </>
+          )}
+        </nav>
+      </div>
+    </header>
+  );
+};
+
+export default SiteHeader;
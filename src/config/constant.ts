@@ -0,0 +1,123 @@
+//* Session lifetimes are expressed in seconds so they can be passed straight to the cookie maxAge.
+export const SESSION_COOKIE_NAME = "session";
+
+export const SESSION_LIFETIME = 30 * 24 * 60 * 60; // 30 days
+
+//* When less than this much lifetime is left, the session is pushed forward again by SESSION_LIFETIME.
+export const SESSION_REFRESH_TIME = SESSION_LIFETIME / 2;
+
+//* How often (at most) a session's "last seen" timestamp is written back to the database.
+export const SESSION_ACTIVITY_INTERVAL = 5 * 60; // 5 minutes
+
+//* How many reverse proxies in front of the app append to X-Forwarded-For (e.g. 1 for a single nginx or
+//* load balancer). The client address is read that many hops from the right end of the header; whatever
+//* sits further left was sent by the client and is ignored.
+export const TRUSTED_PROXY_HOPS = Number(process.env.TRUSTED_PROXY_HOPS ?? 0);
+
+//* Base URL used to build absolute links in emails (verification, password reset, ...).
+export const APP_URL = process.env.APP_URL ?? "http://localhost:3000";
+
+//* Sender address for outgoing mail; also the organizer of calendar invites.
+export const EMAIL_FROM = process.env.EMAIL_FROM ?? `no-reply@${new URL(APP_URL).hostname}`;
+
+export const EMAIL_VERIFICATION_TOKEN_LIFETIME = 24 * 60 * 60; // 24 hours
+
+//* A new verification email can be requested once per cooldown, and at most MAX_PER_HOUR times an hour.
+export const EMAIL_VERIFICATION_RESEND_COOLDOWN = 60; // 1 minute
+export const EMAIL_VERIFICATION_MAX_PER_HOUR = 5;
+
+export const PASSWORD_RESET_TOKEN_LIFETIME = 60 * 60; // 1 hour
+
+//* Silently ignore repeated reset requests for the same account inside this window.
+export const PASSWORD_RESET_COOLDOWN = 60; // 1 minute
+
+//* Login brute-force protection. Failures are counted per account (email) and per IP address
+//* inside a rolling window; thresholds can be tuned through the environment.
+export const LOGIN_ATTEMPT_WINDOW = 15 * 60; // 15 minutes
+export const LOGIN_DELAY_AFTER_FAILURES = 3;
+export const LOGIN_MAX_DELAY = 60; // seconds
+export const LOGIN_ACCOUNT_LOCKOUT_THRESHOLD = Number(process.env.LOGIN_ACCOUNT_LOCKOUT_THRESHOLD ?? 10);
+export const LOGIN_IP_LOCKOUT_THRESHOLD = Number(process.env.LOGIN_IP_LOCKOUT_THRESHOLD ?? 50);
+export const LOGIN_LOCKOUT_DURATION = Number(process.env.LOGIN_LOCKOUT_DURATION ?? 15 * 60); // seconds
+
+//* Two-factor authentication. After the password, the login waits this long for the code, and the pending
+//* login is dropped after MAX_ATTEMPTS wrong codes (the password has to be entered again).
+export const TWO_FACTOR_CHALLENGE_COOKIE_NAME = "two_factor_challenge";
+export const TWO_FACTOR_CHALLENGE_LIFETIME = 5 * 60; // 5 minutes
+export const TWO_FACTOR_MAX_ATTEMPTS = 5;
+export const TWO_FACTOR_RECOVERY_CODE_COUNT = 10;
+
+//* Name shown next to the account in authenticator apps.
+export const TWO_FACTOR_ISSUER = process.env.TWO_FACTOR_ISSUER ?? "Job Portal";
+
+//* Policy: comma-separated roles that must use 2FA, e.g. TWO_FACTOR_REQUIRED_ROLES=admin,employer.
+//* Users with such a role are held on the setup page until they have enrolled.
+export const TWO_FACTOR_REQUIRED_ROLES = (process.env.TWO_FACTOR_REQUIRED_ROLES ?? "")
+  .split(",")
+  .map((role) => role.trim())
+  .filter(Boolean);
+
+//* External sign-in (OpenID Connect). state, nonce and the PKCE verifier travel in an encrypted cookie
+//* between the redirect to the provider and the callback; an email match waits in another one until the
+//* user confirms the link with their password.
+export const OIDC_FLOW_COOKIE_NAME = "oidc_flow";
+export const OIDC_FLOW_LIFETIME = 10 * 60; // 10 minutes
+export const OIDC_LINK_COOKIE_NAME = "oidc_link";
+export const OIDC_LINK_LIFETIME = 10 * 60; // 10 minutes
+
+export const RESUME_MAX_SIZE = 5 * 1024 * 1024; // 5 MB
+export const RESUME_MAX_PER_USER = 10;
+
+//* Extracted resume text is capped so a pathological file cannot blow up the row.
+export const RESUME_MAX_TEXT_LENGTH = 200_000;
+
+export const COMPANY_INVITE_LIFETIME = 7 * 24 * 60 * 60; // 7 days
+
+export const SAVED_SEARCHES_MAX_PER_USER = 20;
+
+//* A digest is due once this much time has passed since the previous one. Slightly under a full day/week
+//* so a scheduler that fires at the same time every day doesn't skip a run because of a few seconds' drift.
+export const JOB_ALERT_INTERVALS = {
+  daily: 23 * 60 * 60, // ~1 day
+  weekly: 7 * 24 * 60 * 60 - 60 * 60, // ~1 week
+};
+
+//* At most this many jobs are listed in one digest; the rest are behind the "see all" link.
+export const JOB_ALERT_MAX_JOBS = 20;
+
+//* One attachment per message; it goes through the same server action body limit as resumes (next.config.ts).
+export const MESSAGE_ATTACHMENT_MAX_SIZE = 5 * 1024 * 1024; // 5 MB
+
+//* How often an open conversation asks the server for new messages.
+export const MESSAGE_POLL_INTERVAL = 5; // seconds
+
+//* How often a signed-in page checks for new notifications (badge count and live toasts).
+export const NOTIFICATION_POLL_INTERVAL = 30; // seconds
+
+export const NOTIFICATIONS_PAGE_SIZE = 30;
+
+export const ADMIN_USERS_PAGE_SIZE = 25;
+
+export const AUDIT_EVENTS_PAGE_SIZE = 50;
+
+//* CSV exports stop here; narrow the filters to export older or more specific events.
+export const AUDIT_EXPORT_MAX_ROWS = 10000;
+
+export const API_KEYS_MAX_PER_COMPANY = 20;
+
+//* API rate limits are counted per key in fixed windows of this length (the per-key limit is per minute).
+export const API_RATE_LIMIT_WINDOW = 60; // seconds
+
+//* Like SESSION_ACTIVITY_INTERVAL: how often (at most) a key's "last used" timestamp is written.
+export const API_KEY_ACTIVITY_INTERVAL = 60; // seconds
+
+//* Job feeds list the newest published jobs; aggregators poll them, so responses are cached briefly.
+export const JOB_FEED_MAX_ITEMS = 50;
+export const JOB_FEED_CACHE_MAX_AGE = 15 * 60; // 15 minutes
+
+//* Bulk job imports are parsed in memory inside a server action, so files and row counts are capped.
+export const JOB_IMPORT_MAX_SIZE = 2 * 1024 * 1024; // 2 MB
+export const JOB_IMPORT_MAX_ROWS = 500;
+
+//* Applicant exports are streamed: applications are read and written this many at a time.
+export const APPLICANT_EXPORT_BATCH_SIZE = 200;
@@ -0,0 +1,25 @@
+CREATE TABLE `email_outbox` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`recipient` varchar(255) NOT NULL,
+	`subject` varchar(255) NOT NULL,
+	`html` text NOT NULL,
+	`text` text NOT NULL,
+	`sent_at` timestamp,
+	`created_at` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `email_outbox_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+CREATE TABLE `email_verification_tokens` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`user_id` int NOT NULL,
+	`token_hash` varchar(255) NOT NULL,
+	`expires_at` timestamp NOT NULL,
+	`created_at` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `email_verification_tokens_id` PRIMARY KEY(`id`),
+	CONSTRAINT `email_verification_tokens_token_hash_unique` UNIQUE(`token_hash`)
+);
+--> statement-breakpoint
+ALTER TABLE `users` ADD `email_verified_at` timestamp;--> statement-breakpoint
+ALTER TABLE `email_verification_tokens` ADD CONSTRAINT `email_verification_tokens_user_id_users_id_fk` FOREIGN KEY (`user_id`) REFERENCES `users`(`id`) ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX `email_verification_tokens_user_id_idx` ON `email_verification_tokens` (`user_id`);--> statement-breakpoint
+UPDATE `users` SET `email_verified_at` = `created_at` WHERE `email_verified_at` IS NULL;
\ No newline at end of file
@@ -0,0 +1,10 @@
+CREATE TABLE `rate_limits` (
+	`key` varchar(255) NOT NULL,
+	`count` int NOT NULL DEFAULT 0,
+	`window_started_at` timestamp NOT NULL,
+	`locked_until` timestamp,
+	`updated_at` timestamp NOT NULL DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `rate_limits_key` PRIMARY KEY(`key`)
+);
+--> statement-breakpoint
+CREATE INDEX `rate_limits_locked_until_idx` ON `rate_limits` (`locked_until`);
\ No newline at end of file
@@ -0,0 +1,25 @@
+CREATE TABLE `jobs` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`employer_id` int NOT NULL,
+	`title` varchar(255) NOT NULL,
+	`description` text NOT NULL,
+	`employment_type` enum('full_time','part_time','contract','internship','temporary','freelance') NOT NULL,
+	`work_mode` enum('onsite','remote','hybrid') NOT NULL,
+	`location` varchar(255),
+	`salary_min` int,
+	`salary_max` int,
+	`salary_currency` varchar(3) NOT NULL DEFAULT 'USD',
+	`experience_level` enum('entry','junior','mid','senior','lead') NOT NULL,
+	`skills` json NOT NULL,
+	`status` enum('draft','published','closed') NOT NULL DEFAULT 'draft',
+	`published_at` timestamp,
+	`closed_at` timestamp,
+	`deleted_at` timestamp,
+	`created_at` timestamp NOT NULL DEFAULT (now()),
+	`updated_at` timestamp NOT NULL DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `jobs_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+ALTER TABLE `jobs` ADD CONSTRAINT `jobs_employer_id_users_id_fk` FOREIGN KEY (`employer_id`) REFERENCES `users`(`id`) ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX `jobs_employer_id_idx` ON `jobs` (`employer_id`);--> statement-breakpoint
+CREATE INDEX `jobs_status_published_at_idx` ON `jobs` (`status`,`published_at`);
\ No newline at end of file
@@ -0,0 +1,2 @@
+-- Custom SQL migration file, put your code below! ---- drizzle-orm has no FULLTEXT index builder for MySQL, so the keyword search index lives here.
+CREATE FULLTEXT INDEX `jobs_title_description_fulltext_idx` ON `jobs` (`title`,`description`);
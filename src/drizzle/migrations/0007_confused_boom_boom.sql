@@ -0,0 +1,30 @@
+CREATE TABLE `application_status_history` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`application_id` int NOT NULL,
+	`from_status` enum('applied','screening','interview','offer','hired','rejected','withdrawn'),
+	`to_status` enum('applied','screening','interview','offer','hired','rejected','withdrawn') NOT NULL,
+	`changed_by` int,
+	`note` text,
+	`created_at` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `application_status_history_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+CREATE TABLE `applications` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`job_id` int NOT NULL,
+	`applicant_id` int NOT NULL,
+	`cover_letter` text,
+	`resume_url` varchar(2048),
+	`status` enum('applied','screening','interview','offer','hired','rejected','withdrawn') NOT NULL DEFAULT 'applied',
+	`created_at` timestamp NOT NULL DEFAULT (now()),
+	`updated_at` timestamp NOT NULL DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `applications_id` PRIMARY KEY(`id`),
+	CONSTRAINT `applications_job_id_applicant_id_unique` UNIQUE(`job_id`,`applicant_id`)
+);
+--> statement-breakpoint
+ALTER TABLE `application_status_history` ADD CONSTRAINT `application_status_history_application_id_applications_id_fk` FOREIGN KEY (`application_id`) REFERENCES `applications`(`id`) ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE `application_status_history` ADD CONSTRAINT `application_status_history_changed_by_users_id_fk` FOREIGN KEY (`changed_by`) REFERENCES `users`(`id`) ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE `applications` ADD CONSTRAINT `applications_job_id_jobs_id_fk` FOREIGN KEY (`job_id`) REFERENCES `jobs`(`id`) ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE `applications` ADD CONSTRAINT `applications_applicant_id_users_id_fk` FOREIGN KEY (`applicant_id`) REFERENCES `users`(`id`) ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX `application_status_history_application_id_idx` ON `application_status_history` (`application_id`);--> statement-breakpoint
+CREATE INDEX `applications_applicant_id_idx` ON `applications` (`applicant_id`);
\ No newline at end of file
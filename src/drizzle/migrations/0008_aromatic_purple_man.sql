@@ -0,0 +1,18 @@
+CREATE TABLE `resumes` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`user_id` int NOT NULL,
+	`storage_key` varchar(512) NOT NULL,
+	`original_name` varchar(255) NOT NULL,
+	`mime_type` varchar(255) NOT NULL,
+	`size` int NOT NULL,
+	`extracted_text` mediumtext,
+	`deleted_at` timestamp,
+	`created_at` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `resumes_id` PRIMARY KEY(`id`),
+	CONSTRAINT `resumes_storage_key_unique` UNIQUE(`storage_key`)
+);
+--> statement-breakpoint
+ALTER TABLE `applications` ADD `resume_id` int;--> statement-breakpoint
+ALTER TABLE `resumes` ADD CONSTRAINT `resumes_user_id_users_id_fk` FOREIGN KEY (`user_id`) REFERENCES `users`(`id`) ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX `resumes_user_id_idx` ON `resumes` (`user_id`);--> statement-breakpoint
+ALTER TABLE `applications` ADD CONSTRAINT `applications_resume_id_resumes_id_fk` FOREIGN KEY (`resume_id`) REFERENCES `resumes`(`id`) ON DELETE set null ON UPDATE no action;
\ No newline at end of file
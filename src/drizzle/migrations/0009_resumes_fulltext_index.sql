@@ -0,0 +1,2 @@
+-- Custom SQL migration file, put your code below! ---- drizzle-orm has no FULLTEXT index builder for MySQL, so the resume search index lives here.
+CREATE FULLTEXT INDEX `resumes_extracted_text_fulltext_idx` ON `resumes` (`extracted_text`);
@@ -0,0 +1,63 @@
+CREATE TABLE `companies` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`name` varchar(255) NOT NULL,
+	`slug` varchar(100) NOT NULL,
+	`logo_url` varchar(2048),
+	`website` varchar(2048),
+	`size` enum('1-10','11-50','51-200','201-500','501-1000','1000+'),
+	`industry` varchar(100),
+	`description` text,
+	`created_at` timestamp NOT NULL DEFAULT (now()),
+	`updated_at` timestamp NOT NULL DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `companies_id` PRIMARY KEY(`id`),
+	CONSTRAINT `companies_slug_unique` UNIQUE(`slug`)
+);
+--> statement-breakpoint
+CREATE TABLE `company_invites` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`company_id` int NOT NULL,
+	`email` varchar(255) NOT NULL,
+	`role` enum('owner','recruiter','viewer') NOT NULL,
+	`token_hash` varchar(255) NOT NULL,
+	`invited_by` int,
+	`expires_at` timestamp NOT NULL,
+	`accepted_at` timestamp,
+	`created_at` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `company_invites_id` PRIMARY KEY(`id`),
+	CONSTRAINT `company_invites_token_hash_unique` UNIQUE(`token_hash`)
+);
+--> statement-breakpoint
+CREATE TABLE `company_members` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`company_id` int NOT NULL,
+	`user_id` int NOT NULL,
+	`role` enum('owner','recruiter','viewer') NOT NULL,
+	`created_at` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `company_members_id` PRIMARY KEY(`id`),
+	CONSTRAINT `company_members_user_id_unique` UNIQUE(`user_id`)
+);
+--> statement-breakpoint
+ALTER TABLE `jobs` ADD `company_id` int;--> statement-breakpoint
+-- Backfill: every existing employer becomes the owner of a company named after them, and their jobs move into it.
+-- The slug embeds the user id so it is unique; owners can rename it from the company settings page.
+INSERT INTO `companies` (`name`, `slug`)
+SELECT `u`.`name`, CONCAT(TRIM(BOTH '-' FROM LOWER(REGEXP_REPLACE(`u`.`username`, '[^A-Za-z0-9]+', '-'))), '-', `u`.`id`)
+FROM `users` `u`
+WHERE `u`.`role` = 'employer' OR EXISTS (SELECT 1 FROM `jobs` `j` WHERE `j`.`employer_id` = `u`.`id`);--> statement-breakpoint
+INSERT INTO `company_members` (`company_id`, `user_id`, `role`)
+SELECT `c`.`id`, `u`.`id`, 'owner'
+FROM `users` `u`
+INNER JOIN `companies` `c`
+  ON `c`.`slug` = CONCAT(TRIM(BOTH '-' FROM LOWER(REGEXP_REPLACE(`u`.`username`, '[^A-Za-z0-9]+', '-'))), '-', `u`.`id`);--> statement-breakpoint
+UPDATE `jobs` `j`
+INNER JOIN `company_members` `m` ON `m`.`user_id` = `j`.`employer_id`
+SET `j`.`company_id` = `m`.`company_id`;--> statement-breakpoint
+ALTER TABLE `jobs` MODIFY COLUMN `company_id` int NOT NULL;--> statement-breakpoint
+ALTER TABLE `company_invites` ADD CONSTRAINT `company_invites_company_id_companies_id_fk` FOREIGN KEY (`company_id`) REFERENCES `companies`(`id`) ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE `company_invites` ADD CONSTRAINT `company_invites_invited_by_users_id_fk` FOREIGN KEY (`invited_by`) REFERENCES `users`(`id`) ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE `company_members` ADD CONSTRAINT `company_members_company_id_companies_id_fk` FOREIGN KEY (`company_id`) REFERENCES `companies`(`id`) ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE `company_members` ADD CONSTRAINT `company_members_user_id_users_id_fk` FOREIGN KEY (`user_id`) REFERENCES `users`(`id`) ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX `company_invites_company_id_idx` ON `company_invites` (`company_id`);--> statement-breakpoint
+CREATE INDEX `company_members_company_id_idx` ON `company_members` (`company_id`);--> statement-breakpoint
+ALTER TABLE `jobs` ADD CONSTRAINT `jobs_company_id_companies_id_fk` FOREIGN KEY (`company_id`) REFERENCES `companies`(`id`) ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX `jobs_company_id_idx` ON `jobs` (`company_id`);
\ No newline at end of file
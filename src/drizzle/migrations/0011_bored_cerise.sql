@@ -0,0 +1,64 @@
+CREATE TABLE `applicant_profiles` (
+	`user_id` int NOT NULL,
+	`headline` varchar(255),
+	`summary` text,
+	`desired_roles` json NOT NULL,
+	`salary_expectation` int,
+	`salary_currency` varchar(3) NOT NULL DEFAULT 'USD',
+	`preferred_locations` json NOT NULL,
+	`preferred_work_modes` json NOT NULL,
+	`open_to_relocation` boolean NOT NULL DEFAULT false,
+	`is_public` boolean NOT NULL DEFAULT false,
+	`created_at` timestamp NOT NULL DEFAULT (now()),
+	`updated_at` timestamp NOT NULL DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `applicant_profiles_user_id` PRIMARY KEY(`user_id`)
+);
+--> statement-breakpoint
+CREATE TABLE `profile_educations` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`user_id` int NOT NULL,
+	`school` varchar(255) NOT NULL,
+	`degree` varchar(255),
+	`field_of_study` varchar(255),
+	`start_date` date NOT NULL,
+	`end_date` date,
+	CONSTRAINT `profile_educations_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+CREATE TABLE `profile_experiences` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`user_id` int NOT NULL,
+	`title` varchar(255) NOT NULL,
+	`company` varchar(255) NOT NULL,
+	`location` varchar(255),
+	`start_date` date NOT NULL,
+	`end_date` date,
+	`description` text,
+	CONSTRAINT `profile_experiences_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+CREATE TABLE `profile_links` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`user_id` int NOT NULL,
+	`type` enum('linkedin','github','portfolio','website','other') NOT NULL,
+	`url` varchar(2048) NOT NULL,
+	CONSTRAINT `profile_links_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+CREATE TABLE `profile_skills` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`user_id` int NOT NULL,
+	`name` varchar(50) NOT NULL,
+	`proficiency` enum('beginner','intermediate','advanced','expert') NOT NULL,
+	CONSTRAINT `profile_skills_id` PRIMARY KEY(`id`),
+	CONSTRAINT `profile_skills_user_id_name_unique` UNIQUE(`user_id`,`name`)
+);
+--> statement-breakpoint
+ALTER TABLE `applicant_profiles` ADD CONSTRAINT `applicant_profiles_user_id_users_id_fk` FOREIGN KEY (`user_id`) REFERENCES `users`(`id`) ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE `profile_educations` ADD CONSTRAINT `profile_educations_user_id_users_id_fk` FOREIGN KEY (`user_id`) REFERENCES `users`(`id`) ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE `profile_experiences` ADD CONSTRAINT `profile_experiences_user_id_users_id_fk` FOREIGN KEY (`user_id`) REFERENCES `users`(`id`) ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE `profile_links` ADD CONSTRAINT `profile_links_user_id_users_id_fk` FOREIGN KEY (`user_id`) REFERENCES `users`(`id`) ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE `profile_skills` ADD CONSTRAINT `profile_skills_user_id_users_id_fk` FOREIGN KEY (`user_id`) REFERENCES `users`(`id`) ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX `profile_educations_user_id_idx` ON `profile_educations` (`user_id`);--> statement-breakpoint
+CREATE INDEX `profile_experiences_user_id_idx` ON `profile_experiences` (`user_id`);--> statement-breakpoint
+CREATE INDEX `profile_links_user_id_idx` ON `profile_links` (`user_id`);
\ No newline at end of file
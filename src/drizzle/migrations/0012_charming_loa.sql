@@ -0,0 +1,63 @@
+CREATE TABLE `job_alert_deliveries` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`user_id` int NOT NULL,
+	`job_id` int NOT NULL,
+	`saved_search_id` int,
+	`created_at` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `job_alert_deliveries_id` PRIMARY KEY(`id`),
+	CONSTRAINT `job_alert_deliveries_user_id_job_id_unique` UNIQUE(`user_id`,`job_id`)
+);
+--> statement-breakpoint
+CREATE TABLE `notifications` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`user_id` int NOT NULL,
+	`type` enum('job_alert') NOT NULL,
+	`title` varchar(255) NOT NULL,
+	`body` text,
+	`url` varchar(2048),
+	`read_at` timestamp,
+	`created_at` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `notifications_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+CREATE TABLE `saved_jobs` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`user_id` int NOT NULL,
+	`job_id` int NOT NULL,
+	`created_at` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `saved_jobs_id` PRIMARY KEY(`id`),
+	CONSTRAINT `saved_jobs_user_id_job_id_unique` UNIQUE(`user_id`,`job_id`)
+);
+--> statement-breakpoint
+CREATE TABLE `saved_search_unsubscribe_tokens` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`saved_search_id` int NOT NULL,
+	`token_hash` varchar(255) NOT NULL,
+	`created_at` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `saved_search_unsubscribe_tokens_id` PRIMARY KEY(`id`),
+	CONSTRAINT `saved_search_unsubscribe_tokens_token_hash_unique` UNIQUE(`token_hash`)
+);
+--> statement-breakpoint
+CREATE TABLE `saved_searches` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`user_id` int NOT NULL,
+	`name` varchar(100) NOT NULL,
+	`params` json NOT NULL,
+	`frequency` enum('daily','weekly','off') NOT NULL DEFAULT 'weekly',
+	`last_sent_at` timestamp,
+	`created_at` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `saved_searches_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+ALTER TABLE `email_outbox` ADD `headers` json;--> statement-breakpoint
+ALTER TABLE `job_alert_deliveries` ADD CONSTRAINT `job_alert_deliveries_user_id_users_id_fk` FOREIGN KEY (`user_id`) REFERENCES `users`(`id`) ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE `job_alert_deliveries` ADD CONSTRAINT `job_alert_deliveries_job_id_jobs_id_fk` FOREIGN KEY (`job_id`) REFERENCES `jobs`(`id`) ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE `job_alert_deliveries` ADD CONSTRAINT `job_alert_deliveries_saved_search_id_saved_searches_id_fk` FOREIGN KEY (`saved_search_id`) REFERENCES `saved_searches`(`id`) ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE `notifications` ADD CONSTRAINT `notifications_user_id_users_id_fk` FOREIGN KEY (`user_id`) REFERENCES `users`(`id`) ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE `saved_jobs` ADD CONSTRAINT `saved_jobs_user_id_users_id_fk` FOREIGN KEY (`user_id`) REFERENCES `users`(`id`) ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE `saved_jobs` ADD CONSTRAINT `saved_jobs_job_id_jobs_id_fk` FOREIGN KEY (`job_id`) REFERENCES `jobs`(`id`) ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE `saved_search_unsubscribe_tokens` ADD CONSTRAINT `saved_search_unsubscribe_tokens_saved_search_id_saved_searches_id_fk` FOREIGN KEY (`saved_search_id`) REFERENCES `saved_searches`(`id`) ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE `saved_searches` ADD CONSTRAINT `saved_searches_user_id_users_id_fk` FOREIGN KEY (`user_id`) REFERENCES `users`(`id`) ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX `notifications_user_id_created_at_idx` ON `notifications` (`user_id`,`created_at`);--> statement-breakpoint
+CREATE INDEX `saved_searches_user_id_idx` ON `saved_searches` (`user_id`);--> statement-breakpoint
+CREATE INDEX `saved_searches_frequency_last_sent_at_idx` ON `saved_searches` (`frequency`,`last_sent_at`);
\ No newline at end of file
@@ -0,0 +1,64 @@
+CREATE TABLE `conversation_reads` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`conversation_id` int NOT NULL,
+	`user_id` int NOT NULL,
+	`last_read_message_id` int NOT NULL,
+	`updated_at` timestamp NOT NULL DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `conversation_reads_id` PRIMARY KEY(`id`),
+	CONSTRAINT `conversation_reads_conversation_id_user_id_unique` UNIQUE(`conversation_id`,`user_id`)
+);
+--> statement-breakpoint
+CREATE TABLE `conversations` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`application_id` int NOT NULL,
+	`last_message_at` timestamp,
+	`archived_at` timestamp,
+	`created_at` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `conversations_id` PRIMARY KEY(`id`),
+	CONSTRAINT `conversations_application_id_unique` UNIQUE(`application_id`)
+);
+--> statement-breakpoint
+CREATE TABLE `message_attachments` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`message_id` int NOT NULL,
+	`storage_key` varchar(512) NOT NULL,
+	`original_name` varchar(255) NOT NULL,
+	`mime_type` varchar(255) NOT NULL,
+	`size` int NOT NULL,
+	`created_at` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `message_attachments_id` PRIMARY KEY(`id`),
+	CONSTRAINT `message_attachments_storage_key_unique` UNIQUE(`storage_key`)
+);
+--> statement-breakpoint
+CREATE TABLE `messages` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`conversation_id` int NOT NULL,
+	`sender_id` int,
+	`sender_party` enum('applicant','company') NOT NULL,
+	`body` text NOT NULL,
+	`created_at` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `messages_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+CREATE TABLE `messaging_blocks` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`applicant_id` int NOT NULL,
+	`company_id` int NOT NULL,
+	`blocked_by` enum('applicant','company') NOT NULL,
+	`created_by` int,
+	`created_at` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `messaging_blocks_id` PRIMARY KEY(`id`),
+	CONSTRAINT `messaging_blocks_applicant_id_company_id_blocked_by_unique` UNIQUE(`applicant_id`,`company_id`,`blocked_by`)
+);
+--> statement-breakpoint
+ALTER TABLE `conversation_reads` ADD CONSTRAINT `conversation_reads_conversation_id_conversations_id_fk` FOREIGN KEY (`conversation_id`) REFERENCES `conversations`(`id`) ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE `conversation_reads` ADD CONSTRAINT `conversation_reads_user_id_users_id_fk` FOREIGN KEY (`user_id`) REFERENCES `users`(`id`) ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE `conversations` ADD CONSTRAINT `conversations_application_id_applications_id_fk` FOREIGN KEY (`application_id`) REFERENCES `applications`(`id`) ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE `message_attachments` ADD CONSTRAINT `message_attachments_message_id_messages_id_fk` FOREIGN KEY (`message_id`) REFERENCES `messages`(`id`) ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE `messages` ADD CONSTRAINT `messages_conversation_id_conversations_id_fk` FOREIGN KEY (`conversation_id`) REFERENCES `conversations`(`id`) ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE `messages` ADD CONSTRAINT `messages_sender_id_users_id_fk` FOREIGN KEY (`sender_id`) REFERENCES `users`(`id`) ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE `messaging_blocks` ADD CONSTRAINT `messaging_blocks_applicant_id_users_id_fk` FOREIGN KEY (`applicant_id`) REFERENCES `users`(`id`) ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE `messaging_blocks` ADD CONSTRAINT `messaging_blocks_company_id_companies_id_fk` FOREIGN KEY (`company_id`) REFERENCES `companies`(`id`) ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE `messaging_blocks` ADD CONSTRAINT `messaging_blocks_created_by_users_id_fk` FOREIGN KEY (`created_by`) REFERENCES `users`(`id`) ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX `message_attachments_message_id_idx` ON `message_attachments` (`message_id`);--> statement-breakpoint
+CREATE INDEX `messages_conversation_id_id_idx` ON `messages` (`conversation_id`,`id`);
\ No newline at end of file
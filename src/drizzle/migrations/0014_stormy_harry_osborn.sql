@@ -0,0 +1,15 @@
+CREATE TABLE `notification_preferences` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`user_id` int NOT NULL,
+	`type` enum('job_alert','application_status','new_applicant','new_message','job_closed') NOT NULL,
+	`channel` enum('in_app','email_digest','none') NOT NULL,
+	`updated_at` timestamp NOT NULL DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `notification_preferences_id` PRIMARY KEY(`id`),
+	CONSTRAINT `notification_preferences_user_id_type_unique` UNIQUE(`user_id`,`type`)
+);
+--> statement-breakpoint
+ALTER TABLE `notifications` MODIFY COLUMN `type` enum('job_alert','application_status','new_applicant','new_message','job_closed') NOT NULL;--> statement-breakpoint
+ALTER TABLE `notifications` ADD `deliver_by_email` boolean DEFAULT false NOT NULL;--> statement-breakpoint
+ALTER TABLE `notifications` ADD `emailed_at` timestamp;--> statement-breakpoint
+ALTER TABLE `notification_preferences` ADD CONSTRAINT `notification_preferences_user_id_users_id_fk` FOREIGN KEY (`user_id`) REFERENCES `users`(`id`) ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX `notifications_deliver_by_email_emailed_at_idx` ON `notifications` (`deliver_by_email`,`emailed_at`);
\ No newline at end of file
@@ -0,0 +1,16 @@
+CREATE TABLE `audit_events` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`type` enum('auth.registered','auth.login_succeeded','auth.login_failed','auth.logout','auth.session_revoked','auth.password_reset_requested','auth.password_changed','company.member_role_changed','admin.user_role_changed','admin.user_suspended','admin.user_restored','admin.user_sessions_revoked','admin.login_unlocked','admin.audit_exported') NOT NULL,
+	`actor_id` int,
+	`target_user_id` int,
+	`ip_address` varchar(255) NOT NULL,
+	`user_agent` text NOT NULL,
+	`metadata` json NOT NULL,
+	`created_at` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `audit_events_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+CREATE INDEX `audit_events_type_created_at_idx` ON `audit_events` (`type`,`created_at`);--> statement-breakpoint
+CREATE INDEX `audit_events_actor_id_idx` ON `audit_events` (`actor_id`);--> statement-breakpoint
+CREATE INDEX `audit_events_target_user_id_idx` ON `audit_events` (`target_user_id`);--> statement-breakpoint
+CREATE INDEX `audit_events_created_at_idx` ON `audit_events` (`created_at`);
\ No newline at end of file
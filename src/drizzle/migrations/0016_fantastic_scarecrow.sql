@@ -0,0 +1,47 @@
+CREATE TABLE `interview_interviewers` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`interview_id` int NOT NULL,
+	`user_id` int NOT NULL,
+	CONSTRAINT `interview_interviewers_id` PRIMARY KEY(`id`),
+	CONSTRAINT `interview_interviewers_interview_id_user_id_unique` UNIQUE(`interview_id`,`user_id`)
+);
+--> statement-breakpoint
+CREATE TABLE `interview_slots` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`interview_id` int NOT NULL,
+	`starts_at` timestamp NOT NULL,
+	`ends_at` timestamp NOT NULL,
+	CONSTRAINT `interview_slots_id` PRIMARY KEY(`id`),
+	CONSTRAINT `interview_slots_interview_id_starts_at_unique` UNIQUE(`interview_id`,`starts_at`)
+);
+--> statement-breakpoint
+CREATE TABLE `interviews` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`application_id` int NOT NULL,
+	`status` enum('proposed','scheduled','cancelled') NOT NULL DEFAULT 'proposed',
+	`time_zone` varchar(64) NOT NULL,
+	`duration_minutes` int NOT NULL,
+	`location` varchar(255),
+	`meeting_url` varchar(2048),
+	`starts_at` timestamp,
+	`ends_at` timestamp,
+	`sequence` int NOT NULL DEFAULT 0,
+	`feedback` text,
+	`created_by` int,
+	`cancelled_at` timestamp,
+	`created_at` timestamp NOT NULL DEFAULT (now()),
+	`updated_at` timestamp NOT NULL DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `interviews_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+ALTER TABLE `notification_preferences` MODIFY COLUMN `type` enum('job_alert','application_status','new_applicant','new_message','job_closed','interview') NOT NULL;--> statement-breakpoint
+ALTER TABLE `notifications` MODIFY COLUMN `type` enum('job_alert','application_status','new_applicant','new_message','job_closed','interview') NOT NULL;--> statement-breakpoint
+ALTER TABLE `email_outbox` ADD `attachments` json;--> statement-breakpoint
+ALTER TABLE `interview_interviewers` ADD CONSTRAINT `interview_interviewers_interview_id_interviews_id_fk` FOREIGN KEY (`interview_id`) REFERENCES `interviews`(`id`) ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE `interview_interviewers` ADD CONSTRAINT `interview_interviewers_user_id_users_id_fk` FOREIGN KEY (`user_id`) REFERENCES `users`(`id`) ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE `interview_slots` ADD CONSTRAINT `interview_slots_interview_id_interviews_id_fk` FOREIGN KEY (`interview_id`) REFERENCES `interviews`(`id`) ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE `interviews` ADD CONSTRAINT `interviews_application_id_applications_id_fk` FOREIGN KEY (`application_id`) REFERENCES `applications`(`id`) ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE `interviews` ADD CONSTRAINT `interviews_created_by_users_id_fk` FOREIGN KEY (`created_by`) REFERENCES `users`(`id`) ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX `interview_interviewers_user_id_idx` ON `interview_interviewers` (`user_id`);--> statement-breakpoint
+CREATE INDEX `interviews_application_id_idx` ON `interviews` (`application_id`);--> statement-breakpoint
+CREATE INDEX `interviews_status_starts_at_idx` ON `interviews` (`status`,`starts_at`);
\ No newline at end of file
@@ -0,0 +1,20 @@
+CREATE TABLE `api_keys` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`company_id` int NOT NULL,
+	`created_by` int NOT NULL,
+	`name` varchar(100) NOT NULL,
+	`key_prefix` varchar(16) NOT NULL,
+	`key_hash` varchar(64) NOT NULL,
+	`scopes` json NOT NULL,
+	`rate_limit_per_minute` int NOT NULL,
+	`last_used_at` timestamp,
+	`revoked_at` timestamp,
+	`created_at` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `api_keys_id` PRIMARY KEY(`id`),
+	CONSTRAINT `api_keys_key_hash_unique` UNIQUE(`key_hash`)
+);
+--> statement-breakpoint
+ALTER TABLE `audit_events` MODIFY COLUMN `type` enum('auth.registered','auth.login_succeeded','auth.login_failed','auth.logout','auth.session_revoked','auth.password_reset_requested','auth.password_changed','company.member_role_changed','company.api_key_created','company.api_key_revoked','admin.user_role_changed','admin.user_suspended','admin.user_restored','admin.user_sessions_revoked','admin.login_unlocked','admin.audit_exported') NOT NULL;--> statement-breakpoint
+ALTER TABLE `api_keys` ADD CONSTRAINT `api_keys_company_id_companies_id_fk` FOREIGN KEY (`company_id`) REFERENCES `companies`(`id`) ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE `api_keys` ADD CONSTRAINT `api_keys_created_by_users_id_fk` FOREIGN KEY (`created_by`) REFERENCES `users`(`id`) ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX `api_keys_company_id_idx` ON `api_keys` (`company_id`);
\ No newline at end of file
@@ -0,0 +1,16 @@
+CREATE TABLE `job_import_mappings` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`company_id` int NOT NULL,
+	`format` enum('csv','xml') NOT NULL,
+	`mapping` json NOT NULL,
+	`updated_by` int,
+	`created_at` timestamp NOT NULL DEFAULT (now()),
+	`updated_at` timestamp NOT NULL DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `job_import_mappings_id` PRIMARY KEY(`id`),
+	CONSTRAINT `job_import_mappings_company_id_format_unique` UNIQUE(`company_id`,`format`)
+);
+--> statement-breakpoint
+ALTER TABLE `jobs` ADD `external_ref` varchar(255);--> statement-breakpoint
+ALTER TABLE `jobs` ADD CONSTRAINT `jobs_company_id_external_ref_unique` UNIQUE(`company_id`,`external_ref`);--> statement-breakpoint
+ALTER TABLE `job_import_mappings` ADD CONSTRAINT `job_import_mappings_company_id_companies_id_fk` FOREIGN KEY (`company_id`) REFERENCES `companies`(`id`) ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE `job_import_mappings` ADD CONSTRAINT `job_import_mappings_updated_by_users_id_fk` FOREIGN KEY (`updated_by`) REFERENCES `users`(`id`) ON DELETE set null ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE `audit_events` MODIFY COLUMN `type` enum('auth.registered','auth.login_succeeded','auth.login_failed','auth.logout','auth.session_revoked','auth.password_reset_requested','auth.password_changed','company.member_role_changed','company.api_key_created','company.api_key_revoked','company.applicants_exported','admin.user_role_changed','admin.user_suspended','admin.user_restored','admin.user_sessions_revoked','admin.login_unlocked','admin.audit_exported') NOT NULL;
\ No newline at end of file
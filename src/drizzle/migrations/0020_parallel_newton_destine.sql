@@ -0,0 +1,34 @@
+CREATE TABLE `two_factor_challenges` (
+	`id` varchar(64) NOT NULL,
+	`user_id` int NOT NULL,
+	`attempts` int NOT NULL DEFAULT 0,
+	`expires_at` timestamp NOT NULL,
+	`created_at` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `two_factor_challenges_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+CREATE TABLE `two_factor_recovery_codes` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`user_id` int NOT NULL,
+	`code_hash` varchar(64) NOT NULL,
+	`used_at` timestamp,
+	`created_at` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `two_factor_recovery_codes_id` PRIMARY KEY(`id`),
+	CONSTRAINT `two_factor_recovery_codes_user_id_code_hash_unique` UNIQUE(`user_id`,`code_hash`)
+);
+--> statement-breakpoint
+CREATE TABLE `user_two_factor` (
+	`user_id` int NOT NULL,
+	`secret` text NOT NULL,
+	`last_used_step` int,
+	`enabled_at` timestamp,
+	`created_at` timestamp NOT NULL DEFAULT (now()),
+	`updated_at` timestamp NOT NULL DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `user_two_factor_user_id` PRIMARY KEY(`user_id`)
+);
+--> statement-breakpoint
+ALTER TABLE `audit_events` MODIFY COLUMN `type` enum('auth.registered','auth.login_succeeded','auth.login_failed','auth.logout','auth.session_revoked','auth.password_reset_requested','auth.password_changed','auth.two_factor_enabled','auth.two_factor_disabled','auth.two_factor_failed','auth.recovery_code_used','auth.recovery_codes_regenerated','company.member_role_changed','company.api_key_created','company.api_key_revoked','company.applicants_exported','admin.user_role_changed','admin.user_suspended','admin.user_restored','admin.user_sessions_revoked','admin.login_unlocked','admin.audit_exported') NOT NULL;--> statement-breakpoint
+ALTER TABLE `two_factor_challenges` ADD CONSTRAINT `two_factor_challenges_user_id_users_id_fk` FOREIGN KEY (`user_id`) REFERENCES `users`(`id`) ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE `two_factor_recovery_codes` ADD CONSTRAINT `two_factor_recovery_codes_user_id_users_id_fk` FOREIGN KEY (`user_id`) REFERENCES `users`(`id`) ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE `user_two_factor` ADD CONSTRAINT `user_two_factor_user_id_users_id_fk` FOREIGN KEY (`user_id`) REFERENCES `users`(`id`) ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX `two_factor_challenges_user_id_idx` ON `two_factor_challenges` (`user_id`);
\ No newline at end of file
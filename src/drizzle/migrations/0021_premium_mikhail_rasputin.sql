@@ -0,0 +1,15 @@
+CREATE TABLE `user_accounts` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`user_id` int NOT NULL,
+	`provider` varchar(50) NOT NULL,
+	`provider_account_id` varchar(255) NOT NULL,
+	`email` varchar(255),
+	`last_used_at` timestamp,
+	`created_at` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `user_accounts_id` PRIMARY KEY(`id`),
+	CONSTRAINT `user_accounts_provider_account_unique` UNIQUE(`provider`,`provider_account_id`),
+	CONSTRAINT `user_accounts_user_id_provider_unique` UNIQUE(`user_id`,`provider`)
+);
+--> statement-breakpoint
+ALTER TABLE `audit_events` MODIFY COLUMN `type` enum('auth.registered','auth.login_succeeded','auth.login_failed','auth.logout','auth.session_revoked','auth.password_reset_requested','auth.password_changed','auth.two_factor_enabled','auth.two_factor_disabled','auth.two_factor_failed','auth.recovery_code_used','auth.recovery_codes_regenerated','auth.account_linked','auth.account_unlinked','company.member_role_changed','company.api_key_created','company.api_key_revoked','company.applicants_exported','admin.user_role_changed','admin.user_suspended','admin.user_restored','admin.user_sessions_revoked','admin.login_unlocked','admin.audit_exported') NOT NULL;--> statement-breakpoint
+ALTER TABLE `user_accounts` ADD CONSTRAINT `user_accounts_user_id_users_id_fk` FOREIGN KEY (`user_id`) REFERENCES `users`(`id`) ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
@@ -1,4 +1,17 @@
-import { int, mysqlEnum, mysqlTable, text, timestamp, varchar } from "drizzle-orm/mysql-core";
+import { boolean, date, index, int, json, mediumtext, mysqlEnum, mysqlTable, text, timestamp, unique, varchar } from "drizzle-orm/mysql-core";
+import { type ApiKeyScope } from "../features/api/api.constants";
+import { APPLICATION_STATUSES } from "../features/applications/applications.constants";
+import { AUDIT_EVENT_TYPES, type AuditMetadata } from "../features/audit/audit.constants";
+import { INTERVIEW_STATUSES } from "../features/interviews/interviews.constants";
+import { JOB_IMPORT_FORMATS } from "../features/jobImports/jobImports.constants";
+import type { JobImportMapping } from "../features/jobImports/jobImports.schema";
+import { COMPANY_MEMBER_ROLES, COMPANY_SIZES } from "../features/companies/companies.constants";
+import { CONVERSATION_PARTIES } from "../features/messaging/messaging.constants";
+import { NOTIFICATION_CHANNELS, NOTIFICATION_TYPES } from "../features/notifications/notifications.constants";
+import { JOB_ALERT_FREQUENCIES } from "../features/savedSearches/savedSearches.constants";
+import type { SavedSearchParams } from "../features/savedSearches/savedSearches.schema";
+import { EMPLOYMENT_TYPES, EXPERIENCE_LEVELS, JOB_STATUSES, WorkMode, WORK_MODES } from "../features/jobs/jobs.constants";
+import { PROFILE_LINK_TYPES, SKILL_PROFICIENCIES } from "../features/profiles/profiles.constants";
 
 export const users = mysqlTable("users",{
   id          : int('id').autoincrement().primaryKey(),
@@ -8,6 +21,7 @@ export const users = mysqlTable("users",{
   password    : text('password').notNull(),
   phoneNumber : varchar("phone_number" , { length : 255}),
   role        : mysqlEnum("role" , ["admin" ,"applicant" , "employer" ]).default("applicant"),
+  emailVerifiedAt : timestamp("email_verified_at"),
   deletedAt   : timestamp("deleted_at"),
   createdAt   : timestamp("created_at").defaultNow().notNull(),
   updatedAt   : timestamp("updated_at").defaultNow().onUpdateNow().notNull(),
@@ -21,6 +35,495 @@ export const sessions = mysqlTable("sessions" , {
   expiresAt : timestamp('expires_at') ,
   createdAt : timestamp("created_at").defaultNow().notNull() ,
   updatedAt : timestamp("updated_at").defaultNow().onUpdateNow().notNull() ,
-})  
+})
+
+export const emailVerificationTokens = mysqlTable("email_verification_tokens" , {
+  id        : int('id').autoincrement().primaryKey(),
+  userId    : int('user_id').notNull().references(()=> users.id , {onDelete : 'cascade'}),
+  tokenHash : varchar('token_hash' , {length : 255}).notNull().unique(),
+  expiresAt : timestamp('expires_at').notNull(),
+  createdAt : timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("email_verification_tokens_user_id_idx").on(table.userId),
+])
+
+//* Local stand-in for an SMTP server: every outgoing email is written here and can be previewed at /dev/emails.
+export const emailOutbox = mysqlTable("email_outbox" , {
+  id          : int('id').autoincrement().primaryKey(),
+  recipient   : varchar('recipient' , {length : 255}).notNull(),
+  subject     : varchar('subject' , {length : 255}).notNull(),
+  html        : text('html').notNull(),
+  text        : text('text').notNull(),
+  headers     : json('headers').$type<Record<string, string>>(),
+  attachments : json('attachments').$type<{ filename: string; contentType: string; content: string }[]>(),
+  sentAt      : timestamp('sent_at'),
+  createdAt   : timestamp("created_at").defaultNow().notNull(),
+})
+
+export const passwordResetTokens = mysqlTable("password_reset_tokens" , {
+  id        : int('id').autoincrement().primaryKey(),
+  userId    : int('user_id').notNull().references(()=> users.id , {onDelete : 'cascade'}),
+  tokenHash : varchar('token_hash' , {length : 255}).notNull().unique(),
+  expiresAt : timestamp('expires_at').notNull(),
+  createdAt : timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("password_reset_tokens_user_id_idx").on(table.userId),
+])
+
+//* One row per user who started 2FA enrolment; enabledAt stays null until the first code is confirmed.
+//* secret is encrypted (lib/encryption), lastUsedStep is the TOTP time step of the last accepted code so
+//* the same code can't be used twice.
+export const userTwoFactor = mysqlTable("user_two_factor" , {
+  userId       : int('user_id').primaryKey().references(()=> users.id , {onDelete : 'cascade'}),
+  secret       : text('secret').notNull(),
+  lastUsedStep : int('last_used_step'),
+  enabledAt    : timestamp('enabled_at'),
+  createdAt    : timestamp("created_at").defaultNow().notNull(),
+  updatedAt    : timestamp("updated_at").defaultNow().onUpdateNow().notNull(),
+})
+
+//* One-time fallback codes for a lost authenticator; only their SHA-256 hash is stored.
+export const twoFactorRecoveryCodes = mysqlTable("two_factor_recovery_codes" , {
+  id        : int('id').autoincrement().primaryKey(),
+  userId    : int('user_id').notNull().references(()=> users.id , {onDelete : 'cascade'}),
+  codeHash  : varchar('code_hash' , {length : 64}).notNull(),
+  usedAt    : timestamp('used_at'),
+  createdAt : timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  unique("two_factor_recovery_codes_user_id_code_hash_unique").on(table.userId , table.codeHash),
+])
+
+//* The pending half of a 2FA login: the password was right, the code is still missing. The cookie holds
+//* the random token and id its hash, like sessions; a full session is only created once the code checks out.
+export const twoFactorChallenges = mysqlTable("two_factor_challenges" , {
+  id        : varchar('id' , {length : 64}).primaryKey(),
+  userId    : int('user_id').notNull().references(()=> users.id , {onDelete : 'cascade'}),
+  attempts  : int('attempts').notNull().default(0),
+  expiresAt : timestamp('expires_at').notNull(),
+  createdAt : timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("two_factor_challenges_user_id_idx").on(table.userId),
+])
+
+//* External identities (OpenID Connect) that can sign in as the user. providerAccountId is the provider's
+//* "sub" claim, the only stable identifier; email is what the provider reported when the link was made.
+export const userAccounts = mysqlTable("user_accounts" , {
+  id                : int('id').autoincrement().primaryKey(),
+  userId            : int('user_id').notNull().references(()=> users.id , {onDelete : 'cascade'}),
+  provider          : varchar('provider' , {length : 50}).notNull(),
+  providerAccountId : varchar('provider_account_id' , {length : 255}).notNull(),
+  email             : varchar('email' , {length : 255}),
+  lastUsedAt        : timestamp('last_used_at'),
+  createdAt         : timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  unique("user_accounts_provider_account_unique").on(table.provider , table.providerAccountId),
+  unique("user_accounts_user_id_provider_unique").on(table.userId , table.provider),
+])
+
+//* Backing table for the MySQL rate-limit store (src/lib/rateLimit). Keys look like "login:account:<email>".
+export const rateLimits = mysqlTable("rate_limits" , {
+  key            : varchar('key' , {length : 255}).primaryKey(),
+  count          : int('count').notNull().default(0),
+  windowStartedAt: timestamp('window_started_at').notNull(),
+  lockedUntil    : timestamp('locked_until'),
+  updatedAt      : timestamp("updated_at").defaultNow().onUpdateNow().notNull(),
+}, (table) => [
+  index("rate_limits_locked_until_idx").on(table.lockedUntil),
+])
+
+export const companies = mysqlTable("companies" , {
+  id          : int('id').autoincrement().primaryKey(),
+  name        : varchar('name' , {length : 255}).notNull(),
+  slug        : varchar('slug' , {length : 100}).notNull().unique(),
+  logoUrl     : varchar('logo_url' , {length : 2048}),
+  website     : varchar('website' , {length : 2048}),
+  size        : mysqlEnum('size' , COMPANY_SIZES),
+  industry    : varchar('industry' , {length : 100}),
+  description : text('description'),
+  createdAt   : timestamp("created_at").defaultNow().notNull(),
+  updatedAt   : timestamp("updated_at").defaultNow().onUpdateNow().notNull(),
+})
+
+//* An employer belongs to at most one company (unique user_id); the role decides what they may do there.
+export const companyMembers = mysqlTable("company_members" , {
+  id        : int('id').autoincrement().primaryKey(),
+  companyId : int('company_id').notNull().references(()=> companies.id , {onDelete : 'cascade'}),
+  userId    : int('user_id').notNull().references(()=> users.id , {onDelete : 'cascade'}).unique(),
+  role      : mysqlEnum('role' , COMPANY_MEMBER_ROLES).notNull(),
+  createdAt : timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("company_members_company_id_idx").on(table.companyId),
+])
+
+//* Keys for the public REST API (/api/v1). They act for the company with the permissions of their scopes;
+//* only the SHA-256 hash is stored, keyPrefix is the visible start of the key so owners can tell them apart.
+export const apiKeys = mysqlTable("api_keys" , {
+  id                 : int('id').autoincrement().primaryKey(),
+  companyId          : int('company_id').notNull().references(()=> companies.id , {onDelete : 'cascade'}),
+  createdBy          : int('created_by').notNull().references(()=> users.id , {onDelete : 'cascade'}),
+  name               : varchar('name' , {length : 100}).notNull(),
+  keyPrefix          : varchar('key_prefix' , {length : 16}).notNull(),
+  keyHash            : varchar('key_hash' , {length : 64}).notNull().unique(),
+  scopes             : json('scopes').$type<ApiKeyScope[]>().notNull(),
+  rateLimitPerMinute : int('rate_limit_per_minute').notNull(),
+  lastUsedAt         : timestamp('last_used_at'),
+  revokedAt          : timestamp('revoked_at'),
+  createdAt          : timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("api_keys_company_id_idx").on(table.companyId),
+])
+
+export const companyInvites = mysqlTable("company_invites" , {
+  id         : int('id').autoincrement().primaryKey(),
+  companyId  : int('company_id').notNull().references(()=> companies.id , {onDelete : 'cascade'}),
+  email      : varchar('email' , {length : 255}).notNull(),
+  role       : mysqlEnum('role' , COMPANY_MEMBER_ROLES).notNull(),
+  tokenHash  : varchar('token_hash' , {length : 255}).notNull().unique(),
+  invitedBy  : int('invited_by').references(()=> users.id , {onDelete : 'set null'}),
+  expiresAt  : timestamp('expires_at').notNull(),
+  acceptedAt : timestamp('accepted_at'),
+  createdAt  : timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("company_invites_company_id_idx").on(table.companyId),
+])
+
+export const jobs = mysqlTable("jobs" , {
+  id              : int('id').autoincrement().primaryKey(),
+  //* companyId owns the job; employerId is the member who posted it.
+  companyId       : int('company_id').notNull().references(()=> companies.id , {onDelete : 'cascade'}),
+  employerId      : int('employer_id').notNull().references(()=> users.id , {onDelete : 'cascade'}),
+  title           : varchar('title' , {length : 255}).notNull(),
+  description     : text('description').notNull(),
+  employmentType  : mysqlEnum('employment_type' , EMPLOYMENT_TYPES).notNull(),
+  workMode        : mysqlEnum('work_mode' , WORK_MODES).notNull(),
+  location        : varchar('location' , {length : 255}),
+  salaryMin       : int('salary_min'),
+  salaryMax       : int('salary_max'),
+  salaryCurrency  : varchar('salary_currency' , {length : 3}).notNull().default("USD"),
+  experienceLevel : mysqlEnum('experience_level' , EXPERIENCE_LEVELS).notNull(),
+  skills          : json('skills').$type<string[]>().notNull(),
+  status          : mysqlEnum('status' , JOB_STATUSES).notNull().default("draft"),
+  //* The ID a bulk import feed uses for this job; re-importing the feed updates the job by it.
+  externalRef     : varchar('external_ref' , {length : 255}),
+  publishedAt     : timestamp('published_at'),
+  closedAt        : timestamp('closed_at'),
+  deletedAt       : timestamp("deleted_at"),
+  createdAt       : timestamp("created_at").defaultNow().notNull(),
+  updatedAt       : timestamp("updated_at").defaultNow().onUpdateNow().notNull(),
+}, (table) => [
+  index("jobs_employer_id_idx").on(table.employerId),
+  index("jobs_company_id_idx").on(table.companyId),
+  index("jobs_status_published_at_idx").on(table.status , table.publishedAt),
+  unique("jobs_company_id_external_ref_unique").on(table.companyId , table.externalRef),
+])
+
+//* The column mapping a company last imported with, per file format, so the next import of the same feed
+//* is mapped already.
+export const jobImportMappings = mysqlTable("job_import_mappings" , {
+  id        : int('id').autoincrement().primaryKey(),
+  companyId : int('company_id').notNull().references(()=> companies.id , {onDelete : 'cascade'}),
+  format    : mysqlEnum('format' , JOB_IMPORT_FORMATS).notNull(),
+  mapping   : json('mapping').$type<JobImportMapping>().notNull(),
+  updatedBy : int('updated_by').references(()=> users.id , {onDelete : 'set null'}),
+  createdAt : timestamp("created_at").defaultNow().notNull(),
+  updatedAt : timestamp("updated_at").defaultNow().onUpdateNow().notNull(),
+}, (table) => [
+  unique("job_import_mappings_company_id_format_unique").on(table.companyId , table.format),
+])
+
+//* Uploaded resume files. The bytes live in file storage (src/lib/storage) under storageKey;
+//* extractedText is the plain text pulled out at upload time for candidate search.
+export const resumes = mysqlTable("resumes" , {
+  id            : int('id').autoincrement().primaryKey(),
+  userId        : int('user_id').notNull().references(()=> users.id , {onDelete : 'cascade'}),
+  storageKey    : varchar('storage_key' , {length : 512}).notNull().unique(),
+  originalName  : varchar('original_name' , {length : 255}).notNull(),
+  mimeType      : varchar('mime_type' , {length : 255}).notNull(),
+  size          : int('size').notNull(),
+  extractedText : mediumtext('extracted_text'),
+  deletedAt     : timestamp("deleted_at"),
+  createdAt     : timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("resumes_user_id_idx").on(table.userId),
+])
+
+export const applications = mysqlTable("applications" , {
+  id          : int('id').autoincrement().primaryKey(),
+  jobId       : int('job_id').notNull().references(()=> jobs.id , {onDelete : 'cascade'}),
+  applicantId : int('applicant_id').notNull().references(()=> users.id , {onDelete : 'cascade'}),
+  coverLetter : text('cover_letter'),
+  resumeUrl   : varchar('resume_url' , {length : 2048}),
+  resumeId    : int('resume_id').references(()=> resumes.id , {onDelete : 'set null'}),
+  status      : mysqlEnum('status' , APPLICATION_STATUSES).notNull().default("applied"),
+  createdAt   : timestamp("created_at").defaultNow().notNull(),
+  updatedAt   : timestamp("updated_at").defaultNow().onUpdateNow().notNull(),
+}, (table) => [
+  // one application per applicant per job
+  unique("applications_job_id_applicant_id_unique").on(table.jobId , table.applicantId),
+  index("applications_applicant_id_idx").on(table.applicantId),
+])
+
+//* Append-only log of every status change, including the initial "applied".
+export const applicationStatusHistory = mysqlTable("application_status_history" , {
+  id            : int('id').autoincrement().primaryKey(),
+  applicationId : int('application_id').notNull().references(()=> applications.id , {onDelete : 'cascade'}),
+  fromStatus    : mysqlEnum('from_status' , APPLICATION_STATUSES),
+  toStatus      : mysqlEnum('to_status' , APPLICATION_STATUSES).notNull(),
+  changedBy     : int('changed_by').references(()=> users.id , {onDelete : 'set null'}),
+  note          : text('note'),
+  createdAt     : timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("application_status_history_application_id_idx").on(table.applicationId),
+])
+
+//* One row per applicant with the single-valued profile fields; lists live in the profile_* tables below.
+export const applicantProfiles = mysqlTable("applicant_profiles" , {
+  userId             : int('user_id').primaryKey().references(()=> users.id , {onDelete : 'cascade'}),
+  headline           : varchar('headline' , {length : 255}),
+  summary            : text('summary'),
+  desiredRoles       : json('desired_roles').$type<string[]>().notNull(),
+  salaryExpectation  : int('salary_expectation'),
+  salaryCurrency     : varchar('salary_currency' , {length : 3}).notNull().default("USD"),
+  preferredLocations : json('preferred_locations').$type<string[]>().notNull(),
+  preferredWorkModes : json('preferred_work_modes').$type<WorkMode[]>().notNull(),
+  openToRelocation   : boolean('open_to_relocation').notNull().default(false),
+  //* Private by default; when public the profile can be shared at /u/<username>.
+  isPublic           : boolean('is_public').notNull().default(false),
+  createdAt          : timestamp("created_at").defaultNow().notNull(),
+  updatedAt          : timestamp("updated_at").defaultNow().onUpdateNow().notNull(),
+})
+
+//* Dates are stored as the first day of the month the applicant picked.
+export const profileExperiences = mysqlTable("profile_experiences" , {
+  id          : int('id').autoincrement().primaryKey(),
+  userId      : int('user_id').notNull().references(()=> users.id , {onDelete : 'cascade'}),
+  title       : varchar('title' , {length : 255}).notNull(),
+  company     : varchar('company' , {length : 255}).notNull(),
+  location    : varchar('location' , {length : 255}),
+  startDate   : date('start_date' , {mode : 'string'}).notNull(),
+  endDate     : date('end_date' , {mode : 'string'}),
+  description : text('description'),
+}, (table) => [
+  index("profile_experiences_user_id_idx").on(table.userId),
+])
+
+export const profileEducations = mysqlTable("profile_educations" , {
+  id           : int('id').autoincrement().primaryKey(),
+  userId       : int('user_id').notNull().references(()=> users.id , {onDelete : 'cascade'}),
+  school       : varchar('school' , {length : 255}).notNull(),
+  degree       : varchar('degree' , {length : 255}),
+  fieldOfStudy : varchar('field_of_study' , {length : 255}),
+  startDate    : date('start_date' , {mode : 'string'}).notNull(),
+  endDate      : date('end_date' , {mode : 'string'}),
+}, (table) => [
+  index("profile_educations_user_id_idx").on(table.userId),
+])
+
+export const profileSkills = mysqlTable("profile_skills" , {
+  id          : int('id').autoincrement().primaryKey(),
+  userId      : int('user_id').notNull().references(()=> users.id , {onDelete : 'cascade'}),
+  name        : varchar('name' , {length : 50}).notNull(),
+  proficiency : mysqlEnum('proficiency' , SKILL_PROFICIENCIES).notNull(),
+}, (table) => [
+  unique("profile_skills_user_id_name_unique").on(table.userId , table.name),
+])
+
+export const profileLinks = mysqlTable("profile_links" , {
+  id     : int('id').autoincrement().primaryKey(),
+  userId : int('user_id').notNull().references(()=> users.id , {onDelete : 'cascade'}),
+  type   : mysqlEnum('type' , PROFILE_LINK_TYPES).notNull(),
+  url    : varchar('url' , {length : 2048}).notNull(),
+}, (table) => [
+  index("profile_links_user_id_idx").on(table.userId),
+])
+
+export const savedJobs = mysqlTable("saved_jobs" , {
+  id        : int('id').autoincrement().primaryKey(),
+  userId    : int('user_id').notNull().references(()=> users.id , {onDelete : 'cascade'}),
+  jobId     : int('job_id').notNull().references(()=> jobs.id , {onDelete : 'cascade'}),
+  createdAt : timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  unique("saved_jobs_user_id_job_id_unique").on(table.userId , table.jobId),
+])
+
+//* params holds the listing filters (same shape as the home page query string, minus paging and sorting).
+export const savedSearches = mysqlTable("saved_searches" , {
+  id         : int('id').autoincrement().primaryKey(),
+  userId     : int('user_id').notNull().references(()=> users.id , {onDelete : 'cascade'}),
+  name       : varchar('name' , {length : 100}).notNull(),
+  params     : json('params').$type<SavedSearchParams>().notNull(),
+  frequency  : mysqlEnum('frequency' , JOB_ALERT_FREQUENCIES).notNull().default("weekly"),
+  lastSentAt : timestamp('last_sent_at'),
+  createdAt  : timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("saved_searches_user_id_idx").on(table.userId),
+  index("saved_searches_frequency_last_sent_at_idx").on(table.frequency , table.lastSentAt),
+])
+
+//* One row per digest email; the raw token only ever lives in that email's unsubscribe link.
+export const savedSearchUnsubscribeTokens = mysqlTable("saved_search_unsubscribe_tokens" , {
+  id            : int('id').autoincrement().primaryKey(),
+  savedSearchId : int('saved_search_id').notNull().references(()=> savedSearches.id , {onDelete : 'cascade'}),
+  tokenHash     : varchar('token_hash' , {length : 255}).notNull().unique(),
+  createdAt     : timestamp("created_at").defaultNow().notNull(),
+})
+
+//* Every job ever sent to a user in a digest. The unique index is what guarantees a job is never sent twice,
+//* even when two saved searches match it or two scheduler runs overlap.
+export const jobAlertDeliveries = mysqlTable("job_alert_deliveries" , {
+  id            : int('id').autoincrement().primaryKey(),
+  userId        : int('user_id').notNull().references(()=> users.id , {onDelete : 'cascade'}),
+  jobId         : int('job_id').notNull().references(()=> jobs.id , {onDelete : 'cascade'}),
+  savedSearchId : int('saved_search_id').references(()=> savedSearches.id , {onDelete : 'set null'}),
+  createdAt     : timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  unique("job_alert_deliveries_user_id_job_id_unique").on(table.userId , table.jobId),
+])
+
+//* deliverByEmail marks rows whose type the user routes to the daily email digest; emailedAt is set
+//* once a digest has claimed them.
+export const notifications = mysqlTable("notifications" , {
+  id             : int('id').autoincrement().primaryKey(),
+  userId         : int('user_id').notNull().references(()=> users.id , {onDelete : 'cascade'}),
+  type           : mysqlEnum('type' , NOTIFICATION_TYPES).notNull(),
+  title          : varchar('title' , {length : 255}).notNull(),
+  body           : text('body'),
+  url            : varchar('url' , {length : 2048}),
+  deliverByEmail : boolean('deliver_by_email').notNull().default(false),
+  emailedAt      : timestamp('emailed_at'),
+  readAt         : timestamp('read_at'),
+  createdAt      : timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("notifications_user_id_created_at_idx").on(table.userId , table.createdAt),
+  index("notifications_deliver_by_email_emailed_at_idx").on(table.deliverByEmail , table.emailedAt),
+])
+
+//* Only choices that differ from DEFAULT_NOTIFICATION_CHANNEL need a row.
+export const notificationPreferences = mysqlTable("notification_preferences" , {
+  id        : int('id').autoincrement().primaryKey(),
+  userId    : int('user_id').notNull().references(()=> users.id , {onDelete : 'cascade'}),
+  type      : mysqlEnum('type' , NOTIFICATION_TYPES).notNull(),
+  channel   : mysqlEnum('channel' , NOTIFICATION_CHANNELS).notNull(),
+  updatedAt : timestamp("updated_at").defaultNow().onUpdateNow().notNull(),
+}, (table) => [
+  unique("notification_preferences_user_id_type_unique").on(table.userId , table.type),
+])
+
+//* One thread per application, created with the first message. archivedAt is set when the application
+//* closes (hired, rejected, withdrawn); archived threads stay readable but accept no new messages.
+export const conversations = mysqlTable("conversations" , {
+  id            : int('id').autoincrement().primaryKey(),
+  applicationId : int('application_id').notNull().unique().references(()=> applications.id , {onDelete : 'cascade'}),
+  lastMessageAt : timestamp('last_message_at'),
+  archivedAt    : timestamp('archived_at'),
+  createdAt     : timestamp("created_at").defaultNow().notNull(),
+})
+
+//* senderParty is stored so a thread still reads correctly after a recruiter leaves the company.
+export const messages = mysqlTable("messages" , {
+  id             : int('id').autoincrement().primaryKey(),
+  conversationId : int('conversation_id').notNull().references(()=> conversations.id , {onDelete : 'cascade'}),
+  senderId       : int('sender_id').references(()=> users.id , {onDelete : 'set null'}),
+  senderParty    : mysqlEnum('sender_party' , CONVERSATION_PARTIES).notNull(),
+  body           : text('body').notNull(),
+  createdAt      : timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("messages_conversation_id_id_idx").on(table.conversationId , table.id),
+])
+
+export const messageAttachments = mysqlTable("message_attachments" , {
+  id           : int('id').autoincrement().primaryKey(),
+  messageId    : int('message_id').notNull().references(()=> messages.id , {onDelete : 'cascade'}),
+  storageKey   : varchar('storage_key' , {length : 512}).notNull().unique(),
+  originalName : varchar('original_name' , {length : 255}).notNull(),
+  mimeType     : varchar('mime_type' , {length : 255}).notNull(),
+  size         : int('size').notNull(),
+  createdAt    : timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("message_attachments_message_id_idx").on(table.messageId),
+])
+
+//* Read position per reader. Message ids only grow within a thread, so "read up to id N" is enough
+//* for both unread counts and the other side's "Seen" receipt.
+export const conversationReads = mysqlTable("conversation_reads" , {
+  id                : int('id').autoincrement().primaryKey(),
+  conversationId    : int('conversation_id').notNull().references(()=> conversations.id , {onDelete : 'cascade'}),
+  userId            : int('user_id').notNull().references(()=> users.id , {onDelete : 'cascade'}),
+  lastReadMessageId : int('last_read_message_id').notNull(),
+  updatedAt         : timestamp("updated_at").defaultNow().onUpdateNow().notNull(),
+}, (table) => [
+  unique("conversation_reads_conversation_id_user_id_unique").on(table.conversationId , table.userId),
+])
+
+//* Blocks are between an applicant and a company (not a single thread), so a blocked applicant can't
+//* reach the same team again through another application. Each side can hold its own block.
+export const messagingBlocks = mysqlTable("messaging_blocks" , {
+  id          : int('id').autoincrement().primaryKey(),
+  applicantId : int('applicant_id').notNull().references(()=> users.id , {onDelete : 'cascade'}),
+  companyId   : int('company_id').notNull().references(()=> companies.id , {onDelete : 'cascade'}),
+  blockedBy   : mysqlEnum('blocked_by' , CONVERSATION_PARTIES).notNull(),
+  createdBy   : int('created_by').references(()=> users.id , {onDelete : 'set null'}),
+  createdAt   : timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  unique("messaging_blocks_applicant_id_company_id_blocked_by_unique").on(table.applicantId , table.companyId , table.blockedBy),
+])
+
+//* Times are stored in UTC; timeZone is the employer's zone the slots were proposed in, used for display
+//* and emails. sequence is the iCalendar SEQUENCE: bumped on every change so calendars replace the old invite.
+export const interviews = mysqlTable("interviews" , {
+  id              : int('id').autoincrement().primaryKey(),
+  applicationId   : int('application_id').notNull().references(()=> applications.id , {onDelete : 'cascade'}),
+  status          : mysqlEnum('status' , INTERVIEW_STATUSES).notNull().default("proposed"),
+  timeZone        : varchar('time_zone' , {length : 64}).notNull(),
+  durationMinutes : int('duration_minutes').notNull(),
+  location        : varchar('location' , {length : 255}),
+  meetingUrl      : varchar('meeting_url' , {length : 2048}),
+  startsAt        : timestamp('starts_at'),
+  endsAt          : timestamp('ends_at'),
+  sequence        : int('sequence').notNull().default(0),
+  feedback        : text('feedback'),
+  createdBy       : int('created_by').references(()=> users.id , {onDelete : 'set null'}),
+  cancelledAt     : timestamp('cancelled_at'),
+  createdAt       : timestamp("created_at").defaultNow().notNull(),
+  updatedAt       : timestamp("updated_at").defaultNow().onUpdateNow().notNull(),
+}, (table) => [
+  index("interviews_application_id_idx").on(table.applicationId),
+  index("interviews_status_starts_at_idx").on(table.status , table.startsAt),
+])
+
+//* The times offered to the candidate for the current round; replaced when the interview is rescheduled.
+export const interviewSlots = mysqlTable("interview_slots" , {
+  id          : int('id').autoincrement().primaryKey(),
+  interviewId : int('interview_id').notNull().references(()=> interviews.id , {onDelete : 'cascade'}),
+  startsAt    : timestamp('starts_at').notNull(),
+  endsAt      : timestamp('ends_at').notNull(),
+}, (table) => [
+  unique("interview_slots_interview_id_starts_at_unique").on(table.interviewId , table.startsAt),
+])
+
+export const interviewInterviewers = mysqlTable("interview_interviewers" , {
+  id          : int('id').autoincrement().primaryKey(),
+  interviewId : int('interview_id').notNull().references(()=> interviews.id , {onDelete : 'cascade'}),
+  userId      : int('user_id').notNull().references(()=> users.id , {onDelete : 'cascade'}),
+}, (table) => [
+  unique("interview_interviewers_interview_id_user_id_unique").on(table.interviewId , table.userId),
+  index("interview_interviewers_user_id_idx").on(table.userId),
+])
 
- 
\ No newline at end of file
+//* Append-only security trail: rows are only ever inserted (recordAuditEvent) and never updated or deleted.
+//* Actor and target are plain ids rather than foreign keys, so the trail outlives the users it mentions.
+export const auditEvents = mysqlTable("audit_events" , {
+  id           : int('id').autoincrement().primaryKey(),
+  type         : mysqlEnum('type' , AUDIT_EVENT_TYPES).notNull(),
+  actorId      : int('actor_id'),
+  targetUserId : int('target_user_id'),
+  ipAddress    : varchar('ip_address' , {length : 255}).notNull(),
+  userAgent    : text('user_agent').notNull(),
+  metadata     : json('metadata').$type<AuditMetadata>().notNull(),
+  createdAt    : timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("audit_events_type_created_at_idx").on(table.type , table.createdAt),
+  index("audit_events_actor_id_idx").on(table.actorId),
+  index("audit_events_target_user_id_idx").on(table.targetUserId),
+  index("audit_events_created_at_idx").on(table.createdAt),
+])
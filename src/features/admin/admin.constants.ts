@@ -0,0 +1,24 @@
+import { UserRole } from "@/features/auth/auth.constants";
+
+//* "suspended" is users.deletedAt being set: the account can't sign in and disappears from every listing,
+//* but the row (and its email/username) is kept so an admin can restore it.
+export const USER_STATUSES = ["active", "unverified", "suspended"] as const;
+
+export type UserStatus = (typeof USER_STATUSES)[number];
+
+export const USER_STATUS_LABELS: Record<UserStatus, string> = {
+  active: "Active",
+  unverified: "Unverified",
+  suspended: "Suspended",
+};
+
+export const getUserStatus = (user: { emailVerifiedAt: Date | null; deletedAt: Date | null }): UserStatus => {
+  if (user.deletedAt) return "suspended";
+  return user.emailVerifiedAt ? "active" : "unverified";
+};
+
+export const USER_ROLE_LABELS: Record<UserRole, string> = {
+  admin: "Admin",
+  applicant: "Applicant",
+  employer: "Employer",
+};
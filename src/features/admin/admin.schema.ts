@@ -0,0 +1,28 @@
+import { USER_ROLES } from "@/features/auth/auth.constants";
+import { z } from "zod";
+import { USER_STATUSES } from "./admin.constants";
+
+//* Like the job search, filters live in the URL and bad values are dropped instead of failing the page.
+export const adminUserSearchSchema = z.object({
+  q: z.string().trim().max(200).optional().catch(undefined),
+  role: z.enum(USER_ROLES).optional().catch(undefined),
+  status: z.enum(USER_STATUSES).optional().catch(undefined),
+  page: z.coerce.number().int().positive().max(10000).optional().catch(undefined),
+});
+
+export type AdminUserSearchParams = z.infer<typeof adminUserSearchSchema>;
+
+export const parseAdminUserSearchParams = (raw: Record<string, string | string[] | undefined>) => {
+  const entries = Object.entries(raw)
+    .map(([key, value]) => [key, Array.isArray(value) ? value[0] : value] as const)
+    .filter(([, value]) => value !== undefined && value !== "");
+
+  return adminUserSearchSchema.parse(Object.fromEntries(entries));
+};
+
+export const updateUserRoleSchema = z.object({
+  userId: z.number().int().positive(),
+  role: z.enum(USER_ROLES, { error: "Please choose a valid role" }),
+});
+
+export type UpdateUserRoleInput = z.input<typeof updateUserRoleSchema>;
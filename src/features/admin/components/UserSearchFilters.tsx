@@ -0,0 +1,59 @@
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Search } from "lucide-react";
+import Link from "next/link";
+import { USER_ROLE_LABELS, USER_STATUS_LABELS } from "../admin.constants";
+import { AdminUserSearchParams } from "../admin.schema";
+
+//* Radix Select can't hold an empty value, so "any" stands for "no filter"; the search schema drops it.
+const ANY = "any";
+
+//* A plain GET form, like the job search: every filtered view is a URL an admin can share.
+const UserSearchFilters = ({ params }: { params: AdminUserSearchParams }) => {
+  return (
+    <form method="get" action="/admin/users" className="flex flex-col gap-2 sm:flex-row">
+      <div className="relative flex-1">
+        <Search className="absolute left-3 top-2.5 w-4 h-4 text-muted-foreground" />
+        <Input
+          name="q"
+          defaultValue={params.q}
+          placeholder="Name, username or email"
+          className="pl-10"
+          aria-label="Search users"
+        />
+      </div>
+
+      <Select name="role" defaultValue={params.role ?? ANY}>
+        <SelectTrigger className="sm:w-36" aria-label="Role">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={ANY}>All roles</SelectItem>
+          {Object.entries(USER_ROLE_LABELS).map(([value, label]) => (
+            <SelectItem key={value} value={value}>{label}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      <Select name="status" defaultValue={params.status ?? ANY}>
+        <SelectTrigger className="sm:w-36" aria-label="Status">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={ANY}>All statuses</SelectItem>
+          {Object.entries(USER_STATUS_LABELS).map(([value, label]) => (
+            <SelectItem key={value} value={value}>{label}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      <Button type="submit">Search</Button>
+      <Button asChild variant="ghost">
+        <Link href="/admin/users">Reset</Link>
+      </Button>
+    </form>
+  );
+};
+
+export default UserSearchFilters;
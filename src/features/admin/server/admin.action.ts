@@ -0,0 +1,160 @@
+"use server"
+
+import { db } from "@/config/db";
+import { users } from "@/drizzle/schema";
+import { recordAuditEvent } from "@/features/audit/server/audit";
+import { getAuthorizedUser } from "@/features/auth/server/auth.queries";
+import { unlockLogin } from "@/features/auth/server/use-cases/loginThrottle";
+import { invalidateUserSessions } from "@/features/auth/server/use-cases/sessions";
+import { getUserMembership } from "@/features/companies/server/companies.queries";
+import { and, eq, isNotNull, isNull } from "drizzle-orm";
+import { revalidatePath } from "next/cache";
+import { UpdateUserRoleInput, updateUserRoleSchema } from "../admin.schema";
+
+export const unlockLoginAction = async (key: string) => {
+  try {
+    const admin = await getAuthorizedUser("admin");
+
+    if (!admin) return { status: "ERROR", message: "You are not allowed to do that" };
+
+    const isUnlocked = await unlockLogin(key);
+
+    if (!isUnlocked) return { status: "ERROR", message: "Unknown lock" };
+
+    await recordAuditEvent({ type: "admin.login_unlocked", actorId: admin.id, metadata: { lock: key } });
+
+    revalidatePath("/admin/locked-accounts");
+
+    return { status: "SUCCESS", message: "Login unlocked" };
+  } catch (error) {
+    console.error("Unlock Login Error:", error);
+    return { status: "ERROR", message: "Unknown Error Occured ! Please Try Again Later" };
+  }
+};
+
+//* Admins never act on their own account here, so nobody can lock themselves out or demote the last admin by accident.
+export const suspendUserAction = async (userId: number) => {
+  try {
+    const admin = await getAuthorizedUser("admin");
+
+    if (!admin) return { status: "ERROR", message: "You are not allowed to do that" };
+
+    if (userId === admin.id) return { status: "ERROR", message: "You can't suspend your own account" };
+
+    const [result] = await db
+      .update(users)
+      .set({ deletedAt: new Date() })
+      .where(and(eq(users.id, userId), isNull(users.deletedAt)));
+
+    if (result.affectedRows === 0) return { status: "ERROR", message: "User not found or already suspended" };
+
+    // sessions of suspended users are rejected anyway; deleting them just cleans up
+    await invalidateUserSessions(userId);
+
+    await recordAuditEvent({ type: "admin.user_suspended", actorId: admin.id, targetUserId: userId });
+
+    revalidatePath("/admin/users");
+
+    return { status: "SUCCESS", message: "User suspended and signed out everywhere" };
+  } catch (error) {
+    console.error("Suspend User Error:", error);
+    return { status: "ERROR", message: "Unknown Error Occured ! Please Try Again Later" };
+  }
+};
+
+export const restoreUserAction = async (userId: number) => {
+  try {
+    const admin = await getAuthorizedUser("admin");
+
+    if (!admin) return { status: "ERROR", message: "You are not allowed to do that" };
+
+    const [result] = await db
+      .update(users)
+      .set({ deletedAt: null })
+      .where(and(eq(users.id, userId), isNotNull(users.deletedAt)));
+
+    if (result.affectedRows === 0) return { status: "ERROR", message: "User not found or not suspended" };
+
+    await recordAuditEvent({ type: "admin.user_restored", actorId: admin.id, targetUserId: userId });
+
+    revalidatePath("/admin/users");
+
+    return { status: "SUCCESS", message: "User restored" };
+  } catch (error) {
+    console.error("Restore User Error:", error);
+    return { status: "ERROR", message: "Unknown Error Occured ! Please Try Again Later" };
+  }
+};
+
+export const updateUserRoleAction = async (data: UpdateUserRoleInput) => {
+  try {
+    const admin = await getAuthorizedUser("admin");
+
+    if (!admin) return { status: "ERROR", message: "You are not allowed to do that" };
+
+    const { data: validatedData, error } = updateUserRoleSchema.safeParse(data);
+
+    if (error) return { status: "ERROR", message: error.issues[0].message };
+
+    const { userId, role } = validatedData;
+
+    if (userId === admin.id) return { status: "ERROR", message: "You can't change your own role" };
+
+    const [user] = await db.select({ role: users.role }).from(users).where(eq(users.id, userId));
+
+    if (!user) return { status: "ERROR", message: "User not found" };
+
+    if ((user.role ?? "applicant") === role) return { status: "SUCCESS", message: "Role unchanged" };
+
+    // a company member who is no longer an employer would leave a seat nobody can use
+    if (user.role === "employer") {
+      const membership = await getUserMembership(userId);
+
+      if (membership) {
+        return {
+          status: "ERROR",
+          message: `This user is still on the ${membership.company.name} team. They must be removed from it first`,
+        };
+      }
+    }
+
+    await db.update(users).set({ role }).where(eq(users.id, userId));
+
+    await recordAuditEvent({
+      type: "admin.user_role_changed",
+      actorId: admin.id,
+      targetUserId: userId,
+      metadata: { from: user.role ?? "applicant", to: role },
+    });
+
+    revalidatePath("/admin/users");
+
+    return { status: "SUCCESS", message: "Role updated" };
+  } catch (error) {
+    console.error("Update User Role Error:", error);
+    return { status: "ERROR", message: "Unknown Error Occured ! Please Try Again Later" };
+  }
+};
+
+export const forceLogoutUserAction = async (userId: number) => {
+  try {
+    const admin = await getAuthorizedUser("admin");
+
+    if (!admin) return { status: "ERROR", message: "You are not allowed to do that" };
+
+    if (userId === admin.id) {
+      return { status: "ERROR", message: "Manage your own devices from the Active Sessions page" };
+    }
+
+    await invalidateUserSessions(userId);
+
+    await recordAuditEvent({ type: "admin.user_sessions_revoked", actorId: admin.id, targetUserId: userId });
+
+    revalidatePath("/admin/users");
+
+    return { status: "SUCCESS", message: "User signed out of every device" };
+  } catch (error) {
+    console.error("Force Logout Error:", error);
+    return { status: "ERROR", message: "Unknown Error Occured ! Please Try Again Later" };
+  }
+};
@@ -0,0 +1,60 @@
+import { ADMIN_USERS_PAGE_SIZE } from "@/config/constant";
+import { db } from "@/config/db";
+import { sessions, users } from "@/drizzle/schema";
+import { escapeLikePattern } from "@/lib/utils";
+import { and, count, desc, eq, gt, isNotNull, isNull, like, or, SQL, sql } from "drizzle-orm";
+import { UserStatus } from "../admin.constants";
+import { AdminUserSearchParams } from "../admin.schema";
+
+const STATUS_CONDITIONS: Record<UserStatus, () => SQL | undefined> = {
+  active: () => and(isNull(users.deletedAt), isNotNull(users.emailVerifiedAt)),
+  unverified: () => and(isNull(users.deletedAt), isNull(users.emailVerifiedAt)),
+  suspended: () => isNotNull(users.deletedAt),
+};
+
+//* Unlike every other listing, the admin table includes suspended users; that's the only place they can be restored.
+const getAdminUserConditions = ({ q, role, status }: AdminUserSearchParams) => {
+  const pattern = q ? `%${escapeLikePattern(q)}%` : null;
+
+  return and(
+    pattern ? or(like(users.name, pattern), like(users.userName, pattern), like(users.email, pattern)) : undefined,
+    // the column defaults to "applicant", but older rows may still hold NULL
+    role === "applicant" ? or(eq(users.role, "applicant"), isNull(users.role)) : role ? eq(users.role, role) : undefined,
+    status ? STATUS_CONDITIONS[status]() : undefined,
+  );
+};
+
+export const getAdminUsers = async (params: AdminUserSearchParams) => {
+  const where = getAdminUserConditions(params);
+  const page = params.page ?? 1;
+
+  const activeSessions = db
+    .select({ count: count() })
+    .from(sessions)
+    .where(and(eq(sessions.userId, users.id), gt(sessions.expiresAt, new Date())));
+
+  const [rows, [{ total }]] = await Promise.all([
+    db
+      .select({
+        id: users.id,
+        name: users.name,
+        userName: users.userName,
+        email: users.email,
+        role: users.role,
+        emailVerifiedAt: users.emailVerifiedAt,
+        deletedAt: users.deletedAt,
+        createdAt: users.createdAt,
+        activeSessions: sql<number>`(${activeSessions})`.mapWith(Number),
+      })
+      .from(users)
+      .where(where)
+      .orderBy(desc(users.createdAt), desc(users.id))
+      .limit(ADMIN_USERS_PAGE_SIZE)
+      .offset((page - 1) * ADMIN_USERS_PAGE_SIZE),
+    db.select({ total: count() }).from(users).where(where),
+  ]);
+
+  return { users: rows, total, page, pageCount: Math.max(Math.ceil(total / ADMIN_USERS_PAGE_SIZE), 1) };
+};
+
+export type AdminUser = Awaited<ReturnType<typeof getAdminUsers>>["users"][number];
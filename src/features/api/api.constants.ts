@@ -0,0 +1,22 @@
+//* Plain arrays (no drizzle/zod imports) so they can be shared by the DB schema, Zod schemas and client components.
+
+//* A key only reaches the endpoints its scopes allow; anything else is a 403.
+export const API_KEY_SCOPES = ["jobs:read", "jobs:write", "applications:read"] as const;
+
+export type ApiKeyScope = (typeof API_KEY_SCOPES)[number];
+
+export const API_KEY_SCOPE_LABELS: Record<ApiKeyScope, string> = {
+  "jobs:read": "Read jobs",
+  "jobs:write": "Create, edit, close and delete jobs",
+  "applications:read": "Read applications",
+};
+
+//* Requests per minute, per key.
+export const API_KEY_RATE_LIMITS = [60, 300, 1000] as const;
+
+export type ApiKeyRateLimit = (typeof API_KEY_RATE_LIMITS)[number];
+
+//* Makes keys recognisable in logs and secret scanners; the rest is random.
+export const API_KEY_TOKEN_PREFIX = "jp_";
+
+export const API_KEY_NAME_MAX_LENGTH = 100;
@@ -0,0 +1,124 @@
+import { z } from "zod";
+import { APPLICATION_STATUSES } from "../applications/applications.constants";
+import {
+  EMPLOYMENT_TYPES,
+  EXPERIENCE_LEVELS,
+  JOB_STATUSES,
+  SALARY_CURRENCIES,
+  WORK_MODES,
+} from "../jobs/jobs.constants";
+import { jobBaseSchema } from "../jobs/jobs.schema";
+import { API_KEY_NAME_MAX_LENGTH, API_KEY_RATE_LIMITS, API_KEY_SCOPES } from "./api.constants";
+
+export const createApiKeySchema = z.object({
+  name: z
+    .string()
+    .trim()
+    .min(1, "Please give the key a name")
+    .max(API_KEY_NAME_MAX_LENGTH, `Name must not exceed ${API_KEY_NAME_MAX_LENGTH} characters`),
+
+  scopes: z
+    .array(z.enum(API_KEY_SCOPES, { error: "Unknown scope" }))
+    .min(1, "Choose at least one scope"),
+
+  rateLimitPerMinute: z
+    .number()
+    .refine((value) => (API_KEY_RATE_LIMITS as readonly number[]).includes(value), "Please choose a rate limit"),
+});
+
+export type CreateApiKeyInput = z.input<typeof createApiKeySchema>;
+
+//* Everything below describes the /api/v1 wire format. The same schemas validate requests and feed the
+//* OpenAPI document, so the docs can't drift from what the handlers accept.
+
+//* Unlike the search pages, bad query values are reported instead of dropped: integrators need to know.
+export const apiPaginationSchema = z.object({
+  cursor: z.string().max(200).optional().meta({ description: "nextCursor from the previous page" }),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+});
+
+export const apiJobListQuerySchema = apiPaginationSchema.extend({
+  status: z.enum(JOB_STATUSES).optional(),
+});
+
+export const apiApplicationListQuerySchema = apiPaginationSchema.extend({
+  status: z.enum(APPLICATION_STATUSES).optional(),
+});
+
+//* PATCH bodies are merged over the current job and then validated with jobSchema as a whole; this
+//* schema only documents that every field is optional.
+export const apiJobUpdateSchema = jobBaseSchema.partial();
+
+const timestamp = z.iso.datetime();
+
+export const apiJobSchema = z.object({
+  id: z.number().int(),
+  title: z.string(),
+  description: z.string(),
+  employmentType: z.enum(EMPLOYMENT_TYPES),
+  workMode: z.enum(WORK_MODES),
+  location: z.string().nullable(),
+  salaryMin: z.number().int().nullable(),
+  salaryMax: z.number().int().nullable(),
+  salaryCurrency: z.enum(SALARY_CURRENCIES),
+  experienceLevel: z.enum(EXPERIENCE_LEVELS),
+  skills: z.array(z.string()),
+  status: z.enum(JOB_STATUSES),
+  url: z.url().nullable().meta({ description: "Public job page; null unless published" }),
+  publishedAt: timestamp.nullable(),
+  closedAt: timestamp.nullable(),
+  createdAt: timestamp,
+  updatedAt: timestamp,
+});
+
+export type ApiJob = z.infer<typeof apiJobSchema>;
+
+export const apiApplicationSchema = z.object({
+  id: z.number().int(),
+  jobId: z.number().int(),
+  status: z.enum(APPLICATION_STATUSES),
+  coverLetter: z.string().nullable(),
+  resumeUrl: z.string().nullable().meta({ description: "Link the applicant pasted, if any" }),
+  hasResumeFile: z.boolean().meta({ description: "An uploaded resume is available in the employer dashboard" }),
+  applicant: z.object({
+    name: z.string(),
+    userName: z.string(),
+  }),
+  createdAt: timestamp,
+  updatedAt: timestamp,
+});
+
+export type ApiApplication = z.infer<typeof apiApplicationSchema>;
+
+export const API_ERROR_CODES = [
+  "bad_request",
+  "unauthorized",
+  "forbidden",
+  "not_found",
+  "conflict",
+  "validation_failed",
+  "rate_limited",
+  "internal_error",
+] as const;
+
+export type ApiErrorCode = (typeof API_ERROR_CODES)[number];
+
+export const apiErrorSchema = z.object({
+  error: z.object({
+    code: z.enum(API_ERROR_CODES),
+    message: z.string(),
+    details: z
+      .array(z.object({ path: z.string(), message: z.string() }))
+      .optional()
+      .meta({ description: "Per-field problems for validation_failed" }),
+  }),
+});
+
+export const apiPageSchema = <T extends z.ZodType>(item: T) =>
+  z.object({
+    data: z.array(item),
+    nextCursor: z
+      .string()
+      .nullable()
+      .meta({ description: "Pass as ?cursor= for the next page; null on the last page" }),
+  });
@@ -0,0 +1,149 @@
+import { db } from "@/config/db";
+import { APP_URL } from "@/config/constant";
+import { applications, jobs, users } from "@/drizzle/schema";
+import { ApplicationStatus } from "@/features/applications/applications.constants";
+import { Job } from "@/features/jobs/server/jobs.queries";
+import { JobStatus } from "@/features/jobs/jobs.constants";
+import { and, desc, eq, isNull, lt } from "drizzle-orm";
+import { ApiApplication, ApiJob } from "../api.schema";
+import { encodeApiCursor } from "./apiHandler";
+
+//* Rows are mapped explicitly to the documented resource shapes, so a new DB column never leaks into the API.
+
+export const toApiJob = (job: Job): ApiJob => ({
+  id: job.id,
+  title: job.title,
+  description: job.description,
+  employmentType: job.employmentType,
+  workMode: job.workMode,
+  location: job.location,
+  salaryMin: job.salaryMin,
+  salaryMax: job.salaryMax,
+  salaryCurrency: job.salaryCurrency as ApiJob["salaryCurrency"],
+  experienceLevel: job.experienceLevel,
+  skills: job.skills,
+  status: job.status,
+  url: job.status === "published" ? `${APP_URL}/jobs/${job.id}` : null,
+  publishedAt: job.publishedAt?.toISOString() ?? null,
+  closedAt: job.closedAt?.toISOString() ?? null,
+  createdAt: job.createdAt.toISOString(),
+  updatedAt: job.updatedAt.toISOString(),
+});
+
+//* Fetches one extra row to know whether another page exists.
+const toPage = <T extends { id: number }, R>(rows: T[], limit: number, map: (row: T) => R) => {
+  const page = rows.slice(0, limit);
+  const lastRow = page.at(-1);
+
+  return {
+    data: page.map(map),
+    nextCursor: rows.length > limit && lastRow ? encodeApiCursor(lastRow.id) : null,
+  };
+};
+
+export const getApiJobs = async ({
+  companyId,
+  status,
+  beforeId,
+  limit,
+}: {
+  companyId: number;
+  status?: JobStatus;
+  beforeId?: number;
+  limit: number;
+}) => {
+  const rows = await db
+    .select()
+    .from(jobs)
+    .where(
+      and(
+        eq(jobs.companyId, companyId),
+        isNull(jobs.deletedAt),
+        status ? eq(jobs.status, status) : undefined,
+        beforeId ? lt(jobs.id, beforeId) : undefined,
+      ),
+    )
+    .orderBy(desc(jobs.id))
+    .limit(limit + 1);
+
+  return toPage(rows, limit, toApiJob);
+};
+
+const selectApplications = () =>
+  db
+    .select({
+      id: applications.id,
+      jobId: applications.jobId,
+      status: applications.status,
+      coverLetter: applications.coverLetter,
+      resumeUrl: applications.resumeUrl,
+      resumeId: applications.resumeId,
+      createdAt: applications.createdAt,
+      updatedAt: applications.updatedAt,
+      applicantName: users.name,
+      applicantUserName: users.userName,
+    })
+    .from(applications)
+    .innerJoin(users, eq(users.id, applications.applicantId))
+    .innerJoin(jobs, eq(jobs.id, applications.jobId));
+
+type ApplicationRow = Awaited<ReturnType<typeof selectApplications>>[number];
+
+const toApiApplication = (row: ApplicationRow): ApiApplication => ({
+  id: row.id,
+  jobId: row.jobId,
+  status: row.status,
+  coverLetter: row.coverLetter,
+  resumeUrl: row.resumeUrl,
+  hasResumeFile: row.resumeId !== null,
+  applicant: { name: row.applicantName, userName: row.applicantUserName },
+  createdAt: row.createdAt.toISOString(),
+  updatedAt: row.updatedAt.toISOString(),
+});
+
+//* Same visibility as the applicants page: suspended applicants are left out.
+export const getApiJobApplications = async ({
+  jobId,
+  status,
+  beforeId,
+  limit,
+}: {
+  jobId: number;
+  status?: ApplicationStatus;
+  beforeId?: number;
+  limit: number;
+}) => {
+  const rows = await selectApplications()
+    .where(
+      and(
+        eq(applications.jobId, jobId),
+        isNull(users.deletedAt),
+        status ? eq(applications.status, status) : undefined,
+        beforeId ? lt(applications.id, beforeId) : undefined,
+      ),
+    )
+    .orderBy(desc(applications.id))
+    .limit(limit + 1);
+
+  return toPage(rows, limit, toApiApplication);
+};
+
+export const getApiApplication = async ({
+  applicationId,
+  companyId,
+}: {
+  applicationId: number;
+  companyId: number;
+}) => {
+  const [row] = await selectApplications()
+    .where(
+      and(
+        eq(applications.id, applicationId),
+        eq(jobs.companyId, companyId),
+        isNull(jobs.deletedAt),
+        isNull(users.deletedAt),
+      ),
+    );
+
+  return row ? toApiApplication(row) : null;
+};
@@ -0,0 +1,125 @@
+import { canManageJobs } from "@/features/companies/companies.constants";
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { ApiKeyScope } from "../api.constants";
+import { ApiErrorCode } from "../api.schema";
+import { ApiKeyContext, authenticateApiKey, consumeApiRateLimit } from "./use-cases/apiKeyAuth";
+
+//* Shared plumbing for the /api/v1 route handlers: key authentication, rate limiting, scopes and the
+//* { error: { code, message, details? } } envelope every failure uses.
+
+const NO_STORE = { "Cache-Control": "no-store" };
+
+export const apiError = (
+  status: number,
+  code: ApiErrorCode,
+  message: string,
+  details?: { path: string; message: string }[],
+) => NextResponse.json({ error: { code, message, details } }, { status, headers: NO_STORE });
+
+export const apiValidationError = (error: z.ZodError) =>
+  apiError(
+    422,
+    "validation_failed",
+    error.issues[0].message,
+    error.issues.map((issue) => ({ path: issue.path.join("."), message: issue.message })),
+  );
+
+export const apiNotFound = (message = "Not found") => apiError(404, "not_found", message);
+
+export const apiJson = (body: unknown, status = 200) => NextResponse.json(body, { status, headers: NO_STORE });
+
+//* Path segments are untrusted strings; anything that isn't a positive integer simply doesn't exist.
+export const parseApiId = (value: string) => {
+  const id = Number(value);
+  return Number.isSafeInteger(id) && id > 0 ? id : null;
+};
+
+//* Every write takes a JSON object; anything else is a 400 before validation even starts.
+export const readJsonBody = async (request: NextRequest) => {
+  let body: unknown;
+
+  try {
+    body = await request.json();
+  } catch {
+    return { error: apiError(400, "bad_request", "The request body must be valid JSON") };
+  }
+
+  if (!body || typeof body !== "object" || Array.isArray(body)) {
+    return { error: apiError(400, "bad_request", "The request body must be a JSON object") };
+  }
+
+  return { body: body as Record<string, unknown> };
+};
+
+export const parseApiQuery = <T extends z.ZodType>(request: NextRequest, schema: T) =>
+  schema.safeParse(Object.fromEntries(request.nextUrl.searchParams));
+
+//* Opaque keyset cursor over ids (newest first). Unlike the job search, a bad cursor is an error here.
+export const encodeApiCursor = (id: number) => Buffer.from(JSON.stringify({ id })).toString("base64url");
+
+export const decodeApiCursor = (cursor: string) => {
+  try {
+    const parsed = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8"));
+    if (Number.isSafeInteger(parsed.id)) return parsed.id as number;
+  } catch {
+    // fall through
+  }
+
+  return null;
+};
+
+export const apiInvalidCursor = () => apiError(400, "bad_request", "Invalid cursor");
+
+type ApiRouteContext<P> = { params: Promise<P> };
+
+//* Wraps a route handler: 401 without a valid key, 429 over the key's limit, 403 without the scope,
+//* and a 500 envelope instead of Next's HTML error page. Every keyed response carries X-RateLimit-* headers.
+export const withApiKey = <P = Record<string, never>>(
+  scope: ApiKeyScope,
+  handler: (request: NextRequest, context: { apiKey: ApiKeyContext; params: P }) => Promise<NextResponse>,
+) => {
+  return async (request: NextRequest, { params }: ApiRouteContext<P>) => {
+    try {
+      const apiKey = await authenticateApiKey(request.headers.get("authorization"));
+
+      if (!apiKey) {
+        const response = apiError(401, "unauthorized", "Missing, invalid or revoked API key");
+        response.headers.set("WWW-Authenticate", 'Bearer realm="api"');
+        return response;
+      }
+
+      const rateLimit = await consumeApiRateLimit({ apiKeyId: apiKey.id, limit: apiKey.rateLimitPerMinute });
+
+      const withRateLimitHeaders = (response: NextResponse) => {
+        response.headers.set("X-RateLimit-Limit", String(rateLimit.limit));
+        response.headers.set("X-RateLimit-Remaining", String(rateLimit.remaining));
+        response.headers.set("X-RateLimit-Reset", String(Math.ceil(rateLimit.resetAt.getTime() / 1000)));
+        return response;
+      };
+
+      if (rateLimit.isLimited) {
+        const retryAfter = Math.max(Math.ceil((rateLimit.resetAt.getTime() - Date.now()) / 1000), 1);
+        const response = apiError(429, "rate_limited", "Rate limit exceeded. Retry after the window resets");
+        response.headers.set("Retry-After", String(retryAfter));
+        return withRateLimitHeaders(response);
+      }
+
+      if (!apiKey.scopes.includes(scope)) {
+        return withRateLimitHeaders(apiError(403, "forbidden", `This key is missing the ${scope} scope`));
+      }
+
+      // the key can't do more than the member it acts for: a creator demoted to viewer loses write access
+      if (scope === "jobs:write" && !canManageJobs(apiKey.memberRole)) {
+        return withRateLimitHeaders(
+          apiError(403, "forbidden", "The member who created this key can no longer manage jobs"),
+        );
+      }
+
+      return withRateLimitHeaders(await handler(request, { apiKey, params: await params }));
+    } catch (error) {
+      console.error("API Error:", error);
+      return apiError(500, "internal_error", "Unknown Error Occured ! Please Try Again Later");
+    }
+  };
+};
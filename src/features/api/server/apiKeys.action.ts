@@ -0,0 +1,108 @@
+"use server"
+
+import { db } from "@/config/db";
+import { API_KEYS_MAX_PER_COMPANY } from "@/config/constant";
+import { apiKeys } from "@/drizzle/schema";
+import { recordAuditEvent } from "@/features/audit/server/audit";
+import { getAuthorizedUser } from "@/features/auth/server/auth.queries";
+import { canManageCompany } from "@/features/companies/companies.constants";
+import { getUserMembership } from "@/features/companies/server/companies.queries";
+import { and, eq, isNull } from "drizzle-orm";
+import { revalidatePath } from "next/cache";
+import { CreateApiKeyInput, createApiKeySchema } from "../api.schema";
+import { countActiveApiKeys } from "./apiKeys.queries";
+import { generateApiKey } from "./use-cases/apiKeyAuth";
+
+//* API keys reach everything the company has, so like the company settings they are owner-only.
+const getCurrentCompanyOwner = async () => {
+  const user = await getAuthorizedUser("employer");
+
+  if (!user) return null;
+
+  const membership = await getUserMembership(user.id);
+
+  if (!membership || !canManageCompany(membership.role)) return null;
+
+  return { employer: user, companyId: membership.company.id };
+};
+
+//* The key itself is only in this response; afterwards only its prefix can be shown.
+export const createApiKeyAction = async (formData: CreateApiKeyInput) => {
+  try {
+    const owner = await getCurrentCompanyOwner();
+
+    if (!owner) return { status: "ERROR", message: "Only company owners can manage API keys" };
+
+    const { data: validatedData, error } = createApiKeySchema.safeParse(formData);
+
+    if (error) return { status: "ERROR", message: error.issues[0].message };
+
+    if ((await countActiveApiKeys(owner.companyId)) >= API_KEYS_MAX_PER_COMPANY) {
+      return {
+        status: "ERROR",
+        message: `You can have at most ${API_KEYS_MAX_PER_COMPANY} active keys. Revoke one you no longer use`,
+      };
+    }
+
+    const { token, keyPrefix, keyHash } = generateApiKey();
+
+    const [{ id }] = await db
+      .insert(apiKeys)
+      .values({
+        companyId: owner.companyId,
+        createdBy: owner.employer.id,
+        name: validatedData.name,
+        keyPrefix,
+        keyHash,
+        scopes: [...new Set(validatedData.scopes)],
+        rateLimitPerMinute: validatedData.rateLimitPerMinute,
+      })
+      .$returningId();
+
+    await recordAuditEvent({
+      type: "company.api_key_created",
+      actorId: owner.employer.id,
+      metadata: {
+        companyId: owner.companyId,
+        apiKeyId: id,
+        name: validatedData.name,
+        scopes: validatedData.scopes.join(" "),
+      },
+    });
+
+    revalidatePath("/employer/api-keys");
+
+    return { status: "SUCCESS", message: "API key created. Copy it now: it won't be shown again", token };
+  } catch (error) {
+    console.error("Create API Key Error:", error);
+    return { status: "ERROR", message: "Unknown Error Occured ! Please Try Again Later" };
+  }
+};
+
+export const revokeApiKeyAction = async (apiKeyId: number) => {
+  try {
+    const owner = await getCurrentCompanyOwner();
+
+    if (!owner) return { status: "ERROR", message: "Only company owners can manage API keys" };
+
+    const [result] = await db
+      .update(apiKeys)
+      .set({ revokedAt: new Date() })
+      .where(and(eq(apiKeys.id, apiKeyId), eq(apiKeys.companyId, owner.companyId), isNull(apiKeys.revokedAt)));
+
+    if (result.affectedRows === 0) return { status: "ERROR", message: "Key not found or already revoked" };
+
+    await recordAuditEvent({
+      type: "company.api_key_revoked",
+      actorId: owner.employer.id,
+      metadata: { companyId: owner.companyId, apiKeyId },
+    });
+
+    revalidatePath("/employer/api-keys");
+
+    return { status: "SUCCESS", message: "API key revoked" };
+  } catch (error) {
+    console.error("Revoke API Key Error:", error);
+    return { status: "ERROR", message: "Unknown Error Occured ! Please Try Again Later" };
+  }
+};
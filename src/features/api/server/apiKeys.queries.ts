@@ -0,0 +1,32 @@
+import { db } from "@/config/db";
+import { apiKeys, users } from "@/drizzle/schema";
+import { and, asc, count, desc, eq, isNull, sql } from "drizzle-orm";
+
+//* Active keys first, newest first; revoked keys stay listed so owners can see what was cut off.
+export const getCompanyApiKeys = async (companyId: number) => {
+  return db
+    .select({
+      id: apiKeys.id,
+      name: apiKeys.name,
+      keyPrefix: apiKeys.keyPrefix,
+      scopes: apiKeys.scopes,
+      rateLimitPerMinute: apiKeys.rateLimitPerMinute,
+      lastUsedAt: apiKeys.lastUsedAt,
+      revokedAt: apiKeys.revokedAt,
+      createdAt: apiKeys.createdAt,
+      createdByName: users.name,
+    })
+    .from(apiKeys)
+    .innerJoin(users, eq(users.id, apiKeys.createdBy))
+    .where(eq(apiKeys.companyId, companyId))
+    .orderBy(asc(sql`${apiKeys.revokedAt} IS NOT NULL`), desc(apiKeys.createdAt));
+};
+
+export const countActiveApiKeys = async (companyId: number) => {
+  const [{ total }] = await db
+    .select({ total: count() })
+    .from(apiKeys)
+    .where(and(eq(apiKeys.companyId, companyId), isNull(apiKeys.revokedAt)));
+
+  return total;
+};
@@ -0,0 +1,219 @@
+import { APP_URL } from "@/config/constant";
+import { z } from "zod";
+import { ApiKeyScope, API_KEY_SCOPE_LABELS } from "../api.constants";
+import {
+  apiApplicationListQuerySchema,
+  apiApplicationSchema,
+  apiErrorSchema,
+  apiJobListQuerySchema,
+  apiJobSchema,
+  apiJobUpdateSchema,
+  apiPageSchema,
+} from "../api.schema";
+import { jobSchema } from "../../jobs/jobs.schema";
+
+//* The OpenAPI 3.1 document for /api/v1, generated from the same Zod schemas the handlers validate with.
+//* OpenAPI 3.1 uses JSON Schema 2020-12, which is what z.toJSONSchema emits.
+
+const JSON_SCHEMA_OPTIONS = {
+  unrepresentable: "any",
+  // the date-time format already says everything Zod's long regex does
+  override: (ctx) => {
+    if (ctx.jsonSchema.format === "date-time") delete ctx.jsonSchema.pattern;
+  },
+} satisfies Parameters<typeof z.toJSONSchema>[1];
+
+const toJsonSchema = (schema: z.ZodType, io: "input" | "output") => {
+  const { $schema: _$schema, ...jsonSchema } = z.toJSONSchema(schema, { ...JSON_SCHEMA_OPTIONS, io });
+  return jsonSchema;
+};
+
+//* Named components; a component used inside another one becomes a $ref into #/components/schemas.
+const toComponentSchemas = (schemas: Record<string, z.ZodType>, io: "input" | "output") => {
+  const registry = z.registry<{ id: string }>();
+
+  for (const [id, schema] of Object.entries(schemas)) registry.add(schema, { id });
+
+  const { schemas: components } = z.toJSONSchema(registry, {
+    ...JSON_SCHEMA_OPTIONS,
+    io,
+    uri: (id) => `#/components/schemas/${id}`,
+  });
+
+  return Object.fromEntries(
+    Object.entries(components).map(([id, { $schema: _$schema, $id: _$id, ...jsonSchema }]) => [id, jsonSchema]),
+  );
+};
+
+const ref = (name: string) => ({ $ref: `#/components/schemas/${name}` });
+
+const json = (schema: object) => ({ "application/json": { schema } });
+
+const errorResponse = (description: string) => ({ description, content: json(ref("Error")) });
+
+const pathParam = (name: string) => ({
+  name,
+  in: "path",
+  required: true,
+  schema: { type: "integer", minimum: 1 },
+});
+
+const queryParams = (schema: z.ZodObject) =>
+  Object.entries(schema.shape).map(([name, field]) => ({
+    name,
+    in: "query",
+    required: false,
+    schema: toJsonSchema(field as z.ZodType, "input"),
+  }));
+
+//* Every keyed operation can fail the same ways before the handler runs.
+const operation = ({
+  summary,
+  scope,
+  parameters = [],
+  requestBody,
+  responses,
+}: {
+  summary: string;
+  scope: ApiKeyScope;
+  parameters?: object[];
+  requestBody?: object;
+  responses: Record<string, object>;
+}) => ({
+  summary,
+  description: `Requires the \`${scope}\` scope (${API_KEY_SCOPE_LABELS[scope].toLowerCase()}).`,
+  security: [{ apiKey: [] }],
+  parameters,
+  ...(requestBody ? { requestBody: { required: true, content: json(requestBody) } } : {}),
+  responses: {
+    ...responses,
+    "401": errorResponse("Missing, invalid or revoked API key"),
+    "403": errorResponse("The key lacks the required scope"),
+    "429": errorResponse("Rate limit exceeded; see Retry-After"),
+  },
+});
+
+const single = (name: string) => json({ type: "object", properties: { data: ref(name) }, required: ["data"] });
+
+export const buildOpenApiDocument = () => ({
+  openapi: "3.1.0",
+  info: {
+    title: "Job Portal API",
+    version: "1.0.0",
+    description:
+      "Manage your company's jobs and read their applications. Authenticate with an API key from Employer → API Keys " +
+      "as `Authorization: Bearer <key>`. Lists are newest first and paginated with an opaque `cursor`. " +
+      "Every response carries X-RateLimit-Limit, X-RateLimit-Remaining and X-RateLimit-Reset headers.",
+  },
+  servers: [{ url: `${APP_URL}/api/v1` }],
+  components: {
+    securitySchemes: {
+      apiKey: { type: "http", scheme: "bearer", description: "A company API key (jp_...)" },
+    },
+    schemas: {
+      ...toComponentSchemas(
+        {
+          Job: apiJobSchema,
+          Application: apiApplicationSchema,
+          Error: apiErrorSchema,
+          JobPage: apiPageSchema(apiJobSchema),
+          ApplicationPage: apiPageSchema(apiApplicationSchema),
+        },
+        "output",
+      ),
+      ...toComponentSchemas({ JobInput: jobSchema, JobUpdate: apiJobUpdateSchema }, "input"),
+    },
+  },
+  paths: {
+    "/jobs": {
+      get: operation({
+        summary: "List jobs",
+        scope: "jobs:read",
+        parameters: queryParams(apiJobListQuerySchema),
+        responses: {
+          "200": { description: "A page of jobs", content: json(ref("JobPage")) },
+          "400": errorResponse("Invalid cursor"),
+          "422": errorResponse("Invalid query parameters"),
+        },
+      }),
+      post: operation({
+        summary: "Create a job",
+        scope: "jobs:write",
+        requestBody: ref("JobInput"),
+        responses: {
+          "201": { description: "The created job", content: single("Job") },
+          "400": errorResponse("The body is not a JSON object"),
+          "422": errorResponse("Validation failed"),
+        },
+      }),
+    },
+    "/jobs/{jobId}": {
+      get: operation({
+        summary: "Get a job",
+        scope: "jobs:read",
+        parameters: [pathParam("jobId")],
+        responses: {
+          "200": { description: "The job", content: single("Job") },
+          "404": errorResponse("Job not found"),
+        },
+      }),
+      patch: operation({
+        summary: "Update a job",
+        scope: "jobs:write",
+        parameters: [pathParam("jobId")],
+        requestBody: ref("JobUpdate"),
+        responses: {
+          "200": { description: "The updated job", content: single("Job") },
+          "404": errorResponse("Job not found"),
+          "409": errorResponse("The job is closed"),
+          "422": errorResponse("Validation failed"),
+        },
+      }),
+      delete: operation({
+        summary: "Delete a job",
+        scope: "jobs:write",
+        parameters: [pathParam("jobId")],
+        responses: {
+          "204": { description: "Deleted" },
+          "404": errorResponse("Job not found"),
+        },
+      }),
+    },
+    "/jobs/{jobId}/close": {
+      post: operation({
+        summary: "Close a job",
+        scope: "jobs:write",
+        parameters: [pathParam("jobId")],
+        responses: {
+          "200": { description: "The closed job; open applicants are notified", content: single("Job") },
+          "404": errorResponse("Job not found"),
+          "409": errorResponse("The job is already closed"),
+        },
+      }),
+    },
+    "/jobs/{jobId}/applications": {
+      get: operation({
+        summary: "List a job's applications",
+        scope: "applications:read",
+        parameters: [pathParam("jobId"), ...queryParams(apiApplicationListQuerySchema)],
+        responses: {
+          "200": { description: "A page of applications", content: json(ref("ApplicationPage")) },
+          "400": errorResponse("Invalid cursor"),
+          "404": errorResponse("Job not found"),
+          "422": errorResponse("Invalid query parameters"),
+        },
+      }),
+    },
+    "/applications/{applicationId}": {
+      get: operation({
+        summary: "Get an application",
+        scope: "applications:read",
+        parameters: [pathParam("applicationId")],
+        responses: {
+          "200": { description: "The application", content: single("Application") },
+          "404": errorResponse("Application not found"),
+        },
+      }),
+    },
+  },
+});
@@ -0,0 +1,65 @@
+import { db } from "@/config/db";
+import { API_KEY_ACTIVITY_INTERVAL, API_RATE_LIMIT_WINDOW } from "@/config/constant";
+import { apiKeys, companyMembers, users } from "@/drizzle/schema";
+import { getRateLimitStore } from "@/lib/rateLimit";
+import { generateToken, hashToken } from "@/lib/token";
+import { and, eq, isNull } from "drizzle-orm";
+import { API_KEY_TOKEN_PREFIX } from "../../api.constants";
+
+//* The full key is shown to the owner once; only its hash and a short visible prefix are stored.
+export const generateApiKey = () => {
+  const token = `${API_KEY_TOKEN_PREFIX}${generateToken(24)}`;
+
+  return { token, keyPrefix: token.slice(0, API_KEY_TOKEN_PREFIX.length + 8), keyHash: hashToken(token) };
+};
+
+//* Resolves "Authorization: Bearer <key>" to the key and its company. A key acts on behalf of the member
+//* who created it, so it stops working once they are suspended or leave the company, not only when revoked.
+export const authenticateApiKey = async (authorization: string | null) => {
+  const token = authorization?.match(/^Bearer\s+(\S+)$/i)?.[1];
+
+  if (!token || !token.startsWith(API_KEY_TOKEN_PREFIX)) return null;
+
+  const [apiKey] = await db
+    .select({
+      id: apiKeys.id,
+      companyId: apiKeys.companyId,
+      createdBy: apiKeys.createdBy,
+      scopes: apiKeys.scopes,
+      rateLimitPerMinute: apiKeys.rateLimitPerMinute,
+      lastUsedAt: apiKeys.lastUsedAt,
+      memberRole: companyMembers.role,
+    })
+    .from(apiKeys)
+    .innerJoin(users, eq(users.id, apiKeys.createdBy))
+    .innerJoin(
+      companyMembers,
+      and(eq(companyMembers.userId, apiKeys.createdBy), eq(companyMembers.companyId, apiKeys.companyId)),
+    )
+    .where(and(eq(apiKeys.keyHash, hashToken(token)), isNull(apiKeys.revokedAt), isNull(users.deletedAt)));
+
+  if (!apiKey) return null;
+
+  if (!apiKey.lastUsedAt || Date.now() - apiKey.lastUsedAt.getTime() > API_KEY_ACTIVITY_INTERVAL * 1000) {
+    await db.update(apiKeys).set({ lastUsedAt: new Date() }).where(eq(apiKeys.id, apiKey.id));
+  }
+
+  return apiKey;
+};
+
+export type ApiKeyContext = NonNullable<Awaited<ReturnType<typeof authenticateApiKey>>>;
+
+const rateLimitKey = (apiKeyId: number) => `api:key:${apiKeyId}`;
+
+//* Fixed window per key, on the same store as the login throttle. Counts the current request and reports
+//* what the X-RateLimit-* headers need. The store increments atomically, so a burst of parallel requests
+//* can't all see the same count; requests over the limit are counted too, which doesn't move the window.
+export const consumeApiRateLimit = async ({ apiKeyId, limit }: { apiKeyId: number; limit: number }) => {
+  const { count, windowStartedAt } = await getRateLimitStore().increment(rateLimitKey(apiKeyId), {
+    windowSeconds: API_RATE_LIMIT_WINDOW,
+    now: new Date(),
+  });
+  const resetAt = new Date(windowStartedAt.getTime() + API_RATE_LIMIT_WINDOW * 1000);
+
+  return { limit, remaining: Math.max(limit - count, 0), resetAt, isLimited: count > limit };
+};
@@ -0,0 +1,58 @@
+export const APPLICATION_STATUSES = [
+  "applied",
+  "screening",
+  "interview",
+  "offer",
+  "hired",
+  "rejected",
+  "withdrawn",
+] as const;
+
+export type ApplicationStatus = (typeof APPLICATION_STATUSES)[number];
+
+export const APPLICATION_STATUS_LABELS: Record<ApplicationStatus, string> = {
+  applied: "Applied",
+  screening: "Screening",
+  interview: "Interview",
+  offer: "Offer",
+  hired: "Hired",
+  rejected: "Rejected",
+  withdrawn: "Withdrawn",
+};
+
+//* The pipeline: each status lists the statuses it may move to. Hired, rejected and withdrawn are final.
+export const APPLICATION_STATUS_TRANSITIONS: Record<ApplicationStatus, ApplicationStatus[]> = {
+  applied: ["screening", "interview", "rejected", "withdrawn"],
+  screening: ["interview", "rejected", "withdrawn"],
+  interview: ["offer", "rejected", "withdrawn"],
+  offer: ["hired", "rejected", "withdrawn"],
+  hired: [],
+  rejected: [],
+  withdrawn: [],
+};
+
+export const CLOSED_APPLICATION_STATUSES: ApplicationStatus[] = ["hired", "rejected", "withdrawn"];
+
+//* Only the applicant may withdraw; everything else is the employer's call.
+export const canTransition = ({
+  from,
+  to,
+  actorRole,
+}: {
+  from: ApplicationStatus;
+  to: ApplicationStatus;
+  actorRole: "applicant" | "employer";
+}) => {
+  if (!APPLICATION_STATUS_TRANSITIONS[from].includes(to)) return false;
+
+  return actorRole === "applicant" ? to === "withdrawn" : to !== "withdrawn";
+};
+
+export const APPLICANT_EXPORT_FORMATS = ["csv", "xlsx"] as const;
+
+export type ApplicantExportFormat = (typeof APPLICANT_EXPORT_FORMATS)[number];
+
+export const APPLICANT_EXPORT_FORMAT_LABELS: Record<ApplicantExportFormat, string> = {
+  csv: "CSV",
+  xlsx: "Excel (.xlsx)",
+};
@@ -0,0 +1,40 @@
+import { z } from "zod";
+import { APPLICANT_EXPORT_FORMATS, APPLICATION_STATUSES } from "./applications.constants";
+
+export const applyToJobSchema = z.object({
+  jobId: z.number().int().positive(),
+
+  coverLetter: z
+    .string()
+    .trim()
+    .max(5000, "Cover letter must not exceed 5000 characters")
+    .default(""),
+
+  //* http(s) only: employers get the link as an <a href> next to the application.
+  resumeUrl: z
+    .union([z.url({ protocol: /^https?$/, error: "Please enter a valid resume link" }), z.literal("")])
+    .default(""),
+
+  resumeId: z.number().int().positive().nullable().default(null),
+});
+
+export type ApplyToJobData = z.infer<typeof applyToJobSchema>;
+export type ApplyToJobInput = z.input<typeof applyToJobSchema>;
+
+export const updateApplicationStatusSchema = z.object({
+  applicationId: z.number().int().positive(),
+  status: z.enum(APPLICATION_STATUSES, { error: "Please select a valid status" }),
+  note: z.string().trim().max(1000, "Note must not exceed 1000 characters").default(""),
+});
+
+export type UpdateApplicationStatusInput = z.input<typeof updateApplicationStatusSchema>;
+
+//* Export links are plain GET URLs, so like the search page bad filters are dropped instead of failing.
+//* Without a jobId the export covers every job of the company.
+export const applicantExportSchema = z.object({
+  jobId: z.coerce.number().int().positive().optional().catch(undefined),
+  status: z.enum(APPLICATION_STATUSES).optional().catch(undefined),
+  format: z.enum(APPLICANT_EXPORT_FORMATS).catch("csv"),
+});
+
+export type ApplicantExportParams = z.infer<typeof applicantExportSchema>;
@@ -0,0 +1,42 @@
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Download } from "lucide-react";
+import { APPLICANT_EXPORT_FORMAT_LABELS, APPLICATION_STATUS_LABELS } from "../applications.constants";
+
+//* Radix Select can't hold an empty value, so "any" stands for "every status"; the export schema drops it.
+const ANY = "any";
+
+//* A plain GET form: the clicked button picks the format and the browser downloads the file.
+//* Without a jobId the export covers all of the company's jobs.
+const ApplicantExportForm = ({ jobId }: { jobId?: number }) => {
+  return (
+    <form method="get" action="/employer/applicants/export" className="flex flex-wrap items-end gap-2">
+      {jobId && <input type="hidden" name="jobId" value={jobId} />}
+
+      <div className="space-y-2">
+        <Label htmlFor="export-status">Export applicants</Label>
+        <Select name="status" defaultValue={ANY}>
+          <SelectTrigger id="export-status" className="w-44">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ANY}>All statuses</SelectItem>
+            {Object.entries(APPLICATION_STATUS_LABELS).map(([value, label]) => (
+              <SelectItem key={value} value={value}>{label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {Object.entries(APPLICANT_EXPORT_FORMAT_LABELS).map(([value, label]) => (
+        <Button key={value} type="submit" name="format" value={value} variant="outline">
+          <Download className="w-4 h-4" />
+          {label}
+        </Button>
+      ))}
+    </form>
+  );
+};
+
+export default ApplicantExportForm;
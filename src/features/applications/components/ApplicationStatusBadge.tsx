@@ -0,0 +1,22 @@
+import { cn } from "@/lib/utils";
+import { APPLICATION_STATUS_LABELS, ApplicationStatus } from "../applications.constants";
+
+const STATUS_STYLES: Record<ApplicationStatus, string> = {
+  applied: "bg-muted text-muted-foreground",
+  screening: "bg-blue-100 text-blue-800 dark:bg-blue-950 dark:text-blue-200",
+  interview: "bg-violet-100 text-violet-800 dark:bg-violet-950 dark:text-violet-200",
+  offer: "bg-amber-100 text-amber-800 dark:bg-amber-950 dark:text-amber-200",
+  hired: "bg-green-100 text-green-800 dark:bg-green-950 dark:text-green-200",
+  rejected: "bg-destructive/10 text-destructive",
+  withdrawn: "bg-muted text-muted-foreground line-through",
+};
+
+const ApplicationStatusBadge = ({ status }: { status: ApplicationStatus }) => {
+  return (
+    <span className={cn("rounded-full px-2 py-0.5 text-xs font-medium", STATUS_STYLES[status])}>
+      {APPLICATION_STATUS_LABELS[status]}
+    </span>
+  );
+};
+
+export default ApplicationStatusBadge;
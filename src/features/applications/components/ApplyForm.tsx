@@ -0,0 +1,102 @@
+"use client"
+
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import React, { ChangeEvent, FormEvent, useState } from "react";
+import { toast } from "sonner";
+import { applyToJobAction } from "../server/applications.action";
+
+//* Radix Select can't hold an empty value, so "none" stands for "no uploaded resume".
+const NO_RESUME = "none";
+
+const ApplyForm = ({
+  jobId,
+  resumes,
+}: {
+  jobId: number;
+  resumes: { id: number; originalName: string }[];
+}) => {
+  const router = useRouter();
+  const [resumeId, setResumeId] = useState(resumes[0] ? String(resumes[0].id) : NO_RESUME);
+  const [coverLetter, setCoverLetter] = useState("");
+  const [resumeUrl, setResumeUrl] = useState("");
+  const [isPending, setIsPending] = useState(false);
+
+  const handleFormSubmit = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    setIsPending(true);
+
+    const result = await applyToJobAction({
+      jobId,
+      coverLetter,
+      resumeUrl: resumeUrl.trim(),
+      resumeId: resumeId === NO_RESUME ? null : Number(resumeId),
+    });
+
+    setIsPending(false);
+
+    if (result.status === "SUCCESS") {
+      toast.success(result.message);
+      router.refresh();
+    } else {
+      toast.error(result.message);
+    }
+  };
+
+  return (
+    <form className="space-y-4" onSubmit={handleFormSubmit}>
+      <div className="space-y-2">
+        <Label htmlFor="coverLetter">Cover Letter</Label>
+        <Textarea
+          id="coverLetter"
+          rows={6}
+          placeholder="Tell the employer why you're a great fit"
+          value={coverLetter}
+          onChange={(event: ChangeEvent<HTMLTextAreaElement>) => setCoverLetter(event.target.value)}
+        />
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="resumeId">Resume</Label>
+        <Select value={resumeId} onValueChange={setResumeId}>
+          <SelectTrigger id="resumeId" className="w-full">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={NO_RESUME}>No uploaded resume</SelectItem>
+            {resumes.map((resume) => (
+              <SelectItem key={resume.id} value={String(resume.id)}>
+                {resume.originalName}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <p className="text-xs text-muted-foreground">
+          <Link href="/dashboard/resumes" className="text-primary hover:underline">Manage your resumes</Link>
+        </p>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="resumeUrl">Or a Resume Link</Label>
+        <Input
+          id="resumeUrl"
+          type="url"
+          placeholder="https://..."
+          value={resumeUrl}
+          onChange={(event: ChangeEvent<HTMLInputElement>) => setResumeUrl(event.target.value)}
+        />
+      </div>
+
+      <Button type="submit" className="w-full" disabled={isPending}>
+        {isPending ? "Submitting..." : "Apply Now"}
+      </Button>
+    </form>
+  );
+};
+
+export default ApplyForm;
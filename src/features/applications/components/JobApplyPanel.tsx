@@ -0,0 +1,43 @@
+import { Button } from "@/components/ui/button";
+import { getCurrentUser } from "@/features/auth/server/auth.queries";
+import { getUserResumes } from "@/features/resumes/server/resumes.queries";
+import Link from "next/link";
+import { getApplicationForJob } from "../server/applications.queries";
+import ApplicationStatusBadge from "./ApplicationStatusBadge";
+import ApplyForm from "./ApplyForm";
+
+//* The "apply" area of a job page: sign-in prompt, apply form, or the existing application's status.
+const JobApplyPanel = async ({ jobId }: { jobId: number }) => {
+  const user = await getCurrentUser();
+
+  if (!user) {
+    return (
+      <Button asChild className="w-full">
+        <Link href="/login">Sign in to apply</Link>
+      </Button>
+    );
+  }
+
+  if (user.role !== "applicant") return null;
+
+  const application = await getApplicationForJob({ jobId, applicantId: user.id });
+
+  if (application) {
+    return (
+      <div className="flex items-center justify-between rounded-md border p-4 text-sm">
+        <span>
+          You applied on {application.createdAt.toLocaleDateString()} <ApplicationStatusBadge status={application.status} />
+        </span>
+        <Link href="/dashboard/applications" className="text-primary hover:underline">
+          View my applications
+        </Link>
+      </div>
+    );
+  }
+
+  const resumes = await getUserResumes(user.id);
+
+  return <ApplyForm jobId={jobId} resumes={resumes} />;
+};
+
+export default JobApplyPanel;
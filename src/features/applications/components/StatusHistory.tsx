@@ -0,0 +1,25 @@
+import { APPLICATION_STATUS_LABELS, ApplicationStatus } from "../applications.constants";
+
+interface StatusHistoryEntry {
+  fromStatus: ApplicationStatus | null;
+  toStatus: ApplicationStatus;
+  note: string | null;
+  createdAt: Date;
+}
+
+const StatusHistory = ({ history }: { history: StatusHistoryEntry[] }) => {
+  return (
+    <ol className="space-y-1 border-l pl-4 text-sm">
+      {history.map((entry, index) => (
+        <li key={index} className="text-muted-foreground">
+          <span className="font-medium text-foreground">{APPLICATION_STATUS_LABELS[entry.toStatus]}</span>
+          {" · "}
+          {entry.createdAt.toLocaleString()}
+          {entry.note && <span className="block italic">&ldquo;{entry.note}&rdquo;</span>}
+        </li>
+      ))}
+    </ol>
+  );
+};
+
+export default StatusHistory;
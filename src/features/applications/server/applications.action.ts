@@ -0,0 +1,226 @@
+"use server"
+
+import { db } from "@/config/db";
+import { applications, applicationStatusHistory, conversations } from "@/drizzle/schema";
+import { getAuthorizedUser } from "@/features/auth/server/auth.queries";
+import { canManageJobs } from "@/features/companies/companies.constants";
+import { getCompanyMemberUserIds, getUserMembership } from "@/features/companies/server/companies.queries";
+import { getPublishedJobById } from "@/features/jobs/server/jobs.queries";
+import { createNotifications } from "@/features/notifications/server/notifications";
+import { getResumeById } from "@/features/resumes/server/resumes.queries";
+import { isDuplicateEntryError } from "@/lib/utils";
+import { and, eq, isNull } from "drizzle-orm";
+import { revalidatePath } from "next/cache";
+import {
+  APPLICATION_STATUS_LABELS,
+  ApplicationStatus,
+  canTransition,
+  CLOSED_APPLICATION_STATUSES,
+} from "../applications.constants";
+import {
+  ApplyToJobInput,
+  applyToJobSchema,
+  UpdateApplicationStatusInput,
+  updateApplicationStatusSchema,
+} from "../applications.schema";
+import { getApplicationForJob, getApplicationWithJob } from "./applications.queries";
+
+//* Every status change goes through here so the history table can never miss a transition.
+const changeApplicationStatus = async ({
+  applicationId,
+  from,
+  to,
+  changedBy,
+  note,
+}: {
+  applicationId: number;
+  from: ApplicationStatus;
+  to: ApplicationStatus;
+  changedBy: number;
+  note?: string;
+}) => {
+  return db.transaction(async (tx) => {
+    // guarded by the current status, so two people moving the same candidate can't both win
+    const [result] = await tx
+      .update(applications)
+      .set({ status: to })
+      .where(and(eq(applications.id, applicationId), eq(applications.status, from)));
+
+    if (result.affectedRows === 0) return false;
+
+    await tx.insert(applicationStatusHistory).values({
+      applicationId,
+      fromStatus: from,
+      toStatus: to,
+      changedBy,
+      note: note || null,
+    });
+
+    // a closed application ends the conversation about it; the thread stays readable
+    if (CLOSED_APPLICATION_STATUSES.includes(to)) {
+      await tx
+        .update(conversations)
+        .set({ archivedAt: new Date() })
+        .where(and(eq(conversations.applicationId, applicationId), isNull(conversations.archivedAt)));
+    }
+
+    return true;
+  });
+};
+
+export const applyToJobAction = async (formData: ApplyToJobInput) => {
+  try {
+    const user = await getAuthorizedUser("applicant");
+
+    if (!user) return { status: "ERROR", message: "Only applicants with a verified email can apply to jobs" };
+
+    const { data: validatedData, error } = applyToJobSchema.safeParse(formData);
+
+    if (error) return { status: "ERROR", message: error.issues[0].message };
+
+    const job = await getPublishedJobById(validatedData.jobId);
+
+    if (!job) return { status: "ERROR", message: "This job is no longer accepting applications" };
+
+    const existing = await getApplicationForJob({ jobId: validatedData.jobId, applicantId: user.id });
+
+    if (existing) return { status: "ERROR", message: "You have already applied to this job" };
+
+    if (validatedData.resumeId) {
+      const resume = await getResumeById(validatedData.resumeId);
+
+      if (!resume || resume.userId !== user.id || resume.deletedAt) {
+        return { status: "ERROR", message: "Please choose one of your uploaded resumes" };
+      }
+    }
+
+    await db.transaction(async (tx) => {
+      const [{ id }] = await tx
+        .insert(applications)
+        .values({
+          jobId: validatedData.jobId,
+          applicantId: user.id,
+          coverLetter: validatedData.coverLetter || null,
+          resumeUrl: validatedData.resumeUrl || null,
+          resumeId: validatedData.resumeId,
+        })
+        .$returningId();
+
+      await tx.insert(applicationStatusHistory).values({
+        applicationId: id,
+        fromStatus: null,
+        toStatus: "applied",
+        changedBy: user.id,
+      });
+    });
+
+    await createNotifications({
+      userIds: await getCompanyMemberUserIds({ companyId: job.company.id, managersOnly: true }),
+      type: "new_applicant",
+      title: `New applicant for ${job.job.title}`,
+      body: user.name,
+      url: `/employer/jobs/${validatedData.jobId}/applicants`,
+    });
+
+    revalidatePath(`/jobs/${validatedData.jobId}`);
+    revalidatePath("/dashboard/applications");
+
+    return { status: "SUCCESS", message: "Application submitted" };
+  } catch (error) {
+    // the unique (job_id, applicant_id) index catches double submits that race past the check above
+    if (isDuplicateEntryError(error)) {
+      return { status: "ERROR", message: "You have already applied to this job" };
+    }
+
+    console.error("Apply To Job Error:", error);
+    return { status: "ERROR", message: "Unknown Error Occured ! Please Try Again Later" };
+  }
+};
+
+export const withdrawApplicationAction = async (applicationId: number) => {
+  try {
+    const user = await getAuthorizedUser();
+
+    if (!user) return { status: "ERROR", message: "You must be logged in" };
+
+    const application = await getApplicationWithJob(applicationId);
+
+    if (!application || application.applicantId !== user.id) {
+      return { status: "ERROR", message: "Application not found" };
+    }
+
+    if (!canTransition({ from: application.status, to: "withdrawn", actorRole: "applicant" })) {
+      return { status: "ERROR", message: "This application can no longer be withdrawn" };
+    }
+
+    const isChanged = await changeApplicationStatus({
+      applicationId,
+      from: application.status,
+      to: "withdrawn",
+      changedBy: user.id,
+    });
+
+    if (!isChanged) return { status: "ERROR", message: "This application was just updated. Please refresh" };
+
+    revalidatePath("/dashboard/applications");
+
+    return { status: "SUCCESS", message: "Application withdrawn" };
+  } catch (error) {
+    console.error("Withdraw Application Error:", error);
+    return { status: "ERROR", message: "Unknown Error Occured ! Please Try Again Later" };
+  }
+};
+
+export const updateApplicationStatusAction = async (formData: UpdateApplicationStatusInput) => {
+  try {
+    const user = await getAuthorizedUser("employer");
+
+    if (!user) {
+      return { status: "ERROR", message: "Only employers can move candidates" };
+    }
+
+    const membership = await getUserMembership(user.id);
+
+    if (!membership || !canManageJobs(membership.role)) {
+      return { status: "ERROR", message: "Only company owners and recruiters can move candidates" };
+    }
+
+    const { data: validatedData, error } = updateApplicationStatusSchema.safeParse(formData);
+
+    if (error) return { status: "ERROR", message: error.issues[0].message };
+
+    const application = await getApplicationWithJob(validatedData.applicationId);
+
+    if (!application || application.companyId !== membership.company.id) {
+      return { status: "ERROR", message: "Application not found" };
+    }
+
+    if (!canTransition({ from: application.status, to: validatedData.status, actorRole: "employer" })) {
+      return { status: "ERROR", message: "That move is not allowed from the current stage" };
+    }
+
+    const isChanged = await changeApplicationStatus({
+      applicationId: application.id,
+      from: application.status,
+      to: validatedData.status,
+      changedBy: user.id,
+      note: validatedData.note,
+    });
+
+    if (!isChanged) return { status: "ERROR", message: "This application was just updated. Please refresh" };
+
+    await createNotifications({
+      userIds: [application.applicantId],
+      type: "application_status",
+      title: `Your application for ${application.jobTitle} is now: ${APPLICATION_STATUS_LABELS[validatedData.status]}`,
+      url: "/dashboard/applications",
+    });
+
+    revalidatePath(`/employer/jobs/${application.jobId}/applicants`);
+
+    return { status: "SUCCESS", message: "Candidate moved" };
+  } catch (error) {
+    console.error("Update Application Status Error:", error);
+    return { status: "ERROR", message: "Unknown Error Occured ! Please Try Again Later" };
+  }
+};
@@ -0,0 +1,173 @@
+import { db } from "@/config/db";
+import { applications, applicationStatusHistory, companies, jobs, users } from "@/drizzle/schema";
+import { and, asc, desc, eq, inArray, isNull, lt, notInArray } from "drizzle-orm";
+import { ApplicationStatus, CLOSED_APPLICATION_STATUSES } from "../applications.constants";
+
+const getStatusHistory = async (applicationIds: number[]) => {
+  if (applicationIds.length === 0) return [];
+
+  return db
+    .select({
+      applicationId: applicationStatusHistory.applicationId,
+      fromStatus: applicationStatusHistory.fromStatus,
+      toStatus: applicationStatusHistory.toStatus,
+      note: applicationStatusHistory.note,
+      createdAt: applicationStatusHistory.createdAt,
+    })
+    .from(applicationStatusHistory)
+    .where(inArray(applicationStatusHistory.applicationId, applicationIds))
+    .orderBy(asc(applicationStatusHistory.createdAt), asc(applicationStatusHistory.id));
+};
+
+const attachHistory = async <T extends { id: number }>(rows: T[]) => {
+  const history = await getStatusHistory(rows.map((row) => row.id));
+
+  return rows.map((row) => ({
+    ...row,
+    history: history.filter((entry) => entry.applicationId === row.id),
+  }));
+};
+
+export const getApplicantApplications = async (applicantId: number) => {
+  const rows = await db
+    .select({
+      id: applications.id,
+      status: applications.status,
+      createdAt: applications.createdAt,
+      updatedAt: applications.updatedAt,
+      jobId: jobs.id,
+      jobTitle: jobs.title,
+      jobStatus: jobs.status,
+      companyName: companies.name,
+      companySlug: companies.slug,
+    })
+    .from(applications)
+    .innerJoin(jobs, eq(jobs.id, applications.jobId))
+    .innerJoin(companies, eq(companies.id, jobs.companyId))
+    .where(and(eq(applications.applicantId, applicantId), isNull(jobs.deletedAt)))
+    .orderBy(desc(applications.updatedAt));
+
+  return attachHistory(rows);
+};
+
+export const getJobApplicants = async (jobId: number) => {
+  const rows = await db
+    .select({
+      id: applications.id,
+      status: applications.status,
+      coverLetter: applications.coverLetter,
+      resumeUrl: applications.resumeUrl,
+      resumeId: applications.resumeId,
+      createdAt: applications.createdAt,
+      applicantId: users.id,
+      applicantName: users.name,
+      applicantUserName: users.userName,
+    })
+    .from(applications)
+    .innerJoin(users, eq(users.id, applications.applicantId))
+    .where(and(eq(applications.jobId, jobId), isNull(users.deletedAt)))
+    .orderBy(desc(applications.createdAt));
+
+  return attachHistory(rows);
+};
+
+export const getApplicationForJob = async ({
+  jobId,
+  applicantId,
+}: {
+  jobId: number;
+  applicantId: number;
+}) => {
+  const [application] = await db
+    .select({ id: applications.id, status: applications.status, createdAt: applications.createdAt })
+    .from(applications)
+    .where(and(eq(applications.jobId, jobId), eq(applications.applicantId, applicantId)));
+
+  return application ?? null;
+};
+
+//* Loads an application together with the company that owns the job, for permission checks in actions.
+export const getApplicationWithJob = async (applicationId: number) => {
+  const [application] = await db
+    .select({
+      id: applications.id,
+      status: applications.status,
+      applicantId: applications.applicantId,
+      applicantName: users.name,
+      jobId: jobs.id,
+      jobTitle: jobs.title,
+      companyId: jobs.companyId,
+    })
+    .from(applications)
+    .innerJoin(jobs, eq(jobs.id, applications.jobId))
+    .innerJoin(users, eq(users.id, applications.applicantId))
+    .where(and(eq(applications.id, applicationId), isNull(users.deletedAt)));
+
+  return application ?? null;
+};
+
+//* Applicants still in the running for a job, e.g. to tell them it has closed.
+export const getOpenApplicantIds = async (jobId: number) => {
+  const rows = await db
+    .select({ applicantId: applications.applicantId })
+    .from(applications)
+    .innerJoin(users, eq(users.id, applications.applicantId))
+    .where(
+      and(
+        eq(applications.jobId, jobId),
+        notInArray(applications.status, CLOSED_APPLICATION_STATUSES),
+        isNull(users.deletedAt),
+      ),
+    );
+
+  return rows.map((row) => row.applicantId);
+};
+
+//* One page of a company's applications (optionally one job / one status), newest first, keyed by id so
+//* an export can walk through them in batches. Deleted accounts are left out, like on the applicants page.
+export const getApplicationsForExport = async ({
+  companyId,
+  jobId,
+  status,
+  beforeId,
+  limit,
+}: {
+  companyId: number;
+  jobId?: number;
+  status?: ApplicationStatus;
+  beforeId?: number;
+  limit: number;
+}) => {
+  const rows = await db
+    .select({
+      id: applications.id,
+      status: applications.status,
+      coverLetter: applications.coverLetter,
+      resumeUrl: applications.resumeUrl,
+      resumeId: applications.resumeId,
+      createdAt: applications.createdAt,
+      updatedAt: applications.updatedAt,
+      jobId: jobs.id,
+      jobTitle: jobs.title,
+      applicantId: users.id,
+      applicantName: users.name,
+      applicantUserName: users.userName,
+    })
+    .from(applications)
+    .innerJoin(jobs, eq(jobs.id, applications.jobId))
+    .innerJoin(users, eq(users.id, applications.applicantId))
+    .where(
+      and(
+        eq(jobs.companyId, companyId),
+        isNull(jobs.deletedAt),
+        isNull(users.deletedAt),
+        jobId ? eq(jobs.id, jobId) : undefined,
+        status ? eq(applications.status, status) : undefined,
+        beforeId ? lt(applications.id, beforeId) : undefined,
+      ),
+    )
+    .orderBy(desc(applications.id))
+    .limit(limit);
+
+  return attachHistory(rows);
+};
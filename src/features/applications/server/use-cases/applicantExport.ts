@@ -0,0 +1,136 @@
+import { APP_URL, APPLICANT_EXPORT_BATCH_SIZE } from "@/config/constant";
+import { WORK_MODE_LABELS } from "@/features/jobs/jobs.constants";
+import { PROFILE_LINK_TYPE_LABELS } from "@/features/profiles/profiles.constants";
+import { getApplicantProfileSummaries } from "@/features/profiles/server/profiles.queries";
+import { toCsvRow } from "@/lib/csv";
+import { createXlsx, XLSX_CONTENT_TYPE } from "@/lib/xlsx";
+import { APPLICATION_STATUS_LABELS, ApplicantExportFormat, ApplicationStatus } from "../../applications.constants";
+import { getApplicationsForExport } from "../applications.queries";
+
+//* Applicant export: walks a company's applications in batches (newest first) and streams them as CSV or
+//* XLSX, so even a large pipeline never has to be held in memory. One row per application.
+
+const HEADER = [
+  "Application ID",
+  "Job ID",
+  "Job Title",
+  "Applied At",
+  "Status",
+  "Last Updated",
+  "Applicant",
+  "Username",
+  "Profile URL",
+  "Headline",
+  "Skills",
+  "Desired Roles",
+  "Salary Expectation",
+  "Preferred Locations",
+  "Preferred Work Modes",
+  "Open To Relocation",
+  "Links",
+  "Cover Letter",
+  "Resume Link",
+  "Resume File",
+  "Status History",
+];
+
+export interface ApplicantExportFilters {
+  companyId: number;
+  jobId?: number;
+  status?: ApplicationStatus;
+}
+
+type ExportApplication = Awaited<ReturnType<typeof getApplicationsForExport>>[number];
+
+// "2024-03-01 10:00 Applied → Shortlisted (great fit); ..." — oldest first, like on the applicants page
+const formatHistory = (history: ExportApplication["history"]) =>
+  history
+    .map((entry) => {
+      const date = entry.createdAt.toISOString().slice(0, 16).replace("T", " ");
+      const change = entry.fromStatus
+        ? `${APPLICATION_STATUS_LABELS[entry.fromStatus]} → ${APPLICATION_STATUS_LABELS[entry.toStatus]}`
+        : APPLICATION_STATUS_LABELS[entry.toStatus];
+
+      return `${date} ${change}${entry.note ? ` (${entry.note})` : ""}`;
+    })
+    .join("; ");
+
+async function* exportRows(filters: ApplicantExportFilters) {
+  let beforeId: number | undefined;
+
+  while (true) {
+    const batch = await getApplicationsForExport({ ...filters, beforeId, limit: APPLICANT_EXPORT_BATCH_SIZE });
+
+    if (batch.length === 0) return;
+
+    const profiles = await getApplicantProfileSummaries([...new Set(batch.map((row) => row.applicantId))]);
+
+    for (const application of batch) {
+      const profile = profiles.get(application.applicantId);
+
+      yield [
+        application.id,
+        application.jobId,
+        application.jobTitle,
+        application.createdAt,
+        APPLICATION_STATUS_LABELS[application.status],
+        application.updatedAt,
+        application.applicantName,
+        application.applicantUserName,
+        `${APP_URL}/u/${application.applicantUserName}`,
+        profile?.headline,
+        profile?.skills.map((skill) => skill.name).join(", "),
+        profile?.desiredRoles.join(", "),
+        profile?.salaryExpectation ? `${profile.salaryExpectation} ${profile.salaryCurrency}` : "",
+        profile?.preferredLocations.join(", "),
+        profile?.preferredWorkModes.map((mode) => WORK_MODE_LABELS[mode]).join(", "),
+        profile ? (profile.openToRelocation ? "Yes" : "No") : "",
+        profile?.links.map((link) => `${PROFILE_LINK_TYPE_LABELS[link.type]}: ${link.url}`).join("; "),
+        application.coverLetter,
+        application.resumeUrl,
+        application.resumeId ? `${APP_URL}/resumes/${application.resumeId}/download` : "",
+        formatHistory(application.history),
+      ];
+    }
+
+    if (batch.length < APPLICANT_EXPORT_BATCH_SIZE) return;
+
+    beforeId = batch[batch.length - 1].id;
+  }
+}
+
+async function* toCsv(filters: ApplicantExportFilters) {
+  // the BOM makes Excel read the file as UTF-8
+  yield "\uFEFF" + toCsvRow(HEADER);
+
+  for await (const row of exportRows(filters)) yield toCsvRow(row);
+}
+
+const toReadableStream = (chunks: AsyncIterable<string | Buffer>) => {
+  const encoder = new TextEncoder();
+  const iterator = chunks[Symbol.asyncIterator]();
+
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      const { value, done } = await iterator.next();
+
+      if (done) controller.close();
+      else controller.enqueue(typeof value === "string" ? encoder.encode(value) : new Uint8Array(value));
+    },
+    async cancel() {
+      await iterator.return?.();
+    },
+  });
+};
+
+export const createApplicantExport = ({
+  format,
+  sheetName,
+  ...filters
+}: ApplicantExportFilters & { format: ApplicantExportFormat; sheetName: string }) =>
+  format === "xlsx"
+    ? {
+        contentType: XLSX_CONTENT_TYPE,
+        body: toReadableStream(createXlsx({ sheetName, header: HEADER, rows: exportRows(filters) })),
+      }
+    : { contentType: "text/csv; charset=utf-8", body: toReadableStream(toCsv(filters)) };
@@ -0,0 +1,60 @@
+//* Plain arrays (no drizzle/zod imports) so they can be shared by the DB schema, Zod schemas and client components.
+
+export const AUDIT_EVENT_TYPES = [
+  "auth.registered",
+  "auth.login_succeeded",
+  "auth.login_failed",
+  "auth.logout",
+  "auth.session_revoked",
+  "auth.password_reset_requested",
+  "auth.password_changed",
+  "auth.two_factor_enabled",
+  "auth.two_factor_disabled",
+  "auth.two_factor_failed",
+  "auth.recovery_code_used",
+  "auth.recovery_codes_regenerated",
+  "auth.account_linked",
+  "auth.account_unlinked",
+  "company.member_role_changed",
+  "company.api_key_created",
+  "company.api_key_revoked",
+  "company.applicants_exported",
+  "admin.user_role_changed",
+  "admin.user_suspended",
+  "admin.user_restored",
+  "admin.user_sessions_revoked",
+  "admin.login_unlocked",
+  "admin.audit_exported",
+] as const;
+
+export type AuditEventType = (typeof AUDIT_EVENT_TYPES)[number];
+
+export const AUDIT_EVENT_LABELS: Record<AuditEventType, string> = {
+  "auth.registered": "Registered",
+  "auth.login_succeeded": "Login succeeded",
+  "auth.login_failed": "Login failed",
+  "auth.logout": "Logged out",
+  "auth.session_revoked": "Session revoked",
+  "auth.password_reset_requested": "Password reset requested",
+  "auth.password_changed": "Password changed",
+  "auth.two_factor_enabled": "Two-factor enabled",
+  "auth.two_factor_disabled": "Two-factor disabled",
+  "auth.two_factor_failed": "Two-factor code rejected",
+  "auth.recovery_code_used": "Recovery code used",
+  "auth.recovery_codes_regenerated": "Recovery codes regenerated",
+  "auth.account_linked": "External account linked",
+  "auth.account_unlinked": "External account unlinked",
+  "company.member_role_changed": "Company role changed",
+  "company.api_key_created": "API key created",
+  "company.api_key_revoked": "API key revoked",
+  "company.applicants_exported": "Applicants exported",
+  "admin.user_role_changed": "User role changed",
+  "admin.user_suspended": "User suspended",
+  "admin.user_restored": "User restored",
+  "admin.user_sessions_revoked": "User signed out by admin",
+  "admin.login_unlocked": "Login unlocked",
+  "admin.audit_exported": "Audit log exported",
+};
+
+//* Flat values only, so every event renders the same way in the viewer and in one CSV column.
+export type AuditMetadata = Record<string, string | number | boolean | null>;
@@ -0,0 +1,31 @@
+import { z } from "zod";
+import { AUDIT_EVENT_TYPES } from "./audit.constants";
+
+//* Filters live in the URL (shared by the viewer and the CSV export link); bad values are dropped.
+export const auditEventSearchSchema = z.object({
+  type: z.enum(AUDIT_EVENT_TYPES).optional().catch(undefined),
+  q: z.string().trim().max(255).optional().catch(undefined),
+  ip: z.string().trim().max(255).optional().catch(undefined),
+  from: z.iso.date().optional().catch(undefined),
+  to: z.iso.date().optional().catch(undefined),
+  before: z.coerce.number().int().positive().optional().catch(undefined),
+});
+
+export type AuditEventSearchParams = z.infer<typeof auditEventSearchSchema>;
+
+export const parseAuditEventSearchParams = (raw: Record<string, string | string[] | undefined>) => {
+  const entries = Object.entries(raw)
+    .map(([key, value]) => [key, Array.isArray(value) ? value[0] : value] as const)
+    .filter(([, value]) => value !== undefined && value !== "");
+
+  return auditEventSearchSchema.parse(Object.fromEntries(entries));
+};
+
+//* Query string for the current filters without the page cursor, e.g. for the export link.
+export const getAuditFilterQuery = ({ before: _before, ...filters }: AuditEventSearchParams) => {
+  const query = new URLSearchParams();
+  for (const [key, value] of Object.entries(filters)) {
+    if (value !== undefined && value !== "") query.set(key, String(value));
+  }
+  return query.toString();
+};
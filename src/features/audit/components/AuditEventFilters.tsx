@@ -0,0 +1,62 @@
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import Link from "next/link";
+import { AUDIT_EVENT_LABELS } from "../audit.constants";
+import { AuditEventSearchParams } from "../audit.schema";
+
+//* Radix Select can't hold an empty value, so "any" stands for "no filter"; the search schema drops it.
+const ANY = "any";
+
+const AuditEventFilters = ({ params }: { params: AuditEventSearchParams }) => {
+  return (
+    <form method="get" action="/admin/audit" className="space-y-4">
+      <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-5">
+        <div className="space-y-2">
+          <Label htmlFor="type">Event</Label>
+          <Select name="type" defaultValue={params.type ?? ANY}>
+            <SelectTrigger id="type" className="w-full">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ANY}>All events</SelectItem>
+              {Object.entries(AUDIT_EVENT_LABELS).map(([value, label]) => (
+                <SelectItem key={value} value={value}>{label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="q">User</Label>
+          <Input id="q" name="q" defaultValue={params.q} placeholder="Email or username" />
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="ip">IP address</Label>
+          <Input id="ip" name="ip" defaultValue={params.ip} placeholder="Exact match" />
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="from">From</Label>
+          <Input id="from" name="from" type="date" defaultValue={params.from} />
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="to">To</Label>
+          <Input id="to" name="to" type="date" defaultValue={params.to} />
+        </div>
+      </div>
+
+      <div className="flex gap-2">
+        <Button type="submit">Filter</Button>
+        <Button asChild variant="ghost">
+          <Link href="/admin/audit">Reset</Link>
+        </Button>
+      </div>
+    </form>
+  );
+};
+
+export default AuditEventFilters;
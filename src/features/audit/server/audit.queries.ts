@@ -0,0 +1,75 @@
+import { AUDIT_EVENTS_PAGE_SIZE, AUDIT_EXPORT_MAX_ROWS } from "@/config/constant";
+import { db } from "@/config/db";
+import { auditEvents, users } from "@/drizzle/schema";
+import { escapeLikePattern } from "@/lib/utils";
+import { and, desc, eq, gte, like, lt, or, sql } from "drizzle-orm";
+import { alias } from "drizzle-orm/mysql-core";
+import { AuditEventSearchParams } from "../audit.schema";
+
+const actors = alias(users, "actors");
+const targets = alias(users, "targets");
+
+const addDays = (date: string, days: number) => {
+  const result = new Date(`${date}T00:00:00`);
+  result.setDate(result.getDate() + days);
+  return result;
+};
+
+//* "q" matches the actor or the target, and also the email typed into a failed login for an unknown account.
+const getAuditEventConditions = ({ type, q, ip, from, to, before }: AuditEventSearchParams) => {
+  const pattern = q ? `%${escapeLikePattern(q)}%` : null;
+
+  return and(
+    type ? eq(auditEvents.type, type) : undefined,
+    ip ? eq(auditEvents.ipAddress, ip) : undefined,
+    from ? gte(auditEvents.createdAt, addDays(from, 0)) : undefined,
+    to ? lt(auditEvents.createdAt, addDays(to, 1)) : undefined,
+    before ? lt(auditEvents.id, before) : undefined,
+    pattern
+      ? or(
+          like(actors.email, pattern),
+          like(actors.userName, pattern),
+          like(targets.email, pattern),
+          like(targets.userName, pattern),
+          like(sql`${auditEvents.metadata}->>'$.email'`, pattern),
+        )
+      : undefined,
+  );
+};
+
+const findAuditEvents = (params: AuditEventSearchParams, limit: number) => {
+  return db
+    .select({
+      id: auditEvents.id,
+      type: auditEvents.type,
+      actorId: auditEvents.actorId,
+      actorEmail: actors.email,
+      targetUserId: auditEvents.targetUserId,
+      targetEmail: targets.email,
+      ipAddress: auditEvents.ipAddress,
+      userAgent: auditEvents.userAgent,
+      metadata: auditEvents.metadata,
+      createdAt: auditEvents.createdAt,
+    })
+    .from(auditEvents)
+    .leftJoin(actors, eq(actors.id, auditEvents.actorId))
+    .leftJoin(targets, eq(targets.id, auditEvents.targetUserId))
+    .where(getAuditEventConditions(params))
+    .orderBy(desc(auditEvents.id))
+    .limit(limit);
+};
+
+export const getAuditEvents = async (params: AuditEventSearchParams) => {
+  const rows = await findAuditEvents(params, AUDIT_EVENTS_PAGE_SIZE + 1);
+
+  const hasMore = rows.length > AUDIT_EVENTS_PAGE_SIZE;
+  const page = rows.slice(0, AUDIT_EVENTS_PAGE_SIZE);
+
+  return { events: page, nextBefore: hasMore ? page.at(-1)?.id : undefined };
+};
+
+export type AuditEventRow = Awaited<ReturnType<typeof getAuditEvents>>["events"][number];
+
+export const getAuditEventsForExport = async (params: AuditEventSearchParams) => {
+  return findAuditEvents({ ...params, before: undefined }, AUDIT_EXPORT_MAX_ROWS);
+};
@@ -0,0 +1,40 @@
+import { db } from "@/config/db";
+import { auditEvents } from "@/drizzle/schema";
+import { getRequestMeta } from "@/features/auth/server/use-cases/sessions";
+import { AuditEventType, AuditMetadata } from "../audit.constants";
+
+//* Defence in depth: callers pick their metadata explicitly, but anything that looks like a credential
+//* is dropped here so a careless call site can't write one into the log.
+const SENSITIVE_KEY_PATTERN = /password|hash|token|secret|code/i;
+
+const sanitizeMetadata = (metadata: AuditMetadata) =>
+  Object.fromEntries(Object.entries(metadata).filter(([key]) => !SENSITIVE_KEY_PATTERN.test(key)));
+
+//* The only way rows get into audit_events. IP and user agent come from the current request.
+//* Never throws: a failed audit write must not fail the sign-in or admin action that triggered it.
+export const recordAuditEvent = async ({
+  type,
+  actorId = null,
+  targetUserId = null,
+  metadata = {},
+}: {
+  type: AuditEventType;
+  actorId?: number | null;
+  targetUserId?: number | null;
+  metadata?: AuditMetadata;
+}) => {
+  try {
+    const { ipAddress, userAgent } = await getRequestMeta();
+
+    await db.insert(auditEvents).values({
+      type,
+      actorId,
+      targetUserId,
+      ipAddress,
+      userAgent: userAgent.slice(0, 1000),
+      metadata: sanitizeMetadata(metadata),
+    });
+  } catch (error) {
+    console.error("Record Audit Event Error:", error);
+  }
+};
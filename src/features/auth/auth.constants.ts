@@ -0,0 +1,68 @@
+//* Shared by the proxy, server components and client components, so nothing server-only may be imported here.
+
+export const USER_ROLES = ["admin", "applicant", "employer"] as const;
+
+export type UserRole = (typeof USER_ROLES)[number];
+
+export const AUTH_ROUTES = ["/login", "/register"];
+
+//* Signed-in users whose email is not verified yet are held here until they click the link.
+export const VERIFY_EMAIL_ROUTE = "/verify-email";
+
+//* Second login step for accounts with two-factor authentication.
+export const TWO_FACTOR_LOGIN_ROUTE = "/login/two-factor";
+
+//* Enrolment and management of two-factor authentication; also where users whose role requires 2FA
+//* (TWO_FACTOR_REQUIRED_ROLES) are held until they have set it up.
+export const TWO_FACTOR_SETUP_ROUTE = "/two-factor";
+
+//* Where a sign-in with an external provider whose email matches an existing account waits for the
+//* user to confirm the link with their password.
+export const LINK_ACCOUNT_ROUTE = "/login/link-account";
+
+//* Lists the external accounts connected to the signed-in user.
+export const ACCOUNT_CONNECTIONS_ROUTE = "/account/connections";
+
+//* ?error= codes the OpenID Connect callback sends back to /login or /account/connections.
+export const OIDC_ERROR_MESSAGES: Record<string, string> = {
+  failed: "Sign-in with that provider failed. Please try again",
+  expired: "That sign-in took too long. Please try again",
+  unavailable: "This sign-in option isn't available",
+  email_required: "The provider didn't share an email address, so we can't create your account",
+  email_unverified:
+    "An account with this email already exists. Sign in with your password, then connect the provider from your account",
+  account_unavailable: "This account can't sign in",
+  already_linked: "That account is already connected to another user",
+  provider_linked: "You already have another account of this provider connected",
+};
+
+//* Where each role lands after signing in (and where it is bounced to when it opens someone else's area).
+export const ROLE_HOME_ROUTES: Record<UserRole, string> = {
+  admin: "/admin",
+  employer: "/employer",
+  applicant: "/dashboard",
+};
+
+//* Route prefix -> roles allowed to open it.
+export const ROLE_PROTECTED_ROUTES: Record<string, UserRole[]> = {
+  "/admin": ["admin"],
+  "/employer": ["employer"],
+  "/dashboard": ["applicant"],
+  "/account": ["admin", "applicant", "employer"],
+};
+
+export const getRoleHomeRoute = (role: UserRole | null | undefined) => {
+  return ROLE_HOME_ROUTES[role ?? "applicant"];
+};
+
+export const matchesRoute = (pathname: string, route: string) => {
+  return pathname === route || pathname.startsWith(`${route}/`);
+};
+
+export const getAllowedRoles = (pathname: string) => {
+  const route = Object.keys(ROLE_PROTECTED_ROUTES).find((prefix) =>
+    matchesRoute(pathname, prefix),
+  );
+
+  return route ? ROLE_PROTECTED_ROUTES[route] : null;
+};
@@ -67,3 +67,51 @@ export const loginUserSchema = z.object({
 });
 
 export type LoginUserData = z.infer<typeof loginUserSchema>;
+
+export const forgotPasswordSchema = loginUserSchema.pick({ email: true });
+
+export type ForgotPasswordData = z.infer<typeof forgotPasswordSchema>;
+
+export const resetPasswordSchema = z
+  .object({
+    token: z.string().trim().min(1, "Reset link is invalid"),
+    password: registerUserSchema.shape.password,
+    confirmPassword: z.string(),
+  })
+  .refine((data) => data.password === data.confirmPassword, {
+    message: "Passwords don't match",
+    path: ["confirmPassword"],
+  });
+
+export type ResetPasswordData = z.infer<typeof resetPasswordSchema>;
+
+//* A 6-digit code from the authenticator app or a recovery code: the second login step, turning 2FA off
+//* and generating new recovery codes.
+export const twoFactorCodeSchema = z.object({
+  code: z
+    .string()
+    .trim()
+    .min(1, "Please enter your authentication code")
+    .max(20, "Authentication code is too long"),
+});
+
+export type TwoFactorCodeData = z.infer<typeof twoFactorCodeSchema>;
+
+//* Enrolment is confirmed with the first code from the app; recovery codes don't exist yet.
+export const totpCodeSchema = z.object({
+  code: z
+    .string()
+    .trim()
+    .regex(/^\d{6}$/, "Enter the 6-digit code from your authenticator app"),
+});
+
+export type TotpCodeData = z.infer<typeof totpCodeSchema>;
+
+//* Proves ownership of the existing account before an external identity is linked to it. The code is
+//* only required (and checked) when the account has 2FA on.
+export const confirmAccountLinkSchema = z.object({
+  password: z.string().min(1, "Please enter your password"),
+  code: z.string().trim().optional(),
+});
+
+export type ConfirmAccountLinkData = z.infer<typeof confirmAccountLinkSchema>;
@@ -0,0 +1,35 @@
+import { Button } from "@/components/ui/button";
+import NotificationBell from "@/features/notifications/components/NotificationBell";
+import { Link2, MonitorSmartphone, ShieldCheck } from "lucide-react";
+import Link from "next/link";
+import { ACCOUNT_CONNECTIONS_ROUTE, TWO_FACTOR_SETUP_ROUTE } from "../auth.constants";
+import LogoutButton from "./LogoutButton";
+
+const AccountLinks = () => {
+  return (
+    <div className="flex flex-wrap gap-2">
+      <NotificationBell />
+      <Button asChild variant="outline">
+        <Link href="/account/sessions">
+          <MonitorSmartphone className="w-4 h-4" />
+          Active Sessions
+        </Link>
+      </Button>
+      <Button asChild variant="outline">
+        <Link href={TWO_FACTOR_SETUP_ROUTE}>
+          <ShieldCheck className="w-4 h-4" />
+          Two-Factor
+        </Link>
+      </Button>
+      <Button asChild variant="outline">
+        <Link href={ACCOUNT_CONNECTIONS_ROUTE}>
+          <Link2 className="w-4 h-4" />
+          Connected Accounts
+        </Link>
+      </Button>
+      <LogoutButton />
+    </div>
+  );
+};
+
+export default AccountLinks;
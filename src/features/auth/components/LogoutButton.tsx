@@ -0,0 +1,25 @@
+"use client"
+
+import { Button } from "@/components/ui/button";
+import { logoutUserAction } from "@/features/auth/server/auth.action";
+import { LogOut } from "lucide-react";
+import { useTransition } from "react";
+
+const LogoutButton = ({ className }: { className?: string }) => {
+  const [isPending, startTransition] = useTransition();
+
+  return (
+    <Button
+      type="button"
+      variant="outline"
+      className={className}
+      disabled={isPending}
+      onClick={() => startTransition(() => logoutUserAction())}
+    >
+      <LogOut className="w-4 h-4" />
+      {isPending ? "Logging out..." : "Logout"}
+    </Button>
+  );
+};
+
+export default LogoutButton;
@@ -14,9 +14,19 @@
 import { db } from '@/config/db';
 import { users } from '@/drizzle/schema';
 import  argon2  from 'argon2';
-import { eq, or } from 'drizzle-orm';
+import { and, eq, isNull, or } from 'drizzle-orm';
 import React from 'react'
-import { RegisterUserData, registerUserSchema } from '../auth.schema';
+import { ForgotPasswordData, forgotPasswordSchema, RegisterUserData, registerUserSchema, ResetPasswordData, resetPasswordSchema, TwoFactorCodeData, twoFactorCodeSchema } from '../auth.schema';
+import { TWO_FACTOR_LOGIN_ROUTE, TWO_FACTOR_SETUP_ROUTE, VERIFY_EMAIL_ROUTE } from '../auth.constants';
+import { createSessionAndSetCookies, deleteSessionCookie, getRequestMeta, invalidateSession } from './use-cases/sessions';
+import { clearFailedLogins, takeLoginAttempt, recordFailedLogin } from './use-cases/loginThrottle';
+import { getVerificationResendError, sendVerificationEmail } from './use-cases/emailVerification';
+import { requestPasswordReset, resetPassword } from './use-cases/passwordReset';
+import { createTwoFactorChallenge, deleteTwoFactorChallenge, getTwoFactorChallenge, getTwoFactorStatus, isTwoFactorEnabled, takeTwoFactorAttempt, verifyTwoFactorCode } from './use-cases/twoFactor';
+import { getPostLoginRoute } from './use-cases/signIn';
+import { getCurrentSession, getCurrentUser } from './auth.queries';
+import { redirect } from 'next/navigation';
+import { recordAuditEvent } from '@/features/audit/server/audit';
 
 const registrationAction = async (formData : RegisterUserData) => {
   try {
@@ -26,9 +36,9 @@ const registrationAction = async (formData : RegisterUserData) => {
 
       const {name , email , password , userName , role} = validatedData;
     
-      const [user] = await  db.select().from(users).where(or(eq(users.email , email) , eq(users.userName , userName)));
-      
-      console.log(user); 
+      // Deliberately not filtered by deletedAt: a suspended account keeps its email and username
+      // (the unique indexes still hold them), so it can be restored later.
+      const [user] = await  db.select({ email : users.email }).from(users).where(or(eq(users.email , email) , eq(users.userName , userName)));
 
       if(user){
          if(user.email === email){
@@ -45,11 +55,17 @@ const registrationAction = async (formData : RegisterUserData) => {
       }
 
       const hashPassword = await argon2.hash(password);
-      await db.insert(users).values({ name , email , password : hashPassword , userName , role })
+      const [{ id : userId }] = await db.insert(users).values({ name , email , password : hashPassword , userName , role }).$returningId();
+
+      await recordAuditEvent({ type : "auth.registered" , actorId : userId , targetUserId : userId , metadata : { role } });
+
+      await sendVerificationEmail({ id : userId , name , email });
+      await createSessionAndSetCookies(userId);
 
      return {
        status : "SUCCESS",
-       message : "Registration Completed Successfully",
+       message : "Registration Completed Successfully! Please check your email to verify your account",
+       redirectTo : VERIFY_EMAIL_ROUTE,
      }
     
   } catch (error) {
@@ -70,13 +86,21 @@ export const loginUserAction = async (formData : {
 } ) =>{
   try {
      const {email , password} = formData;
-     console.log("Inside th auth actions" , formData);
 
-     const [user] = await db.select().from(users).where(eq(users.email , email));
-     
-     console.log("Inside the auth actions" , user);
+     const { ipAddress } = await getRequestMeta();
+     const throttleError = await takeLoginAttempt({ email , ipAddress });
+
+     if(throttleError){
+        await recordAuditEvent({ type : "auth.login_failed" , metadata : { email , reason : "throttled" } });
+        return { status : "ERROR" , message : throttleError };
+     }
+
+     // Suspended accounts get the same answer as unknown ones
+     const [user] = await db.select().from(users).where(and(eq(users.email , email) , isNull(users.deletedAt)));
 
      if(!user){
+         await recordFailedLogin({ email , ipAddress });
+         await recordAuditEvent({ type : "auth.login_failed" , metadata : { email , reason : "unknown_account" } });
          return {
              status : "ERROR",
              message : "Invalid email or password",
@@ -87,6 +111,7 @@ export const loginUserAction = async (formData : {
     // This prevents the "pchstr must contain a $" crash if DB has plain text passwords
     if (!user.password || !user.password.startsWith('$')) {
       console.error("Invalid password hash in DB for user:", email);
+      await recordAuditEvent({ type : "auth.login_failed" , targetUserId : user.id , metadata : { email , reason : "invalid_stored_password" } });
       return {
         status: "ERROR",
         message: "Invalid email or password",
@@ -96,12 +121,31 @@ export const loginUserAction = async (formData : {
     const isValidPassword = await argon2.verify(user.password , password);
 
     if(isValidPassword){
+       // No session yet: the failed-login counter is only cleared once the code checks out too,
+       // so guessing codes counts towards the same lockout as guessing passwords.
+       if(await isTwoFactorEnabled(user.id)){
+          await createTwoFactorChallenge(user.id);
+
+          return {
+            status : "SUCCESS",
+            message : "Enter the code from your authenticator app",
+            redirectTo : TWO_FACTOR_LOGIN_ROUTE,
+          }
+       }
+
+       await clearFailedLogins({ email , ipAddress });
+       await createSessionAndSetCookies(user.id);
+       await recordAuditEvent({ type : "auth.login_succeeded" , actorId : user.id , targetUserId : user.id });
+
        return {
         status : "SUCCESS",
         message : "Login Successful",
+        redirectTo : getPostLoginRoute({ ...user , hasTwoFactor : false }),
        }
     }
     else{
+      await recordFailedLogin({ email , ipAddress });
+      await recordAuditEvent({ type : "auth.login_failed" , targetUserId : user.id , metadata : { email , reason : "wrong_password" } });
       return {
              status : "ERROR",
              message : "Invalid email or password",
@@ -115,4 +159,159 @@ export const loginUserAction = async (formData : {
        message : "Unknown Error Occured ! Please Try Again Later",
      }
   }
-}
\ No newline at end of file
+}
+
+//* Second login step: a code from the authenticator app or a recovery code, checked against the pending
+//* login created by loginUserAction. Only now is the session issued.
+export const verifyTwoFactorLoginAction = async (formData : TwoFactorCodeData) => {
+  try {
+    const {data : validatedData , error} = twoFactorCodeSchema.safeParse(formData);
+
+    if(error) return {status : "ERROR" , message : error.issues[0].message};
+
+    const challenge = await getTwoFactorChallenge();
+
+    if(!challenge){
+      return { status : "ERROR" , message : "Your sign-in has expired. Please enter your password again" , redirectTo : "/login" };
+    }
+
+    const { user } = challenge;
+    const { ipAddress } = await getRequestMeta();
+    const throttleError = await takeLoginAttempt({ email : user.email , ipAddress });
+
+    if(throttleError) return { status : "ERROR" , message : throttleError };
+
+    if(!(await takeTwoFactorAttempt(challenge.id))){
+      return { status : "ERROR" , message : "Too many invalid codes. Please sign in again" , redirectTo : "/login" };
+    }
+
+    const method = await verifyTwoFactorCode({ userId : user.id , code : validatedData.code });
+
+    if(!method){
+      await recordFailedLogin({ email : user.email , ipAddress });
+      await recordAuditEvent({ type : "auth.two_factor_failed" , targetUserId : user.id , metadata : { email : user.email } });
+
+      return { status : "ERROR" , message : "Invalid authentication code" };
+    }
+
+    await deleteTwoFactorChallenge(challenge.id);
+    await clearFailedLogins({ email : user.email , ipAddress });
+    await createSessionAndSetCookies(user.id);
+    await recordAuditEvent({ type : "auth.login_succeeded" , actorId : user.id , targetUserId : user.id , metadata : { method } });
+
+    if(method === "recovery_code"){
+      const { remainingRecoveryCodes } = await getTwoFactorStatus(user.id);
+      await recordAuditEvent({ type : "auth.recovery_code_used" , actorId : user.id , targetUserId : user.id , metadata : { remaining : remainingRecoveryCodes } });
+
+      return {
+        status : "SUCCESS",
+        message : `Login Successful. ${remainingRecoveryCodes} recovery code(s) left`,
+        // with the last code gone, send them straight to where new ones are generated
+        redirectTo : remainingRecoveryCodes > 0 ? getPostLoginRoute({ ...user , hasTwoFactor : true }) : TWO_FACTOR_SETUP_ROUTE,
+      }
+    }
+
+    return {
+      status : "SUCCESS",
+      message : "Login Successful",
+      redirectTo : getPostLoginRoute({ ...user , hasTwoFactor : true }),
+    }
+  } catch (error) {
+    console.error("Two-Factor Login Error:", error);
+    return {
+      status : "ERROR",
+      message : "Unknown Error Occured ! Please Try Again Later",
+    }
+  }
+}
+
+export const logoutUserAction = async () => {
+  try {
+    const current = await getCurrentSession();
+
+    if(current){
+      await invalidateSession(current.session.id);
+      await recordAuditEvent({ type : "auth.logout" , actorId : current.user.id , targetUserId : current.user.id });
+    }
+
+    await deleteSessionCookie();
+  } catch (error) {
+    console.error("Logout Error:", error);
+  }
+
+  // redirect() throws, so it must stay outside the try/catch
+  redirect("/login");
+}
+
+export const resendVerificationEmailAction = async () => {
+  try {
+    const user = await getCurrentUser();
+
+    if(!user) return { status : "ERROR" , message : "You must be logged in" };
+
+    if(user.emailVerifiedAt) return { status : "ERROR" , message : "Your email is already verified" };
+
+    const resendError = await getVerificationResendError(user.id);
+
+    if(resendError) return { status : "ERROR" , message : resendError };
+
+    await sendVerificationEmail(user);
+
+    return {
+      status : "SUCCESS",
+      message : "Verification email sent",
+    }
+  } catch (error) {
+    console.error("Resend Verification Error:", error);
+    return {
+      status : "ERROR",
+      message : "Unknown Error Occured ! Please Try Again Later",
+    }
+  }
+}
+
+export const forgotPasswordAction = async (formData : ForgotPasswordData) => {
+  try {
+    const {data : validatedData , error} = forgotPasswordSchema.safeParse(formData);
+
+    if(error) return {status : "ERROR" , message : error.issues[0].message};
+
+    await requestPasswordReset(validatedData.email);
+  } catch (error) {
+    // Swallowed on purpose: the response must look the same whether or not the email exists.
+    console.error("Forgot Password Error:", error);
+  }
+
+  return {
+    status : "SUCCESS",
+    message : "If an account exists for that email, a reset link is on its way",
+  }
+}
+
+export const resetPasswordAction = async (formData : ResetPasswordData) => {
+  try {
+    const {data : validatedData , error} = resetPasswordSchema.safeParse(formData);
+
+    if(error) return {status : "ERROR" , message : error.issues[0].message};
+
+    const isReset = await resetPassword(validatedData);
+
+    if(!isReset){
+      return {
+        status : "ERROR",
+        message : "This reset link is invalid or has expired",
+      }
+    }
+
+    return {
+      status : "SUCCESS",
+      message : "Password updated. Please sign in with your new password",
+    }
+  } catch (error) {
+    console.error("Reset Password Error:", error);
+    return {
+      status : "ERROR",
+      message : "Unknown Error Occured ! Please Try Again Later",
+    }
+  }
+}
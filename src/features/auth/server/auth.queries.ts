@@ -0,0 +1,92 @@
+import { SESSION_COOKIE_NAME } from "@/config/constant";
+import { db } from "@/config/db";
+import { sessions } from "@/drizzle/schema";
+import { and, desc, eq, gt } from "drizzle-orm";
+import { cookies } from "next/headers";
+import { redirect } from "next/navigation";
+import { cache } from "react";
+import { getRoleHomeRoute, TWO_FACTOR_SETUP_ROUTE, UserRole, VERIFY_EMAIL_ROUTE } from "../auth.constants";
+import { setSessionCookie, validateSessionAndGetUser } from "./use-cases/sessions";
+import { isTwoFactorRequired } from "./use-cases/twoFactor";
+
+//* cache() dedupes the lookup so every server component in one request shares a single DB round trip.
+export const getCurrentSession = cache(async () => {
+  const cookieStore = await cookies();
+  const token = cookieStore.get(SESSION_COOKIE_NAME)?.value;
+
+  if (!token) return null;
+
+  const result = await validateSessionAndGetUser(token);
+
+  if (!result) return null;
+
+  if (result.isRefreshed) {
+    try {
+      await setSessionCookie(token);
+    } catch {
+      // Server components cannot write cookies; the next action or route handler will.
+    }
+  }
+
+  return { user: result.user, session: result.session };
+});
+
+export const getCurrentUser = cache(async () => {
+  const current = await getCurrentSession();
+  return current?.user ?? null;
+});
+
+export type CurrentUser = NonNullable<Awaited<ReturnType<typeof getCurrentUser>>>;
+
+//* Where a signed-in user who may not act as one of the given roles (any role when none are given) has to
+//* go first, or null when they may: the email must be verified, 2FA set up if the role requires it, and
+//* the role must match.
+const getAccessRedirect = (user: CurrentUser, roles: UserRole[]) => {
+  if (!user.emailVerifiedAt) return VERIFY_EMAIL_ROUTE;
+
+  if (isTwoFactorRequired(user.role) && !user.twoFactorEnabledAt) return TWO_FACTOR_SETUP_ROUTE;
+
+  if (roles.length > 0 && !roles.includes(user.role ?? "applicant")) return getRoleHomeRoute(user.role);
+
+  return null;
+};
+
+//* Server-side half of route protection: call at the top of a layout/page to make sure the
+//* visitor is signed in with one of the given roles (and has set up 2FA if their role requires it).
+//* Everyone else is redirected away.
+export const requireRole = async (...roles: UserRole[]) => {
+  const user = await getCurrentUser();
+
+  if (!user) redirect("/login");
+
+  const redirectTo = getAccessRedirect(user, roles);
+
+  if (redirectTo) redirect(redirectTo);
+
+  return user;
+};
+
+//* The same rules for server actions and route handlers, which neither the proxy nor layouts cover:
+//* returns the current user, or null when they aren't signed in or may not act as one of the roles.
+export const getAuthorizedUser = async (...roles: UserRole[]) => {
+  const user = await getCurrentUser();
+
+  if (!user || getAccessRedirect(user, roles)) return null;
+
+  return user;
+};
+
+export const getUserActiveSessions = async (userId: number) => {
+  return db
+    .select({
+      id: sessions.id,
+      userAgent: sessions.userAgent,
+      ipAddress: sessions.ipAddress,
+      createdAt: sessions.createdAt,
+      lastSeenAt: sessions.updatedAt,
+      expiresAt: sessions.expiresAt,
+    })
+    .from(sessions)
+    .where(and(eq(sessions.userId, userId), gt(sessions.expiresAt, new Date())))
+    .orderBy(desc(sessions.updatedAt));
+};
@@ -0,0 +1,145 @@
+"use server"
+
+import { db } from "@/config/db";
+import { userAccounts, users } from "@/drizzle/schema";
+import { recordAuditEvent } from "@/features/audit/server/audit";
+import { isDuplicateEntryError } from "@/lib/utils";
+import argon2 from "argon2";
+import { and, eq, isNull } from "drizzle-orm";
+import { revalidatePath } from "next/cache";
+import { ACCOUNT_CONNECTIONS_ROUTE, OIDC_ERROR_MESSAGES } from "../auth.constants";
+import { ConfirmAccountLinkData, confirmAccountLinkSchema } from "../auth.schema";
+import { getAuthorizedUser } from "./auth.queries";
+import { clearFailedLogins, takeLoginAttempt, recordFailedLogin } from "./use-cases/loginThrottle";
+import {
+  clearPendingAccountLink,
+  getPendingAccountLink,
+  hasProviderLinked,
+  linkUserAccount,
+} from "./use-cases/oidc";
+import { createSessionAndSetCookies, getRequestMeta } from "./use-cases/sessions";
+import { getPostLoginRoute } from "./use-cases/signIn";
+import { isTwoFactorEnabled, verifyTwoFactorCode } from "./use-cases/twoFactor";
+
+//* Second half of an email-matched external sign-in: the user proves they own the existing account with
+//* its password (and 2FA code), and only then is the provider identity linked and a session issued.
+//* Wrong answers count towards the regular login lockout.
+export const confirmAccountLinkAction = async (formData: ConfirmAccountLinkData) => {
+  try {
+    const { data: validatedData, error } = confirmAccountLinkSchema.safeParse(formData);
+
+    if (error) return { status: "ERROR", message: error.issues[0].message };
+
+    const pending = await getPendingAccountLink();
+
+    if (!pending) {
+      return { status: "ERROR", message: "Your sign-in has expired. Please try again", redirectTo: "/login" };
+    }
+
+    const [user] = await db
+      .select()
+      .from(users)
+      .where(and(eq(users.id, pending.userId), isNull(users.deletedAt)));
+
+    if (!user) {
+      await clearPendingAccountLink();
+      return { status: "ERROR", message: OIDC_ERROR_MESSAGES.account_unavailable, redirectTo: "/login" };
+    }
+
+    const { ipAddress } = await getRequestMeta();
+    const throttleError = await takeLoginAttempt({ email: user.email, ipAddress });
+
+    if (throttleError) return { status: "ERROR", message: throttleError };
+
+    const isValidPassword = user.password.startsWith("$") && (await argon2.verify(user.password, validatedData.password));
+
+    if (!isValidPassword) {
+      await recordFailedLogin({ email: user.email, ipAddress });
+      await recordAuditEvent({
+        type: "auth.login_failed",
+        targetUserId: user.id,
+        metadata: { email: user.email, reason: "wrong_password", provider: pending.provider },
+      });
+      return { status: "ERROR", message: "Invalid password" };
+    }
+
+    const hasTwoFactor = await isTwoFactorEnabled(user.id);
+
+    if (hasTwoFactor) {
+      if (!validatedData.code) return { status: "ERROR", message: "Please enter your authentication code" };
+
+      const method = await verifyTwoFactorCode({ userId: user.id, code: validatedData.code });
+
+      if (!method) {
+        await recordFailedLogin({ email: user.email, ipAddress });
+        await recordAuditEvent({ type: "auth.two_factor_failed", targetUserId: user.id, metadata: { email: user.email } });
+        return { status: "ERROR", message: "Invalid authentication code" };
+      }
+    }
+
+    await clearPendingAccountLink();
+
+    if (await hasProviderLinked({ userId: user.id, provider: pending.provider })) {
+      return { status: "ERROR", message: OIDC_ERROR_MESSAGES.provider_linked, redirectTo: "/login" };
+    }
+
+    try {
+      await linkUserAccount({ ...pending, userId: user.id });
+    } catch (error) {
+      if (isDuplicateEntryError(error)) {
+        return { status: "ERROR", message: OIDC_ERROR_MESSAGES.already_linked, redirectTo: "/login" };
+      }
+      throw error;
+    }
+
+    await clearFailedLogins({ email: user.email, ipAddress });
+    await createSessionAndSetCookies(user.id);
+    await recordAuditEvent({
+      type: "auth.login_succeeded",
+      actorId: user.id,
+      targetUserId: user.id,
+      metadata: { method: "oidc", provider: pending.provider },
+    });
+
+    return {
+      status: "SUCCESS",
+      message: "Account connected. Login Successful",
+      redirectTo: getPostLoginRoute({ ...user, hasTwoFactor }),
+    };
+  } catch (error) {
+    console.error("Confirm Account Link Error:", error);
+    return { status: "ERROR", message: "Unknown Error Occured ! Please Try Again Later" };
+  }
+};
+
+export const unlinkAccountAction = async (accountId: number) => {
+  try {
+    const user = await getAuthorizedUser();
+
+    if (!user) return { status: "ERROR", message: "You must be logged in" };
+
+    const [account] = await db
+      .select({ provider: userAccounts.provider })
+      .from(userAccounts)
+      .where(and(eq(userAccounts.id, accountId), eq(userAccounts.userId, user.id)));
+
+    if (!account) return { status: "ERROR", message: "Connection not found" };
+
+    // Scoped to the current user so nobody can remove someone else's connection by id.
+    await db.delete(userAccounts).where(and(eq(userAccounts.id, accountId), eq(userAccounts.userId, user.id)));
+
+    await recordAuditEvent({
+      type: "auth.account_unlinked",
+      actorId: user.id,
+      targetUserId: user.id,
+      metadata: { provider: account.provider },
+    });
+
+    revalidatePath(ACCOUNT_CONNECTIONS_ROUTE);
+
+    return { status: "SUCCESS", message: "Account disconnected" };
+  } catch (error) {
+    console.error("Unlink Account Error:", error);
+    return { status: "ERROR", message: "Unknown Error Occured ! Please Try Again Later" };
+  }
+};
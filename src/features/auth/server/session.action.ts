@@ -0,0 +1,69 @@
+"use server"
+
+import { db } from "@/config/db";
+import { sessions } from "@/drizzle/schema";
+import { recordAuditEvent } from "@/features/audit/server/audit";
+import { and, eq } from "drizzle-orm";
+import { revalidatePath } from "next/cache";
+import { getCurrentSession } from "./auth.queries";
+import { invalidateUserSessions } from "./use-cases/sessions";
+
+//* Deleting the row is enough to revoke a session: every request re-validates the cookie
+//* against the sessions table, so the revoked device is signed out on its very next request.
+
+export const revokeSessionAction = async (sessionId: string) => {
+  try {
+    const current = await getCurrentSession();
+
+    if (!current) return { status: "ERROR", message: "You must be logged in" };
+
+    if (current.session.id === sessionId) {
+      return { status: "ERROR", message: "Use Logout to end the current session" };
+    }
+
+    // Scoped to the current user so nobody can revoke someone else's session by id.
+    const [result] = await db
+      .delete(sessions)
+      .where(and(eq(sessions.id, sessionId), eq(sessions.userId, current.user.id)));
+
+    if (result.affectedRows > 0) {
+      await recordAuditEvent({
+        type: "auth.session_revoked",
+        actorId: current.user.id,
+        targetUserId: current.user.id,
+        metadata: { scope: "single" },
+      });
+    }
+
+    revalidatePath("/account/sessions");
+
+    return { status: "SUCCESS", message: "Session revoked" };
+  } catch (error) {
+    console.error("Revoke Session Error:", error);
+    return { status: "ERROR", message: "Unknown Error Occured ! Please Try Again Later" };
+  }
+};
+
+export const revokeOtherSessionsAction = async () => {
+  try {
+    const current = await getCurrentSession();
+
+    if (!current) return { status: "ERROR", message: "You must be logged in" };
+
+    await invalidateUserSessions(current.user.id, { exceptSessionId: current.session.id });
+
+    await recordAuditEvent({
+      type: "auth.session_revoked",
+      actorId: current.user.id,
+      targetUserId: current.user.id,
+      metadata: { scope: "others" },
+    });
+
+    revalidatePath("/account/sessions");
+
+    return { status: "SUCCESS", message: "Signed out of all other devices" };
+  } catch (error) {
+    console.error("Revoke Sessions Error:", error);
+    return { status: "ERROR", message: "Unknown Error Occured ! Please Try Again Later" };
+  }
+};
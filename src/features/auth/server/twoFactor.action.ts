@@ -0,0 +1,152 @@
+"use server"
+
+import { recordAuditEvent } from "@/features/audit/server/audit";
+import { revalidatePath } from "next/cache";
+import { TWO_FACTOR_SETUP_ROUTE } from "../auth.constants";
+import { TotpCodeData, totpCodeSchema, TwoFactorCodeData, twoFactorCodeSchema } from "../auth.schema";
+import { getCurrentUser } from "./auth.queries";
+import { clearFailedLogins, takeLoginAttempt, recordFailedLogin } from "./use-cases/loginThrottle";
+import { getRequestMeta } from "./use-cases/sessions";
+import {
+  confirmTwoFactorEnrolment,
+  disableTwoFactor,
+  isTwoFactorRequired,
+  regenerateRecoveryCodes,
+  startTwoFactorEnrolment,
+  verifyTwoFactorCode,
+} from "./use-cases/twoFactor";
+
+const getCurrentVerifiedUser = async () => {
+  const user = await getCurrentUser();
+  return user?.emailVerifiedAt ? user : null;
+};
+
+//* Wrong codes count towards the same per-account lockout as wrong passwords, so a hijacked session
+//* can't be used to brute-force the 6 digits either.
+const checkCode = async ({ user, code }: { user: { id: number; email: string }; code: string }) => {
+  const { ipAddress } = await getRequestMeta();
+  const throttleError = await takeLoginAttempt({ email: user.email, ipAddress });
+
+  if (throttleError) return { error: throttleError };
+
+  const method = await verifyTwoFactorCode({ userId: user.id, code });
+
+  if (!method) {
+    await recordFailedLogin({ email: user.email, ipAddress });
+    await recordAuditEvent({ type: "auth.two_factor_failed", actorId: user.id, targetUserId: user.id });
+    return { error: "Invalid authentication code" };
+  }
+
+  await clearFailedLogins({ email: user.email, ipAddress });
+
+  return { method };
+};
+
+//* Creates a new secret and returns it with its QR code; nothing is enforced until it is confirmed.
+export const startTwoFactorSetupAction = async () => {
+  try {
+    const user = await getCurrentVerifiedUser();
+
+    if (!user) return { status: "ERROR", message: "You must be logged in" };
+
+    const enrolment = await startTwoFactorEnrolment({ userId: user.id, email: user.email });
+
+    if (!enrolment) return { status: "ERROR", message: "Two-factor authentication is already on" };
+
+    return {
+      status: "SUCCESS",
+      message: "Scan the QR code with your authenticator app",
+      secret: enrolment.secret,
+      qrCodeSvg: enrolment.qrCodeSvg,
+    };
+  } catch (error) {
+    console.error("Start Two-Factor Setup Error:", error);
+    return { status: "ERROR", message: "Unknown Error Occured ! Please Try Again Later" };
+  }
+};
+
+//* The first code proves the app was set up correctly; only then is 2FA switched on. The recovery codes
+//* are returned this once and never shown again.
+export const confirmTwoFactorSetupAction = async (formData: TotpCodeData) => {
+  try {
+    const user = await getCurrentVerifiedUser();
+
+    if (!user) return { status: "ERROR", message: "You must be logged in" };
+
+    const { data: validatedData, error } = totpCodeSchema.safeParse(formData);
+
+    if (error) return { status: "ERROR", message: error.issues[0].message };
+
+    const recoveryCodes = await confirmTwoFactorEnrolment({ userId: user.id, code: validatedData.code });
+
+    if (!recoveryCodes) return { status: "ERROR", message: "Invalid code. Check your app and try again" };
+
+    await recordAuditEvent({ type: "auth.two_factor_enabled", actorId: user.id, targetUserId: user.id });
+
+    revalidatePath(TWO_FACTOR_SETUP_ROUTE);
+
+    return { status: "SUCCESS", message: "Two-factor authentication is on", recoveryCodes };
+  } catch (error) {
+    console.error("Confirm Two-Factor Setup Error:", error);
+    return { status: "ERROR", message: "Unknown Error Occured ! Please Try Again Later" };
+  }
+};
+
+export const disableTwoFactorAction = async (formData: TwoFactorCodeData) => {
+  try {
+    const user = await getCurrentVerifiedUser();
+
+    if (!user) return { status: "ERROR", message: "You must be logged in" };
+
+    if (isTwoFactorRequired(user.role)) {
+      return { status: "ERROR", message: "Two-factor authentication is required for your account" };
+    }
+
+    const { data: validatedData, error } = twoFactorCodeSchema.safeParse(formData);
+
+    if (error) return { status: "ERROR", message: error.issues[0].message };
+
+    const result = await checkCode({ user, code: validatedData.code });
+
+    if (result.error) return { status: "ERROR", message: result.error };
+
+    await disableTwoFactor(user.id);
+    await recordAuditEvent({ type: "auth.two_factor_disabled", actorId: user.id, targetUserId: user.id });
+
+    revalidatePath(TWO_FACTOR_SETUP_ROUTE);
+
+    return { status: "SUCCESS", message: "Two-factor authentication is off" };
+  } catch (error) {
+    console.error("Disable Two-Factor Error:", error);
+    return { status: "ERROR", message: "Unknown Error Occured ! Please Try Again Later" };
+  }
+};
+
+//* Replaces all recovery codes, used or not; the old ones stop working immediately.
+export const regenerateRecoveryCodesAction = async (formData: TwoFactorCodeData) => {
+  try {
+    const user = await getCurrentVerifiedUser();
+
+    if (!user) return { status: "ERROR", message: "You must be logged in" };
+
+    if (!user.twoFactorEnabledAt) return { status: "ERROR", message: "Two-factor authentication is off" };
+
+    const { data: validatedData, error } = twoFactorCodeSchema.safeParse(formData);
+
+    if (error) return { status: "ERROR", message: error.issues[0].message };
+
+    const result = await checkCode({ user, code: validatedData.code });
+
+    if (result.error) return { status: "ERROR", message: result.error };
+
+    const recoveryCodes = await regenerateRecoveryCodes(user.id);
+    await recordAuditEvent({ type: "auth.recovery_codes_regenerated", actorId: user.id, targetUserId: user.id });
+
+    revalidatePath(TWO_FACTOR_SETUP_ROUTE);
+
+    return { status: "SUCCESS", message: "New recovery codes generated", recoveryCodes };
+  } catch (error) {
+    console.error("Regenerate Recovery Codes Error:", error);
+    return { status: "ERROR", message: "Unknown Error Occured ! Please Try Again Later" };
+  }
+};
@@ -0,0 +1,88 @@
+import {
+  APP_URL,
+  EMAIL_VERIFICATION_MAX_PER_HOUR,
+  EMAIL_VERIFICATION_RESEND_COOLDOWN,
+  EMAIL_VERIFICATION_TOKEN_LIFETIME,
+} from "@/config/constant";
+import { db } from "@/config/db";
+import { emailVerificationTokens, users } from "@/drizzle/schema";
+import { sendEmail } from "@/features/email/server/email";
+import { verificationEmail } from "@/features/email/templates";
+import { generateToken, hashToken } from "@/lib/token";
+import { and, count, desc, eq, gt } from "drizzle-orm";
+
+export const sendVerificationEmail = async (user: {
+  id: number;
+  name: string;
+  email: string;
+}) => {
+  const token = generateToken();
+
+  await db.insert(emailVerificationTokens).values({
+    userId: user.id,
+    tokenHash: hashToken(token),
+    expiresAt: new Date(Date.now() + EMAIL_VERIFICATION_TOKEN_LIFETIME * 1000),
+  });
+
+  const url = `${APP_URL}/verify-email/confirm?token=${token}`;
+
+  await sendEmail({ to: user.email, ...verificationEmail({ name: user.name, url }) });
+};
+
+//* Returns an error message when the user has asked for too many verification emails, otherwise null.
+export const getVerificationResendError = async (userId: number) => {
+  const [latest] = await db
+    .select({ createdAt: emailVerificationTokens.createdAt })
+    .from(emailVerificationTokens)
+    .where(eq(emailVerificationTokens.userId, userId))
+    .orderBy(desc(emailVerificationTokens.createdAt))
+    .limit(1);
+
+  if (latest && Date.now() - latest.createdAt.getTime() < EMAIL_VERIFICATION_RESEND_COOLDOWN * 1000) {
+    return "Please wait a minute before requesting another email";
+  }
+
+  const [{ total }] = await db
+    .select({ total: count() })
+    .from(emailVerificationTokens)
+    .where(
+      and(
+        eq(emailVerificationTokens.userId, userId),
+        gt(emailVerificationTokens.createdAt, new Date(Date.now() - 60 * 60 * 1000)),
+      ),
+    );
+
+  if (total >= EMAIL_VERIFICATION_MAX_PER_HOUR) {
+    return "Too many verification emails requested. Please try again later";
+  }
+
+  return null;
+};
+
+//* Marks the owner of a valid, unexpired token as verified and burns all of their outstanding tokens.
+export const verifyEmailToken = async (token: string) => {
+  const [record] = await db
+    .select({ userId: emailVerificationTokens.userId })
+    .from(emailVerificationTokens)
+    .where(
+      and(
+        eq(emailVerificationTokens.tokenHash, hashToken(token)),
+        gt(emailVerificationTokens.expiresAt, new Date()),
+      ),
+    );
+
+  if (!record) return null;
+
+  await db.transaction(async (tx) => {
+    await tx
+      .update(users)
+      .set({ emailVerifiedAt: new Date() })
+      .where(eq(users.id, record.userId));
+
+    await tx
+      .delete(emailVerificationTokens)
+      .where(eq(emailVerificationTokens.userId, record.userId));
+  });
+
+  return record.userId;
+};
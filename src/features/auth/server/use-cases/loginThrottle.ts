@@ -0,0 +1,127 @@
+import {
+  LOGIN_ACCOUNT_LOCKOUT_THRESHOLD,
+  LOGIN_ATTEMPT_WINDOW,
+  LOGIN_DELAY_AFTER_FAILURES,
+  LOGIN_IP_LOCKOUT_THRESHOLD,
+  LOGIN_LOCKOUT_DURATION,
+  LOGIN_MAX_DELAY,
+} from "@/config/constant";
+import { getRateLimitStore } from "@/lib/rateLimit";
+
+export const ACCOUNT_KEY_PREFIX = "login:account:";
+export const IP_KEY_PREFIX = "login:ip:";
+
+const accountKey = (email: string) => `${ACCOUNT_KEY_PREFIX}${email.toLowerCase()}`;
+const ipKey = (ipAddress: string) => `${IP_KEY_PREFIX}${ipAddress}`;
+
+//* 1s, 2s, 4s, ... after the first few failures, capped at LOGIN_MAX_DELAY.
+const getProgressiveDelay = (failures: number) => {
+  if (failures < LOGIN_DELAY_AFTER_FAILURES) return 0;
+  return Math.min(2 ** (failures - LOGIN_DELAY_AFTER_FAILURES), LOGIN_MAX_DELAY);
+};
+
+const getLockedMessage = (lockedUntil: number, now: number) => {
+  const waitSeconds = Math.ceil((lockedUntil - now) / 1000);
+
+  if (waitSeconds > LOGIN_MAX_DELAY) {
+    return `Too many failed login attempts. Please try again in ${Math.ceil(waitSeconds / 60)} minutes or reset your password`;
+  }
+
+  return `Too many failed login attempts. Please wait ${waitSeconds} seconds and try again`;
+};
+
+const getLatestLock = (entries: ({ lockedUntil: Date | null } | null)[]) =>
+  entries
+    .map((entry) => entry?.lockedUntil?.getTime() ?? 0)
+    .reduce((latest, value) => Math.max(latest, value), 0);
+
+//* Call before checking a password or code: takes one attempt from the account's and the IP address's
+//* budget and returns a user-facing error when either is used up or locked, otherwise null. Taking the
+//* attempt up front with the store's atomic increment means guesses sent in parallel are counted before
+//* any of them is verified, so at most the threshold gets through. The message is deliberately the same
+//* whether or not the account exists.
+export const takeLoginAttempt = async ({ email, ipAddress }: { email: string; ipAddress: string }) => {
+  const store = getRateLimitStore();
+  const now = new Date();
+
+  const keys = [accountKey(email), ipKey(ipAddress)];
+
+  // already locked: refused without counting, so the window isn't kept alive by a client hammering it
+  const lockedUntil = getLatestLock(await Promise.all(keys.map((key) => store.get(key))));
+  if (lockedUntil > now.getTime()) return getLockedMessage(lockedUntil, now.getTime());
+
+  const [account, ip] = await Promise.all(
+    keys.map((key) => store.increment(key, { windowSeconds: LOGIN_ATTEMPT_WINDOW, now })),
+  );
+
+  const overBudget = [
+    { entry: account, threshold: LOGIN_ACCOUNT_LOCKOUT_THRESHOLD },
+    { entry: ip, threshold: LOGIN_IP_LOCKOUT_THRESHOLD },
+  ].filter(({ entry, threshold }) => entry.count > threshold);
+
+  if (overBudget.length === 0) return null;
+
+  const until = new Date(now.getTime() + LOGIN_LOCKOUT_DURATION * 1000);
+  await Promise.all(overBudget.map(({ entry }) => store.lock(entry.key, until)));
+
+  return getLockedMessage(Math.max(until.getTime(), getLatestLock([account, ip])), now.getTime());
+};
+
+//* The attempt was already counted by takeLoginAttempt(); a failure adds the progressive delay, or the
+//* lockout once the threshold is reached.
+const lockAfterFailure = async (key: string, lockoutThreshold: number) => {
+  const store = getRateLimitStore();
+  const now = new Date();
+
+  const entry = await store.get(key);
+  if (!entry) return;
+
+  const lockSeconds =
+    entry.count >= lockoutThreshold ? LOGIN_LOCKOUT_DURATION : getProgressiveDelay(entry.count);
+
+  if (lockSeconds > 0) await store.lock(key, new Date(now.getTime() + lockSeconds * 1000));
+};
+
+export const recordFailedLogin = async ({
+  email,
+  ipAddress,
+}: {
+  email: string;
+  ipAddress: string;
+}) => {
+  await Promise.all([
+    lockAfterFailure(accountKey(email), LOGIN_ACCOUNT_LOCKOUT_THRESHOLD),
+    lockAfterFailure(ipKey(ipAddress), LOGIN_IP_LOCKOUT_THRESHOLD),
+  ]);
+};
+
+//* On success the account counter is cleared and the IP only gets this one attempt back; the rest of the
+//* IP counter decays with its window so one valid login cannot be used to reset an attacker's budget.
+export const clearFailedLogins = async ({ email, ipAddress }: { email: string; ipAddress: string }) => {
+  const store = getRateLimitStore();
+
+  await Promise.all([store.delete(accountKey(email)), store.decrement(ipKey(ipAddress))]);
+};
+
+export const getLockedLogins = async () => {
+  const store = getRateLimitStore();
+  const now = new Date();
+
+  const [accounts, ipAddresses] = await Promise.all([
+    store.listLocked(ACCOUNT_KEY_PREFIX, now),
+    store.listLocked(IP_KEY_PREFIX, now),
+  ]);
+
+  return [
+    ...accounts.map((entry) => ({ ...entry, type: "account" as const, subject: entry.key.slice(ACCOUNT_KEY_PREFIX.length) })),
+    ...ipAddresses.map((entry) => ({ ...entry, type: "ip" as const, subject: entry.key.slice(IP_KEY_PREFIX.length) })),
+  ];
+};
+
+//* Used by admins: clears the counter for a key returned by getLockedLogins().
+export const unlockLogin = async (key: string) => {
+  if (!key.startsWith(ACCOUNT_KEY_PREFIX) && !key.startsWith(IP_KEY_PREFIX)) return false;
+
+  await getRateLimitStore().delete(key);
+  return true;
+};
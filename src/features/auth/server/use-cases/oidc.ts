@@ -0,0 +1,328 @@
+import {
+  OIDC_FLOW_COOKIE_NAME,
+  OIDC_FLOW_LIFETIME,
+  OIDC_LINK_COOKIE_NAME,
+  OIDC_LINK_LIFETIME,
+} from "@/config/constant";
+import { db } from "@/config/db";
+import { userAccounts, users } from "@/drizzle/schema";
+import { recordAuditEvent } from "@/features/audit/server/audit";
+import { decrypt, encrypt } from "@/lib/encryption";
+import {
+  createOidcAttempt,
+  exchangeAuthorizationCode,
+  getAuthorizationUrl,
+  IdTokenClaims,
+  isEmailVerified,
+} from "@/lib/oidc";
+import { generateToken } from "@/lib/token";
+import { isDuplicateEntryError } from "@/lib/utils";
+import argon2 from "argon2";
+import { and, eq } from "drizzle-orm";
+import { cookies } from "next/headers";
+import { ACCOUNT_CONNECTIONS_ROUTE, LINK_ACCOUNT_ROUTE } from "../../auth.constants";
+import { getAuthorizedUser } from "../auth.queries";
+import { sendVerificationEmail } from "./emailVerification";
+import { getOidcProvider, getOidcRedirectUri, OidcProvider } from "./oidcProviders";
+import { finishSignIn } from "./signIn";
+
+//* Sign-in with an external OpenID Connect provider. The identity (provider + subject) is looked up in
+//* user_accounts; an unknown identity whose email belongs to an existing user is never linked silently,
+//* the user first has to prove they own that account (see LINK_ACCOUNT_ROUTE).
+
+//* "login" signs in (or signs up); "link" connects the provider to the signed-in user.
+export type OidcIntent = "login" | "link";
+
+interface OidcFlow {
+  provider: string;
+  intent: OidcIntent;
+  state: string;
+  nonce: string;
+  codeVerifier: string;
+  userId: number | null;
+}
+
+//* An external identity waiting for the owner of the matching account to confirm the link.
+export interface PendingAccountLink {
+  provider: string;
+  providerAccountId: string;
+  email: string;
+  userId: number;
+}
+
+const cookieOptions = (maxAge: number) =>
+  ({
+    httpOnly: true,
+    secure: process.env.NODE_ENV === "production",
+    // lax, not strict: the provider sends the browser back with a top-level GET
+    sameSite: "lax",
+    path: "/",
+    maxAge,
+  }) as const;
+
+//* Encrypted rather than signed: the PKCE verifier must stay secret until the token request.
+const readEncryptedCookie = async <T>(name: string): Promise<T | null> => {
+  const cookieStore = await cookies();
+  const value = cookieStore.get(name)?.value;
+
+  if (!value) return null;
+
+  try {
+    const { expiresAt, ...data } = JSON.parse(decrypt(value));
+    return expiresAt > Date.now() ? (data as T) : null;
+  } catch {
+    return null;
+  }
+};
+
+const writeEncryptedCookie = async (name: string, data: object, maxAge: number) => {
+  const cookieStore = await cookies();
+  const value = encrypt(JSON.stringify({ ...data, expiresAt: Date.now() + maxAge * 1000 }));
+
+  cookieStore.set(name, value, cookieOptions(maxAge));
+};
+
+const deleteCookie = async (name: string) => {
+  const cookieStore = await cookies();
+  cookieStore.delete(name);
+};
+
+//* Remembers state, nonce and the PKCE verifier for the callback and returns the provider's login URL.
+export const startOidcFlow = async ({
+  provider,
+  intent,
+  userId,
+}: {
+  provider: OidcProvider;
+  intent: OidcIntent;
+  userId: number | null;
+}) => {
+  const { state, nonce, codeVerifier, codeChallenge } = createOidcAttempt();
+
+  const flow: OidcFlow = { provider: provider.id, intent, state, nonce, codeVerifier, userId };
+  await writeEncryptedCookie(OIDC_FLOW_COOKIE_NAME, flow, OIDC_FLOW_LIFETIME);
+
+  return getAuthorizationUrl({
+    config: provider,
+    redirectUri: getOidcRedirectUri(provider.id),
+    state,
+    nonce,
+    codeChallenge,
+  });
+};
+
+//* The flow is single-use: it is read and dropped in one go, whatever the callback turns out to be.
+export const takeOidcFlow = async () => {
+  const flow = await readEncryptedCookie<OidcFlow>(OIDC_FLOW_COOKIE_NAME);
+  await deleteCookie(OIDC_FLOW_COOKIE_NAME);
+  return flow;
+};
+
+export const setPendingAccountLink = (link: PendingAccountLink) =>
+  writeEncryptedCookie(OIDC_LINK_COOKIE_NAME, link, OIDC_LINK_LIFETIME);
+
+export const getPendingAccountLink = () => readEncryptedCookie<PendingAccountLink>(OIDC_LINK_COOKIE_NAME);
+
+export const clearPendingAccountLink = () => deleteCookie(OIDC_LINK_COOKIE_NAME);
+
+export const findLinkedUser = async ({ provider, providerAccountId }: { provider: string; providerAccountId: string }) => {
+  const [result] = await db
+    .select({ accountId: userAccounts.id, user: users })
+    .from(userAccounts)
+    .innerJoin(users, eq(users.id, userAccounts.userId))
+    .where(and(eq(userAccounts.provider, provider), eq(userAccounts.providerAccountId, providerAccountId)));
+
+  return result ?? null;
+};
+
+export const markAccountUsed = async (accountId: number) => {
+  await db.update(userAccounts).set({ lastUsedAt: new Date() }).where(eq(userAccounts.id, accountId));
+};
+
+//* Callers check beforehand; the unique indexes still turn a race into a duplicate-entry error.
+export const linkUserAccount = async ({
+  userId,
+  provider,
+  providerAccountId,
+  email,
+}: {
+  userId: number;
+  provider: string;
+  providerAccountId: string;
+  email: string | null;
+}) => {
+  await db.insert(userAccounts).values({ userId, provider, providerAccountId, email, lastUsedAt: new Date() });
+
+  await recordAuditEvent({
+    type: "auth.account_linked",
+    actorId: userId,
+    targetUserId: userId,
+    metadata: { provider, email },
+  });
+};
+
+export const hasProviderLinked = async ({ userId, provider }: { userId: number; provider: string }) => {
+  const [account] = await db
+    .select({ id: userAccounts.id })
+    .from(userAccounts)
+    .where(and(eq(userAccounts.userId, userId), eq(userAccounts.provider, provider)));
+
+  return Boolean(account);
+};
+
+//* "jane.doe+jobs@example.com" -> "jane-doe-jobs", plus a random suffix when that's taken.
+const generateUserName = async (email: string) => {
+  const base = (email.split("@")[0].replace(/[^a-zA-Z0-9_-]+/g, "-").replace(/^-+|-+$/g, "") || "user").slice(0, 40);
+
+  for (const candidate of [base.padEnd(3, "0"), ...Array.from({ length: 5 }, () => `${base}-${generateToken(3)}`)]) {
+    const [existing] = await db.select({ id: users.id }).from(users).where(eq(users.userName, candidate));
+    if (!existing) return candidate;
+  }
+
+  return `user-${generateToken(8)}`;
+};
+
+//* Sign-up through a provider: a new applicant with an unusable random password (they can set one through
+//* "forgot password"). The email counts as verified only when the provider says so.
+export const createUserFromOidc = async ({ provider, claims }: { provider: OidcProvider; claims: IdTokenClaims }) => {
+  const email = claims.email!.toLowerCase();
+  const name = (claims.name || email.split("@")[0]).slice(0, 255);
+  const emailVerifiedAt = isEmailVerified(claims) ? new Date() : null;
+
+  const [{ id: userId }] = await db
+    .insert(users)
+    .values({
+      name,
+      email,
+      userName: await generateUserName(email),
+      password: await argon2.hash(generateToken()),
+      role: "applicant",
+      emailVerifiedAt,
+    })
+    .$returningId();
+
+  await recordAuditEvent({
+    type: "auth.registered",
+    actorId: userId,
+    targetUserId: userId,
+    metadata: { role: "applicant", provider: provider.id },
+  });
+
+  await linkUserAccount({ userId, provider: provider.id, providerAccountId: claims.sub, email });
+
+  if (!emailVerifiedAt) await sendVerificationEmail({ id: userId, name, email });
+
+  return { id: userId, role: "applicant" as const, emailVerifiedAt };
+};
+
+export const getUserAccounts = async (userId: number) => {
+  return db
+    .select({
+      id: userAccounts.id,
+      provider: userAccounts.provider,
+      email: userAccounts.email,
+      lastUsedAt: userAccounts.lastUsedAt,
+      createdAt: userAccounts.createdAt,
+    })
+    .from(userAccounts)
+    .where(eq(userAccounts.userId, userId));
+};
+
+//* Handles the provider's redirect back and returns where to send the browser: the signed-in area, the
+//* 2FA step, the link confirmation, or back to the login/connections page with ?error=<OIDC_ERROR_MESSAGES key>.
+export const completeOidcFlow = async ({
+  providerId,
+  searchParams,
+}: {
+  providerId: string;
+  searchParams: URLSearchParams;
+}) => {
+  const flow = await takeOidcFlow();
+  const provider = getOidcProvider(providerId);
+
+  const failureRoute = flow?.intent === "link" ? ACCOUNT_CONNECTIONS_ROUTE : "/login";
+  const fail = (error: string) => `${failureRoute}?error=${error}`;
+
+  if (!provider) return fail("unavailable");
+  if (!flow || flow.provider !== provider.id) return fail("expired");
+
+  // state ties the callback to the browser that started the flow (CSRF); the user may also just have cancelled
+  const code = searchParams.get("code");
+  if (searchParams.get("state") !== flow.state || searchParams.has("error") || !code) return fail("failed");
+
+  let claims: IdTokenClaims;
+
+  try {
+    claims = await exchangeAuthorizationCode({
+      config: provider,
+      code,
+      redirectUri: getOidcRedirectUri(provider.id),
+      codeVerifier: flow.codeVerifier,
+      nonce: flow.nonce,
+    });
+  } catch (error) {
+    console.error("OIDC Callback Error:", error);
+    return fail("failed");
+  }
+
+  const email = claims.email?.toLowerCase() ?? null;
+  const linked = await findLinkedUser({ provider: provider.id, providerAccountId: claims.sub });
+
+  if (flow.intent === "link") {
+    const user = await getAuthorizedUser();
+
+    // the session changed (or ended) since the flow started
+    if (!user || user.id !== flow.userId) return "/login";
+
+    if (linked) return linked.user.id === user.id ? ACCOUNT_CONNECTIONS_ROUTE : fail("already_linked");
+
+    if (await hasProviderLinked({ userId: user.id, provider: provider.id })) return fail("provider_linked");
+
+    try {
+      await linkUserAccount({ userId: user.id, provider: provider.id, providerAccountId: claims.sub, email });
+    } catch (error) {
+      if (isDuplicateEntryError(error)) return fail("already_linked");
+      throw error;
+    }
+
+    return ACCOUNT_CONNECTIONS_ROUTE;
+  }
+
+  const signInMetadata = { method: "oidc", provider: provider.id };
+
+  if (linked) {
+    if (linked.user.deletedAt) return fail("account_unavailable");
+
+    await markAccountUsed(linked.accountId);
+    return finishSignIn({ user: linked.user, metadata: signInMetadata });
+  }
+
+  if (!email) return fail("email_required");
+
+  const [existing] = await db.select().from(users).where(eq(users.email, email));
+
+  if (existing) {
+    if (existing.deletedAt) return fail("account_unavailable");
+
+    // an unverified address at the provider proves nothing about who owns the account here
+    if (!isEmailVerified(claims)) return fail("email_unverified");
+
+    await setPendingAccountLink({
+      provider: provider.id,
+      providerAccountId: claims.sub,
+      email,
+      userId: existing.id,
+    });
+
+    return LINK_ACCOUNT_ROUTE;
+  }
+
+  try {
+    const user = await createUserFromOidc({ provider, claims });
+    return finishSignIn({ user, metadata: signInMetadata });
+  } catch (error) {
+    // someone registered the same email or identity in the meantime
+    if (isDuplicateEntryError(error)) return fail("failed");
+    throw error;
+  }
+};
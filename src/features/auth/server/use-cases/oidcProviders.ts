@@ -0,0 +1,54 @@
+import { APP_URL } from "@/config/constant";
+import { MOCK_OIDC_CLIENT_ID, MOCK_OIDC_CLIENT_SECRET, MOCK_OIDC_ISSUER } from "@/lib/mockOidcProvider";
+import { OidcClientConfig } from "@/lib/oidc";
+
+//* Registry of OpenID Connect providers offered on the login page. A provider shows up once its client
+//* credentials are in the environment (OIDC_<ID>_CLIENT_ID / OIDC_<ID>_CLIENT_SECRET); the redirect URI to
+//* register with it is <APP_URL>/auth/oidc/<id>/callback. GitHub only speaks plain OAuth 2 (no ID token),
+//* so it can't be added here.
+
+export interface OidcProvider extends OidcClientConfig {
+  id: string;
+  name: string;
+}
+
+const fromEnvironment = ({ id, name, issuer }: { id: string; name: string; issuer: string }): OidcProvider | null => {
+  const prefix = `OIDC_${id.toUpperCase()}`;
+  const clientId = process.env[`${prefix}_CLIENT_ID`];
+
+  if (!clientId) return null;
+
+  return {
+    id,
+    name,
+    issuer,
+    clientId,
+    clientSecret: process.env[`${prefix}_CLIENT_SECRET`],
+    scopes: ["openid", "email", "profile"],
+  };
+};
+
+//* The built-in mock provider (/dev/oidc) so the whole flow can be tried locally without real credentials.
+const mockProvider: OidcProvider | null =
+  process.env.NODE_ENV === "production"
+    ? null
+    : {
+        id: "mock",
+        name: "Mock Provider",
+        issuer: MOCK_OIDC_ISSUER,
+        clientId: MOCK_OIDC_CLIENT_ID,
+        clientSecret: MOCK_OIDC_CLIENT_SECRET,
+        scopes: ["openid", "email", "profile"],
+      };
+
+const providers = [
+  fromEnvironment({ id: "google", name: "Google", issuer: "https://accounts.google.com" }),
+  fromEnvironment({ id: "linkedin", name: "LinkedIn", issuer: "https://www.linkedin.com/oauth" }),
+  mockProvider,
+].filter((provider): provider is OidcProvider => provider !== null);
+
+export const getOidcProviders = () => providers;
+
+export const getOidcProvider = (id: string) => providers.find((provider) => provider.id === id) ?? null;
+
+export const getOidcRedirectUri = (providerId: string) => `${APP_URL}/auth/oidc/${providerId}/callback`;
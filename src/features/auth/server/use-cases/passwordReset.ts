@@ -0,0 +1,89 @@
+import {
+  APP_URL,
+  PASSWORD_RESET_COOLDOWN,
+  PASSWORD_RESET_TOKEN_LIFETIME,
+} from "@/config/constant";
+import { db } from "@/config/db";
+import { passwordResetTokens, sessions, users } from "@/drizzle/schema";
+import { recordAuditEvent } from "@/features/audit/server/audit";
+import { sendEmail } from "@/features/email/server/email";
+import { passwordResetEmail } from "@/features/email/templates";
+import { generateToken, hashToken } from "@/lib/token";
+import argon2 from "argon2";
+import { and, eq, gt, isNull } from "drizzle-orm";
+
+export const requestPasswordReset = async (email: string) => {
+  const [user] = await db
+    .select({ id: users.id, name: users.name, email: users.email })
+    .from(users)
+    .where(and(eq(users.email, email), isNull(users.deletedAt)));
+
+  if (!user) return;
+
+  const [recentToken] = await db
+    .select({ id: passwordResetTokens.id })
+    .from(passwordResetTokens)
+    .where(
+      and(
+        eq(passwordResetTokens.userId, user.id),
+        gt(passwordResetTokens.createdAt, new Date(Date.now() - PASSWORD_RESET_COOLDOWN * 1000)),
+      ),
+    )
+    .limit(1);
+
+  if (recentToken) return;
+
+  const token = generateToken();
+
+  await db.insert(passwordResetTokens).values({
+    userId: user.id,
+    tokenHash: hashToken(token),
+    expiresAt: new Date(Date.now() + PASSWORD_RESET_TOKEN_LIFETIME * 1000),
+  });
+
+  const url = `${APP_URL}/reset-password?token=${token}`;
+
+  await sendEmail({ to: user.email, ...passwordResetEmail({ name: user.name, url }) });
+
+  // the requester isn't signed in, so there is no actor; the account is the target
+  await recordAuditEvent({ type: "auth.password_reset_requested", targetUserId: user.id });
+};
+
+export const findValidPasswordResetToken = async (token: string) => {
+  const [record] = await db
+    .select({ userId: passwordResetTokens.userId })
+    .from(passwordResetTokens)
+    .where(
+      and(
+        eq(passwordResetTokens.tokenHash, hashToken(token)),
+        gt(passwordResetTokens.expiresAt, new Date()),
+      ),
+    );
+
+  return record ?? null;
+};
+
+//* Sets the new password, burns every reset token of the user and signs them out everywhere,
+//* so whoever knew the old password loses access immediately.
+export const resetPassword = async ({ token, password }: { token: string; password: string }) => {
+  const record = await findValidPasswordResetToken(token);
+
+  if (!record) return false;
+
+  const hashPassword = await argon2.hash(password);
+
+  await db.transaction(async (tx) => {
+    await tx.update(users).set({ password: hashPassword }).where(eq(users.id, record.userId));
+    await tx.delete(passwordResetTokens).where(eq(passwordResetTokens.userId, record.userId));
+    await tx.delete(sessions).where(eq(sessions.userId, record.userId));
+  });
+
+  await recordAuditEvent({
+    type: "auth.password_changed",
+    actorId: record.userId,
+    targetUserId: record.userId,
+    metadata: { method: "reset_link" },
+  });
+
+  return true;
+};
@@ -0,0 +1,174 @@
+import { db } from "@/config/db";
+import {
+  SESSION_ACTIVITY_INTERVAL,
+  SESSION_COOKIE_NAME,
+  SESSION_LIFETIME,
+  SESSION_REFRESH_TIME,
+  TRUSTED_PROXY_HOPS,
+} from "@/config/constant";
+import { sessions, users, userTwoFactor } from "@/drizzle/schema";
+import { generateToken, hashToken } from "@/lib/token";
+import { and, eq, gt, isNull, ne } from "drizzle-orm";
+import { cookies, headers } from "next/headers";
+
+//* The cookie holds the random token; sessions.id holds its hash.
+
+export const generateSessionToken = () => generateToken();
+
+export const hashSessionToken = (token: string) => hashToken(token);
+
+//* The client IP feeds the per-IP login lockout and the audit log, so it must not be something the client
+//* picks. X-Forwarded-For is appended to hop by hop: only the last TRUSTED_PROXY_HOPS entries come from our
+//* own proxies, and the entry they appended for the client is the address we trust. Without a proxy, Next.js
+//* fills the header with the socket address itself (route code has no other way to see it); the last entry
+//* is then that address, or a spoofed value only where the client sent the header straight to the app.
+const getClientIp = (forwardedFor: string | null) => {
+  const addresses = (forwardedFor ?? "")
+    .split(",")
+    .map((address) => address.trim())
+    .filter(Boolean);
+
+  return addresses[addresses.length - Math.max(TRUSTED_PROXY_HOPS, 1)] ?? "0.0.0.0";
+};
+
+export const getRequestMeta = async () => {
+  const headerList = await headers();
+
+  const userAgent = headerList.get("user-agent") ?? "";
+  const ipAddress = getClientIp(headerList.get("x-forwarded-for"));
+
+  return { userAgent, ipAddress };
+};
+
+const createUserSession = async ({
+  token,
+  userId,
+  userAgent,
+  ipAddress,
+}: {
+  token: string;
+  userId: number;
+  userAgent: string;
+  ipAddress: string;
+}) => {
+  const hashedToken = hashSessionToken(token);
+
+  const [session] = await db
+    .insert(sessions)
+    .values({
+      id: hashedToken,
+      userId,
+      userAgent,
+      ipAddress,
+      expiresAt: new Date(Date.now() + SESSION_LIFETIME * 1000),
+    })
+    .$returningId();
+
+  return session;
+};
+
+export const SESSION_COOKIE_OPTIONS = {
+  httpOnly: true,
+  secure: process.env.NODE_ENV === "production",
+  sameSite: "lax",
+  path: "/",
+  maxAge: SESSION_LIFETIME,
+} as const;
+
+export const setSessionCookie = async (token: string) => {
+  const cookieStore = await cookies();
+
+  cookieStore.set(SESSION_COOKIE_NAME, token, SESSION_COOKIE_OPTIONS);
+};
+
+export const createSessionAndSetCookies = async (userId: number) => {
+  const token = generateSessionToken();
+  const { userAgent, ipAddress } = await getRequestMeta();
+
+  await createUserSession({ token, userId, userAgent, ipAddress });
+  await setSessionCookie(token);
+};
+
+export const validateSessionAndGetUser = async (token: string) => {
+  const hashedToken = hashSessionToken(token);
+
+  const [result] = await db
+    .select({
+      user: {
+        id: users.id,
+        name: users.name,
+        userName: users.userName,
+        email: users.email,
+        phoneNumber: users.phoneNumber,
+        role: users.role,
+        emailVerifiedAt: users.emailVerifiedAt,
+        twoFactorEnabledAt: userTwoFactor.enabledAt,
+        createdAt: users.createdAt,
+        updatedAt: users.updatedAt,
+      },
+      session: {
+        id: sessions.id,
+        userId: sessions.userId,
+        expiresAt: sessions.expiresAt,
+        userAgent: sessions.userAgent,
+        ipAddress: sessions.ipAddress,
+        updatedAt: sessions.updatedAt,
+      },
+    })
+    .from(sessions)
+    .innerJoin(users, eq(users.id, sessions.userId))
+    .leftJoin(userTwoFactor, eq(userTwoFactor.userId, users.id))
+    .where(
+      and(
+        eq(sessions.id, hashedToken),
+        gt(sessions.expiresAt, new Date()),
+        isNull(users.deletedAt),
+      ),
+    );
+
+  if (!result || !result.session.expiresAt) return null;
+
+  //* Sliding expiry: an active session is extended once it has used up half of its lifetime.
+  let isRefreshed = false;
+  if (result.session.expiresAt.getTime() - Date.now() < SESSION_REFRESH_TIME * 1000) {
+    const newExpiresAt = new Date(Date.now() + SESSION_LIFETIME * 1000);
+
+    await db
+      .update(sessions)
+      .set({ expiresAt: newExpiresAt })
+      .where(eq(sessions.id, result.session.id));
+
+    result.session.expiresAt = newExpiresAt;
+    isRefreshed = true;
+  } else if (Date.now() - result.session.updatedAt.getTime() > SESSION_ACTIVITY_INTERVAL * 1000) {
+    //* updatedAt doubles as "last seen"; it is only bumped every few minutes to avoid a write per request.
+    await db
+      .update(sessions)
+      .set({ updatedAt: new Date() })
+      .where(eq(sessions.id, result.session.id));
+  }
+
+  return { ...result, isRefreshed };
+};
+
+export const invalidateSession = async (sessionId: string) => {
+  await db.delete(sessions).where(eq(sessions.id, sessionId));
+};
+
+export const invalidateUserSessions = async (
+  userId: number,
+  { exceptSessionId }: { exceptSessionId?: string } = {},
+) => {
+  await db
+    .delete(sessions)
+    .where(
+      exceptSessionId
+        ? and(eq(sessions.userId, userId), ne(sessions.id, exceptSessionId))
+        : eq(sessions.userId, userId),
+    );
+};
+
+export const deleteSessionCookie = async () => {
+  const cookieStore = await cookies();
+  cookieStore.delete(SESSION_COOKIE_NAME);
+};
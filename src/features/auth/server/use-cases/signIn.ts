@@ -0,0 +1,47 @@
+import { recordAuditEvent } from "@/features/audit/server/audit";
+import { AuditMetadata } from "@/features/audit/audit.constants";
+import {
+  getRoleHomeRoute,
+  TWO_FACTOR_LOGIN_ROUTE,
+  TWO_FACTOR_SETUP_ROUTE,
+  UserRole,
+  VERIFY_EMAIL_ROUTE,
+} from "../../auth.constants";
+import { createSessionAndSetCookies } from "./sessions";
+import { createTwoFactorChallenge, isTwoFactorEnabled, isTwoFactorRequired } from "./twoFactor";
+
+//* Where a fresh session goes first: the email must be verified, and roles that require 2FA must set it up.
+export const getPostLoginRoute = ({
+  role,
+  emailVerifiedAt,
+  hasTwoFactor,
+}: {
+  role: UserRole | null;
+  emailVerifiedAt: Date | null;
+  hasTwoFactor: boolean;
+}) => {
+  if (!emailVerifiedAt) return VERIFY_EMAIL_ROUTE;
+  if (!hasTwoFactor && isTwoFactorRequired(role)) return TWO_FACTOR_SETUP_ROUTE;
+  return getRoleHomeRoute(role);
+};
+
+//* Last step of a sign-in once the first factor (password, external provider) checked out. Accounts with
+//* 2FA get a pending login and are sent to the code step; everyone else gets a session right away.
+//* Returns where to send the browser next.
+export const finishSignIn = async ({
+  user,
+  metadata,
+}: {
+  user: { id: number; role: UserRole | null; emailVerifiedAt: Date | null };
+  metadata?: AuditMetadata;
+}) => {
+  if (await isTwoFactorEnabled(user.id)) {
+    await createTwoFactorChallenge(user.id);
+    return TWO_FACTOR_LOGIN_ROUTE;
+  }
+
+  await createSessionAndSetCookies(user.id);
+  await recordAuditEvent({ type: "auth.login_succeeded", actorId: user.id, targetUserId: user.id, metadata });
+
+  return getPostLoginRoute({ ...user, hasTwoFactor: false });
+};
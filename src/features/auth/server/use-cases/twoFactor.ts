@@ -0,0 +1,231 @@
+import {
+  TWO_FACTOR_CHALLENGE_COOKIE_NAME,
+  TWO_FACTOR_CHALLENGE_LIFETIME,
+  TWO_FACTOR_ISSUER,
+  TWO_FACTOR_MAX_ATTEMPTS,
+  TWO_FACTOR_RECOVERY_CODE_COUNT,
+  TWO_FACTOR_REQUIRED_ROLES,
+} from "@/config/constant";
+import { db } from "@/config/db";
+import { twoFactorChallenges, twoFactorRecoveryCodes, userTwoFactor, users } from "@/drizzle/schema";
+import { decrypt, encrypt } from "@/lib/encryption";
+import { toQrCodeSvg } from "@/lib/qrCode";
+import { generateToken, hashToken } from "@/lib/token";
+import { generateTotpSecret, getTotpUri, verifyTotp } from "@/lib/totp";
+import crypto from "crypto";
+import { and, count, eq, gt, isNotNull, isNull, lt, or, sql } from "drizzle-orm";
+import { cookies } from "next/headers";
+import { UserRole } from "../../auth.constants";
+
+//* TOTP two-factor authentication: enrolment (secret + QR code, confirmed by a first code), one-time
+//* recovery codes, and the pending login that sits between the password and the code.
+
+export const isTwoFactorRequired = (role: UserRole | null | undefined) =>
+  TWO_FACTOR_REQUIRED_ROLES.includes(role ?? "applicant");
+
+//* "abcde-12345": 10 hex characters from a CSPRNG, easy to copy from a printout.
+const generateRecoveryCode = () => {
+  const hex = crypto.randomBytes(5).toString("hex");
+  return `${hex.slice(0, 5)}-${hex.slice(5)}`;
+};
+
+// codes are compared without the dash and case-insensitively, however they were typed
+const hashRecoveryCode = (code: string) => hashToken(code.toLowerCase().replace(/[^0-9a-f]/g, ""));
+
+export const getTwoFactorStatus = async (userId: number) => {
+  const [[record], [{ remaining }]] = await Promise.all([
+    db.select({ enabledAt: userTwoFactor.enabledAt }).from(userTwoFactor).where(eq(userTwoFactor.userId, userId)),
+    db
+      .select({ remaining: count() })
+      .from(twoFactorRecoveryCodes)
+      .where(and(eq(twoFactorRecoveryCodes.userId, userId), isNull(twoFactorRecoveryCodes.usedAt))),
+  ]);
+
+  return { enabledAt: record?.enabledAt ?? null, remainingRecoveryCodes: remaining };
+};
+
+//* (Re)starts enrolment with a fresh secret. Returns null when 2FA is already on: it has to be turned off
+//* first, so a stolen session can't silently move the second factor to another device.
+export const startTwoFactorEnrolment = async ({ userId, email }: { userId: number; email: string }) => {
+  const { enabledAt } = await getTwoFactorStatus(userId);
+
+  if (enabledAt) return null;
+
+  const secret = generateTotpSecret();
+  const encryptedSecret = encrypt(secret);
+
+  await db
+    .insert(userTwoFactor)
+    .values({ userId, secret: encryptedSecret })
+    .onDuplicateKeyUpdate({ set: { secret: encryptedSecret, lastUsedStep: null } });
+
+  const uri = getTotpUri({ secret, issuer: TWO_FACTOR_ISSUER, accountName: email });
+
+  return { secret, qrCodeSvg: toQrCodeSvg(uri) };
+};
+
+//* Replaces every recovery code of the user with a new set and returns the plain codes (shown once).
+export const regenerateRecoveryCodes = async (userId: number) => {
+  const codes = Array.from({ length: TWO_FACTOR_RECOVERY_CODE_COUNT }, generateRecoveryCode);
+
+  await db.transaction(async (tx) => {
+    await tx.delete(twoFactorRecoveryCodes).where(eq(twoFactorRecoveryCodes.userId, userId));
+    await tx
+      .insert(twoFactorRecoveryCodes)
+      .values(codes.map((code) => ({ userId, codeHash: hashRecoveryCode(code) })));
+  });
+
+  return codes;
+};
+
+//* Accepts a TOTP code once per time step: the step is claimed with a conditional update, so a code
+//* seen over someone's shoulder (or submitted twice in parallel) only works once.
+const verifyTotpCode = async ({ userId, code, pending }: { userId: number; code: string; pending: boolean }) => {
+  const [record] = await db
+    .select()
+    .from(userTwoFactor)
+    .where(
+      and(
+        eq(userTwoFactor.userId, userId),
+        pending ? isNull(userTwoFactor.enabledAt) : isNotNull(userTwoFactor.enabledAt),
+      ),
+    );
+
+  if (!record) return false;
+
+  const step = verifyTotp({ secret: decrypt(record.secret), code });
+
+  if (step === null) return false;
+
+  const [result] = await db
+    .update(userTwoFactor)
+    .set({ lastUsedStep: step, ...(pending ? { enabledAt: new Date() } : {}) })
+    .where(
+      and(
+        eq(userTwoFactor.userId, userId),
+        or(isNull(userTwoFactor.lastUsedStep), lt(userTwoFactor.lastUsedStep, step)),
+      ),
+    );
+
+  return result.affectedRows > 0;
+};
+
+//* Confirms enrolment with the first code from the app. Returns the recovery codes, or null for a wrong code.
+export const confirmTwoFactorEnrolment = async ({ userId, code }: { userId: number; code: string }) => {
+  const isValid = await verifyTotpCode({ userId, code, pending: true });
+
+  if (!isValid) return null;
+
+  return regenerateRecoveryCodes(userId);
+};
+
+//* Checks a code from the authenticator app, or else a recovery code (which is used up).
+//* Returns which kind matched, or null.
+export const verifyTwoFactorCode = async ({ userId, code }: { userId: number; code: string }) => {
+  const value = code.trim();
+
+  if (/^\d{6}$/.test(value)) return (await verifyTotpCode({ userId, code: value, pending: false })) ? "totp" : null;
+
+  const [result] = await db
+    .update(twoFactorRecoveryCodes)
+    .set({ usedAt: new Date() })
+    .where(
+      and(
+        eq(twoFactorRecoveryCodes.userId, userId),
+        eq(twoFactorRecoveryCodes.codeHash, hashRecoveryCode(value)),
+        isNull(twoFactorRecoveryCodes.usedAt),
+      ),
+    );
+
+  return result.affectedRows > 0 ? "recovery_code" : null;
+};
+
+export const disableTwoFactor = async (userId: number) => {
+  await db.transaction(async (tx) => {
+    await tx.delete(userTwoFactor).where(eq(userTwoFactor.userId, userId));
+    await tx.delete(twoFactorRecoveryCodes).where(eq(twoFactorRecoveryCodes.userId, userId));
+    await tx.delete(twoFactorChallenges).where(eq(twoFactorChallenges.userId, userId));
+  });
+};
+
+export const isTwoFactorEnabled = async (userId: number) => {
+  const [record] = await db
+    .select({ userId: userTwoFactor.userId })
+    .from(userTwoFactor)
+    .where(and(eq(userTwoFactor.userId, userId), isNotNull(userTwoFactor.enabledAt)));
+
+  return Boolean(record);
+};
+
+const CHALLENGE_COOKIE_OPTIONS = {
+  httpOnly: true,
+  secure: process.env.NODE_ENV === "production",
+  sameSite: "lax",
+  path: "/",
+  maxAge: TWO_FACTOR_CHALLENGE_LIFETIME,
+} as const;
+
+//* Called once the password checked out: remembers the user for the code step without signing them in.
+export const createTwoFactorChallenge = async (userId: number) => {
+  const token = generateToken();
+
+  // expired challenges are cleaned up here rather than by a job
+  await db
+    .delete(twoFactorChallenges)
+    .where(and(eq(twoFactorChallenges.userId, userId), lt(twoFactorChallenges.expiresAt, new Date())));
+
+  await db.insert(twoFactorChallenges).values({
+    id: hashToken(token),
+    userId,
+    expiresAt: new Date(Date.now() + TWO_FACTOR_CHALLENGE_LIFETIME * 1000),
+  });
+
+  const cookieStore = await cookies();
+  cookieStore.set(TWO_FACTOR_CHALLENGE_COOKIE_NAME, token, CHALLENGE_COOKIE_OPTIONS);
+};
+
+export const getTwoFactorChallenge = async () => {
+  const cookieStore = await cookies();
+  const token = cookieStore.get(TWO_FACTOR_CHALLENGE_COOKIE_NAME)?.value;
+
+  if (!token) return null;
+
+  const [challenge] = await db
+    .select({
+      id: twoFactorChallenges.id,
+      user: { id: users.id, email: users.email, role: users.role, emailVerifiedAt: users.emailVerifiedAt },
+    })
+    .from(twoFactorChallenges)
+    .innerJoin(users, eq(users.id, twoFactorChallenges.userId))
+    .where(
+      and(
+        eq(twoFactorChallenges.id, hashToken(token)),
+        gt(twoFactorChallenges.expiresAt, new Date()),
+        isNull(users.deletedAt),
+      ),
+    );
+
+  return challenge ?? null;
+};
+
+//* Call before checking a code: claims one of the pending login's attempts in a single conditional update,
+//* so codes guessed in parallel can't share an attempt. Returns false once they are used up (the pending
+//* login is then dropped and the password has to be entered again).
+export const takeTwoFactorAttempt = async (id: string) => {
+  const [result] = await db
+    .update(twoFactorChallenges)
+    .set({ attempts: sql`${twoFactorChallenges.attempts} + 1` })
+    .where(and(eq(twoFactorChallenges.id, id), lt(twoFactorChallenges.attempts, TWO_FACTOR_MAX_ATTEMPTS)));
+
+  if (result.affectedRows > 0) return true;
+
+  await deleteTwoFactorChallenge(id);
+  return false;
+};
+
+export const deleteTwoFactorChallenge = async (id: string) => {
+  await db.delete(twoFactorChallenges).where(eq(twoFactorChallenges.id, id));
+
+  const cookieStore = await cookies();
+  cookieStore.delete(TWO_FACTOR_CHALLENGE_COOKIE_NAME);
+};
@@ -0,0 +1,34 @@
+//* Plain arrays (no drizzle/zod imports) so they can be shared by the DB schema, Zod schemas and client components.
+
+export const COMPANY_SIZES = ["1-10", "11-50", "51-200", "201-500", "501-1000", "1000+"] as const;
+
+export const COMPANY_MEMBER_ROLES = ["owner", "recruiter", "viewer"] as const;
+
+export type CompanySize = (typeof COMPANY_SIZES)[number];
+export type CompanyMemberRole = (typeof COMPANY_MEMBER_ROLES)[number];
+
+export const COMPANY_SIZE_LABELS: Record<CompanySize, string> = {
+  "1-10": "1-10 employees",
+  "11-50": "11-50 employees",
+  "51-200": "51-200 employees",
+  "201-500": "201-500 employees",
+  "501-1000": "501-1,000 employees",
+  "1000+": "1,000+ employees",
+};
+
+export const COMPANY_MEMBER_ROLE_LABELS: Record<CompanyMemberRole, string> = {
+  owner: "Owner",
+  recruiter: "Recruiter",
+  viewer: "Viewer",
+};
+
+export const COMPANY_MEMBER_ROLE_DESCRIPTIONS: Record<CompanyMemberRole, string> = {
+  owner: "Edits the company profile, manages the team and everything recruiters can do.",
+  recruiter: "Posts and manages jobs and moves candidates through the pipeline.",
+  viewer: "Can see jobs and applicants but cannot change anything.",
+};
+
+//* Owners and recruiters post jobs and move candidates; viewers are read-only.
+export const canManageJobs = (role: CompanyMemberRole) => role === "owner" || role === "recruiter";
+
+export const canManageCompany = (role: CompanyMemberRole) => role === "owner";
@@ -0,0 +1,66 @@
+import { z } from "zod";
+import { COMPANY_MEMBER_ROLES, COMPANY_SIZES } from "./companies.constants";
+
+//* Only http(s) links: these end up in <a href> and <img src> on the public company page.
+const optionalWebUrl = (message: string) =>
+  z.union([z.url({ protocol: /^https?$/, error: message }), z.literal("")]).default("");
+
+export const companySchema = z.object({
+  name: z
+    .string()
+    .trim()
+    .min(2, "Company name must be atleast 2 characters long")
+    .max(255, "Company name must not exceed 255 characters"),
+
+  //* Empty means "derive it from the name".
+  slug: z
+    .string()
+    .trim()
+    .toLowerCase()
+    .max(100, "URL name must not exceed 100 characters")
+    .regex(/^([a-z0-9]+(-[a-z0-9]+)*)?$/, "URL name can only contain lowercase letters, numbers and single hyphens")
+    .default(""),
+
+  logoUrl: optionalWebUrl("Please enter a valid logo image link"),
+
+  website: optionalWebUrl("Please enter a valid website link"),
+
+  size: z.enum(COMPANY_SIZES, { error: "Please select a company size" }).nullable().default(null),
+
+  industry: z.string().trim().max(100, "Industry must not exceed 100 characters").default(""),
+
+  description: z.string().trim().max(10000, "Description must not exceed 10000 characters").default(""),
+});
+
+export type CompanyData = z.infer<typeof companySchema>;
+export type CompanyInput = z.input<typeof companySchema>;
+
+export const inviteMemberSchema = z.object({
+  email: z
+    .string()
+    .trim()
+    .toLowerCase()
+    .email("Please enter a valid email address")
+    .max(255, "Email must not exceed 255 characters"),
+
+  role: z.enum(COMPANY_MEMBER_ROLES, { error: "Please select a role" }),
+});
+
+export type InviteMemberInput = z.input<typeof inviteMemberSchema>;
+
+export const updateMemberRoleSchema = z.object({
+  memberId: z.number().int().positive(),
+  role: z.enum(COMPANY_MEMBER_ROLES, { error: "Please select a role" }),
+});
+
+export type UpdateMemberRoleInput = z.input<typeof updateMemberRoleSchema>;
+
+export const toCompanySlug = (value: string) =>
+  value
+    .normalize("NFKD")
+    .replace(/[̀-ͯ]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, 100)
+    .replace(/-+$/g, "");
@@ -0,0 +1,188 @@
+"use client"
+
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import { useRouter } from "next/navigation";
+import { ChangeEvent, FormEvent, useState } from "react";
+import { toast } from "sonner";
+import { COMPANY_SIZE_LABELS, CompanySize } from "../companies.constants";
+import { CompanyInput, companySchema } from "../companies.schema";
+import { createCompanyAction, updateCompanyAction } from "../server/companies.action";
+
+export interface CompanyFormValues {
+  name: string;
+  slug: string;
+  logoUrl: string;
+  website: string;
+  size: string;
+  industry: string;
+  description: string;
+}
+
+const EMPTY_FORM: CompanyFormValues = {
+  name: "",
+  slug: "",
+  logoUrl: "",
+  website: "",
+  size: "",
+  industry: "",
+  description: "",
+};
+
+const toCompanyInput = (values: CompanyFormValues): CompanyInput => ({
+  ...values,
+  size: values.size ? (values.size as CompanySize) : null,
+});
+
+//* Without initialValues the form creates a new company (and makes the current employer its owner).
+const CompanyForm = ({ initialValues }: { initialValues?: CompanyFormValues }) => {
+  const router = useRouter();
+  const [formData, setFormData] = useState<CompanyFormValues>(initialValues ?? EMPTY_FORM);
+  const [errors, setErrors] = useState<Partial<Record<keyof CompanyFormValues, string>>>({});
+  const [isPending, setIsPending] = useState(false);
+
+  const handleInputChange = (name: keyof CompanyFormValues, value: string) => {
+    setFormData((prev) => ({
+      ...prev,
+      [name]: value,
+    }));
+  };
+
+  const handleFormSubmit = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+
+    const companyInput = toCompanyInput(formData);
+
+    const { error } = companySchema.safeParse(companyInput);
+    if (error) {
+      const fieldErrors: Partial<Record<keyof CompanyFormValues, string>> = {};
+      for (const issue of error.issues) {
+        const field = issue.path[0] as keyof CompanyFormValues;
+        fieldErrors[field] ??= issue.message;
+      }
+      setErrors(fieldErrors);
+      return;
+    }
+
+    setErrors({});
+    setIsPending(true);
+
+    const result = initialValues
+      ? await updateCompanyAction(companyInput)
+      : await createCompanyAction(companyInput);
+
+    setIsPending(false);
+
+    if (result.status === "SUCCESS") {
+      toast.success(result.message);
+      router.refresh();
+    } else {
+      toast.error(result.message);
+    }
+  };
+
+  const fieldError = (name: keyof CompanyFormValues) =>
+    errors[name] && <p className="text-sm text-destructive">{errors[name]}</p>;
+
+  return (
+    <form className="space-y-6" onSubmit={handleFormSubmit}>
+      <div className="grid gap-4 sm:grid-cols-2">
+        <div className="space-y-2">
+          <Label htmlFor="name">Company Name *</Label>
+          <Input
+            id="name"
+            placeholder="e.g. Acme Inc."
+            value={formData.name}
+            onChange={(event: ChangeEvent<HTMLInputElement>) => handleInputChange("name", event.target.value)}
+          />
+          {fieldError("name")}
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="slug">Public URL Name</Label>
+          <Input
+            id="slug"
+            placeholder="Generated from the name if left empty"
+            value={formData.slug}
+            onChange={(event: ChangeEvent<HTMLInputElement>) => handleInputChange("slug", event.target.value)}
+          />
+          <p className="text-xs text-muted-foreground">Your profile lives at /companies/{formData.slug || "…"}</p>
+          {fieldError("slug")}
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="website">Website</Label>
+          <Input
+            id="website"
+            type="url"
+            placeholder="https://example.com"
+            value={formData.website}
+            onChange={(event: ChangeEvent<HTMLInputElement>) => handleInputChange("website", event.target.value)}
+          />
+          {fieldError("website")}
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="logoUrl">Logo Image Link</Label>
+          <Input
+            id="logoUrl"
+            type="url"
+            placeholder="https://example.com/logo.png"
+            value={formData.logoUrl}
+            onChange={(event: ChangeEvent<HTMLInputElement>) => handleInputChange("logoUrl", event.target.value)}
+          />
+          {fieldError("logoUrl")}
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="industry">Industry</Label>
+          <Input
+            id="industry"
+            placeholder="e.g. Software, Healthcare"
+            value={formData.industry}
+            onChange={(event: ChangeEvent<HTMLInputElement>) => handleInputChange("industry", event.target.value)}
+          />
+          {fieldError("industry")}
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="size">Company Size</Label>
+          <Select value={formData.size} onValueChange={(value) => handleInputChange("size", value)}>
+            <SelectTrigger id="size" className="w-full">
+              <SelectValue placeholder="Select size" />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(COMPANY_SIZE_LABELS).map(([value, label]) => (
+                <SelectItem key={value} value={value}>{label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {fieldError("size")}
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="description">About the Company</Label>
+        <Textarea
+          id="description"
+          rows={6}
+          placeholder="What you do, how you work, why people should join"
+          value={formData.description}
+          onChange={(event: ChangeEvent<HTMLTextAreaElement>) => handleInputChange("description", event.target.value)}
+        />
+        {fieldError("description")}
+      </div>
+
+      <div className="flex justify-end">
+        <Button type="submit" disabled={isPending}>
+          {isPending ? "Saving..." : initialValues ? "Save Changes" : "Create Company"}
+        </Button>
+      </div>
+    </form>
+  );
+};
+
+export default CompanyForm;
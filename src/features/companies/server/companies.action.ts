@@ -0,0 +1,288 @@
+"use server"
+
+import { db } from "@/config/db";
+import { companies, companyInvites, companyMembers, users } from "@/drizzle/schema";
+import { recordAuditEvent } from "@/features/audit/server/audit";
+import { getAuthorizedUser } from "@/features/auth/server/auth.queries";
+import { isDuplicateEntryError } from "@/lib/utils";
+import { and, count, eq, isNull } from "drizzle-orm";
+import { revalidatePath } from "next/cache";
+import { canManageCompany } from "../companies.constants";
+import {
+  CompanyData,
+  CompanyInput,
+  companySchema,
+  InviteMemberInput,
+  inviteMemberSchema,
+  toCompanySlug,
+  UpdateMemberRoleInput,
+  updateMemberRoleSchema,
+} from "../companies.schema";
+import {
+  findValidCompanyInvite,
+  getCompanyMemberById,
+  getCompanyMembers,
+  getUserMembership,
+} from "./companies.queries";
+import { acceptCompanyInvite, sendCompanyInvite } from "./use-cases/companyInvites";
+
+//* Company settings and team management are owner-only.
+const getCurrentCompanyOwner = async () => {
+  const employer = await getAuthorizedUser("employer");
+
+  if (!employer) return null;
+
+  const membership = await getUserMembership(employer.id);
+
+  if (!membership || !canManageCompany(membership.role)) return null;
+
+  return { employer, membership };
+};
+
+const toCompanyValues = (data: CompanyData) => ({
+  name: data.name,
+  slug: data.slug || toCompanySlug(data.name),
+  logoUrl: data.logoUrl || null,
+  website: data.website || null,
+  size: data.size,
+  industry: data.industry || null,
+  description: data.description || null,
+});
+
+const isSlugTaken = (error: unknown) =>
+  isDuplicateEntryError(error) && String((error as Error).message).includes("companies_slug_unique");
+
+//* A company needs at least one owner, otherwise nobody could manage the team any more.
+//* Suspended owners can't sign in, so they don't count.
+const isLastOwner = async ({ companyId, member }: { companyId: number; member: { role: string } }) => {
+  if (member.role !== "owner") return false;
+
+  const [{ owners }] = await db
+    .select({ owners: count() })
+    .from(companyMembers)
+    .innerJoin(users, eq(users.id, companyMembers.userId))
+    .where(and(eq(companyMembers.companyId, companyId), eq(companyMembers.role, "owner"), isNull(users.deletedAt)));
+
+  return owners <= 1;
+};
+
+export const createCompanyAction = async (formData: CompanyInput) => {
+  try {
+    const employer = await getAuthorizedUser("employer");
+
+    if (!employer) return { status: "ERROR", message: "Only employers can create companies" };
+
+    if (await getUserMembership(employer.id)) {
+      return { status: "ERROR", message: "You already belong to a company" };
+    }
+
+    const { data: validatedData, error } = companySchema.safeParse(formData);
+
+    if (error) return { status: "ERROR", message: error.issues[0].message };
+
+    const values = toCompanyValues(validatedData);
+
+    if (!values.slug) return { status: "ERROR", message: "Please choose a URL name for your company" };
+
+    await db.transaction(async (tx) => {
+      const [{ id }] = await tx.insert(companies).values(values).$returningId();
+
+      await tx.insert(companyMembers).values({ companyId: id, userId: employer.id, role: "owner" });
+    });
+
+    revalidatePath("/employer");
+
+    return { status: "SUCCESS", message: "Company created" };
+  } catch (error) {
+    if (isSlugTaken(error)) return { status: "ERROR", message: "That URL name is already taken" };
+
+    if (isDuplicateEntryError(error)) return { status: "ERROR", message: "You already belong to a company" };
+
+    console.error("Create Company Error:", error);
+    return { status: "ERROR", message: "Unknown Error Occured ! Please Try Again Later" };
+  }
+};
+
+export const updateCompanyAction = async (formData: CompanyInput) => {
+  try {
+    const owner = await getCurrentCompanyOwner();
+
+    if (!owner) return { status: "ERROR", message: "Only company owners can edit the profile" };
+
+    const { data: validatedData, error } = companySchema.safeParse(formData);
+
+    if (error) return { status: "ERROR", message: error.issues[0].message };
+
+    const values = toCompanyValues(validatedData);
+
+    await db
+      .update(companies)
+      .set({ ...values, slug: values.slug || owner.membership.company.slug })
+      .where(eq(companies.id, owner.membership.company.id));
+
+    revalidatePath("/employer/company");
+    revalidatePath(`/companies/${owner.membership.company.slug}`);
+
+    return { status: "SUCCESS", message: "Company profile updated" };
+  } catch (error) {
+    if (isSlugTaken(error)) return { status: "ERROR", message: "That URL name is already taken" };
+
+    console.error("Update Company Error:", error);
+    return { status: "ERROR", message: "Unknown Error Occured ! Please Try Again Later" };
+  }
+};
+
+export const inviteMemberAction = async (formData: InviteMemberInput) => {
+  try {
+    const owner = await getCurrentCompanyOwner();
+
+    if (!owner) return { status: "ERROR", message: "Only company owners can invite colleagues" };
+
+    const { data: validatedData, error } = inviteMemberSchema.safeParse(formData);
+
+    if (error) return { status: "ERROR", message: error.issues[0].message };
+
+    const members = await getCompanyMembers(owner.membership.company.id);
+
+    if (members.some((member) => member.email === validatedData.email)) {
+      return { status: "ERROR", message: "That person is already on your team" };
+    }
+
+    await sendCompanyInvite({
+      company: owner.membership.company,
+      email: validatedData.email,
+      role: validatedData.role,
+      inviter: owner.employer,
+    });
+
+    revalidatePath("/employer/company");
+
+    return { status: "SUCCESS", message: `Invitation sent to ${validatedData.email}` };
+  } catch (error) {
+    console.error("Invite Member Error:", error);
+    return { status: "ERROR", message: "Unknown Error Occured ! Please Try Again Later" };
+  }
+};
+
+export const revokeInviteAction = async (inviteId: number) => {
+  try {
+    const owner = await getCurrentCompanyOwner();
+
+    if (!owner) return { status: "ERROR", message: "Only company owners can revoke invitations" };
+
+    await db
+      .delete(companyInvites)
+      .where(
+        and(
+          eq(companyInvites.id, inviteId),
+          eq(companyInvites.companyId, owner.membership.company.id),
+          isNull(companyInvites.acceptedAt),
+        ),
+      );
+
+    revalidatePath("/employer/company");
+
+    return { status: "SUCCESS", message: "Invitation revoked" };
+  } catch (error) {
+    console.error("Revoke Invite Error:", error);
+    return { status: "ERROR", message: "Unknown Error Occured ! Please Try Again Later" };
+  }
+};
+
+export const acceptInviteAction = async (token: string) => {
+  try {
+    const employer = await getAuthorizedUser("employer");
+
+    if (!employer) return { status: "ERROR", message: "Please sign in with a verified employer account" };
+
+    const invite = await findValidCompanyInvite(token);
+
+    if (!invite) return { status: "ERROR", message: "This invitation is invalid or has expired" };
+
+    //* The link alone is not enough: it must be opened by the account it was sent to.
+    if (invite.email !== employer.email.toLowerCase()) {
+      return { status: "ERROR", message: "This invitation was sent to a different email address" };
+    }
+
+    if (await getUserMembership(employer.id)) {
+      return { status: "ERROR", message: "You already belong to a company" };
+    }
+
+    const isAccepted = await acceptCompanyInvite({ invite, userId: employer.id });
+
+    if (!isAccepted) return { status: "ERROR", message: "This invitation has already been used" };
+
+    revalidatePath("/employer/company");
+
+    return { status: "SUCCESS", message: `Welcome to ${invite.companyName}`, redirectTo: "/employer/company" };
+  } catch (error) {
+    if (isDuplicateEntryError(error)) return { status: "ERROR", message: "You already belong to a company" };
+
+    console.error("Accept Invite Error:", error);
+    return { status: "ERROR", message: "Unknown Error Occured ! Please Try Again Later" };
+  }
+};
+
+export const updateMemberRoleAction = async (formData: UpdateMemberRoleInput) => {
+  try {
+    const owner = await getCurrentCompanyOwner();
+
+    if (!owner) return { status: "ERROR", message: "Only company owners can change roles" };
+
+    const { data: validatedData, error } = updateMemberRoleSchema.safeParse(formData);
+
+    if (error) return { status: "ERROR", message: error.issues[0].message };
+
+    const companyId = owner.membership.company.id;
+    const member = await getCompanyMemberById({ companyId, memberId: validatedData.memberId });
+
+    if (!member) return { status: "ERROR", message: "Team member not found" };
+
+    if (validatedData.role !== "owner" && (await isLastOwner({ companyId, member }))) {
+      return { status: "ERROR", message: "Your company needs at least one owner" };
+    }
+
+    await db.update(companyMembers).set({ role: validatedData.role }).where(eq(companyMembers.id, member.id));
+
+    await recordAuditEvent({
+      type: "company.member_role_changed",
+      actorId: owner.employer.id,
+      targetUserId: member.userId,
+      metadata: { companyId, from: member.role, to: validatedData.role },
+    });
+
+    revalidatePath("/employer/company");
+
+    return { status: "SUCCESS", message: "Role updated" };
+  } catch (error) {
+    console.error("Update Member Role Error:", error);
+    return { status: "ERROR", message: "Unknown Error Occured ! Please Try Again Later" };
+  }
+};
+
+export const removeMemberAction = async (memberId: number) => {
+  try {
+    const owner = await getCurrentCompanyOwner();
+
+    if (!owner) return { status: "ERROR", message: "Only company owners can remove team members" };
+
+    const companyId = owner.membership.company.id;
+    const member = await getCompanyMemberById({ companyId, memberId });
+
+    if (!member) return { status: "ERROR", message: "Team member not found" };
+
+    if (await isLastOwner({ companyId, member })) {
+      return { status: "ERROR", message: "Your company needs at least one owner" };
+    }
+
+    // jobs they posted stay with the company; only the membership goes
+    await db.delete(companyMembers).where(eq(companyMembers.id, member.id));
+
+    revalidatePath("/employer/company");
+
+    return { status: "SUCCESS", message: "Team member removed" };
+  } catch (error) {
+    console.error("Remove Member Error:", error);
+    return { status: "ERROR", message: "Unknown Error Occured ! Please Try Again Later" };
+  }
+};
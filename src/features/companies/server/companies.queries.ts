@@ -0,0 +1,145 @@
+import { db } from "@/config/db";
+import { companies, companyInvites, companyMembers, jobs, users } from "@/drizzle/schema";
+import { requireRole } from "@/features/auth/server/auth.queries";
+import { hashToken } from "@/lib/token";
+import { canManageJobs } from "../companies.constants";
+import { and, asc, desc, eq, gt, isNull } from "drizzle-orm";
+import { redirect } from "next/navigation";
+import { cache } from "react";
+
+export type Company = typeof companies.$inferSelect;
+
+//* The company the employer works for, with their role in it. Cached per request because
+//* layouts, pages and actions all ask for it.
+export const getUserMembership = cache(async (userId: number) => {
+  const [membership] = await db
+    .select({
+      memberId: companyMembers.id,
+      role: companyMembers.role,
+      company: companies,
+    })
+    .from(companyMembers)
+    .innerJoin(companies, eq(companies.id, companyMembers.companyId))
+    .where(eq(companyMembers.userId, userId));
+
+  return membership ?? null;
+});
+
+export type CompanyMembership = NonNullable<Awaited<ReturnType<typeof getUserMembership>>>;
+
+//* Like requireRole("employer"), but also sends employers without a company to set one up first.
+export const requireCompanyMembership = async () => {
+  const employer = await requireRole("employer");
+  const membership = await getUserMembership(employer.id);
+
+  if (!membership) redirect("/employer/company");
+
+  return { employer, membership };
+};
+
+//* Cached per request: the company page reads it for both its metadata and its body.
+export const getCompanyBySlug = cache(async (slug: string) => {
+  const [company] = await db.select().from(companies).where(eq(companies.slug, slug));
+  return company ?? null;
+});
+
+export const getCompanyMembers = async (companyId: number) => {
+  return db
+    .select({
+      id: companyMembers.id,
+      role: companyMembers.role,
+      joinedAt: companyMembers.createdAt,
+      userId: users.id,
+      name: users.name,
+      email: users.email,
+    })
+    .from(companyMembers)
+    .innerJoin(users, eq(users.id, companyMembers.userId))
+    .where(and(eq(companyMembers.companyId, companyId), isNull(users.deletedAt)))
+    .orderBy(asc(companyMembers.createdAt));
+};
+
+//* Who to notify about company-wide events. managersOnly leaves out viewers, for events that need action.
+export const getCompanyMemberUserIds = async ({
+  companyId,
+  managersOnly = false,
+}: {
+  companyId: number;
+  managersOnly?: boolean;
+}) => {
+  const rows = await db
+    .select({ userId: companyMembers.userId, role: companyMembers.role })
+    .from(companyMembers)
+    .innerJoin(users, eq(users.id, companyMembers.userId))
+    .where(and(eq(companyMembers.companyId, companyId), isNull(users.deletedAt)));
+
+  return rows.filter((row) => !managersOnly || canManageJobs(row.role)).map((row) => row.userId);
+};
+
+export const getCompanyMemberById = async ({ companyId, memberId }: { companyId: number; memberId: number }) => {
+  const [member] = await db
+    .select()
+    .from(companyMembers)
+    .where(and(eq(companyMembers.id, memberId), eq(companyMembers.companyId, companyId)));
+
+  return member ?? null;
+};
+
+export const getPendingCompanyInvites = async (companyId: number) => {
+  return db
+    .select({
+      id: companyInvites.id,
+      email: companyInvites.email,
+      role: companyInvites.role,
+      expiresAt: companyInvites.expiresAt,
+      createdAt: companyInvites.createdAt,
+    })
+    .from(companyInvites)
+    .where(
+      and(
+        eq(companyInvites.companyId, companyId),
+        isNull(companyInvites.acceptedAt),
+        gt(companyInvites.expiresAt, new Date()),
+      ),
+    )
+    .orderBy(desc(companyInvites.createdAt));
+};
+
+//* Unused, unexpired invite for the raw token from the email link, with the company it is for.
+export const findValidCompanyInvite = async (token: string) => {
+  const [invite] = await db
+    .select({
+      id: companyInvites.id,
+      email: companyInvites.email,
+      role: companyInvites.role,
+      companyId: companies.id,
+      companyName: companies.name,
+      companySlug: companies.slug,
+    })
+    .from(companyInvites)
+    .innerJoin(companies, eq(companies.id, companyInvites.companyId))
+    .where(
+      and(
+        eq(companyInvites.tokenHash, hashToken(token)),
+        isNull(companyInvites.acceptedAt),
+        gt(companyInvites.expiresAt, new Date()),
+      ),
+    );
+
+  return invite ?? null;
+};
+
+export const getCompanyOpenJobs = async (companyId: number) => {
+  return db
+    .select()
+    .from(jobs)
+    .where(and(eq(jobs.companyId, companyId), eq(jobs.status, "published"), isNull(jobs.deletedAt)))
+    .orderBy(desc(jobs.publishedAt));
+};
+
+export const getSitemapCompanies = async () => {
+  return db
+    .select({ slug: companies.slug, updatedAt: companies.updatedAt })
+    .from(companies)
+    .orderBy(desc(companies.id));
+};
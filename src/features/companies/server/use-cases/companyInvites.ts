@@ -0,0 +1,79 @@
+import { APP_URL, COMPANY_INVITE_LIFETIME } from "@/config/constant";
+import { db } from "@/config/db";
+import { companyInvites, companyMembers } from "@/drizzle/schema";
+import { sendEmail } from "@/features/email/server/email";
+import { companyInviteEmail } from "@/features/email/templates";
+import { generateToken, hashToken } from "@/lib/token";
+import { and, eq, isNull } from "drizzle-orm";
+import { COMPANY_MEMBER_ROLE_LABELS, CompanyMemberRole } from "../../companies.constants";
+
+//* Re-inviting the same address replaces the earlier pending invite, so only the newest link works.
+export const sendCompanyInvite = async ({
+  company,
+  email,
+  role,
+  inviter,
+}: {
+  company: { id: number; name: string };
+  email: string;
+  role: CompanyMemberRole;
+  inviter: { id: number; name: string };
+}) => {
+  const token = generateToken();
+
+  await db.transaction(async (tx) => {
+    await tx
+      .delete(companyInvites)
+      .where(
+        and(
+          eq(companyInvites.companyId, company.id),
+          eq(companyInvites.email, email),
+          isNull(companyInvites.acceptedAt),
+        ),
+      );
+
+    await tx.insert(companyInvites).values({
+      companyId: company.id,
+      email,
+      role,
+      tokenHash: hashToken(token),
+      invitedBy: inviter.id,
+      expiresAt: new Date(Date.now() + COMPANY_INVITE_LIFETIME * 1000),
+    });
+  });
+
+  const url = `${APP_URL}/invites/accept?token=${token}`;
+
+  await sendEmail({
+    to: email,
+    ...companyInviteEmail({
+      inviterName: inviter.name,
+      companyName: company.name,
+      roleLabel: COMPANY_MEMBER_ROLE_LABELS[role],
+      url,
+    }),
+  });
+};
+
+//* Marks the invite used and adds the membership in one go. The acceptedAt guard makes a
+//* double click (or a second tab) a no-op instead of a second membership attempt.
+export const acceptCompanyInvite = async ({
+  invite,
+  userId,
+}: {
+  invite: { id: number; companyId: number; role: CompanyMemberRole };
+  userId: number;
+}) => {
+  return db.transaction(async (tx) => {
+    const [result] = await tx
+      .update(companyInvites)
+      .set({ acceptedAt: new Date() })
+      .where(and(eq(companyInvites.id, invite.id), isNull(companyInvites.acceptedAt)));
+
+    if (result.affectedRows === 0) return false;
+
+    await tx.insert(companyMembers).values({ companyId: invite.companyId, userId, role: invite.role });
+
+    return true;
+  });
+};
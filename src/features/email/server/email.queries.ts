@@ -0,0 +1,21 @@
+import { db } from "@/config/db";
+import { emailOutbox } from "@/drizzle/schema";
+import { desc, eq } from "drizzle-orm";
+
+export const getOutboxEmails = async (limit = 50) => {
+  return db
+    .select({
+      id: emailOutbox.id,
+      recipient: emailOutbox.recipient,
+      subject: emailOutbox.subject,
+      createdAt: emailOutbox.createdAt,
+    })
+    .from(emailOutbox)
+    .orderBy(desc(emailOutbox.createdAt))
+    .limit(limit);
+};
+
+export const getOutboxEmailById = async (id: number) => {
+  const [email] = await db.select().from(emailOutbox).where(eq(emailOutbox.id, id));
+  return email ?? null;
+};
@@ -0,0 +1,48 @@
+import { db } from "@/config/db";
+import { emailOutbox } from "@/drizzle/schema";
+
+//* Text attachments only (e.g. .ics calendar invites), so they can be stored in the outbox as-is.
+export interface EmailAttachment {
+  filename: string;
+  contentType: string;
+  content: string;
+}
+
+export interface EmailMessage {
+  to: string;
+  subject: string;
+  html: string;
+  text: string;
+  //* Extra headers such as List-Unsubscribe; transports that can't send headers may ignore them.
+  headers?: Record<string, string>;
+  attachments?: EmailAttachment[];
+}
+
+//* Every email goes through a transport. Locally we only have the outbox table (previewable at
+//* /dev/emails); a real SMTP/API transport can be added later without touching the callers.
+export interface EmailTransport {
+  send: (message: EmailMessage) => Promise<void>;
+}
+
+export const outboxTransport: EmailTransport = {
+  send: async ({ to, subject, html, text, headers, attachments }) => {
+    await db.insert(emailOutbox).values({
+      recipient: to,
+      subject,
+      html,
+      text,
+      headers: headers ?? null,
+      attachments: attachments ?? null,
+    });
+  },
+};
+
+let transport: EmailTransport = outboxTransport;
+
+export const setEmailTransport = (nextTransport: EmailTransport) => {
+  transport = nextTransport;
+};
+
+export const sendEmail = async (message: EmailMessage) => {
+  await transport.send(message);
+};
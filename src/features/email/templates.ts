@@ -0,0 +1,235 @@
+//* Plain string templates: every email ships both an HTML and a text body.
+
+const escapeHtml = (value: string) =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+export const renderActionEmail = ({
+  greeting,
+  intro,
+  actionLabel,
+  actionUrl,
+  outro,
+}: {
+  greeting: string;
+  intro: string;
+  actionLabel: string;
+  actionUrl: string;
+  outro: string;
+}) => {
+  const html = `
+    <div style="font-family: sans-serif; max-width: 560px; margin: 0 auto;">
+      <p>${escapeHtml(greeting)}</p>
+      <p>${escapeHtml(intro)}</p>
+      <p>
+        <a href="${escapeHtml(actionUrl)}" style="display: inline-block; padding: 10px 16px; background: #171717; color: #fff; border-radius: 6px; text-decoration: none;">
+          ${escapeHtml(actionLabel)}
+        </a>
+      </p>
+      <p style="color: #737373; font-size: 14px;">${escapeHtml(outro)}</p>
+    </div>
+  `;
+
+  const text = `${greeting}\n\n${intro}\n\n${actionLabel}: ${actionUrl}\n\n${outro}`;
+
+  return { html, text };
+};
+
+export const verificationEmail = ({ name, url }: { name: string; url: string }) => ({
+  subject: "Verify your email address",
+  ...renderActionEmail({
+    greeting: `Hi ${name},`,
+    intro: "Thanks for joining Job Portal. Please confirm that this is your email address.",
+    actionLabel: "Verify Email",
+    actionUrl: url,
+    outro: "This link expires in 24 hours. If you didn't create an account, you can ignore this email.",
+  }),
+});
+
+export const passwordResetEmail = ({ name, url }: { name: string; url: string }) => ({
+  subject: "Reset your password",
+  ...renderActionEmail({
+    greeting: `Hi ${name},`,
+    intro: "We received a request to reset the password for your Job Portal account.",
+    actionLabel: "Reset Password",
+    actionUrl: url,
+    outro: "This link expires in 1 hour and can only be used once. If you didn't ask for a reset, you can ignore this email.",
+  }),
+});
+
+export const companyInviteEmail = ({
+  inviterName,
+  companyName,
+  roleLabel,
+  url,
+}: {
+  inviterName: string;
+  companyName: string;
+  roleLabel: string;
+  url: string;
+}) => ({
+  subject: `Join ${companyName} on Job Portal`,
+  ...renderActionEmail({
+    greeting: "Hi,",
+    intro: `${inviterName} invited you to join ${companyName} on Job Portal as a ${roleLabel}.`,
+    actionLabel: "Accept Invitation",
+    actionUrl: url,
+    outro: "Sign in (or create an employer account) with this email address to accept. This link expires in 7 days. If you weren't expecting it, you can ignore this email.",
+  }),
+});
+
+export const jobAlertDigestEmail = ({
+  name,
+  searchName,
+  jobs,
+  searchUrl,
+  unsubscribeUrl,
+}: {
+  name: string;
+  searchName: string;
+  jobs: { title: string; companyName: string; location: string | null; url: string }[];
+  searchUrl: string;
+  unsubscribeUrl: string;
+}) => {
+  const subject =
+    jobs.length === 1 ? `1 new job for "${searchName}"` : `${jobs.length} new jobs for "${searchName}"`;
+
+  const describeJob = (job: (typeof jobs)[number]) =>
+    job.location ? `${job.companyName} · ${job.location}` : job.companyName;
+
+  const html = `
+    <div style="font-family: sans-serif; max-width: 560px; margin: 0 auto;">
+      <p>${escapeHtml(`Hi ${name},`)}</p>
+      <p>${escapeHtml(`New jobs matching your saved search "${searchName}":`)}</p>
+      <ul style="padding-left: 20px;">
+        ${jobs
+          .map(
+            (job) => `
+          <li style="margin-bottom: 8px;">
+            <a href="${escapeHtml(job.url)}">${escapeHtml(job.title)}</a><br />
+            <span style="color: #737373; font-size: 14px;">${escapeHtml(describeJob(job))}</span>
+          </li>`,
+          )
+          .join("")}
+      </ul>
+      <p><a href="${escapeHtml(searchUrl)}">See all matching jobs</a></p>
+      <p style="color: #737373; font-size: 14px;">
+        You're getting this because you saved this search on Job Portal.
+        <a href="${escapeHtml(unsubscribeUrl)}">Unsubscribe from this alert</a>.
+      </p>
+    </div>
+  `;
+
+  const text = [
+    `Hi ${name},`,
+    `New jobs matching your saved search "${searchName}":`,
+    jobs.map((job) => `- ${job.title} (${describeJob(job)})\n  ${job.url}`).join("\n"),
+    `See all matching jobs: ${searchUrl}`,
+    `Unsubscribe from this alert: ${unsubscribeUrl}`,
+  ].join("\n\n");
+
+  return { subject, html, text };
+};
+
+export const notificationDigestEmail = ({
+  name,
+  notifications,
+  inboxUrl,
+  preferencesUrl,
+}: {
+  name: string;
+  notifications: { title: string; body: string | null; url: string | null }[];
+  inboxUrl: string;
+  preferencesUrl: string;
+}) => {
+  const subject =
+    notifications.length === 1 ? "You have 1 new notification" : `You have ${notifications.length} new notifications`;
+
+  const html = `
+    <div style="font-family: sans-serif; max-width: 560px; margin: 0 auto;">
+      <p>${escapeHtml(`Hi ${name},`)}</p>
+      <p>Here's what happened on Job Portal since your last digest:</p>
+      <ul style="padding-left: 20px;">
+        ${notifications
+          .map(
+            (notification) => `
+          <li style="margin-bottom: 8px;">
+            ${notification.url ? `<a href="${escapeHtml(notification.url)}">${escapeHtml(notification.title)}</a>` : escapeHtml(notification.title)}
+            ${notification.body ? `<br /><span style="color: #737373; font-size: 14px;">${escapeHtml(notification.body)}</span>` : ""}
+          </li>`,
+          )
+          .join("")}
+      </ul>
+      <p><a href="${escapeHtml(inboxUrl)}">Open your notifications</a></p>
+      <p style="color: #737373; font-size: 14px;">
+        You're getting this digest because of your notification settings.
+        <a href="${escapeHtml(preferencesUrl)}">Change them here</a>.
+      </p>
+    </div>
+  `;
+
+  const text = [
+    `Hi ${name},`,
+    "Here's what happened on Job Portal since your last digest:",
+    notifications
+      .map((notification) =>
+        [`- ${notification.title}`, notification.body && `  ${notification.body}`, notification.url && `  ${notification.url}`]
+          .filter(Boolean)
+          .join("\n"),
+      )
+      .join("\n"),
+    `Open your notifications: ${inboxUrl}`,
+    `Change your notification settings: ${preferencesUrl}`,
+  ].join("\n\n");
+
+  return { subject, html, text };
+};
+
+//* Shared by every interview email (proposed times, invite, update, cancellation): the details are short
+//* lines such as "When: ..." or the list of offered slots. Invites carry the .ics as an attachment.
+export const interviewEmail = ({
+  name,
+  subject,
+  intro,
+  details,
+  actionLabel,
+  actionUrl,
+  outro,
+}: {
+  name: string;
+  subject: string;
+  intro: string;
+  details: string[];
+  actionLabel: string;
+  actionUrl: string;
+  outro: string;
+}) => {
+  const html = `
+    <div style="font-family: sans-serif; max-width: 560px; margin: 0 auto;">
+      <p>${escapeHtml(`Hi ${name},`)}</p>
+      <p>${escapeHtml(intro)}</p>
+      <ul style="padding-left: 20px;">
+        ${details.map((detail) => `<li style="margin-bottom: 4px;">${escapeHtml(detail)}</li>`).join("")}
+      </ul>
+      <p>
+        <a href="${escapeHtml(actionUrl)}" style="display: inline-block; padding: 10px 16px; background: #171717; color: #fff; border-radius: 6px; text-decoration: none;">
+          ${escapeHtml(actionLabel)}
+        </a>
+      </p>
+      <p style="color: #737373; font-size: 14px;">${escapeHtml(outro)}</p>
+    </div>
+  `;
+
+  const text = [
+    `Hi ${name},`,
+    intro,
+    details.map((detail) => `- ${detail}`).join("\n"),
+    `${actionLabel}: ${actionUrl}`,
+    outro,
+  ].join("\n\n");
+
+  return { subject, html, text };
+};
@@ -0,0 +1,32 @@
+"use client"
+
+import { Button } from "@/components/ui/button";
+import { useTransition } from "react";
+import { toast } from "sonner";
+import { cancelInterviewAction } from "../server/interviews.action";
+
+const CancelInterviewButton = ({ interviewId }: { interviewId: number }) => {
+  const [isPending, startTransition] = useTransition();
+
+  const handleCancel = () => {
+    if (!window.confirm("Cancel this interview? Everyone involved will be notified.")) return;
+
+    startTransition(async () => {
+      const result = await cancelInterviewAction(interviewId);
+
+      if (result.status === "SUCCESS") {
+        toast.success(result.message);
+      } else {
+        toast.error(result.message);
+      }
+    });
+  };
+
+  return (
+    <Button type="button" size="sm" variant="outline" disabled={isPending} onClick={handleCancel}>
+      Cancel Interview
+    </Button>
+  );
+};
+
+export default CancelInterviewButton;
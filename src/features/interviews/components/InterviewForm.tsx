@@ -0,0 +1,229 @@
+"use client"
+
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useRouter } from "next/navigation";
+import { FormEvent, useEffect, useMemo, useState, useTransition } from "react";
+import { toast } from "sonner";
+import { INTERVIEW_DURATIONS, INTERVIEW_MAX_SLOTS } from "../interviews.constants";
+import { InterviewDetailsInput, interviewDetailsSchema } from "../interviews.schema";
+import { proposeInterviewAction, rescheduleInterviewAction } from "../server/interviews.action";
+
+export interface InterviewFormValues {
+  timeZone: string;
+  durationMinutes: number;
+  slots: string[];
+  interviewerIds: number[];
+  location: string;
+  meetingUrl: string;
+}
+
+//* Proposes a new interview for an application, or offers new times for an existing one (interviewId).
+const InterviewForm = ({
+  target,
+  members,
+  initialValues,
+}: {
+  target: { applicationId: number } | { interviewId: number };
+  members: { userId: number; name: string; email: string }[];
+  initialValues?: InterviewFormValues;
+}) => {
+  const router = useRouter();
+  const [formData, setFormData] = useState<InterviewFormValues>(
+    initialValues ?? {
+      timeZone: "UTC",
+      durationMinutes: 30,
+      slots: [""],
+      interviewerIds: [],
+      location: "",
+      meetingUrl: "",
+    },
+  );
+  const [formError, setFormError] = useState<string | null>(null);
+  const [isPending, startTransition] = useTransition();
+
+  // the server can't know the browser's zone, so a new interview switches to it after hydration
+  useEffect(() => {
+    if (initialValues) return;
+    const browserTimeZone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+    if (browserTimeZone) setFormData((prev) => ({ ...prev, timeZone: browserTimeZone }));
+  }, [initialValues]);
+
+  const timeZones = useMemo(
+    () => [...new Set([formData.timeZone, ...Intl.supportedValuesOf("timeZone")])].sort(),
+    [formData.timeZone],
+  );
+
+  const setField = <K extends keyof InterviewFormValues>(name: K, value: InterviewFormValues[K]) => {
+    setFormData((prev) => ({ ...prev, [name]: value }));
+  };
+
+  const setSlot = (index: number, value: string) => {
+    setField(
+      "slots",
+      formData.slots.map((slot, slotIndex) => (slotIndex === index ? value : slot)),
+    );
+  };
+
+  const toggleInterviewer = (userId: number) => {
+    setField(
+      "interviewerIds",
+      formData.interviewerIds.includes(userId)
+        ? formData.interviewerIds.filter((id) => id !== userId)
+        : [...formData.interviewerIds, userId],
+    );
+  };
+
+  const handleFormSubmit = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+
+    const details: InterviewDetailsInput = { ...formData, slots: formData.slots.filter(Boolean) };
+
+    const { error } = interviewDetailsSchema.safeParse(details);
+    if (error) {
+      setFormError(error.issues[0].message);
+      return;
+    }
+
+    setFormError(null);
+
+    startTransition(async () => {
+      const result =
+        "interviewId" in target
+          ? await rescheduleInterviewAction({ interviewId: target.interviewId, details })
+          : await proposeInterviewAction({ applicationId: target.applicationId, details });
+
+      if (result.status === "SUCCESS") {
+        toast.success(result.message);
+        const interviewId = "interviewId" in target ? target.interviewId : "interviewId" in result && result.interviewId;
+        router.push(interviewId ? `/employer/interviews/${interviewId}` : "/employer/interviews");
+      } else {
+        toast.error(result.message);
+      }
+    });
+  };
+
+  return (
+    <form className="space-y-6" onSubmit={handleFormSubmit}>
+      <div className="grid gap-4 sm:grid-cols-2">
+        <div className="space-y-2">
+          <Label htmlFor="timeZone">Time Zone</Label>
+          <Select value={formData.timeZone} onValueChange={(value) => setField("timeZone", value)}>
+            <SelectTrigger id="timeZone" className="w-full">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {timeZones.map((timeZone) => (
+                <SelectItem key={timeZone} value={timeZone}>
+                  {timeZone}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="durationMinutes">Duration</Label>
+          <Select
+            value={String(formData.durationMinutes)}
+            onValueChange={(value) => setField("durationMinutes", Number(value))}
+          >
+            <SelectTrigger id="durationMinutes" className="w-full">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {INTERVIEW_DURATIONS.map((duration) => (
+                <SelectItem key={duration} value={String(duration)}>
+                  {duration} minutes
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <Label>Time Slots</Label>
+        <p className="text-xs text-muted-foreground">
+          Offer up to {INTERVIEW_MAX_SLOTS} start times in {formData.timeZone}. The candidate picks one and everyone
+          gets a calendar invite.
+        </p>
+        {formData.slots.map((slot, index) => (
+          <div key={index} className="flex gap-2">
+            <Input
+              type="datetime-local"
+              aria-label={`Slot ${index + 1}`}
+              value={slot}
+              onChange={(event) => setSlot(index, event.target.value)}
+            />
+            {formData.slots.length > 1 && (
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => setField("slots", formData.slots.filter((_, slotIndex) => slotIndex !== index))}
+              >
+                Remove
+              </Button>
+            )}
+          </div>
+        ))}
+        {formData.slots.length < INTERVIEW_MAX_SLOTS && (
+          <Button type="button" variant="outline" size="sm" onClick={() => setField("slots", [...formData.slots, ""])}>
+            Add Slot
+          </Button>
+        )}
+      </div>
+
+      <div className="space-y-2">
+        <Label>Interviewers</Label>
+        <div className="flex flex-col gap-2 text-sm">
+          {members.map((member) => (
+            <label key={member.userId} className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={formData.interviewerIds.includes(member.userId)}
+                onChange={() => toggleInterviewer(member.userId)}
+              />
+              {member.name} <span className="text-muted-foreground">{member.email}</span>
+            </label>
+          ))}
+        </div>
+      </div>
+
+      <div className="grid gap-4 sm:grid-cols-2">
+        <div className="space-y-2">
+          <Label htmlFor="location">Location</Label>
+          <Input
+            id="location"
+            placeholder="e.g. Office, 3rd floor"
+            value={formData.location}
+            onChange={(event) => setField("location", event.target.value)}
+          />
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="meetingUrl">Meeting Link</Label>
+          <Input
+            id="meetingUrl"
+            type="url"
+            placeholder="https://meet.example.com/abc"
+            value={formData.meetingUrl}
+            onChange={(event) => setField("meetingUrl", event.target.value)}
+          />
+        </div>
+      </div>
+
+      {formError && <p className="text-sm text-destructive">{formError}</p>}
+
+      <div className="flex justify-end">
+        <Button type="submit" disabled={isPending}>
+          {"interviewId" in target ? "Send New Times" : "Send to Candidate"}
+        </Button>
+      </div>
+    </form>
+  );
+};
+
+export default InterviewForm;
@@ -0,0 +1,18 @@
+import { cn } from "@/lib/utils";
+import { INTERVIEW_STATUS_LABELS, InterviewStatus } from "../interviews.constants";
+
+const STATUS_STYLES: Record<InterviewStatus, string> = {
+  proposed: "bg-amber-100 text-amber-800 dark:bg-amber-950 dark:text-amber-200",
+  scheduled: "bg-green-100 text-green-800 dark:bg-green-950 dark:text-green-200",
+  cancelled: "bg-muted text-muted-foreground line-through",
+};
+
+const InterviewStatusBadge = ({ status }: { status: InterviewStatus }) => {
+  return (
+    <span className={cn("rounded-full px-2 py-0.5 text-xs font-medium", STATUS_STYLES[status])}>
+      {INTERVIEW_STATUS_LABELS[status]}
+    </span>
+  );
+};
+
+export default InterviewStatusBadge;
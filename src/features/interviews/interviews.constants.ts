@@ -0,0 +1,40 @@
+//* Plain arrays (no drizzle/zod imports) so they can be shared by the DB schema, Zod schemas and client components.
+
+//* proposed: slots offered, waiting for the candidate to pick one. scheduled: a slot was picked and invites went out.
+//* Rescheduling puts a scheduled interview back to proposed with new slots.
+export const INTERVIEW_STATUSES = ["proposed", "scheduled", "cancelled"] as const;
+
+export type InterviewStatus = (typeof INTERVIEW_STATUSES)[number];
+
+export const INTERVIEW_STATUS_LABELS: Record<InterviewStatus, string> = {
+  proposed: "Waiting for candidate",
+  scheduled: "Scheduled",
+  cancelled: "Cancelled",
+};
+
+export const INTERVIEW_DURATIONS = [15, 30, 45, 60, 90, 120] as const;
+
+export const INTERVIEW_MAX_SLOTS = 5;
+
+//* Any IANA zone the runtime knows, e.g. "Europe/Berlin".
+export const isValidTimeZone = (timeZone: string) => {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+//* Always shows the zone, so a time is never ambiguous between the employer's and the candidate's view.
+export const formatInterviewTime = (date: Date | string, timeZone: string) =>
+  new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    weekday: "short",
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+    timeZoneName: "short",
+  }).format(new Date(date));
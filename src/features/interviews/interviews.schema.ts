@@ -0,0 +1,64 @@
+import { z } from "zod";
+import { INTERVIEW_DURATIONS, INTERVIEW_MAX_SLOTS, isValidTimeZone } from "./interviews.constants";
+
+//* Slots arrive as datetime-local values ("2026-03-14T09:30") in the chosen time zone; the action converts them to UTC.
+export const interviewDetailsSchema = z
+  .object({
+    timeZone: z.string().refine(isValidTimeZone, "Please choose a valid time zone"),
+
+    durationMinutes: z
+      .number()
+      .refine((value) => (INTERVIEW_DURATIONS as readonly number[]).includes(value), "Please choose a valid duration"),
+
+    slots: z
+      .array(z.string().regex(/^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}$/, "Please pick a date and time for every slot"))
+      .min(1, "Offer at least one time slot")
+      .max(INTERVIEW_MAX_SLOTS, `Offer at most ${INTERVIEW_MAX_SLOTS} time slots`),
+
+    interviewerIds: z
+      .array(z.number().int().positive())
+      .min(1, "Choose at least one interviewer")
+      .max(10, "Choose at most 10 interviewers"),
+
+    location: z.string().trim().max(255, "Location must not exceed 255 characters").default(""),
+
+    //* Only http(s) links: it ends up in <a href> and in the calendar invite.
+    meetingUrl: z
+      .union([z.url({ protocol: /^https?$/, error: "Please enter a valid meeting link" }), z.literal("")])
+      .default(""),
+  })
+  .refine((data) => data.location || data.meetingUrl, {
+    message: "Add a location or a meeting link",
+    path: ["location"],
+  });
+
+export type InterviewDetailsInput = z.input<typeof interviewDetailsSchema>;
+export type InterviewDetailsData = z.infer<typeof interviewDetailsSchema>;
+
+export const proposeInterviewSchema = z.object({
+  applicationId: z.number().int().positive(),
+  details: interviewDetailsSchema,
+});
+
+export type ProposeInterviewInput = z.input<typeof proposeInterviewSchema>;
+
+export const rescheduleInterviewSchema = z.object({
+  interviewId: z.number().int().positive(),
+  details: interviewDetailsSchema,
+});
+
+export type RescheduleInterviewInput = z.input<typeof rescheduleInterviewSchema>;
+
+export const pickInterviewSlotSchema = z.object({
+  interviewId: z.number().int().positive(),
+  slotId: z.number().int().positive(),
+});
+
+export type PickInterviewSlotInput = z.input<typeof pickInterviewSlotSchema>;
+
+export const interviewFeedbackSchema = z.object({
+  interviewId: z.number().int().positive(),
+  feedback: z.string().trim().max(10000, "Feedback must not exceed 10000 characters"),
+});
+
+export type InterviewFeedbackInput = z.input<typeof interviewFeedbackSchema>;
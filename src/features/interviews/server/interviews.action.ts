@@ -0,0 +1,420 @@
+"use server"
+
+import { db } from "@/config/db";
+import { applications, interviewInterviewers, interviews, interviewSlots, users } from "@/drizzle/schema";
+import { getApplicationWithJob } from "@/features/applications/server/applications.queries";
+import { getAuthorizedUser } from "@/features/auth/server/auth.queries";
+import { canManageJobs } from "@/features/companies/companies.constants";
+import { getCompanyMembers, getUserMembership } from "@/features/companies/server/companies.queries";
+import { zonedDateTimeToUtc } from "@/lib/timeZone";
+import { and, asc, eq, inArray, ne, sql } from "drizzle-orm";
+import { revalidatePath } from "next/cache";
+import { formatInterviewTime } from "../interviews.constants";
+import {
+  InterviewDetailsData,
+  InterviewFeedbackInput,
+  interviewFeedbackSchema,
+  PickInterviewSlotInput,
+  pickInterviewSlotSchema,
+  ProposeInterviewInput,
+  proposeInterviewSchema,
+  RescheduleInterviewInput,
+  rescheduleInterviewSchema,
+} from "../interviews.schema";
+import { findInterviewerConflicts, getInterviewAccess, getInterviewDetails, getInterviewers } from "./interviews.queries";
+import { sendInterviewCancellation, sendInterviewInvites, sendInterviewProposal } from "./use-cases/interviewInvites";
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+type InterviewRange = { startsAt: Date; endsAt: Date };
+
+//* Interviews are run by the same people who move candidates through the pipeline.
+const getCurrentInterviewManager = async () => {
+  const user = await getAuthorizedUser("employer");
+
+  if (!user) return null;
+
+  const membership = await getUserMembership(user.id);
+
+  if (!membership || !canManageJobs(membership.role)) return null;
+
+  return { user, membership };
+};
+
+const describeConflict = (conflict: Awaited<ReturnType<typeof findInterviewerConflicts>>[number]) =>
+  `${conflict.interviewerName} already has an interview at ${formatInterviewTime(conflict.startsAt!, conflict.timeZone)}`;
+
+//* Turns the submitted round into UTC slot ranges and a checked panel, or the first problem with it.
+const prepareInterviewRound = async ({
+  details,
+  companyId,
+  excludeInterviewId,
+}: {
+  details: InterviewDetailsData;
+  companyId: number;
+  excludeInterviewId?: number;
+}): Promise<{ error: string } | { ranges: InterviewRange[]; interviewerIds: number[] }> => {
+  const ranges: InterviewRange[] = [];
+
+  for (const slot of new Set(details.slots)) {
+    const startsAt = zonedDateTimeToUtc(slot, details.timeZone);
+
+    // e.g. 02:30 on the night the clocks spring forward
+    if (!startsAt) return { error: "One of the slots doesn't exist in that time zone" };
+
+    if (startsAt.getTime() <= Date.now()) return { error: "Every slot must be in the future" };
+
+    ranges.push({ startsAt, endsAt: new Date(startsAt.getTime() + details.durationMinutes * 60_000) });
+  }
+
+  ranges.sort((a, b) => a.startsAt.getTime() - b.startsAt.getTime());
+
+  const interviewerIds = [...new Set(details.interviewerIds)];
+  const memberIds = new Set((await getCompanyMembers(companyId)).map((member) => member.userId));
+
+  if (!interviewerIds.every((id) => memberIds.has(id))) {
+    return { error: "Interviewers must be members of your company" };
+  }
+
+  const [conflict] = await findInterviewerConflicts({ interviewerIds, ranges, excludeInterviewId });
+
+  if (conflict) return { error: describeConflict(conflict) };
+
+  return { ranges, interviewerIds };
+};
+
+const replaceInterviewRound = async (
+  tx: Transaction,
+  { interviewId, ranges, interviewerIds }: { interviewId: number; ranges: InterviewRange[]; interviewerIds: number[] },
+) => {
+  await tx.delete(interviewSlots).where(eq(interviewSlots.interviewId, interviewId));
+  await tx.delete(interviewInterviewers).where(eq(interviewInterviewers.interviewId, interviewId));
+
+  await tx.insert(interviewSlots).values(ranges.map((range) => ({ interviewId, ...range })));
+  await tx.insert(interviewInterviewers).values(interviewerIds.map((userId) => ({ interviewId, userId })));
+};
+
+const revalidateInterviewPages = (interviewId: number) => {
+  revalidatePath("/employer/interviews");
+  revalidatePath(`/employer/interviews/${interviewId}`);
+  revalidatePath("/dashboard/interviews");
+};
+
+export const proposeInterviewAction = async (formData: ProposeInterviewInput) => {
+  try {
+    const manager = await getCurrentInterviewManager();
+
+    if (!manager) return { status: "ERROR", message: "Only company owners and recruiters can schedule interviews" };
+
+    const { data: validatedData, error } = proposeInterviewSchema.safeParse(formData);
+
+    if (error) return { status: "ERROR", message: error.issues[0].message };
+
+    const application = await getApplicationWithJob(validatedData.applicationId);
+
+    if (!application || application.companyId !== manager.membership.company.id) {
+      return { status: "ERROR", message: "Application not found" };
+    }
+
+    if (application.status !== "interview") {
+      return { status: "ERROR", message: "Move the candidate to the interview stage first" };
+    }
+
+    const round = await prepareInterviewRound({
+      details: validatedData.details,
+      companyId: manager.membership.company.id,
+    });
+
+    if ("error" in round) return { status: "ERROR", message: round.error };
+
+    const { details } = validatedData;
+
+    const interviewId = await db.transaction(async (tx) => {
+      const [{ id }] = await tx
+        .insert(interviews)
+        .values({
+          applicationId: application.id,
+          timeZone: details.timeZone,
+          durationMinutes: details.durationMinutes,
+          location: details.location || null,
+          meetingUrl: details.meetingUrl || null,
+          createdBy: manager.user.id,
+        })
+        .$returningId();
+
+      await replaceInterviewRound(tx, { interviewId: id, ...round });
+
+      return id;
+    });
+
+    const interview = await getInterviewDetails(interviewId);
+
+    if (interview) await sendInterviewProposal({ interview, isReschedule: false });
+
+    revalidateInterviewPages(interviewId);
+
+    return { status: "SUCCESS", message: "Interview times sent to the candidate", interviewId };
+  } catch (error) {
+    console.error("Propose Interview Error:", error);
+    return { status: "ERROR", message: "Unknown Error Occured ! Please Try Again Later" };
+  }
+};
+
+//* Offers a fresh set of slots (and optionally a new panel). A confirmed time is withdrawn from everyone's
+//* calendar first, and the candidate picks again.
+export const rescheduleInterviewAction = async (formData: RescheduleInterviewInput) => {
+  try {
+    const manager = await getCurrentInterviewManager();
+
+    if (!manager) return { status: "ERROR", message: "Only company owners and recruiters can reschedule interviews" };
+
+    const { data: validatedData, error } = rescheduleInterviewSchema.safeParse(formData);
+
+    if (error) return { status: "ERROR", message: error.issues[0].message };
+
+    const previous = await getInterviewDetails(validatedData.interviewId);
+
+    if (!previous || previous.companyId !== manager.membership.company.id) {
+      return { status: "ERROR", message: "Interview not found" };
+    }
+
+    if (previous.status === "cancelled") return { status: "ERROR", message: "This interview was cancelled" };
+
+    if (previous.applicationStatus !== "interview") {
+      return { status: "ERROR", message: "The candidate is no longer in the interview stage" };
+    }
+
+    const round = await prepareInterviewRound({
+      details: validatedData.details,
+      companyId: manager.membership.company.id,
+      excludeInterviewId: previous.id,
+    });
+
+    if ("error" in round) return { status: "ERROR", message: round.error };
+
+    const previousInterviewers = await getInterviewers(previous.id);
+    const { details } = validatedData;
+
+    const wasScheduled = await db.transaction(async (tx) => {
+      const [locked] = await tx
+        .select({ status: interviews.status })
+        .from(interviews)
+        .where(eq(interviews.id, previous.id))
+        .for("update");
+
+      if (!locked || locked.status === "cancelled") return null;
+
+      await tx
+        .update(interviews)
+        .set({
+          status: "proposed",
+          timeZone: details.timeZone,
+          durationMinutes: details.durationMinutes,
+          location: details.location || null,
+          meetingUrl: details.meetingUrl || null,
+          startsAt: null,
+          endsAt: null,
+          // the withdrawn calendar entry needs a higher sequence than the invite it replaces
+          sequence: locked.status === "scheduled" ? sql`${interviews.sequence} + 1` : undefined,
+        })
+        .where(eq(interviews.id, previous.id));
+
+      await replaceInterviewRound(tx, { interviewId: previous.id, ...round });
+
+      return locked.status === "scheduled";
+    });
+
+    if (wasScheduled === null) return { status: "ERROR", message: "This interview was just cancelled. Please refresh" };
+
+    if (wasScheduled) {
+      await sendInterviewCancellation({
+        interview: { ...previous, sequence: previous.sequence + 1 },
+        interviewers: previousInterviewers,
+        cancelledBy: "company",
+        isReschedule: true,
+      });
+    }
+
+    const interview = await getInterviewDetails(previous.id);
+
+    if (interview) await sendInterviewProposal({ interview, isReschedule: true });
+
+    revalidateInterviewPages(previous.id);
+
+    return { status: "SUCCESS", message: "New interview times sent to the candidate" };
+  } catch (error) {
+    console.error("Reschedule Interview Error:", error);
+    return { status: "ERROR", message: "Unknown Error Occured ! Please Try Again Later" };
+  }
+};
+
+//* The candidate confirms one of the offered slots. Everything is re-checked under locks: two candidates
+//* picking slots for the same interviewer at the same moment must not both get the time.
+export const pickInterviewSlotAction = async (formData: PickInterviewSlotInput) => {
+  try {
+    const user = await getAuthorizedUser("applicant");
+
+    if (!user) return { status: "ERROR", message: "Only the candidate can pick a time" };
+
+    const { data: validatedData, error } = pickInterviewSlotSchema.safeParse(formData);
+
+    if (error) return { status: "ERROR", message: error.issues[0].message };
+
+    const access = await getInterviewAccess({ interviewId: validatedData.interviewId, user });
+
+    if (!access || access.party !== "applicant") return { status: "ERROR", message: "Interview not found" };
+
+    const { interview } = access;
+
+    const problem = await db.transaction(async (tx) => {
+      const [locked] = await tx
+        .select({ status: interviews.status, durationMinutes: interviews.durationMinutes })
+        .from(interviews)
+        .where(eq(interviews.id, interview.id))
+        .for("update");
+
+      if (!locked || locked.status !== "proposed") return "This interview is no longer waiting for a time. Please refresh";
+
+      const [application] = await tx
+        .select({ status: applications.status })
+        .from(applications)
+        .where(eq(applications.id, interview.applicationId));
+
+      if (application?.status !== "interview") return "This application is no longer in the interview stage";
+
+      const [slot] = await tx
+        .select({ startsAt: interviewSlots.startsAt, endsAt: interviewSlots.endsAt })
+        .from(interviewSlots)
+        .where(and(eq(interviewSlots.id, validatedData.slotId), eq(interviewSlots.interviewId, interview.id)));
+
+      if (!slot) return "That time is no longer offered. Please refresh";
+
+      if (slot.startsAt.getTime() <= Date.now()) return "That time has already passed";
+
+      const panel = await tx
+        .select({ userId: interviewInterviewers.userId })
+        .from(interviewInterviewers)
+        .where(eq(interviewInterviewers.interviewId, interview.id));
+
+      const interviewerIds = panel.map((seat) => seat.userId);
+
+      // serialises scheduling per interviewer; ordered ids keep concurrent pickers from deadlocking
+      if (interviewerIds.length > 0) {
+        await tx
+          .select({ id: users.id })
+          .from(users)
+          .where(inArray(users.id, interviewerIds))
+          .orderBy(asc(users.id))
+          .for("update");
+      }
+
+      const [conflict] = await findInterviewerConflicts({
+        interviewerIds,
+        ranges: [slot],
+        excludeInterviewId: interview.id,
+        tx,
+      });
+
+      if (conflict) return "That time was just taken. Please pick another one";
+
+      await tx
+        .update(interviews)
+        .set({
+          status: "scheduled",
+          startsAt: slot.startsAt,
+          endsAt: slot.endsAt,
+          sequence: sql`${interviews.sequence} + 1`,
+        })
+        .where(eq(interviews.id, interview.id));
+
+      return null;
+    });
+
+    if (problem) return { status: "ERROR", message: problem };
+
+    const scheduled = await getInterviewDetails(interview.id);
+
+    if (scheduled) {
+      await sendInterviewInvites({ interview: scheduled, interviewers: await getInterviewers(interview.id) });
+    }
+
+    revalidateInterviewPages(interview.id);
+
+    return { status: "SUCCESS", message: "Interview confirmed. A calendar invite is on its way" };
+  } catch (error) {
+    console.error("Pick Interview Slot Error:", error);
+    return { status: "ERROR", message: "Unknown Error Occured ! Please Try Again Later" };
+  }
+};
+
+//* Either side can call it off; the row stays (with its last time) so both sides keep the history.
+export const cancelInterviewAction = async (interviewId: number) => {
+  try {
+    const user = await getAuthorizedUser();
+
+    if (!user) return { status: "ERROR", message: "Please sign in" };
+
+    const access = await getInterviewAccess({ interviewId, user });
+
+    if (!access) return { status: "ERROR", message: "Interview not found" };
+
+    if (access.party === "company" && !access.canManage) {
+      return { status: "ERROR", message: "Only company owners and recruiters can cancel interviews" };
+    }
+
+    const [result] = await db
+      .update(interviews)
+      .set({ status: "cancelled", cancelledAt: new Date(), sequence: sql`${interviews.sequence} + 1` })
+      .where(and(eq(interviews.id, interviewId), ne(interviews.status, "cancelled")));
+
+    if (result.affectedRows === 0) return { status: "ERROR", message: "This interview is already cancelled" };
+
+    const interview = await getInterviewDetails(interviewId);
+
+    if (interview) {
+      await sendInterviewCancellation({
+        interview,
+        interviewers: await getInterviewers(interviewId),
+        cancelledBy: access.party,
+        isReschedule: false,
+      });
+    }
+
+    revalidateInterviewPages(interviewId);
+
+    return { status: "SUCCESS", message: "Interview cancelled" };
+  } catch (error) {
+    console.error("Cancel Interview Error:", error);
+    return { status: "ERROR", message: "Unknown Error Occured ! Please Try Again Later" };
+  }
+};
+
+export const saveInterviewFeedbackAction = async (formData: InterviewFeedbackInput) => {
+  try {
+    const user = await getAuthorizedUser();
+
+    if (!user) return { status: "ERROR", message: "Please sign in" };
+
+    const { data: validatedData, error } = interviewFeedbackSchema.safeParse(formData);
+
+    if (error) return { status: "ERROR", message: error.issues[0].message };
+
+    const access = await getInterviewAccess({ interviewId: validatedData.interviewId, user });
+
+    if (!access || !access.canWriteFeedback) {
+      return { status: "ERROR", message: "Only the panel and recruiters can write feedback" };
+    }
+
+    await db
+      .update(interviews)
+      .set({ feedback: validatedData.feedback || null })
+      .where(eq(interviews.id, validatedData.interviewId));
+
+    revalidatePath(`/employer/interviews/${validatedData.interviewId}`);
+
+    return { status: "SUCCESS", message: "Feedback saved" };
+  } catch (error) {
+    console.error("Save Interview Feedback Error:", error);
+    return { status: "ERROR", message: "Unknown Error Occured ! Please Try Again Later" };
+  }
+};
@@ -0,0 +1,144 @@
+import { db } from "@/config/db";
+import { applications, companies, interviewInterviewers, interviews, interviewSlots, jobs, users } from "@/drizzle/schema";
+import { CurrentUser } from "@/features/auth/server/auth.queries";
+import { canManageJobs } from "@/features/companies/companies.constants";
+import { getUserMembership } from "@/features/companies/server/companies.queries";
+import { and, asc, desc, eq, gt, inArray, isNull, lt, ne, or } from "drizzle-orm";
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+const interviewColumns = {
+  id: interviews.id,
+  status: interviews.status,
+  timeZone: interviews.timeZone,
+  durationMinutes: interviews.durationMinutes,
+  location: interviews.location,
+  meetingUrl: interviews.meetingUrl,
+  startsAt: interviews.startsAt,
+  endsAt: interviews.endsAt,
+  sequence: interviews.sequence,
+  feedback: interviews.feedback,
+  applicationId: applications.id,
+  applicationStatus: applications.status,
+  applicantId: users.id,
+  applicantName: users.name,
+  applicantEmail: users.email,
+  jobId: jobs.id,
+  jobTitle: jobs.title,
+  companyId: companies.id,
+  companyName: companies.name,
+};
+
+const selectInterviews = () =>
+  db
+    .select(interviewColumns)
+    .from(interviews)
+    .innerJoin(applications, eq(applications.id, interviews.applicationId))
+    .innerJoin(users, eq(users.id, applications.applicantId))
+    .innerJoin(jobs, eq(jobs.id, applications.jobId))
+    .innerJoin(companies, eq(companies.id, jobs.companyId));
+
+export const getInterviewDetails = async (interviewId: number) => {
+  const [interview] = await selectInterviews().where(and(eq(interviews.id, interviewId), isNull(users.deletedAt)));
+  return interview ?? null;
+};
+
+export type InterviewDetails = NonNullable<Awaited<ReturnType<typeof getInterviewDetails>>>;
+
+//* Like conversations: the candidate and every member of the hiring company can see the interview.
+//* Owners and recruiters run it; the people on the panel (any role) can also write feedback.
+//* Feedback is internal, so it's blanked for the candidate.
+export const getInterviewAccess = async ({ interviewId, user }: { interviewId: number; user: CurrentUser }) => {
+  const interview = await getInterviewDetails(interviewId);
+
+  if (!interview) return null;
+
+  if (user.role === "applicant" && interview.applicantId === user.id) {
+    return {
+      interview: { ...interview, feedback: null },
+      party: "applicant" as const,
+      canManage: false,
+      canWriteFeedback: false,
+    };
+  }
+
+  if (user.role !== "employer") return null;
+
+  const membership = await getUserMembership(user.id);
+
+  if (!membership || membership.company.id !== interview.companyId) return null;
+
+  const [panelSeat] = await db
+    .select({ id: interviewInterviewers.id })
+    .from(interviewInterviewers)
+    .where(and(eq(interviewInterviewers.interviewId, interviewId), eq(interviewInterviewers.userId, user.id)));
+
+  const canManage = canManageJobs(membership.role);
+
+  return { interview, party: "company" as const, canManage, canWriteFeedback: canManage || !!panelSeat };
+};
+
+export type InterviewAccess = NonNullable<Awaited<ReturnType<typeof getInterviewAccess>>>;
+
+export const getInterviewSlots = async (interviewId: number) => {
+  return db
+    .select({ id: interviewSlots.id, startsAt: interviewSlots.startsAt, endsAt: interviewSlots.endsAt })
+    .from(interviewSlots)
+    .where(eq(interviewSlots.interviewId, interviewId))
+    .orderBy(asc(interviewSlots.startsAt));
+};
+
+export const getInterviewers = async (interviewId: number) => {
+  return db
+    .select({ userId: users.id, name: users.name, email: users.email })
+    .from(interviewInterviewers)
+    .innerJoin(users, eq(users.id, interviewInterviewers.userId))
+    .where(and(eq(interviewInterviewers.interviewId, interviewId), isNull(users.deletedAt)))
+    .orderBy(asc(users.name));
+};
+
+//* MySQL sorts enums in declaration order: waiting for the candidate, then scheduled (soonest first), then cancelled.
+const interviewListOrder = [asc(interviews.status), asc(interviews.startsAt), desc(interviews.id)];
+
+export const getCompanyInterviews = async (companyId: number) => {
+  return selectInterviews()
+    .where(and(eq(companies.id, companyId), isNull(users.deletedAt)))
+    .orderBy(...interviewListOrder);
+};
+
+export const getApplicantInterviews = async (applicantId: number) => {
+  return selectInterviews()
+    .where(eq(applications.applicantId, applicantId))
+    .orderBy(...interviewListOrder);
+};
+
+//* Scheduled interviews of these interviewers that overlap any of the ranges. Proposed slots don't block
+//* anything until the candidate picks one, so only scheduled interviews count.
+export const findInterviewerConflicts = async ({
+  interviewerIds,
+  ranges,
+  excludeInterviewId,
+  tx = db,
+}: {
+  interviewerIds: number[];
+  ranges: { startsAt: Date; endsAt: Date }[];
+  excludeInterviewId?: number;
+  tx?: Transaction | typeof db;
+}) => {
+  if (interviewerIds.length === 0 || ranges.length === 0) return [];
+
+  return tx
+    .select({ interviewerName: users.name, startsAt: interviews.startsAt, timeZone: interviews.timeZone })
+    .from(interviewInterviewers)
+    .innerJoin(interviews, eq(interviews.id, interviewInterviewers.interviewId))
+    .innerJoin(users, eq(users.id, interviewInterviewers.userId))
+    .where(
+      and(
+        inArray(interviewInterviewers.userId, interviewerIds),
+        eq(interviews.status, "scheduled"),
+        excludeInterviewId ? ne(interviews.id, excludeInterviewId) : undefined,
+        or(...ranges.map((range) => and(lt(interviews.startsAt, range.endsAt), gt(interviews.endsAt, range.startsAt)))),
+      ),
+    )
+    .orderBy(asc(interviews.startsAt));
+};
@@ -0,0 +1,228 @@
+import { APP_URL, EMAIL_FROM } from "@/config/constant";
+import { sendEmail } from "@/features/email/server/email";
+import { interviewEmail } from "@/features/email/templates";
+import { createNotifications } from "@/features/notifications/server/notifications";
+import { buildCalendarEvent, CalendarMethod, ICS_CONTENT_TYPE } from "@/lib/ics";
+import { formatInterviewTime } from "../../interviews.constants";
+import { getInterviewSlots, InterviewDetails } from "../interviews.queries";
+
+interface Interviewer {
+  userId: number;
+  name: string;
+  email: string;
+}
+
+const CANDIDATE_URL = `${APP_URL}/dashboard/interviews`;
+
+const getPanelUrl = (interviewId: number) => `${APP_URL}/employer/interviews/${interviewId}`;
+
+//* Stable per interview, so every update or cancellation replaces the same calendar entry.
+const getInterviewUid = (interviewId: number) => `interview-${interviewId}@${new URL(APP_URL).hostname}`;
+
+const describeWhen = (interview: InterviewDetails) =>
+  interview.startsAt
+    ? `When: ${formatInterviewTime(interview.startsAt, interview.timeZone)} (${interview.durationMinutes} min)`
+    : null;
+
+const describeWhere = (interview: InterviewDetails) =>
+  [interview.location && `Where: ${interview.location}`, interview.meetingUrl && `Meeting link: ${interview.meetingUrl}`];
+
+//* The .ics for a scheduled interview, attached to invites and offered as a download on the interview pages.
+//* Returns null while no slot has been picked.
+export const buildInterviewCalendar = ({
+  interview,
+  interviewers,
+  method,
+}: {
+  interview: InterviewDetails;
+  interviewers: Interviewer[];
+  method: CalendarMethod;
+}) => {
+  if (!interview.startsAt || !interview.endsAt) return null;
+
+  return buildCalendarEvent({
+    uid: getInterviewUid(interview.id),
+    sequence: interview.sequence,
+    method,
+    start: interview.startsAt,
+    end: interview.endsAt,
+    summary: `Interview: ${interview.jobTitle} at ${interview.companyName}`,
+    description: [`Interview with ${interview.applicantName} for ${interview.jobTitle}.`, interview.meetingUrl && `Join: ${interview.meetingUrl}`]
+      .filter(Boolean)
+      .join("\n"),
+    location: interview.location ?? interview.meetingUrl ?? undefined,
+    url: interview.meetingUrl ?? undefined,
+    organizer: { name: interview.companyName, email: EMAIL_FROM },
+    attendees: [{ name: interview.applicantName, email: interview.applicantEmail }, ...interviewers],
+  });
+};
+
+const toAttachment = (calendar: string | null) =>
+  calendar ? [{ filename: "interview.ics", contentType: ICS_CONTENT_TYPE, content: calendar }] : undefined;
+
+//* Asks the candidate to pick one of the offered slots, for a new interview or after a reschedule.
+export const sendInterviewProposal = async ({
+  interview,
+  isReschedule,
+}: {
+  interview: InterviewDetails;
+  isReschedule: boolean;
+}) => {
+  const slots = await getInterviewSlots(interview.id);
+
+  await sendEmail({
+    to: interview.applicantEmail,
+    ...interviewEmail({
+      name: interview.applicantName,
+      subject: isReschedule
+        ? `New interview times for ${interview.jobTitle}`
+        : `Interview invitation: ${interview.jobTitle} at ${interview.companyName}`,
+      intro: isReschedule
+        ? `${interview.companyName} needs to move your interview for ${interview.jobTitle}. Please pick one of these new times:`
+        : `${interview.companyName} would like to interview you for ${interview.jobTitle}. Please pick one of these times:`,
+      details: [
+        ...slots.map((slot) => `${formatInterviewTime(slot.startsAt, interview.timeZone)} (${interview.durationMinutes} min)`),
+        ...describeWhere(interview).filter((line): line is string => !!line),
+      ],
+      actionLabel: "Pick a Time",
+      actionUrl: CANDIDATE_URL,
+      outro: "You'll get a calendar invite as soon as you pick a time.",
+    }),
+  });
+
+  await createNotifications({
+    userIds: [interview.applicantId],
+    type: "interview",
+    title: isReschedule
+      ? `${interview.companyName} proposed new interview times`
+      : `${interview.companyName} invited you to an interview`,
+    body: `Pick a time for your ${interview.jobTitle} interview`,
+    url: "/dashboard/interviews",
+  });
+};
+
+//* Sends the (updated) calendar invite to the candidate and everyone on the panel.
+export const sendInterviewInvites = async ({
+  interview,
+  interviewers,
+}: {
+  interview: InterviewDetails;
+  interviewers: Interviewer[];
+}) => {
+  const attachments = toAttachment(buildInterviewCalendar({ interview, interviewers, method: "REQUEST" }));
+  const details = [describeWhen(interview), ...describeWhere(interview)].filter((line): line is string => !!line);
+
+  await sendEmail({
+    to: interview.applicantEmail,
+    attachments,
+    ...interviewEmail({
+      name: interview.applicantName,
+      subject: `Interview confirmed: ${interview.jobTitle} at ${interview.companyName}`,
+      intro: `Your interview with ${interview.companyName} for ${interview.jobTitle} is confirmed.`,
+      details,
+      actionLabel: "View Interview",
+      actionUrl: CANDIDATE_URL,
+      outro: "The attached invite adds it to your calendar. If the time no longer works, you can cancel from your dashboard.",
+    }),
+  });
+
+  for (const interviewer of interviewers) {
+    await sendEmail({
+      to: interviewer.email,
+      attachments,
+      ...interviewEmail({
+        name: interviewer.name,
+        subject: `Interview scheduled: ${interview.applicantName} for ${interview.jobTitle}`,
+        intro: `${interview.applicantName} picked a time for their ${interview.jobTitle} interview. You're on the panel.`,
+        details,
+        actionLabel: "Open Interview",
+        actionUrl: getPanelUrl(interview.id),
+        outro: "The attached invite adds it to your calendar.",
+      }),
+    });
+  }
+
+  await createNotifications({
+    userIds: interviewers.map((interviewer) => interviewer.userId),
+    type: "interview",
+    title: `Interview scheduled with ${interview.applicantName}`,
+    body: describeWhen(interview) ?? undefined,
+    url: `/employer/interviews/${interview.id}`,
+  });
+};
+
+//* Tells everyone involved that a scheduled time is off, with a CANCEL invite that removes the calendar entry.
+//* A proposal the candidate never answered has no calendar entry, so only the candidate hears about it.
+export const sendInterviewCancellation = async ({
+  interview,
+  interviewers,
+  cancelledBy,
+  isReschedule,
+}: {
+  interview: InterviewDetails;
+  interviewers: Interviewer[];
+  cancelledBy: "applicant" | "company";
+  isReschedule: boolean;
+}) => {
+  const attachments = toAttachment(buildInterviewCalendar({ interview, interviewers, method: "CANCEL" }));
+  const details = [describeWhen(interview)].filter((line): line is string => !!line);
+  const wasScheduled = attachments !== undefined;
+
+  // after a reschedule the candidate gets the new proposal instead of a separate cancellation
+  if (!isReschedule && cancelledBy === "company") {
+    await sendEmail({
+      to: interview.applicantEmail,
+      attachments,
+      ...interviewEmail({
+        name: interview.applicantName,
+        subject: `Interview cancelled: ${interview.jobTitle} at ${interview.companyName}`,
+        intro: `${interview.companyName} cancelled your interview for ${interview.jobTitle}.`,
+        details,
+        actionLabel: "View Interviews",
+        actionUrl: CANDIDATE_URL,
+        outro: wasScheduled ? "The attached update removes it from your calendar." : "No calendar entry was created yet.",
+      }),
+    });
+
+    await createNotifications({
+      userIds: [interview.applicantId],
+      type: "interview",
+      title: `${interview.companyName} cancelled your ${interview.jobTitle} interview`,
+      url: "/dashboard/interviews",
+    });
+  }
+
+  if (!wasScheduled && cancelledBy === "company") return;
+
+  const intro = isReschedule
+    ? `The ${interview.jobTitle} interview with ${interview.applicantName} is being rescheduled. You'll get a new invite once they pick a time.`
+    : cancelledBy === "applicant"
+      ? `${interview.applicantName} cancelled their ${interview.jobTitle} interview.`
+      : `The ${interview.jobTitle} interview with ${interview.applicantName} was cancelled.`;
+
+  for (const interviewer of interviewers) {
+    await sendEmail({
+      to: interviewer.email,
+      attachments,
+      ...interviewEmail({
+        name: interviewer.name,
+        subject: `${isReschedule ? "Interview moved" : "Interview cancelled"}: ${interview.applicantName} for ${interview.jobTitle}`,
+        intro,
+        details,
+        actionLabel: "Open Interview",
+        actionUrl: getPanelUrl(interview.id),
+        outro: wasScheduled ? "The attached update removes the old time from your calendar." : "",
+      }),
+    });
+  }
+
+  if (cancelledBy === "applicant") {
+    await createNotifications({
+      userIds: interviewers.map((interviewer) => interviewer.userId),
+      type: "interview",
+      title: `${interview.applicantName} cancelled their interview`,
+      body: describeWhen(interview) ?? undefined,
+      url: `/employer/interviews/${interview.id}`,
+    });
+  }
+};
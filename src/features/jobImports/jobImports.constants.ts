@@ -0,0 +1,120 @@
+//* Plain arrays (no drizzle/zod imports) so they can be shared by the DB schema, Zod schemas and client components.
+
+import {
+  EMPLOYMENT_TYPE_LABELS,
+  EMPLOYMENT_TYPES,
+  EXPERIENCE_LEVEL_LABELS,
+  EXPERIENCE_LEVELS,
+  JOB_STATUS_LABELS,
+  SALARY_CURRENCIES,
+  WORK_MODE_LABELS,
+  WORK_MODES,
+} from "../jobs/jobs.constants";
+
+export const JOB_IMPORT_FORMATS = ["csv", "xml"] as const;
+
+export type JobImportFormat = (typeof JOB_IMPORT_FORMATS)[number];
+
+export const JOB_IMPORT_FORMAT_LABELS: Record<JobImportFormat, string> = {
+  csv: "CSV",
+  xml: "XML feed",
+};
+
+//* The job fields a source column can be mapped to. externalRef is the feed's own ID for the job:
+//* importing the same feed again updates the jobs it created instead of duplicating them.
+export const JOB_IMPORT_FIELDS = [
+  "externalRef",
+  "title",
+  "description",
+  "employmentType",
+  "workMode",
+  "location",
+  "salaryMin",
+  "salaryMax",
+  "salaryCurrency",
+  "experienceLevel",
+  "skills",
+  "status",
+] as const;
+
+export type JobImportField = (typeof JOB_IMPORT_FIELDS)[number];
+
+export const JOB_IMPORT_FIELD_LABELS: Record<JobImportField, string> = {
+  externalRef: "Reference ID",
+  title: "Title",
+  description: "Description",
+  employmentType: "Employment type",
+  workMode: "Work mode",
+  location: "Location",
+  salaryMin: "Minimum salary",
+  salaryMax: "Maximum salary",
+  salaryCurrency: "Currency",
+  experienceLevel: "Experience level",
+  skills: "Skills",
+  status: "Status",
+};
+
+export const REQUIRED_JOB_IMPORT_FIELDS = ["externalRef", "title", "description"] as const satisfies JobImportField[];
+
+//* Choice fields can fall back to a fixed value when the column is missing or a cell is empty, since most
+//* feeds don't carry e.g. an experience level.
+export const JOB_IMPORT_FIELDS_WITH_FALLBACK = [
+  "employmentType",
+  "workMode",
+  "salaryCurrency",
+  "experienceLevel",
+  "status",
+] as const satisfies JobImportField[];
+
+export type JobImportFieldWithFallback = (typeof JOB_IMPORT_FIELDS_WITH_FALLBACK)[number];
+
+const toOptions = <T extends string>(values: readonly T[], labels?: Record<T, string>) =>
+  values.map((value) => ({ value, label: labels?.[value] ?? value }));
+
+//* The values a cell (or fallback) may take per choice field. Imported jobs can be drafts or published,
+//* like jobs created in the dashboard.
+export const JOB_IMPORT_CHOICES: Record<JobImportFieldWithFallback, { value: string; label: string }[]> = {
+  employmentType: toOptions(EMPLOYMENT_TYPES, EMPLOYMENT_TYPE_LABELS),
+  workMode: toOptions(WORK_MODES, WORK_MODE_LABELS),
+  salaryCurrency: toOptions(SALARY_CURRENCIES),
+  experienceLevel: toOptions(EXPERIENCE_LEVELS, EXPERIENCE_LEVEL_LABELS),
+  status: toOptions(["draft", "published"] as const, JOB_STATUS_LABELS),
+};
+
+//* Column/tag names that are mapped automatically the first time a company imports. Compared after
+//* lower-casing and dropping everything but letters and digits, so "Job Title" matches "jobtitle".
+export const JOB_IMPORT_FIELD_ALIASES: Record<JobImportField, string[]> = {
+  externalRef: [
+    "externalref",
+    "referencenumber",
+    "reference",
+    "ref",
+    "refid",
+    "id",
+    "jobid",
+    "requisitionid",
+    "reqid",
+  ],
+  title: ["title", "jobtitle", "position", "name"],
+  description: ["description", "jobdescription", "body", "details"],
+  employmentType: ["employmenttype", "jobtype", "type", "contracttype"],
+  workMode: ["workmode", "remote", "remotetype", "workplace", "workplacetype"],
+  location: ["location", "city", "joblocation"],
+  salaryMin: ["salarymin", "minsalary", "salaryfrom", "salarylow"],
+  salaryMax: ["salarymax", "maxsalary", "salaryto", "salaryhigh"],
+  salaryCurrency: ["salarycurrency", "currency"],
+  experienceLevel: ["experiencelevel", "experience", "seniority", "level"],
+  skills: ["skills", "tags", "keywords"],
+  status: ["status", "state"],
+};
+
+export const JOB_IMPORT_OUTCOMES = ["create", "update", "unchanged", "error"] as const;
+
+export type JobImportOutcome = (typeof JOB_IMPORT_OUTCOMES)[number];
+
+export const JOB_IMPORT_OUTCOME_LABELS: Record<JobImportOutcome, string> = {
+  create: "New job",
+  update: "Update",
+  unchanged: "Unchanged",
+  error: "Error",
+};
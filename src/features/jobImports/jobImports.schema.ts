@@ -0,0 +1,47 @@
+import { z } from "zod";
+import {
+  JOB_IMPORT_CHOICES,
+  JOB_IMPORT_FIELD_LABELS,
+  JOB_IMPORT_FIELDS,
+  JOB_IMPORT_FIELDS_WITH_FALLBACK,
+  REQUIRED_JOB_IMPORT_FIELDS,
+} from "./jobImports.constants";
+
+//* columns maps a job field to the CSV column / XML tag it is read from; fallbacks are used for choice
+//* fields whose column is unmapped or empty.
+export const jobImportMappingSchema = z
+  .object({
+    columns: z.partialRecord(z.enum(JOB_IMPORT_FIELDS), z.string().trim().min(1).max(255)),
+    fallbacks: z.partialRecord(z.enum(JOB_IMPORT_FIELDS_WITH_FALLBACK), z.string()),
+  })
+  .superRefine((mapping, ctx) => {
+    for (const field of REQUIRED_JOB_IMPORT_FIELDS) {
+      if (!mapping.columns[field]) {
+        ctx.addIssue({
+          code: "custom",
+          message: `Please choose the column that holds the ${JOB_IMPORT_FIELD_LABELS[field].toLowerCase()}`,
+          path: ["columns", field],
+        });
+      }
+    }
+
+    for (const field of JOB_IMPORT_FIELDS_WITH_FALLBACK) {
+      const fallback = mapping.fallbacks[field];
+
+      if (fallback && !JOB_IMPORT_CHOICES[field].some((choice) => choice.value === fallback)) {
+        ctx.addIssue({
+          code: "custom",
+          message: `Unknown default for ${JOB_IMPORT_FIELD_LABELS[field].toLowerCase()}`,
+          path: ["fallbacks", field],
+        });
+      }
+    }
+  });
+
+export type JobImportMapping = z.infer<typeof jobImportMappingSchema>;
+
+export const externalRefSchema = z
+  .string()
+  .trim()
+  .min(1, "Reference ID is missing")
+  .max(255, "Reference ID must not exceed 255 characters");
@@ -0,0 +1,127 @@
+"use server"
+
+import { db } from "@/config/db";
+import { jobImportMappings } from "@/drizzle/schema";
+import { getAuthorizedUser } from "@/features/auth/server/auth.queries";
+import { canManageJobs } from "@/features/companies/companies.constants";
+import { getUserMembership } from "@/features/companies/server/companies.queries";
+import { revalidatePath } from "next/cache";
+import { jobImportMappingSchema } from "../jobImports.schema";
+import { getJobImportMapping } from "./jobImports.queries";
+import {
+  applyJobImport,
+  planJobImport,
+  readJobImportFile,
+  resolveJobImportMapping,
+  summarizeJobImport,
+  toJobImportReport,
+} from "./use-cases/jobImport";
+
+//* Same rule as posting a single job: owners and recruiters only.
+const getCurrentRecruiter = async () => {
+  const user = await getAuthorizedUser("employer");
+
+  if (!user) return null;
+
+  const membership = await getUserMembership(user.id);
+
+  if (!membership || !canManageJobs(membership.role)) return null;
+
+  return { employer: user, companyId: membership.company.id };
+};
+
+const readFile = async (formData: FormData) => {
+  const file = formData.get("file");
+  return file instanceof File ? readJobImportFile(file) : { error: "Please choose a CSV or XML file" };
+};
+
+//* First step: detect the format and columns, and suggest a mapping (the last one saved for the format).
+export const inspectJobImportAction = async (formData: FormData) => {
+  try {
+    const recruiter = await getCurrentRecruiter();
+
+    if (!recruiter) return { status: "ERROR", message: "Only company owners and recruiters can import jobs" };
+
+    const source = await readFile(formData);
+
+    if ("error" in source) return { status: "ERROR", message: source.error };
+
+    const saved = await getJobImportMapping({ companyId: recruiter.companyId, format: source.format });
+
+    return {
+      status: "SUCCESS",
+      message: `Found ${source.records.length} job(s)`,
+      format: source.format,
+      columns: source.columns,
+      rowCount: source.records.length,
+      mapping: resolveJobImportMapping({ columns: source.columns, saved }),
+    };
+  } catch (error) {
+    console.error("Inspect Job Import Error:", error);
+    return { status: "ERROR", message: "Unknown Error Occured ! Please Try Again Later" };
+  }
+};
+
+//* With dryRun the plan is only reported; otherwise the valid rows are written and the mapping is saved
+//* for the next import in this format.
+export const runJobImportAction = async (formData: FormData) => {
+  try {
+    const recruiter = await getCurrentRecruiter();
+
+    if (!recruiter) return { status: "ERROR", message: "Only company owners and recruiters can import jobs" };
+
+    const source = await readFile(formData);
+
+    if ("error" in source) return { status: "ERROR", message: source.error };
+
+    let rawMapping: unknown;
+
+    try {
+      rawMapping = JSON.parse(String(formData.get("mapping")));
+    } catch {
+      return { status: "ERROR", message: "Invalid column mapping" };
+    }
+
+    const { data: mapping, error } = jobImportMappingSchema.safeParse(rawMapping);
+
+    if (error) return { status: "ERROR", message: error.issues[0].message };
+
+    const plan = await planJobImport({ source, mapping, companyId: recruiter.companyId });
+
+    if (formData.get("dryRun") === "true") {
+      const rows = toJobImportReport(plan);
+      const summary = summarizeJobImport(rows);
+
+      return {
+        status: "SUCCESS",
+        message:
+          `Preview: ${summary.create} new, ${summary.update} to update, ` +
+          `${summary.unchanged} unchanged, ${summary.error} with errors`,
+        rows,
+        summary,
+      };
+    }
+
+    const rows = await applyJobImport({ plan, companyId: recruiter.companyId, employerId: recruiter.employer.id });
+    const summary = summarizeJobImport(rows);
+
+    await db
+      .insert(jobImportMappings)
+      .values({ companyId: recruiter.companyId, format: source.format, mapping, updatedBy: recruiter.employer.id })
+      .onDuplicateKeyUpdate({ set: { mapping, updatedBy: recruiter.employer.id } });
+
+    revalidatePath("/employer/jobs");
+
+    return {
+      status: "SUCCESS",
+      message:
+        `Imported: ${summary.create} created, ${summary.update} updated, ` +
+        `${summary.unchanged} unchanged, ${summary.error} skipped`,
+      rows,
+      summary,
+    };
+  } catch (error) {
+    console.error("Run Job Import Error:", error);
+    return { status: "ERROR", message: "Unknown Error Occured ! Please Try Again Later" };
+  }
+};
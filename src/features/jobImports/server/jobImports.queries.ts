@@ -0,0 +1,30 @@
+import { db } from "@/config/db";
+import { jobImportMappings, jobs } from "@/drizzle/schema";
+import { Job } from "@/features/jobs/server/jobs.queries";
+import { and, eq, inArray, isNull } from "drizzle-orm";
+import { JobImportFormat } from "../jobImports.constants";
+
+export const getJobImportMapping = async ({ companyId, format }: { companyId: number; format: JobImportFormat }) => {
+  const [row] = await db
+    .select({ mapping: jobImportMappings.mapping })
+    .from(jobImportMappings)
+    .where(and(eq(jobImportMappings.companyId, companyId), eq(jobImportMappings.format, format)));
+
+  return row?.mapping ?? null;
+};
+
+//* Deleted jobs give up their reference (see deleteJob), so only live jobs can match.
+export const getCompanyJobsByExternalRefs = async ({
+  companyId,
+  externalRefs,
+}: {
+  companyId: number;
+  externalRefs: string[];
+}): Promise<Job[]> => {
+  if (externalRefs.length === 0) return [];
+
+  return db
+    .select()
+    .from(jobs)
+    .where(and(eq(jobs.companyId, companyId), inArray(jobs.externalRef, externalRefs), isNull(jobs.deletedAt)));
+};
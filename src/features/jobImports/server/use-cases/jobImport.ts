@@ -0,0 +1,341 @@
+import { JOB_IMPORT_MAX_ROWS, JOB_IMPORT_MAX_SIZE } from "@/config/constant";
+import { JobData, JobInput, jobSchema } from "@/features/jobs/jobs.schema";
+import { Job } from "@/features/jobs/server/jobs.queries";
+import { createJob, updateJob } from "@/features/jobs/server/use-cases/jobPostings";
+import { parseCsv } from "@/lib/csv";
+import { isDuplicateEntryError } from "@/lib/utils";
+import { parseXmlRecords } from "@/lib/xml";
+import {
+  JOB_IMPORT_CHOICES,
+  JOB_IMPORT_FIELD_ALIASES,
+  JOB_IMPORT_FIELD_LABELS,
+  JOB_IMPORT_FIELDS,
+  JobImportField,
+  JobImportFieldWithFallback,
+  JobImportFormat,
+  JobImportOutcome,
+} from "../../jobImports.constants";
+import { externalRefSchema, JobImportMapping } from "../../jobImports.schema";
+import { getCompanyJobsByExternalRefs } from "../jobImports.queries";
+
+//* Bulk job import: read a CSV or XML file into flat records, map each record to a job with the company's
+//* column mapping, validate it with jobSchema, and match it to an existing job by its reference ID.
+//* planJobImport never writes, so the same plan backs the dry-run preview and the real import.
+
+export interface JobImportSource {
+  format: JobImportFormat;
+  columns: string[];
+  //* row is what the user sees: the spreadsheet row for CSV (the header is row 1), the position for XML
+  records: { row: number; values: Record<string, string> }[];
+}
+
+export interface JobImportRowResult {
+  row: number;
+  externalRef: string;
+  title: string;
+  outcome: JobImportOutcome;
+  errors: string[];
+}
+
+interface PlannedRow extends JobImportRowResult {
+  data?: JobData;
+  existing?: Job;
+}
+
+// "Job Title", "job_title" and "jobtitle" are the same column
+const normalize = (value: string) => value.toLowerCase().replace(/[^a-z0-9]/g, "");
+
+const readCsvSource = (text: string): JobImportSource | { error: string } => {
+  const rows = parseCsv(text)
+    .map((cells, index) => ({ row: index + 1, cells }))
+    .filter(({ cells }) => cells.some((cell) => cell.trim() !== ""));
+
+  const [header, ...dataRows] = rows;
+  if (!header) return { error: "The file is empty" };
+
+  const columns = header.cells.map((cell) => cell.trim());
+
+  if (columns.some((column) => !column) || new Set(columns).size !== columns.length) {
+    return { error: "Every column needs a unique name in the first row" };
+  }
+
+  return {
+    format: "csv",
+    columns,
+    records: dataRows.map(({ row, cells }) => ({
+      row,
+      values: Object.fromEntries(columns.map((column, index) => [column, cells[index] ?? ""])),
+    })),
+  };
+};
+
+const readXmlSource = (text: string): JobImportSource => {
+  const records = parseXmlRecords(text);
+
+  return {
+    format: "xml",
+    columns: [...new Set(records.flatMap((values) => Object.keys(values)))],
+    records: records.map((values, index) => ({ row: index + 1, values })),
+  };
+};
+
+//* The format is sniffed from the content, not the file name: XML starts with "<".
+export const readJobImportFile = async (file: File): Promise<JobImportSource | { error: string }> => {
+  if (file.size === 0) return { error: "Please choose a CSV or XML file" };
+
+  if (file.size > JOB_IMPORT_MAX_SIZE) {
+    return { error: `The file must be smaller than ${JOB_IMPORT_MAX_SIZE / 1024 / 1024} MB` };
+  }
+
+  let text: string;
+
+  try {
+    text = new TextDecoder("utf-8", { fatal: true }).decode(await file.arrayBuffer());
+  } catch {
+    return { error: "The file must be UTF-8 encoded text" };
+  }
+
+  let source: JobImportSource | { error: string };
+
+  try {
+    source = text.replace(/^\uFEFF/, "").trimStart().startsWith("<") ? readXmlSource(text) : readCsvSource(text);
+  } catch (error) {
+    return { error: `The file could not be read: ${error instanceof Error ? error.message : "invalid format"}` };
+  }
+
+  if ("error" in source) return source;
+
+  if (source.records.length === 0) return { error: "The file doesn't contain any jobs" };
+
+  if (source.records.length > JOB_IMPORT_MAX_ROWS) {
+    return { error: `Import at most ${JOB_IMPORT_MAX_ROWS} jobs at a time` };
+  }
+
+  return source;
+};
+
+//* Starts from the saved mapping (dropping columns this file doesn't have) and fills the remaining fields
+//* from well-known column names.
+export const resolveJobImportMapping = ({
+  columns,
+  saved,
+}: {
+  columns: string[];
+  saved: JobImportMapping | null;
+}): JobImportMapping => {
+  const mapping: JobImportMapping = { columns: {}, fallbacks: { ...saved?.fallbacks } };
+  const usedColumns = new Set<string>();
+
+  for (const field of JOB_IMPORT_FIELDS) {
+    const savedColumn = saved?.columns[field];
+
+    if (savedColumn && columns.includes(savedColumn)) {
+      mapping.columns[field] = savedColumn;
+      usedColumns.add(savedColumn);
+    }
+  }
+
+  for (const field of JOB_IMPORT_FIELDS) {
+    if (mapping.columns[field]) continue;
+
+    const guess = JOB_IMPORT_FIELD_ALIASES[field]
+      .map((alias) => columns.find((column) => !usedColumns.has(column) && normalize(column) === alias))
+      .find(Boolean);
+
+    if (guess) {
+      mapping.columns[field] = guess;
+      usedColumns.add(guess);
+    }
+  }
+
+  return mapping;
+};
+
+const toAmount = (value: string) => {
+  if (!value) return null;
+  const digits = value.replace(/[\s,$€£₹]/g, "");
+  const amount = Number(digits);
+  // anything else is handed to the schema as-is so the row reports "Salary must be a number"
+  return digits && Number.isFinite(amount) ? amount : value;
+};
+
+const toSkills = (value: string) => [
+  ...new Set(
+    value
+      .split(/[,;|]/)
+      .map((skill) => skill.trim())
+      .filter(Boolean),
+  ),
+];
+
+//* Cells may hold the stored value or its label in any case ("Full-time", "FULL_TIME", "full time").
+const toChoice = (field: JobImportFieldWithFallback, value: string) => {
+  const key = normalize(value);
+  const choice = JOB_IMPORT_CHOICES[field].find(
+    (option) => normalize(option.value) === key || normalize(option.label) === key,
+  );
+
+  return choice?.value ?? value;
+};
+
+const isSameJob = (job: Job, data: JobData) =>
+  job.title === data.title &&
+  job.description === data.description &&
+  job.employmentType === data.employmentType &&
+  job.workMode === data.workMode &&
+  (job.location ?? "") === data.location &&
+  job.salaryMin === data.salaryMin &&
+  job.salaryMax === data.salaryMax &&
+  job.salaryCurrency === data.salaryCurrency &&
+  job.experienceLevel === data.experienceLevel &&
+  JSON.stringify(job.skills) === JSON.stringify(data.skills) &&
+  job.status === data.status;
+
+export const planJobImport = async ({
+  source,
+  mapping,
+  companyId,
+}: {
+  source: JobImportSource;
+  mapping: JobImportMapping;
+  companyId: number;
+}): Promise<PlannedRow[]> => {
+  const readCell = (values: Record<string, string>, field: JobImportField) => {
+    const column = mapping.columns[field];
+    return column ? (values[column] ?? "").trim() : "";
+  };
+
+  const readChoice = (values: Record<string, string>, field: JobImportFieldWithFallback) => {
+    const value = readCell(values, field);
+    return value ? toChoice(field, value) : mapping.fallbacks[field];
+  };
+
+  const externalRefs = source.records.map(({ values }) =>
+    externalRefSchema.safeParse(readCell(values, "externalRef")),
+  );
+
+  const existingJobs = await getCompanyJobsByExternalRefs({
+    companyId,
+    externalRefs: [...new Set(externalRefs.flatMap((result) => (result.success ? [result.data] : [])))],
+  });
+  const existingByRef = new Map(existingJobs.map((job) => [job.externalRef, job]));
+
+  const firstRowByRef = new Map<string, number>();
+
+  return source.records.map(({ row, values }, index) => {
+    const refResult = externalRefs[index];
+    const externalRef = refResult.success ? refResult.data : "";
+    const errors: string[] = [];
+
+    if (!refResult.success) {
+      errors.push(refResult.error.issues[0].message);
+    } else if (firstRowByRef.has(externalRef)) {
+      errors.push(`Reference ID ${externalRef} is also used on row ${firstRowByRef.get(externalRef)}`);
+    } else {
+      firstRowByRef.set(externalRef, row);
+    }
+
+    const existing = refResult.success ? existingByRef.get(externalRef) : undefined;
+
+    // an empty status cell leaves an existing job as it is; new jobs take the fallback (or draft)
+    const status = readCell(values, "status")
+      ? toChoice("status", readCell(values, "status"))
+      : existing && existing.status !== "closed"
+        ? existing.status
+        : mapping.fallbacks.status;
+
+    const input = {
+      title: readCell(values, "title"),
+      description: readCell(values, "description"),
+      employmentType: readChoice(values, "employmentType"),
+      workMode: readChoice(values, "workMode"),
+      location: readCell(values, "location") || undefined,
+      salaryMin: toAmount(readCell(values, "salaryMin")),
+      salaryMax: toAmount(readCell(values, "salaryMax")),
+      salaryCurrency: readChoice(values, "salaryCurrency"),
+      experienceLevel: readChoice(values, "experienceLevel"),
+      skills: toSkills(readCell(values, "skills")),
+      status,
+    } as JobInput;
+
+    const { data, error } = jobSchema.safeParse(input);
+
+    for (const issue of error?.issues ?? []) {
+      const field = issue.path[0] as JobImportField;
+      const value = input[field as keyof JobInput];
+      const message =
+        issue.code === "invalid_value" && typeof value === "string"
+          ? `"${value}" is not a valid ${JOB_IMPORT_FIELD_LABELS[field].toLowerCase()}`
+          : issue.message;
+
+      errors.push(`${JOB_IMPORT_FIELD_LABELS[field] ?? field}: ${message}`);
+    }
+
+    if (existing?.status === "closed") errors.push("The job with this reference ID is closed and can't be updated");
+
+    const outcome: JobImportOutcome =
+      errors.length > 0 || !data
+        ? "error"
+        : !existing
+          ? "create"
+          : isSameJob(existing, data)
+            ? "unchanged"
+            : "update";
+
+    return {
+      row,
+      externalRef,
+      title: readCell(values, "title"),
+      outcome,
+      errors,
+      ...(outcome !== "error" ? { data, existing } : {}),
+    };
+  });
+};
+
+//* Applies a plan. Rows with errors are skipped, so a file can be imported once its preview looks right
+//* even if a few rows still need fixing.
+export const applyJobImport = async ({
+  plan,
+  companyId,
+  employerId,
+}: {
+  plan: PlannedRow[];
+  companyId: number;
+  employerId: number;
+}) => {
+  const results: JobImportRowResult[] = [];
+
+  for (const { data, existing, ...row } of plan) {
+    if (row.outcome === "create" && data) {
+      try {
+        await createJob({ data, companyId, employerId, externalRef: row.externalRef });
+      } catch (error) {
+        if (!isDuplicateEntryError(error)) throw error;
+
+        results.push({
+          ...row,
+          outcome: "error",
+          errors: ["Another import created this job meanwhile. Run the import again"],
+        });
+        continue;
+      }
+    } else if (row.outcome === "update" && data && existing) {
+      await updateJob({ job: existing, data });
+    }
+
+    results.push(row);
+  }
+
+  return results;
+};
+
+export const summarizeJobImport = (rows: JobImportRowResult[]) => {
+  const summary: Record<JobImportOutcome, number> = { create: 0, update: 0, unchanged: 0, error: 0 };
+  for (const row of rows) summary[row.outcome]++;
+  return summary;
+};
+
+//* Strips the planned data before the rows are sent to the browser.
+export const toJobImportReport = (plan: PlannedRow[]): JobImportRowResult[] =>
+  plan.map(({ row, externalRef, title, outcome, errors }) => ({ row, externalRef, title, outcome, errors }));
@@ -0,0 +1,68 @@
+import { Card, CardAction, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import SaveJobButton from "@/features/savedJobs/components/SaveJobButton";
+import { Banknote, Clock, MapPin } from "lucide-react";
+import Link from "next/link";
+import {
+  EMPLOYMENT_TYPE_LABELS,
+  EXPERIENCE_LEVEL_LABELS,
+  formatSalaryRange,
+  WORK_MODE_LABELS,
+} from "../jobs.constants";
+import { JobSearchResult } from "../server/jobs.queries";
+
+//* isSaved is only passed for signed-in applicants; without it the card has no save button.
+const JobCard = ({ job, isSaved }: { job: JobSearchResult; isSaved?: boolean }) => {
+  return (
+    <Card className="gap-4 transition-colors hover:border-primary/50">
+      <CardHeader>
+        <CardTitle className="text-lg">
+          <Link href={`/jobs/${job.id}`} className="hover:underline">
+            {job.title}
+          </Link>
+        </CardTitle>
+        <CardDescription>
+          <Link href={`/companies/${job.companySlug}`} className="hover:underline">
+            {job.companyName}
+          </Link>
+        </CardDescription>
+        {isSaved !== undefined && (
+          <CardAction>
+            <SaveJobButton jobId={job.id} initialSaved={isSaved} />
+          </CardAction>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <div className="flex flex-wrap gap-x-4 gap-y-1 text-sm text-muted-foreground">
+          <span className="flex items-center gap-1">
+            <MapPin className="w-4 h-4" />
+            {WORK_MODE_LABELS[job.workMode]}
+            {job.location && ` · ${job.location}`}
+          </span>
+          <span className="flex items-center gap-1">
+            <Banknote className="w-4 h-4" />
+            {formatSalaryRange(job)}
+          </span>
+          <span className="flex items-center gap-1">
+            <Clock className="w-4 h-4" />
+            {EMPLOYMENT_TYPE_LABELS[job.employmentType]} · {EXPERIENCE_LEVEL_LABELS[job.experienceLevel]}
+          </span>
+        </div>
+        <p className="line-clamp-2 text-sm">{job.description}</p>
+        {job.skills.length > 0 && (
+          <div className="flex flex-wrap gap-1">
+            {job.skills.slice(0, 8).map((skill) => (
+              <span key={skill} className="rounded-full bg-muted px-2 py-0.5 text-xs">
+                {skill}
+              </span>
+            ))}
+          </div>
+        )}
+        {job.publishedAt && (
+          <p className="text-xs text-muted-foreground">Posted {job.publishedAt.toLocaleDateString()}</p>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default JobCard;
@@ -0,0 +1,257 @@
+"use client"
+
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import { useRouter } from "next/navigation";
+import React, { ChangeEvent, FormEvent, useState } from "react";
+import { toast } from "sonner";
+import {
+  EMPLOYMENT_TYPE_LABELS,
+  EXPERIENCE_LEVEL_LABELS,
+  SALARY_CURRENCIES,
+  WORK_MODE_LABELS,
+} from "../jobs.constants";
+import { JobInput, jobSchema } from "../jobs.schema";
+import { createJobAction, updateJobAction } from "../server/jobs.action";
+
+//* Form state is kept as strings (that's what inputs give us) and converted to the JobInput shape on submit.
+export interface JobFormValues {
+  title: string;
+  description: string;
+  employmentType: string;
+  workMode: string;
+  location: string;
+  salaryMin: string;
+  salaryMax: string;
+  salaryCurrency: string;
+  experienceLevel: string;
+  skills: string;
+}
+
+const EMPTY_FORM: JobFormValues = {
+  title: "",
+  description: "",
+  employmentType: "",
+  workMode: "",
+  location: "",
+  salaryMin: "",
+  salaryMax: "",
+  salaryCurrency: "USD",
+  experienceLevel: "",
+  skills: "",
+};
+
+const toJobInput = (values: JobFormValues, status: "draft" | "published") =>
+  ({
+    ...values,
+    salaryMin: values.salaryMin ? Number(values.salaryMin) : null,
+    salaryMax: values.salaryMax ? Number(values.salaryMax) : null,
+    skills: values.skills
+      .split(",")
+      .map((skill) => skill.trim())
+      .filter(Boolean),
+    status,
+  }) as JobInput;
+
+const JobForm = ({ jobId, initialValues }: { jobId?: number; initialValues?: JobFormValues }) => {
+  const router = useRouter();
+  const [formData, setFormData] = useState<JobFormValues>(initialValues ?? EMPTY_FORM);
+  const [errors, setErrors] = useState<Partial<Record<keyof JobFormValues, string>>>({});
+  const [isPending, setIsPending] = useState(false);
+
+  const handleInputChange = (name: keyof JobFormValues, value: string) => {
+    setFormData((prev) => ({
+      ...prev,
+      [name]: value,
+    }));
+  };
+
+  const submit = async (status: "draft" | "published") => {
+    const jobInput = toJobInput(formData, status);
+
+    const { error } = jobSchema.safeParse(jobInput);
+    if (error) {
+      const fieldErrors: Partial<Record<keyof JobFormValues, string>> = {};
+      for (const issue of error.issues) {
+        const field = issue.path[0] as keyof JobFormValues;
+        fieldErrors[field] ??= issue.message;
+      }
+      setErrors(fieldErrors);
+      return;
+    }
+
+    setErrors({});
+    setIsPending(true);
+
+    const result = jobId ? await updateJobAction(jobId, jobInput) : await createJobAction(jobInput);
+
+    setIsPending(false);
+
+    if (result.status === "SUCCESS") {
+      toast.success(result.message);
+      router.push("/employer/jobs");
+    } else {
+      toast.error(result.message);
+    }
+  };
+
+  const handleFormSubmit = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    submit("published");
+  };
+
+  const fieldError = (name: keyof JobFormValues) =>
+    errors[name] && <p className="text-sm text-destructive">{errors[name]}</p>;
+
+  return (
+    <form className="space-y-6" onSubmit={handleFormSubmit}>
+      <div className="space-y-2">
+        <Label htmlFor="title">Job Title *</Label>
+        <Input
+          id="title"
+          placeholder="e.g. Senior Frontend Engineer"
+          value={formData.title}
+          onChange={(event: ChangeEvent<HTMLInputElement>) => handleInputChange("title", event.target.value)}
+        />
+        {fieldError("title")}
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="description">Description *</Label>
+        <Textarea
+          id="description"
+          rows={8}
+          placeholder="Describe the role, responsibilities and requirements"
+          className="min-h-40"
+          value={formData.description}
+          onChange={(event: ChangeEvent<HTMLTextAreaElement>) => handleInputChange("description", event.target.value)}
+        />
+        {fieldError("description")}
+      </div>
+
+      <div className="grid gap-4 sm:grid-cols-2">
+        <div className="space-y-2">
+          <Label htmlFor="employmentType">Employment Type *</Label>
+          <Select value={formData.employmentType} onValueChange={(value) => handleInputChange("employmentType", value)}>
+            <SelectTrigger id="employmentType" className="w-full">
+              <SelectValue placeholder="Select type" />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(EMPLOYMENT_TYPE_LABELS).map(([value, label]) => (
+                <SelectItem key={value} value={value}>{label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {fieldError("employmentType")}
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="workMode">Work Mode *</Label>
+          <Select value={formData.workMode} onValueChange={(value) => handleInputChange("workMode", value)}>
+            <SelectTrigger id="workMode" className="w-full">
+              <SelectValue placeholder="Select work mode" />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(WORK_MODE_LABELS).map(([value, label]) => (
+                <SelectItem key={value} value={value}>{label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {fieldError("workMode")}
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="location">Location</Label>
+          <Input
+            id="location"
+            placeholder="e.g. Berlin, Germany"
+            value={formData.location}
+            onChange={(event: ChangeEvent<HTMLInputElement>) => handleInputChange("location", event.target.value)}
+          />
+          {fieldError("location")}
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="experienceLevel">Experience Level *</Label>
+          <Select value={formData.experienceLevel} onValueChange={(value) => handleInputChange("experienceLevel", value)}>
+            <SelectTrigger id="experienceLevel" className="w-full">
+              <SelectValue placeholder="Select level" />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(EXPERIENCE_LEVEL_LABELS).map(([value, label]) => (
+                <SelectItem key={value} value={value}>{label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {fieldError("experienceLevel")}
+        </div>
+      </div>
+
+      <div className="grid gap-4 sm:grid-cols-3">
+        <div className="space-y-2">
+          <Label htmlFor="salaryMin">Minimum Salary</Label>
+          <Input
+            id="salaryMin"
+            type="number"
+            min={0}
+            value={formData.salaryMin}
+            onChange={(event: ChangeEvent<HTMLInputElement>) => handleInputChange("salaryMin", event.target.value)}
+          />
+          {fieldError("salaryMin")}
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="salaryMax">Maximum Salary</Label>
+          <Input
+            id="salaryMax"
+            type="number"
+            min={0}
+            value={formData.salaryMax}
+            onChange={(event: ChangeEvent<HTMLInputElement>) => handleInputChange("salaryMax", event.target.value)}
+          />
+          {fieldError("salaryMax")}
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="salaryCurrency">Currency</Label>
+          <Select value={formData.salaryCurrency} onValueChange={(value) => handleInputChange("salaryCurrency", value)}>
+            <SelectTrigger id="salaryCurrency" className="w-full">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {SALARY_CURRENCIES.map((currency) => (
+                <SelectItem key={currency} value={currency}>{currency}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {fieldError("salaryCurrency")}
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="skills">Skills</Label>
+        <Input
+          id="skills"
+          placeholder="Comma separated, e.g. React, TypeScript, SQL"
+          value={formData.skills}
+          onChange={(event: ChangeEvent<HTMLInputElement>) => handleInputChange("skills", event.target.value)}
+        />
+        {fieldError("skills")}
+      </div>
+
+      <div className="flex flex-col gap-2 sm:flex-row sm:justify-end">
+        <Button type="button" variant="outline" disabled={isPending} onClick={() => submit("draft")}>
+          Save as Draft
+        </Button>
+        <Button type="submit" disabled={isPending}>
+          {isPending ? "Saving..." : "Publish Job"}
+        </Button>
+      </div>
+    </form>
+  );
+};
+
+export default JobForm;
@@ -0,0 +1,157 @@
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Search } from "lucide-react";
+import Link from "next/link";
+import {
+  EMPLOYMENT_TYPE_LABELS,
+  EXPERIENCE_LEVEL_LABELS,
+  SALARY_CURRENCIES,
+  WORK_MODE_LABELS,
+} from "../jobs.constants";
+import { JobSearchParams } from "../jobs.schema";
+
+//* Radix Select can't hold an empty value, so "any" stands for "no filter"; the search schema drops it.
+const ANY = "any";
+
+const POSTED_WITHIN_LABELS = { "1": "Last 24 hours", "7": "Last 7 days", "30": "Last 30 days" };
+const SORT_LABELS = { relevance: "Relevance", newest: "Newest", salary: "Highest salary" };
+
+//* A plain GET form: submitting it rewrites the query string, so every search is a shareable URL
+//* and works without client-side JavaScript.
+const JobSearchFilters = ({ params }: { params: JobSearchParams }) => {
+  return (
+    <form method="get" action="/" className="space-y-4">
+      <div className="flex flex-col gap-2 sm:flex-row">
+        <div className="relative flex-1">
+          <Search className="absolute left-3 top-2.5 w-4 h-4 text-muted-foreground" />
+          <Input
+            name="q"
+            defaultValue={params.q}
+            placeholder="Job title, keywords or skills"
+            className="pl-10"
+            aria-label="Keywords"
+          />
+        </div>
+        <Input
+          name="location"
+          defaultValue={params.location}
+          placeholder="City or country"
+          className="sm:w-56"
+          aria-label="Location"
+        />
+        <Button type="submit">Search</Button>
+      </div>
+
+      <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-4">
+        <div className="space-y-2">
+          <Label htmlFor="workMode">Work Mode</Label>
+          <Select name="workMode" defaultValue={params.workMode ?? ANY}>
+            <SelectTrigger id="workMode" className="w-full">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ANY}>Any</SelectItem>
+              {Object.entries(WORK_MODE_LABELS).map(([value, label]) => (
+                <SelectItem key={value} value={value}>{label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="employmentType">Employment Type</Label>
+          <Select name="employmentType" defaultValue={params.employmentType ?? ANY}>
+            <SelectTrigger id="employmentType" className="w-full">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ANY}>Any</SelectItem>
+              {Object.entries(EMPLOYMENT_TYPE_LABELS).map(([value, label]) => (
+                <SelectItem key={value} value={value}>{label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="experienceLevel">Experience</Label>
+          <Select name="experienceLevel" defaultValue={params.experienceLevel ?? ANY}>
+            <SelectTrigger id="experienceLevel" className="w-full">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ANY}>Any</SelectItem>
+              {Object.entries(EXPERIENCE_LEVEL_LABELS).map(([value, label]) => (
+                <SelectItem key={value} value={value}>{label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="postedWithin">Date Posted</Label>
+          <Select name="postedWithin" defaultValue={params.postedWithin ?? ANY}>
+            <SelectTrigger id="postedWithin" className="w-full">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ANY}>Any time</SelectItem>
+              {Object.entries(POSTED_WITHIN_LABELS).map(([value, label]) => (
+                <SelectItem key={value} value={value}>{label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="salaryMin">Salary From</Label>
+          <Input id="salaryMin" name="salaryMin" type="number" min={0} defaultValue={params.salaryMin} />
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="salaryMax">Salary Up To</Label>
+          <Input id="salaryMax" name="salaryMax" type="number" min={0} defaultValue={params.salaryMax} />
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="currency">Currency</Label>
+          <Select name="currency" defaultValue={params.currency ?? ANY}>
+            <SelectTrigger id="currency" className="w-full">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ANY}>Any</SelectItem>
+              {SALARY_CURRENCIES.map((currency) => (
+                <SelectItem key={currency} value={currency}>{currency}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="sort">Sort By</Label>
+          <Select name="sort" defaultValue={params.sort ?? (params.q ? "relevance" : "newest")}>
+            <SelectTrigger id="sort" className="w-full">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(SORT_LABELS).map(([value, label]) => (
+                <SelectItem key={value} value={value}>{label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <div className="flex justify-end">
+        <Button asChild variant="ghost" size="sm">
+          <Link href="/">Clear filters</Link>
+        </Button>
+      </div>
+    </form>
+  );
+};
+
+export default JobSearchFilters;
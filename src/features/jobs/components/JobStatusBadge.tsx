@@ -0,0 +1,18 @@
+import { cn } from "@/lib/utils";
+import { JOB_STATUS_LABELS, JobStatus } from "../jobs.constants";
+
+const STATUS_STYLES: Record<JobStatus, string> = {
+  draft: "bg-muted text-muted-foreground",
+  published: "bg-primary text-primary-foreground",
+  closed: "bg-destructive/10 text-destructive",
+};
+
+const JobStatusBadge = ({ status }: { status: JobStatus }) => {
+  return (
+    <span className={cn("rounded-full px-2 py-0.5 text-xs font-medium", STATUS_STYLES[status])}>
+      {JOB_STATUS_LABELS[status]}
+    </span>
+  );
+};
+
+export default JobStatusBadge;
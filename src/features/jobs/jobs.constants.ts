@@ -0,0 +1,70 @@
+//* Plain arrays (no drizzle/zod imports) so they can be shared by the DB schema, Zod schemas and client components.
+
+export const EMPLOYMENT_TYPES = [
+  "full_time",
+  "part_time",
+  "contract",
+  "internship",
+  "temporary",
+  "freelance",
+] as const;
+
+export const WORK_MODES = ["onsite", "remote", "hybrid"] as const;
+
+export const EXPERIENCE_LEVELS = ["entry", "junior", "mid", "senior", "lead"] as const;
+
+export const JOB_STATUSES = ["draft", "published", "closed"] as const;
+
+export type EmploymentType = (typeof EMPLOYMENT_TYPES)[number];
+export type WorkMode = (typeof WORK_MODES)[number];
+export type ExperienceLevel = (typeof EXPERIENCE_LEVELS)[number];
+export type JobStatus = (typeof JOB_STATUSES)[number];
+
+export const EMPLOYMENT_TYPE_LABELS: Record<EmploymentType, string> = {
+  full_time: "Full-time",
+  part_time: "Part-time",
+  contract: "Contract",
+  internship: "Internship",
+  temporary: "Temporary",
+  freelance: "Freelance",
+};
+
+export const WORK_MODE_LABELS: Record<WorkMode, string> = {
+  onsite: "On-site",
+  remote: "Remote",
+  hybrid: "Hybrid",
+};
+
+export const EXPERIENCE_LEVEL_LABELS: Record<ExperienceLevel, string> = {
+  entry: "Entry level",
+  junior: "Junior",
+  mid: "Mid level",
+  senior: "Senior",
+  lead: "Lead / Principal",
+};
+
+export const JOB_STATUS_LABELS: Record<JobStatus, string> = {
+  draft: "Draft",
+  published: "Published",
+  closed: "Closed",
+};
+
+export const SALARY_CURRENCIES = ["USD", "EUR", "GBP", "INR", "CAD", "AUD"] as const;
+
+export const formatSalaryRange = ({
+  salaryMin,
+  salaryMax,
+  salaryCurrency,
+}: {
+  salaryMin: number | null;
+  salaryMax: number | null;
+  salaryCurrency: string;
+}) => {
+  const format = (value: number) =>
+    new Intl.NumberFormat("en", { style: "currency", currency: salaryCurrency, maximumFractionDigits: 0 }).format(value);
+
+  if (salaryMin && salaryMax) return `${format(salaryMin)} – ${format(salaryMax)}`;
+  if (salaryMin) return `From ${format(salaryMin)}`;
+  if (salaryMax) return `Up to ${format(salaryMax)}`;
+  return "Salary not disclosed";
+};
@@ -0,0 +1,125 @@
+import { z } from "zod";
+import {
+  EMPLOYMENT_TYPES,
+  EXPERIENCE_LEVELS,
+  SALARY_CURRENCIES,
+  WORK_MODES,
+} from "./jobs.constants";
+
+const salarySchema = z
+  .number({ error: "Salary must be a number" })
+  .int("Salary must be a whole number")
+  .nonnegative("Salary cannot be negative")
+  .max(100_000_000, "Salary is too large")
+  .nullable();
+
+//* Plain object schema so it can still be picked/extended (e.g. by the API and importer);
+//* use jobSchema below for validation because it carries the cross-field checks.
+export const jobBaseSchema = z.object({
+  title: z
+    .string()
+    .trim()
+    .min(3, "Title must be atleast 3 characters long")
+    .max(255, "Title must not exceed 255 characters"),
+
+  description: z
+    .string()
+    .trim()
+    .min(30, "Description must be atleast 30 characters long")
+    .max(20000, "Description must not exceed 20000 characters"),
+
+  employmentType: z.enum(EMPLOYMENT_TYPES, { error: "Please select an employment type" }),
+
+  workMode: z.enum(WORK_MODES, { error: "Please select a work mode" }),
+
+  location: z
+    .string()
+    .trim()
+    .max(255, "Location must not exceed 255 characters")
+    .default(""),
+
+  salaryMin: salarySchema.default(null),
+  salaryMax: salarySchema.default(null),
+
+  salaryCurrency: z.enum(SALARY_CURRENCIES, { error: "Please select a currency" }).default("USD"),
+
+  experienceLevel: z.enum(EXPERIENCE_LEVELS, { error: "Please select an experience level" }),
+
+  skills: z
+    .array(z.string().trim().min(1).max(50, "Each skill must not exceed 50 characters"))
+    .max(30, "Add at most 30 skills")
+    .default([]),
+
+  //* Jobs are created/edited as drafts or published; closing has its own action.
+  status: z.enum(["draft", "published"]).default("draft"),
+});
+
+const refineJob = (job: z.infer<typeof jobBaseSchema>, ctx: z.RefinementCtx) => {
+  if (job.salaryMin !== null && job.salaryMax !== null && job.salaryMin > job.salaryMax) {
+    ctx.addIssue({
+      code: "custom",
+      message: "Minimum salary cannot be greater than maximum salary",
+      path: ["salaryMax"],
+    });
+  }
+
+  if (job.workMode !== "remote" && !job.location) {
+    ctx.addIssue({
+      code: "custom",
+      message: "Location is required for on-site and hybrid jobs",
+      path: ["location"],
+    });
+  }
+};
+
+export const jobSchema = jobBaseSchema.superRefine(refineJob);
+
+export type JobData = z.infer<typeof jobSchema>;
+export type JobInput = z.input<typeof jobSchema>;
+
+export const JOB_SORT_OPTIONS = ["relevance", "newest", "salary"] as const;
+export const JOB_POSTED_WITHIN_OPTIONS = ["1", "7", "30"] as const;
+
+//* Search state lives in the URL, so everything arrives as optional strings and bad values are dropped
+//* instead of failing the whole page.
+const optionalEnum = <T extends readonly [string, ...string[]]>(values: T) =>
+  z.enum(values).optional().catch(undefined);
+
+const optionalAmount = z.coerce.number().int().nonnegative().optional().catch(undefined);
+
+export const jobSearchSchema = z.object({
+  q: z.string().trim().max(200).optional().catch(undefined),
+  location: z.string().trim().max(255).optional().catch(undefined),
+  workMode: optionalEnum(WORK_MODES),
+  employmentType: optionalEnum(EMPLOYMENT_TYPES),
+  experienceLevel: optionalEnum(EXPERIENCE_LEVELS),
+  salaryMin: optionalAmount,
+  salaryMax: optionalAmount,
+  currency: optionalEnum(SALARY_CURRENCIES),
+  postedWithin: optionalEnum(JOB_POSTED_WITHIN_OPTIONS),
+  sort: optionalEnum(JOB_SORT_OPTIONS),
+  cursor: z.string().max(500).optional().catch(undefined),
+});
+
+export type JobSearchParams = z.infer<typeof jobSearchSchema>;
+
+export const parseJobSearchParams = (raw: Record<string, string | string[] | undefined>) => {
+  const entries = Object.entries(raw)
+    .map(([key, value]) => [key, Array.isArray(value) ? value[0] : value] as const)
+    .filter(([, value]) => value !== undefined && value !== "");
+
+  return jobSearchSchema.parse(Object.fromEntries(entries));
+};
+
+//* Feed URLs are pasted into readers and aggregators, so like the search page bad filters are dropped.
+export const jobFeedSchema = z.object({
+  company: z.string().trim().max(100).optional().catch(undefined),
+  location: z.string().trim().max(255).optional().catch(undefined),
+});
+
+export type JobFeedParams = z.infer<typeof jobFeedSchema>;
+
+export const parseJobFeedParams = (searchParams: URLSearchParams) => {
+  const entries = [...searchParams.entries()].filter(([, value]) => value.trim() !== "");
+  return jobFeedSchema.parse(Object.fromEntries(entries));
+};
@@ -0,0 +1,118 @@
+"use server"
+
+import { getAuthorizedUser } from "@/features/auth/server/auth.queries";
+import { canManageJobs } from "@/features/companies/companies.constants";
+import { getUserMembership } from "@/features/companies/server/companies.queries";
+import { revalidatePath } from "next/cache";
+import { JobInput, jobSchema } from "../jobs.schema";
+import { getCompanyJobById } from "./jobs.queries";
+import { closeJob, createJob, deleteJob, updateJob } from "./use-cases/jobPostings";
+
+//* Jobs are posted on behalf of the employer's company; viewers can look but not touch.
+const getCurrentRecruiter = async () => {
+  const user = await getAuthorizedUser("employer");
+
+  if (!user) return null;
+
+  const membership = await getUserMembership(user.id);
+
+  if (!membership || !canManageJobs(membership.role)) return null;
+
+  return { employer: user, companyId: membership.company.id };
+};
+
+export const createJobAction = async (formData: JobInput) => {
+  try {
+    const recruiter = await getCurrentRecruiter();
+
+    if (!recruiter) return { status: "ERROR", message: "Only company owners and recruiters can post jobs" };
+
+    const { data: validatedData, error } = jobSchema.safeParse(formData);
+
+    if (error) return { status: "ERROR", message: error.issues[0].message };
+
+    const id = await createJob({
+      data: validatedData,
+      companyId: recruiter.companyId,
+      employerId: recruiter.employer.id,
+    });
+
+    revalidatePath("/employer/jobs");
+
+    return {
+      status: "SUCCESS",
+      message: validatedData.status === "published" ? "Job published" : "Draft saved",
+      jobId: id,
+    };
+  } catch (error) {
+    console.error("Create Job Error:", error);
+    return { status: "ERROR", message: "Unknown Error Occured ! Please Try Again Later" };
+  }
+};
+
+export const updateJobAction = async (jobId: number, formData: JobInput) => {
+  try {
+    const recruiter = await getCurrentRecruiter();
+
+    if (!recruiter) return { status: "ERROR", message: "Only company owners and recruiters can edit jobs" };
+
+    const job = await getCompanyJobById({ jobId, companyId: recruiter.companyId });
+
+    if (!job) return { status: "ERROR", message: "Job not found" };
+
+    if (job.status === "closed") return { status: "ERROR", message: "Closed jobs cannot be edited" };
+
+    const { data: validatedData, error } = jobSchema.safeParse(formData);
+
+    if (error) return { status: "ERROR", message: error.issues[0].message };
+
+    await updateJob({ job, data: validatedData });
+
+    revalidatePath("/employer/jobs");
+
+    return { status: "SUCCESS", message: "Job updated" };
+  } catch (error) {
+    console.error("Update Job Error:", error);
+    return { status: "ERROR", message: "Unknown Error Occured ! Please Try Again Later" };
+  }
+};
+
+export const closeJobAction = async (jobId: number) => {
+  try {
+    const recruiter = await getCurrentRecruiter();
+
+    if (!recruiter) return { status: "ERROR", message: "Only company owners and recruiters can close jobs" };
+
+    const job = await getCompanyJobById({ jobId, companyId: recruiter.companyId });
+
+    if (!job) return { status: "ERROR", message: "Job not found" };
+
+    if (job.status === "closed") return { status: "ERROR", message: "Job is already closed" };
+
+    await closeJob(job);
+
+    revalidatePath("/employer/jobs");
+
+    return { status: "SUCCESS", message: "Job closed" };
+  } catch (error) {
+    console.error("Close Job Error:", error);
+    return { status: "ERROR", message: "Unknown Error Occured ! Please Try Again Later" };
+  }
+};
+
+export const deleteJobAction = async (jobId: number) => {
+  try {
+    const recruiter = await getCurrentRecruiter();
+
+    if (!recruiter) return { status: "ERROR", message: "Only company owners and recruiters can delete jobs" };
+
+    await deleteJob({ jobId, companyId: recruiter.companyId });
+
+    revalidatePath("/employer/jobs");
+
+    return { status: "SUCCESS", message: "Job deleted" };
+  } catch (error) {
+    console.error("Delete Job Error:", error);
+    return { status: "ERROR", message: "Unknown Error Occured ! Please Try Again Later" };
+  }
+};
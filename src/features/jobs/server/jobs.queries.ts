@@ -0,0 +1,201 @@
+import { db } from "@/config/db";
+import { JOB_FEED_MAX_ITEMS } from "@/config/constant";
+import { companies, jobs, users } from "@/drizzle/schema";
+import { and, desc, eq, gte, isNull, like, SQL, sql } from "drizzle-orm";
+import { toBooleanSearchQuery } from "@/lib/fullTextSearch";
+import { escapeLikePattern } from "@/lib/utils";
+import { cache } from "react";
+import { JobFeedParams, JobSearchParams } from "../jobs.schema";
+
+export type Job = typeof jobs.$inferSelect;
+
+//* Jobs belong to the company, so every member sees the whole team's postings.
+export const getCompanyJobs = async (companyId: number) => {
+  return db
+    .select({ job: jobs, postedBy: users.name })
+    .from(jobs)
+    .innerJoin(users, eq(users.id, jobs.employerId))
+    .where(and(eq(jobs.companyId, companyId), isNull(jobs.deletedAt)))
+    .orderBy(desc(jobs.updatedAt));
+};
+
+export const getCompanyJobById = async ({
+  jobId,
+  companyId,
+}: {
+  jobId: number;
+  companyId: number;
+}) => {
+  const [job] = await db
+    .select()
+    .from(jobs)
+    .where(and(eq(jobs.id, jobId), eq(jobs.companyId, companyId), isNull(jobs.deletedAt)));
+
+  return job ?? null;
+};
+
+export const JOBS_PAGE_SIZE = 20;
+
+//* Opaque cursor. Date and salary sorts page by keyset: the sort value and id of the last row on the
+//* previous page. Relevance pages by offset instead, because the MATCH score is a float and can't be
+//* compared for equality reliably from one query to the next.
+type JobCursor = { value: number; id: number } | { offset: number };
+
+const encodeCursor = (cursor: JobCursor) => Buffer.from(JSON.stringify(cursor)).toString("base64url");
+
+const decodeCursor = (cursor: string | undefined): JobCursor | null => {
+  if (!cursor) return null;
+
+  try {
+    const parsed = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8"));
+    if (Number.isSafeInteger(parsed.offset) && parsed.offset > 0) return { offset: parsed.offset };
+    if (typeof parsed.value === "number" && Number.isInteger(parsed.id)) return { value: parsed.value, id: parsed.id };
+  } catch {
+    // fall through: a tampered or stale cursor simply restarts from the first page
+  }
+
+  return null;
+};
+
+const getJobRelevance = (booleanQuery: string) =>
+  sql<number>`MATCH(${jobs.title}, ${jobs.description}) AGAINST (${booleanQuery} IN BOOLEAN MODE)`;
+
+//* Published-job filters shared by the listing page and the saved-search digests, so an alert matches
+//* exactly what the applicant would see when running the same search.
+export const getPublishedJobConditions = (
+  params: Omit<JobSearchParams, "cursor" | "sort">,
+  booleanQuery: string,
+): (SQL | undefined)[] => [
+  eq(jobs.status, "published"),
+  isNull(jobs.deletedAt),
+  booleanQuery ? sql`${getJobRelevance(booleanQuery)} > 0` : undefined,
+  params.location ? like(jobs.location, `%${escapeLikePattern(params.location)}%`) : undefined,
+  params.workMode ? eq(jobs.workMode, params.workMode) : undefined,
+  params.employmentType ? eq(jobs.employmentType, params.employmentType) : undefined,
+  params.experienceLevel ? eq(jobs.experienceLevel, params.experienceLevel) : undefined,
+  params.currency ? eq(jobs.salaryCurrency, params.currency) : undefined,
+  // a job matches a salary filter when its advertised range overlaps the requested one
+  params.salaryMin !== undefined
+    ? sql`COALESCE(${jobs.salaryMax}, ${jobs.salaryMin}) >= ${params.salaryMin}`
+    : undefined,
+  params.salaryMax !== undefined
+    ? sql`COALESCE(${jobs.salaryMin}, ${jobs.salaryMax}) <= ${params.salaryMax}`
+    : undefined,
+  params.postedWithin
+    ? gte(jobs.publishedAt, new Date(Date.now() - Number(params.postedWithin) * 24 * 60 * 60 * 1000))
+    : undefined,
+];
+
+export const searchPublishedJobs = async (params: JobSearchParams) => {
+  const booleanQuery = params.q ? toBooleanSearchQuery(params.q) : "";
+  const sort = params.sort ?? (booleanQuery ? "relevance" : "newest");
+
+  const relevance = booleanQuery ? getJobRelevance(booleanQuery) : sql<number>`0`;
+  const salary = sql<number>`COALESCE(${jobs.salaryMax}, ${jobs.salaryMin}, 0)`;
+  const publishedAt = sql<number>`UNIX_TIMESTAMP(${jobs.publishedAt})`;
+
+  // relevance without a keyword is meaningless, so it quietly falls back to newest
+  const byRelevance = sort === "relevance" && Boolean(booleanQuery);
+  const sortValue = sort === "salary" ? salary : byRelevance ? relevance : publishedAt;
+
+  const conditions = getPublishedJobConditions(params, booleanQuery);
+
+  // a cursor from the other paging mode (e.g. the sort changed) restarts from the first page
+  const cursor = decodeCursor(params.cursor);
+  const offset = byRelevance && cursor && "offset" in cursor ? cursor.offset : 0;
+
+  if (!byRelevance && cursor && "value" in cursor) {
+    conditions.push(
+      sql`(${sortValue} < ${cursor.value} OR (${sortValue} = ${cursor.value} AND ${jobs.id} < ${cursor.id}))`,
+    );
+  }
+
+  const rows = await db
+    .select({
+      id: jobs.id,
+      title: jobs.title,
+      description: jobs.description,
+      employmentType: jobs.employmentType,
+      workMode: jobs.workMode,
+      location: jobs.location,
+      salaryMin: jobs.salaryMin,
+      salaryMax: jobs.salaryMax,
+      salaryCurrency: jobs.salaryCurrency,
+      experienceLevel: jobs.experienceLevel,
+      skills: jobs.skills,
+      publishedAt: jobs.publishedAt,
+      companyName: companies.name,
+      companySlug: companies.slug,
+      sortValue,
+    })
+    .from(jobs)
+    .innerJoin(companies, eq(companies.id, jobs.companyId))
+    .where(and(...conditions))
+    .orderBy(desc(sortValue), desc(jobs.id))
+    .limit(JOBS_PAGE_SIZE + 1)
+    .offset(offset);
+
+  const hasNextPage = rows.length > JOBS_PAGE_SIZE;
+  const results = rows.slice(0, JOBS_PAGE_SIZE);
+  const lastRow = results.at(-1);
+
+  return {
+    jobs: results.map(({ sortValue: _sortValue, ...job }) => job),
+    sort,
+    nextCursor:
+      hasNextPage && lastRow
+        ? encodeCursor(
+            byRelevance
+              ? { offset: offset + JOBS_PAGE_SIZE }
+              : { value: Number(lastRow.sortValue), id: lastRow.id },
+          )
+        : null,
+  };
+};
+
+export type JobSearchResult = Awaited<ReturnType<typeof searchPublishedJobs>>["jobs"][number];
+
+//* Cached per request: the job page reads it for both its metadata and its body.
+export const getPublishedJobById = cache(async (jobId: number) => {
+  const [job] = await db
+    .select({
+      job: jobs,
+      company: companies,
+    })
+    .from(jobs)
+    .innerJoin(companies, eq(companies.id, jobs.companyId))
+    .where(and(eq(jobs.id, jobId), eq(jobs.status, "published"), isNull(jobs.deletedAt)));
+
+  return job ?? null;
+});
+
+//* Newest published jobs for the RSS/JSON feeds; the location filter matches the search page's.
+export const getFeedJobs = async ({
+  companyId,
+  location,
+}: {
+  companyId?: number;
+  location?: JobFeedParams["location"];
+}) => {
+  return db
+    .select({ job: jobs, company: companies })
+    .from(jobs)
+    .innerJoin(companies, eq(companies.id, jobs.companyId))
+    .where(
+      and(
+        ...getPublishedJobConditions({ location }, ""),
+        companyId ? eq(jobs.companyId, companyId) : undefined,
+      ),
+    )
+    .orderBy(desc(jobs.publishedAt), desc(jobs.id))
+    .limit(JOB_FEED_MAX_ITEMS);
+};
+
+//* Only published jobs are listed: closed and draft postings 404, so they must drop out of the sitemap.
+export const getSitemapJobs = async () => {
+  return db
+    .select({ id: jobs.id, updatedAt: jobs.updatedAt })
+    .from(jobs)
+    .where(and(eq(jobs.status, "published"), isNull(jobs.deletedAt)))
+    .orderBy(desc(jobs.id));
+};
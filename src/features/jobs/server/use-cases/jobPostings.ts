@@ -0,0 +1,70 @@
+import { db } from "@/config/db";
+import { jobs } from "@/drizzle/schema";
+import { getOpenApplicantIds } from "@/features/applications/server/applications.queries";
+import { createNotifications } from "@/features/notifications/server/notifications";
+import { and, eq, isNull } from "drizzle-orm";
+import { JobData } from "../../jobs.schema";
+import { Job } from "../jobs.queries";
+
+//* Job writes shared by the dashboard actions and the REST API. Callers check permissions and validate
+//* with jobSchema first; these only apply the change and its side effects.
+
+export const createJob = async ({
+  data,
+  companyId,
+  employerId,
+  externalRef,
+}: {
+  data: JobData;
+  companyId: number;
+  employerId: number;
+  externalRef?: string;
+}) => {
+  const [{ id }] = await db
+    .insert(jobs)
+    .values({
+      ...data,
+      companyId,
+      employerId,
+      externalRef,
+      publishedAt: data.status === "published" ? new Date() : null,
+    })
+    .$returningId();
+
+  return id;
+};
+
+export const updateJob = async ({ job, data }: { job: Job; data: JobData }) => {
+  await db
+    .update(jobs)
+    .set({
+      ...data,
+      // keep the original publish date when an already published job is edited
+      publishedAt: data.status === "published" ? (job.publishedAt ?? new Date()) : null,
+    })
+    .where(eq(jobs.id, job.id));
+};
+
+//* Applicants still in the running hear that the job stopped taking applications.
+export const closeJob = async (job: Job) => {
+  await db.update(jobs).set({ status: "closed", closedAt: new Date() }).where(eq(jobs.id, job.id));
+
+  await createNotifications({
+    userIds: await getOpenApplicantIds(job.id),
+    type: "job_closed",
+    title: `${job.title} is no longer accepting applications`,
+    body: "Your application stays on file, and the hiring team can still update it.",
+    url: "/dashboard/applications",
+  });
+};
+
+//* Soft delete, like users.deletedAt: the row stays for history but disappears from every listing.
+//* The import reference is released, so importing the same feed row again creates a fresh job.
+export const deleteJob = async ({ jobId, companyId }: { jobId: number; companyId: number }) => {
+  const [result] = await db
+    .update(jobs)
+    .set({ deletedAt: new Date(), externalRef: null })
+    .where(and(eq(jobs.id, jobId), eq(jobs.companyId, companyId), isNull(jobs.deletedAt)));
+
+  return result.affectedRows > 0;
+};
@@ -0,0 +1,152 @@
+import { APP_URL } from "@/config/constant";
+import { Company, getCompanyBySlug } from "@/features/companies/server/companies.queries";
+import { Feed, FeedItem } from "@/lib/feeds";
+import {
+  EMPLOYMENT_TYPE_LABELS,
+  EmploymentType,
+  formatSalaryRange,
+  WORK_MODE_LABELS,
+} from "../../jobs.constants";
+import { parseJobFeedParams } from "../../jobs.schema";
+import { getFeedJobs, Job } from "../jobs.queries";
+
+//* How published jobs are described to search engines and aggregators: schema.org JobPosting data for the
+//* job page, page descriptions, and the RSS/JSON feeds.
+
+//* https://developers.google.com/search/docs/appearance/structured-data/job-posting#job-posting-definition
+const SCHEMA_ORG_EMPLOYMENT_TYPES: Record<EmploymentType, string> = {
+  full_time: "FULL_TIME",
+  part_time: "PART_TIME",
+  contract: "CONTRACTOR",
+  internship: "INTERN",
+  temporary: "TEMPORARY",
+  freelance: "CONTRACTOR",
+};
+
+const SUMMARY_MAX_LENGTH = 160;
+
+export const getJobUrl = (jobId: number) => `${APP_URL}/jobs/${jobId}`;
+
+//* A single-line excerpt of a description, sized for meta descriptions and feed summaries.
+export const toMetaDescription = (description: string) => {
+  const text = description.replace(/\s+/g, " ").trim();
+  if (text.length <= SUMMARY_MAX_LENGTH) return text;
+  return `${text.slice(0, SUMMARY_MAX_LENGTH - 1).replace(/\s+\S*$/, "")}…`;
+};
+
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+
+// JobPosting descriptions are HTML; ours are plain text with blank lines between paragraphs
+const toHtmlParagraphs = (text: string) =>
+  text
+    .split(/\n\s*\n/)
+    .map((paragraph) => paragraph.trim())
+    .filter(Boolean)
+    .map((paragraph) => `<p>${escapeHtml(paragraph).replace(/\r?\n/g, "<br>")}</p>`)
+    .join("");
+
+export const buildJobPostingJsonLd = ({ job, company }: { job: Job; company: Company }) => {
+  const isRemote = job.workMode === "remote";
+
+  return {
+    "@context": "https://schema.org",
+    "@type": "JobPosting",
+    title: job.title,
+    description: toHtmlParagraphs(job.description),
+    url: getJobUrl(job.id),
+    identifier: { "@type": "PropertyValue", name: company.name, value: String(job.id) },
+    datePosted: (job.publishedAt ?? job.createdAt).toISOString(),
+    employmentType: SCHEMA_ORG_EMPLOYMENT_TYPES[job.employmentType],
+    hiringOrganization: {
+      "@type": "Organization",
+      name: company.name,
+      sameAs: company.website ?? `${APP_URL}/companies/${company.slug}`,
+      ...(company.logoUrl ? { logo: company.logoUrl } : {}),
+    },
+    // locations are free text, so they go in as the locality rather than guessing at a structured address
+    ...(isRemote
+      ? {
+          jobLocationType: "TELECOMMUTE",
+          ...(job.location
+            ? { applicantLocationRequirements: { "@type": "AdministrativeArea", name: job.location } }
+            : {}),
+        }
+      : job.location
+        ? {
+            jobLocation: {
+              "@type": "Place",
+              address: { "@type": "PostalAddress", addressLocality: job.location },
+            },
+          }
+        : {}),
+    // the job form doesn't ask for a pay period, so ranges are published as annual salaries
+    ...(job.salaryMin || job.salaryMax
+      ? {
+          baseSalary: {
+            "@type": "MonetaryAmount",
+            currency: job.salaryCurrency,
+            value: {
+              "@type": "QuantitativeValue",
+              ...(job.salaryMin ? { minValue: job.salaryMin } : {}),
+              ...(job.salaryMax ? { maxValue: job.salaryMax } : {}),
+              unitText: "YEAR",
+            },
+          },
+        }
+      : {}),
+    ...(job.skills.length > 0 ? { skills: job.skills.join(", ") } : {}),
+    directApply: true,
+  };
+};
+
+const toFeedItem = ({ job, company }: { job: Job; company: Company }): FeedItem => {
+  const facts = [
+    EMPLOYMENT_TYPE_LABELS[job.employmentType],
+    WORK_MODE_LABELS[job.workMode],
+    job.location,
+    formatSalaryRange(job),
+  ].filter(Boolean);
+
+  return {
+    id: getJobUrl(job.id),
+    url: getJobUrl(job.id),
+    title: `${job.title} at ${company.name}`,
+    summary: toMetaDescription(job.description),
+    content: `${facts.join(" · ")}\n\n${job.description}`,
+    author: company.name,
+    categories: [EMPLOYMENT_TYPE_LABELS[job.employmentType], WORK_MODE_LABELS[job.workMode], ...job.skills],
+    publishedAt: job.publishedAt ?? job.createdAt,
+    updatedAt: job.updatedAt,
+  };
+};
+
+//* Returns null for an unknown company so the route can 404 instead of serving a silently empty feed.
+export const getJobFeed = async (searchParams: URLSearchParams): Promise<Feed | null> => {
+  const { company: companySlug, location } = parseJobFeedParams(searchParams);
+
+  const company = companySlug ? await getCompanyBySlug(companySlug) : null;
+
+  if (companySlug && !company) return null;
+
+  const rows = await getFeedJobs({ companyId: company?.id, location });
+
+  // self links carry only the filters that were applied, in a stable order
+  const query = new URLSearchParams();
+  if (company) query.set("company", company.slug);
+  if (location) query.set("location", location);
+  const queryString = query.size > 0 ? `?${query}` : "";
+
+  const scope = [company && `at ${company.name}`, location && `in ${location}`].filter(Boolean).join(" ");
+
+  return {
+    title: scope ? `Jobs ${scope} | Job Portal` : "Latest Jobs | Job Portal",
+    description: `The newest published job openings${scope ? ` ${scope}` : ""} on Job Portal.`,
+    homePageUrl: company
+      ? `${APP_URL}/companies/${company.slug}`
+      : `${APP_URL}/${location ? `?${new URLSearchParams({ location })}` : ""}`,
+    rssUrl: `${APP_URL}/jobs/feed.xml${queryString}`,
+    jsonUrl: `${APP_URL}/jobs/feed.json${queryString}`,
+    items: rows.map(toFeedItem),
+  };
+};
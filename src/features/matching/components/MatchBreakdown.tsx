@@ -0,0 +1,34 @@
+import { cn } from "@/lib/utils";
+import { MATCH_CRITERION_LABELS, MATCH_WEIGHTS } from "../matching.constants";
+import { MatchResult } from "../server/use-cases/scoreMatch";
+
+const scoreColor = (score: number) =>
+  score >= 75 ? "bg-green-100 text-green-800" : score >= 50 ? "bg-amber-100 text-amber-800" : "bg-muted text-muted-foreground";
+
+export const MatchScoreBadge = ({ score }: { score: number }) => (
+  <span className={cn("rounded-full px-2 py-0.5 text-xs font-medium", scoreColor(score))}>{score}% match</span>
+);
+
+//* "Why this score": one line per criterion, with its weight and how much of it was earned.
+const MatchBreakdown = ({ match }: { match: MatchResult }) => {
+  return (
+    <details className="text-sm">
+      <summary className="cursor-pointer text-muted-foreground">Why this match?</summary>
+      <ul className="mt-2 space-y-1">
+        {match.factors.map((factor) => (
+          <li key={factor.criterion} className="flex gap-2">
+            <span className="w-44 shrink-0 font-medium">
+              {MATCH_CRITERION_LABELS[factor.criterion]}{" "}
+              <span className="font-normal text-muted-foreground">
+                {factor.score === null ? "(not scored)" : `${Math.round(factor.score * 100)}% of ${MATCH_WEIGHTS[factor.criterion]}`}
+              </span>
+            </span>
+            <span className="text-muted-foreground">{factor.detail}</span>
+          </li>
+        ))}
+      </ul>
+    </details>
+  );
+};
+
+export default MatchBreakdown;
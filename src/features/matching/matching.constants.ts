@@ -0,0 +1,26 @@
+//* Plain values shared by the scoring engine and the breakdown UI.
+
+export const MATCH_CRITERIA = ["skills", "experience", "location", "salary"] as const;
+
+export type MatchCriterion = (typeof MATCH_CRITERIA)[number];
+
+//* Relative importance of each criterion. Criteria that can't be assessed (e.g. the job lists no salary)
+//* are left out and the remaining weights are scaled up, so a missing field never counts against anyone.
+export const MATCH_WEIGHTS: Record<MatchCriterion, number> = {
+  skills: 40,
+  experience: 20,
+  location: 20,
+  salary: 20,
+};
+
+export const MATCH_CRITERION_LABELS: Record<MatchCriterion, string> = {
+  skills: "Skills",
+  experience: "Experience",
+  location: "Location & work mode",
+  salary: "Salary",
+};
+
+export const RECOMMENDATIONS_LIMIT = 20;
+
+//* Upper bound on how many jobs/candidates are loaded and scored in memory per request.
+export const MATCH_CANDIDATE_POOL_SIZE = 300;
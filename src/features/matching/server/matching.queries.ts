@@ -0,0 +1,127 @@
+import { db } from "@/config/db";
+import {
+  applicantProfiles,
+  applications,
+  companies,
+  jobs,
+  profileExperiences,
+  profileSkills,
+  users,
+} from "@/drizzle/schema";
+import { getApplicantProfile } from "@/features/profiles/server/profiles.queries";
+import { and, desc, eq, inArray, isNull, or } from "drizzle-orm";
+import { MATCH_CANDIDATE_POOL_SIZE, RECOMMENDATIONS_LIMIT } from "../matching.constants";
+import { MatchJob, MatchProfile, MatchResult, scoreMatch } from "./use-cases/scoreMatch";
+
+//* Highest score first; ties keep the pool order (newest first), which keeps the ranking stable.
+const rankByScore = <T>(items: T[], score: (item: T) => MatchResult) =>
+  items
+    .map((item) => ({ item, match: score(item) }))
+    .filter(({ match }) => match.score > 0)
+    .sort((a, b) => b.match.score - a.match.score)
+    .slice(0, RECOMMENDATIONS_LIMIT);
+
+//* Scores the newest published jobs the applicant hasn't applied to yet against their profile.
+export const getRecommendedJobs = async (applicantId: number) => {
+  const profile = await getApplicantProfile(applicantId);
+
+  const pool = await db
+    .select({
+      id: jobs.id,
+      title: jobs.title,
+      employmentType: jobs.employmentType,
+      experienceLevel: jobs.experienceLevel,
+      workMode: jobs.workMode,
+      location: jobs.location,
+      salaryMin: jobs.salaryMin,
+      salaryMax: jobs.salaryMax,
+      salaryCurrency: jobs.salaryCurrency,
+      skills: jobs.skills,
+      publishedAt: jobs.publishedAt,
+      companyName: companies.name,
+      companySlug: companies.slug,
+    })
+    .from(jobs)
+    .innerJoin(companies, eq(companies.id, jobs.companyId))
+    .leftJoin(applications, and(eq(applications.jobId, jobs.id), eq(applications.applicantId, applicantId)))
+    .where(and(eq(jobs.status, "published"), isNull(jobs.deletedAt), isNull(applications.id)))
+    .orderBy(desc(jobs.publishedAt), desc(jobs.id))
+    .limit(MATCH_CANDIDATE_POOL_SIZE);
+
+  return rankByScore(pool, (job) => scoreMatch(job, profile)).map(({ item, match }) => ({ job: item, match }));
+};
+
+//* Only the fields the scoring engine needs, loaded for many applicants at once.
+const getMatchProfiles = async (userIds: number[]) => {
+  if (userIds.length === 0) return new Map<number, MatchProfile>();
+
+  const [profiles, skills, experiences] = await Promise.all([
+    db.select().from(applicantProfiles).where(inArray(applicantProfiles.userId, userIds)),
+    db.select().from(profileSkills).where(inArray(profileSkills.userId, userIds)),
+    db
+      .select({
+        userId: profileExperiences.userId,
+        startDate: profileExperiences.startDate,
+        endDate: profileExperiences.endDate,
+      })
+      .from(profileExperiences)
+      .where(inArray(profileExperiences.userId, userIds)),
+  ]);
+
+  return new Map(
+    profiles.map((profile): [number, MatchProfile] => [
+      profile.userId,
+      {
+        skills: skills.filter((skill) => skill.userId === profile.userId),
+        experiences: experiences
+          .filter((experience) => experience.userId === profile.userId)
+          .map((experience) => ({
+            startMonth: experience.startDate.slice(0, 7),
+            endMonth: experience.endDate?.slice(0, 7) ?? "",
+          })),
+        preferredWorkModes: profile.preferredWorkModes,
+        preferredLocations: profile.preferredLocations,
+        openToRelocation: profile.openToRelocation,
+        salaryExpectation: profile.salaryExpectation,
+        salaryCurrency: profile.salaryCurrency,
+      },
+    ]),
+  );
+};
+
+//* Candidates are applicants who made their profile public, plus anyone who already applied to this job
+//* (their profile is shared with the employer through the application). Private profiles are never suggested.
+export const getSuggestedCandidates = async (job: MatchJob & { id: number }) => {
+  const pool = await db
+    .select({
+      id: users.id,
+      name: users.name,
+      userName: users.userName,
+      headline: applicantProfiles.headline,
+      applicationId: applications.id,
+    })
+    .from(applicantProfiles)
+    .innerJoin(users, eq(users.id, applicantProfiles.userId))
+    .leftJoin(applications, and(eq(applications.applicantId, users.id), eq(applications.jobId, job.id)))
+    .where(
+      and(
+        eq(users.role, "applicant"),
+        isNull(users.deletedAt),
+        or(eq(applicantProfiles.isPublic, true), eq(applications.jobId, job.id)),
+      ),
+    )
+    .orderBy(desc(applicantProfiles.updatedAt), desc(users.id))
+    .limit(MATCH_CANDIDATE_POOL_SIZE);
+
+  const profiles = await getMatchProfiles(pool.map((candidate) => candidate.id));
+
+  const scorable = pool.flatMap((candidate) => {
+    const profile = profiles.get(candidate.id);
+    return profile ? [{ candidate, profile }] : [];
+  });
+
+  return rankByScore(scorable, ({ profile }) => scoreMatch(job, profile)).map(({ item: { candidate }, match }) => ({
+    candidate: { ...candidate, hasApplied: candidate.applicationId !== null },
+    match,
+  }));
+};
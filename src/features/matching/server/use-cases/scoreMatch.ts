@@ -0,0 +1,223 @@
+import { ExperienceLevel, WorkMode } from "@/features/jobs/jobs.constants";
+import { SkillProficiency } from "@/features/profiles/profiles.constants";
+import { MATCH_CRITERIA, MATCH_WEIGHTS, MatchCriterion } from "../../matching.constants";
+
+//* Deterministic, explainable candidate–job scoring. Everything here is plain arithmetic over the job
+//* and profile fields: the same inputs (and the same day) always give the same score and explanation.
+
+export interface MatchJob {
+  skills: string[];
+  experienceLevel: ExperienceLevel;
+  workMode: WorkMode;
+  location: string | null;
+  salaryMin: number | null;
+  salaryMax: number | null;
+  salaryCurrency: string;
+}
+
+export interface MatchProfile {
+  skills: { name: string; proficiency: SkillProficiency }[];
+  experiences: { startMonth: string; endMonth: string }[];
+  preferredWorkModes: WorkMode[];
+  preferredLocations: string[];
+  openToRelocation: boolean;
+  salaryExpectation: number | null;
+  salaryCurrency: string;
+}
+
+export interface MatchFactor {
+  criterion: MatchCriterion;
+  //* 0..1, or null when the criterion could not be assessed and was left out of the total.
+  score: number | null;
+  detail: string;
+}
+
+export interface MatchResult {
+  //* 0..100
+  score: number;
+  factors: MatchFactor[];
+}
+
+//* A listed skill at a lower level still counts, just not fully.
+const PROFICIENCY_FACTORS: Record<SkillProficiency, number> = {
+  beginner: 0.5,
+  intermediate: 0.75,
+  advanced: 0.9,
+  expert: 1,
+};
+
+//* Years of experience at which each level starts, in the order of EXPERIENCE_LEVELS.
+const LEVEL_MIN_YEARS: [ExperienceLevel, number][] = [
+  ["entry", 0],
+  ["junior", 1],
+  ["mid", 3],
+  ["senior", 5],
+  ["lead", 8],
+];
+
+const normalize = (value: string) => value.trim().toLowerCase();
+
+const clamp = (value: number) => Math.min(1, Math.max(0, value));
+
+const monthIndex = (month: string) => {
+  const [year, monthNumber] = month.split("-").map(Number);
+  return year * 12 + (monthNumber - 1);
+};
+
+//* Total months worked, with overlapping positions counted once. A missing end month means "until now".
+export const getExperienceYears = (experiences: MatchProfile["experiences"], now = new Date()) => {
+  const currentMonth = now.getUTCFullYear() * 12 + now.getUTCMonth();
+
+  const ranges = experiences
+    .map((experience) => [
+      monthIndex(experience.startMonth),
+      experience.endMonth ? monthIndex(experience.endMonth) : currentMonth,
+    ])
+    .filter(([start, end]) => end >= start)
+    .sort((a, b) => a[0] - b[0]);
+
+  let months = 0;
+  let coveredUntil = -Infinity;
+
+  for (const [start, end] of ranges) {
+    const from = Math.max(start, coveredUntil + 1);
+    if (end >= from) months += end - from + 1;
+    coveredUntil = Math.max(coveredUntil, end);
+  }
+
+  return months / 12;
+};
+
+const getLevelIndex = (years: number) =>
+  LEVEL_MIN_YEARS.reduce((index, [, minYears], levelIndex) => (years >= minYears ? levelIndex : index), 0);
+
+const scoreSkills = (job: MatchJob, profile: MatchProfile): MatchFactor => {
+  if (job.skills.length === 0) {
+    return { criterion: "skills", score: null, detail: "The job lists no required skills" };
+  }
+
+  const candidateSkills = new Map(profile.skills.map((skill) => [normalize(skill.name), skill.proficiency]));
+
+  const matched = job.skills.filter((skill) => candidateSkills.has(normalize(skill)));
+  const missing = job.skills.filter((skill) => !candidateSkills.has(normalize(skill)));
+  const points = job.skills.reduce((total, skill) => {
+    const proficiency = candidateSkills.get(normalize(skill));
+    return proficiency ? total + PROFICIENCY_FACTORS[proficiency] : total;
+  }, 0);
+
+  const detail = [
+    `${matched.length} of ${job.skills.length} required skills`,
+    matched.length > 0 && `has ${matched.join(", ")}`,
+    missing.length > 0 && `missing ${missing.join(", ")}`,
+  ]
+    .filter(Boolean)
+    .join("; ");
+
+  return { criterion: "skills", score: clamp(points / job.skills.length), detail };
+};
+
+const scoreExperience = (job: MatchJob, profile: MatchProfile, now: Date): MatchFactor => {
+  if (profile.experiences.length === 0) {
+    return { criterion: "experience", score: null, detail: "No work experience on the profile" };
+  }
+
+  const years = getExperienceYears(profile.experiences, now);
+  const candidateLevel = getLevelIndex(years);
+  const jobLevel = LEVEL_MIN_YEARS.findIndex(([level]) => level === job.experienceLevel);
+  const levelsAway = Math.abs(candidateLevel - jobLevel);
+
+  const roundedYears = Math.round(years * 10) / 10;
+  const detail =
+    levelsAway === 0
+      ? `${roundedYears} years of experience fits a ${job.experienceLevel} role`
+      : `${roundedYears} years of experience is ${levelsAway} level(s) ${candidateLevel > jobLevel ? "above" : "below"} a ${job.experienceLevel} role`;
+
+  // each level of distance costs a third of the points
+  return { criterion: "experience", score: clamp(1 - levelsAway / 3), detail };
+};
+
+const scoreLocation = (job: MatchJob, profile: MatchProfile): MatchFactor => {
+  const hasWorkModePreference = profile.preferredWorkModes.length > 0;
+  const workModeScore = !hasWorkModePreference ? 0.5 : profile.preferredWorkModes.includes(job.workMode) ? 1 : 0;
+  const workModeDetail = !hasWorkModePreference
+    ? "no work mode preference"
+    : workModeScore === 1
+      ? `wants ${job.workMode} work`
+      : `prefers ${profile.preferredWorkModes.join("/")} over ${job.workMode}`;
+
+  if (job.workMode === "remote" || !job.location) {
+    return { criterion: "location", score: workModeScore, detail: `Remote job; ${workModeDetail}` };
+  }
+
+  const jobLocation = normalize(job.location);
+  const matchingLocation = profile.preferredLocations.find((location) => {
+    const preferred = normalize(location);
+    return jobLocation.includes(preferred) || preferred.includes(jobLocation);
+  });
+
+  const [locationScore, locationDetail] = matchingLocation
+    ? [1, `${job.location} is a preferred location`]
+    : profile.openToRelocation
+      ? [0.7, `open to relocating to ${job.location}`]
+      : profile.preferredLocations.length === 0
+        ? [0.5, "no location preference"]
+        : [0, `${job.location} is not a preferred location`];
+
+  return {
+    criterion: "location",
+    score: (workModeScore + locationScore) / 2,
+    detail: `${locationDetail}; ${workModeDetail}`,
+  };
+};
+
+const scoreSalary = (job: MatchJob, profile: MatchProfile): MatchFactor => {
+  const jobMax = job.salaryMax ?? job.salaryMin;
+
+  if (jobMax === null) return { criterion: "salary", score: null, detail: "The job doesn't disclose a salary" };
+
+  if (profile.salaryExpectation === null) {
+    return { criterion: "salary", score: null, detail: "No salary expectation on the profile" };
+  }
+
+  if (profile.salaryCurrency !== job.salaryCurrency) {
+    return {
+      criterion: "salary",
+      score: null,
+      detail: `Expectation is in ${profile.salaryCurrency}, the job pays in ${job.salaryCurrency}`,
+    };
+  }
+
+  if (profile.salaryExpectation <= jobMax) {
+    return { criterion: "salary", score: 1, detail: "Expectation is within the advertised range" };
+  }
+
+  // the score drops to zero once the expectation is 50% above the top of the range
+  const overshoot = (profile.salaryExpectation - jobMax) / jobMax;
+
+  return {
+    criterion: "salary",
+    score: clamp(1 - overshoot * 2),
+    detail: `Expectation is ${Math.round(overshoot * 100)}% above the advertised range`,
+  };
+};
+
+export const scoreMatch = (job: MatchJob, profile: MatchProfile, now = new Date()): MatchResult => {
+  const factors: Record<MatchCriterion, MatchFactor> = {
+    skills: scoreSkills(job, profile),
+    experience: scoreExperience(job, profile, now),
+    location: scoreLocation(job, profile),
+    salary: scoreSalary(job, profile),
+  };
+
+  const assessed = MATCH_CRITERIA.filter((criterion) => factors[criterion].score !== null);
+  const totalWeight = assessed.reduce((total, criterion) => total + MATCH_WEIGHTS[criterion], 0);
+  const weightedScore = assessed.reduce(
+    (total, criterion) => total + MATCH_WEIGHTS[criterion] * (factors[criterion].score ?? 0),
+    0,
+  );
+
+  return {
+    score: totalWeight === 0 ? 0 : Math.round((weightedScore / totalWeight) * 100),
+    factors: MATCH_CRITERIA.map((criterion) => factors[criterion]),
+  };
+};
@@ -0,0 +1,43 @@
+import { cn } from "@/lib/utils";
+import Link from "next/link";
+import { ConversationSummary } from "../server/messaging.queries";
+
+//* Shared by the applicant and employer inboxes; basePath decides where each row links to.
+const ConversationList = ({ conversations, basePath }: { conversations: ConversationSummary[]; basePath: string }) => {
+  if (conversations.length === 0) {
+    return <p className="text-sm text-muted-foreground">No conversations yet.</p>;
+  }
+
+  return (
+    <div className="space-y-3">
+      {conversations.map((conversation) => (
+        <Link
+          key={conversation.applicationId}
+          href={`${basePath}/${conversation.applicationId}`}
+          className={cn(
+            "flex items-center justify-between gap-4 rounded-md border p-4 hover:border-primary/50",
+            conversation.archivedAt && "opacity-60",
+          )}
+        >
+          <div className="space-y-1">
+            <p className={cn("font-medium", conversation.unreadCount > 0 && "font-semibold")}>
+              {conversation.counterpartName}
+            </p>
+            <p className="text-sm text-muted-foreground">
+              {conversation.jobTitle}
+              {conversation.lastMessageAt && ` · ${conversation.lastMessageAt.toLocaleString()}`}
+              {conversation.archivedAt && " · Archived"}
+            </p>
+          </div>
+          {conversation.unreadCount > 0 && (
+            <span className="rounded-full bg-primary px-2 py-0.5 text-xs font-medium text-primary-foreground">
+              {conversation.unreadCount} unread
+            </span>
+          )}
+        </Link>
+      ))}
+    </div>
+  );
+};
+
+export default ConversationList;
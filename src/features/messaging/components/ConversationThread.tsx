@@ -0,0 +1,208 @@
+"use client"
+
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { formatFileSize } from "@/lib/fileType";
+import { cn } from "@/lib/utils";
+import { Ban, Paperclip, Send } from "lucide-react";
+import { FormEvent, useCallback, useEffect, useRef, useState, useTransition } from "react";
+import { toast } from "sonner";
+import { ConversationParty, MESSAGE_ATTACHMENT_ACCEPT, MESSAGE_MAX_LENGTH } from "../messaging.constants";
+import {
+  blockConversationAction,
+  markConversationReadAction,
+  sendMessageAction,
+  unblockConversationAction,
+} from "../server/messaging.action";
+import type { ConversationMessage } from "../server/messaging.queries";
+
+interface ConversationState {
+  messages: ConversationMessage[];
+  otherPartyLastReadId: number;
+  isArchived: boolean;
+  blockedBy: ConversationParty[];
+}
+
+const mergeMessages = (current: ConversationMessage[], incoming: ConversationMessage[]) => {
+  const knownIds = new Set(current.map((message) => message.id));
+  return [...current, ...incoming.filter((message) => !knownIds.has(message.id))];
+};
+
+//* Polls the conversation route while the tab is visible, and marks the other side's messages read
+//* as soon as they are on screen.
+const ConversationThread = ({
+  applicationId,
+  party,
+  canWrite,
+  pollInterval,
+  initialState,
+}: {
+  applicationId: number;
+  party: ConversationParty;
+  canWrite: boolean;
+  pollInterval: number;
+  initialState: ConversationState;
+}) => {
+  const formRef = useRef<HTMLFormElement>(null);
+  const lastMarkedIdRef = useRef(0);
+  const [state, setState] = useState<ConversationState>(initialState);
+  const [isSending, setIsSending] = useState(false);
+  const [isPending, startTransition] = useTransition();
+
+  const lastMessageId = state.messages.at(-1)?.id ?? 0;
+
+  useEffect(() => {
+    const poll = async () => {
+      if (document.visibilityState !== "visible") return;
+
+      try {
+        const response = await fetch(`/api/conversations/${applicationId}/messages?after=${lastMessageId}`, {
+          cache: "no-store",
+        });
+
+        if (!response.ok) return;
+
+        const update: ConversationState = await response.json();
+
+        setState((prev) => ({ ...update, messages: mergeMessages(prev.messages, update.messages) }));
+      } catch {
+        // offline or server restarting: the next tick tries again
+      }
+    };
+
+    const timer = window.setInterval(poll, pollInterval * 1000);
+    return () => window.clearInterval(timer);
+  }, [applicationId, lastMessageId, pollInterval]);
+
+  const markRead = useCallback(() => {
+    const lastIncomingId = state.messages.findLast((message) => message.senderParty !== party)?.id ?? 0;
+
+    if (lastIncomingId <= lastMarkedIdRef.current || document.visibilityState !== "visible") return;
+
+    lastMarkedIdRef.current = lastIncomingId;
+    void markConversationReadAction({ applicationId, lastMessageId: lastIncomingId });
+  }, [applicationId, party, state.messages]);
+
+  useEffect(() => {
+    markRead();
+    document.addEventListener("visibilitychange", markRead);
+    return () => document.removeEventListener("visibilitychange", markRead);
+  }, [markRead]);
+
+  const handleSubmit = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    setIsSending(true);
+
+    const result = await sendMessageAction(new FormData(event.currentTarget));
+
+    setIsSending(false);
+
+    if (result.status === "SUCCESS" && result.sentMessage) {
+      const { sentMessage } = result;
+      setState((prev) => ({ ...prev, messages: mergeMessages(prev.messages, [sentMessage]) }));
+      formRef.current?.reset();
+    } else {
+      toast.error(result.message);
+    }
+  };
+
+  const isBlockedByUs = state.blockedBy.includes(party);
+
+  const handleToggleBlock = () => {
+    if (!isBlockedByUs && !window.confirm("Block this conversation? Neither side will be able to send messages.")) {
+      return;
+    }
+
+    startTransition(async () => {
+      const result = isBlockedByUs
+        ? await unblockConversationAction(applicationId)
+        : await blockConversationAction(applicationId);
+
+      if (result.status === "SUCCESS") {
+        toast.success(result.message);
+        setState((prev) => ({
+          ...prev,
+          blockedBy: isBlockedByUs ? prev.blockedBy.filter((side) => side !== party) : [...prev.blockedBy, party],
+        }));
+      } else {
+        toast.error(result.message);
+      }
+    });
+  };
+
+  const lastOwnMessageId = state.messages.findLast((message) => message.senderParty === party)?.id;
+
+  let closedNotice: string | null = null;
+  if (state.isArchived) closedNotice = "This conversation was archived when the application closed.";
+  else if (isBlockedByUs) closedNotice = "You blocked this conversation. Unblock it to send messages again.";
+  else if (state.blockedBy.length > 0) closedNotice = "You can no longer send messages in this conversation.";
+  else if (!canWrite) closedNotice = "Only company owners and recruiters can reply.";
+
+  return (
+    <div className="space-y-4">
+      <div className="max-h-[60vh] space-y-3 overflow-y-auto rounded-md border p-4">
+        {state.messages.length === 0 && (
+          <p className="text-center text-sm text-muted-foreground">No messages yet. Say hello!</p>
+        )}
+        {state.messages.map((message) => {
+          const isOurs = message.senderParty === party;
+
+          return (
+            <div key={message.id} className={cn("flex flex-col gap-1", isOurs ? "items-end" : "items-start")}>
+              <div
+                className={cn(
+                  "max-w-[80%] space-y-2 rounded-lg px-3 py-2 text-sm",
+                  isOurs ? "bg-primary text-primary-foreground" : "bg-muted",
+                )}
+              >
+                {message.body && <p className="whitespace-pre-line break-words">{message.body}</p>}
+                {message.attachments.map((attachment) => (
+                  <a
+                    key={attachment.id}
+                    href={`/messages/attachments/${attachment.id}/download`}
+                    className="flex items-center gap-1 underline"
+                  >
+                    <Paperclip className="w-3 h-3" />
+                    {attachment.originalName} ({formatFileSize(attachment.size)})
+                  </a>
+                ))}
+              </div>
+              <p className="text-xs text-muted-foreground">
+                {message.isOwn ? "You" : message.senderName} · {new Date(message.createdAt).toLocaleString()}
+                {message.id === lastOwnMessageId && state.otherPartyLastReadId >= message.id && " · Seen"}
+              </p>
+            </div>
+          );
+        })}
+      </div>
+
+      {closedNotice ? (
+        <p className="rounded-md bg-muted p-3 text-sm text-muted-foreground">{closedNotice}</p>
+      ) : (
+        <form ref={formRef} className="space-y-2" onSubmit={handleSubmit}>
+          <input type="hidden" name="applicationId" value={applicationId} />
+          <Textarea name="body" rows={3} maxLength={MESSAGE_MAX_LENGTH} placeholder="Write a message" aria-label="Message" />
+          <div className="flex flex-col gap-2 sm:flex-row">
+            <Input name="attachment" type="file" accept={MESSAGE_ATTACHMENT_ACCEPT} aria-label="Attachment (max 5 MB)" />
+            <Button type="submit" disabled={isSending}>
+              <Send className="w-4 h-4" />
+              {isSending ? "Sending..." : "Send"}
+            </Button>
+          </div>
+        </form>
+      )}
+
+      {canWrite && !state.isArchived && (
+        <div className="flex justify-end">
+          <Button type="button" variant="ghost" size="sm" disabled={isPending} onClick={handleToggleBlock}>
+            <Ban className="w-4 h-4" />
+            {isBlockedByUs ? "Unblock" : "Block"}
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ConversationThread;
@@ -0,0 +1,32 @@
+import { MESSAGE_POLL_INTERVAL } from "@/config/constant";
+import { CurrentUser } from "@/features/auth/server/auth.queries";
+import {
+  ConversationAccess,
+  getConversationMessages,
+  getMessagingBlocks,
+  getOtherPartyLastReadId,
+} from "../server/messaging.queries";
+import ConversationThread from "./ConversationThread";
+
+//* Loads the first render of a thread; the client component keeps it up to date from there.
+const ConversationView = async ({ access, user }: { access: ConversationAccess; user: CurrentUser }) => {
+  const { conversationId, applicantId, companyId } = access.thread;
+
+  const [messages, otherPartyLastReadId, blockedBy] = await Promise.all([
+    conversationId ? getConversationMessages({ conversationId, viewerId: user.id }) : [],
+    conversationId ? getOtherPartyLastReadId({ conversationId, applicantId, party: access.party }) : 0,
+    getMessagingBlocks({ applicantId, companyId }),
+  ]);
+
+  return (
+    <ConversationThread
+      applicationId={access.thread.applicationId}
+      party={access.party}
+      canWrite={access.canWrite}
+      pollInterval={MESSAGE_POLL_INTERVAL}
+      initialState={{ messages, otherPartyLastReadId, isArchived: access.isArchived, blockedBy }}
+    />
+  );
+};
+
+export default ConversationView;
@@ -0,0 +1,11 @@
+//* Plain arrays (no drizzle/zod imports) so they can be shared by the DB schema, Zod schemas and client components.
+
+//* A conversation always has exactly two sides: the applicant, and whoever on the hiring team writes back.
+export const CONVERSATION_PARTIES = ["applicant", "company"] as const;
+
+export type ConversationParty = (typeof CONVERSATION_PARTIES)[number];
+
+//* Every type the upload sniffer recognises (documents and images) is accepted as an attachment.
+export const MESSAGE_ATTACHMENT_ACCEPT = ".pdf,.docx,.png,.jpg,.jpeg,.gif,.webp";
+
+export const MESSAGE_MAX_LENGTH = 5000;
@@ -0,0 +1,21 @@
+import { z } from "zod";
+import { MESSAGE_MAX_LENGTH } from "./messaging.constants";
+
+//* The attachment travels next to these fields in the same FormData and is checked by the action.
+export const sendMessageSchema = z.object({
+  applicationId: z.coerce.number().int().positive(),
+  body: z
+    .string()
+    .trim()
+    .max(MESSAGE_MAX_LENGTH, `Message must not exceed ${MESSAGE_MAX_LENGTH} characters`)
+    .default(""),
+});
+
+export type SendMessageData = z.infer<typeof sendMessageSchema>;
+
+export const markConversationReadSchema = z.object({
+  applicationId: z.number().int().positive(),
+  lastMessageId: z.number().int().positive(),
+});
+
+export type MarkConversationReadInput = z.input<typeof markConversationReadSchema>;
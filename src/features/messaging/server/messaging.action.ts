@@ -0,0 +1,302 @@
+"use server"
+
+import { MESSAGE_ATTACHMENT_MAX_SIZE } from "@/config/constant";
+import { db } from "@/config/db";
+import { applications, conversationReads, conversations, messageAttachments, messages, messagingBlocks } from "@/drizzle/schema";
+import { CLOSED_APPLICATION_STATUSES } from "@/features/applications/applications.constants";
+import { getAuthorizedUser } from "@/features/auth/server/auth.queries";
+import { getCompanyMemberUserIds } from "@/features/companies/server/companies.queries";
+import { createNotifications } from "@/features/notifications/server/notifications";
+import { getUsersWithUnreadNotification } from "@/features/notifications/server/notifications.queries";
+import { FILE_EXTENSIONS, sniffMimeType } from "@/lib/fileType";
+import { getFileStorage } from "@/lib/storage";
+import { isDuplicateEntryError } from "@/lib/utils";
+import crypto from "crypto";
+import { and, eq, sql } from "drizzle-orm";
+import { revalidatePath } from "next/cache";
+import { MarkConversationReadInput, markConversationReadSchema, sendMessageSchema } from "../messaging.schema";
+import { ConversationAccess, ConversationMessage, getConversationAccess, getMessagingBlocks } from "./messaging.queries";
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+//* Read positions only move forward, so a late request from an older tab can't mark messages unread again.
+const advanceReadPosition = async (
+  tx: Transaction | typeof db,
+  { conversationId, userId, messageId }: { conversationId: number; userId: number; messageId: number },
+) => {
+  await tx
+    .insert(conversationReads)
+    .values({ conversationId, userId, lastReadMessageId: messageId })
+    .onDuplicateKeyUpdate({
+      set: { lastReadMessageId: sql`GREATEST(${conversationReads.lastReadMessageId}, ${messageId})` },
+    });
+};
+
+//* One notification per thread until it's read, not one per message. Titles name the company or the
+//* applicant, never the individual sender's contact details.
+const notifyRecipients = async (access: ConversationAccess, message: ConversationMessage) => {
+  const { thread } = access;
+  const isFromApplicant = access.party === "applicant";
+
+  const recipients = isFromApplicant
+    ? await getCompanyMemberUserIds({ companyId: thread.companyId })
+    : [thread.applicantId];
+  const url = isFromApplicant ? `/employer/messages/${thread.applicationId}` : `/dashboard/messages/${thread.applicationId}`;
+
+  const alreadyNotified = await getUsersWithUnreadNotification({ userIds: recipients, type: "new_message", url });
+
+  await createNotifications({
+    userIds: recipients.filter((userId) => !alreadyNotified.has(userId)),
+    type: "new_message",
+    title: `New message from ${isFromApplicant ? thread.applicantName : thread.companyName}`,
+    body: message.body ? message.body.slice(0, 140) : "Sent an attachment",
+    url,
+  });
+};
+
+const revalidateConversationLists = () => {
+  revalidatePath("/dashboard/messages");
+  revalidatePath("/employer/messages");
+};
+
+export const sendMessageAction = async (formData: FormData) => {
+  try {
+    const user = await getAuthorizedUser();
+
+    if (!user) return { status: "ERROR", message: "You must be logged in" };
+
+    const { data: validatedData, error } = sendMessageSchema.safeParse({
+      applicationId: formData.get("applicationId"),
+      body: formData.get("body") ?? "",
+    });
+
+    if (error) return { status: "ERROR", message: error.issues[0].message };
+
+    const access = await getConversationAccess({ applicationId: validatedData.applicationId, user });
+
+    if (!access) return { status: "ERROR", message: "Conversation not found" };
+
+    if (!access.canWrite) return { status: "ERROR", message: "Only company owners and recruiters can reply" };
+
+    if (access.isArchived) return { status: "ERROR", message: "This conversation is archived" };
+
+    const blocks = await getMessagingBlocks({
+      applicantId: access.thread.applicantId,
+      companyId: access.thread.companyId,
+    });
+
+    if (blocks.length > 0) return { status: "ERROR", message: "Messaging is blocked for this conversation" };
+
+    const file = formData.get("attachment");
+    const attachment = file instanceof File && file.size > 0 ? file : null;
+
+    if (!validatedData.body && !attachment) return { status: "ERROR", message: "Please write a message" };
+
+    let storedAttachment: { storageKey: string; originalName: string; mimeType: string; size: number } | null = null;
+
+    if (attachment) {
+      if (attachment.size > MESSAGE_ATTACHMENT_MAX_SIZE) {
+        return { status: "ERROR", message: "Attachment must not exceed 5 MB" };
+      }
+
+      const buffer = Buffer.from(await attachment.arrayBuffer());
+
+      // same rule as resumes: trust the bytes, not the file name or the browser-supplied type
+      const mimeType = sniffMimeType(buffer);
+
+      if (!mimeType) return { status: "ERROR", message: "Only PDF, DOCX and image attachments are supported" };
+
+      const storageKey = `messages/${access.thread.applicationId}/${crypto.randomUUID()}.${FILE_EXTENSIONS[mimeType]}`;
+
+      await getFileStorage().put(storageKey, buffer, mimeType);
+
+      storedAttachment = {
+        storageKey,
+        originalName: attachment.name.slice(0, 255) || `attachment.${FILE_EXTENSIONS[mimeType]}`,
+        mimeType,
+        size: attachment.size,
+      };
+    }
+
+    let sentMessage: ConversationMessage | null;
+
+    try {
+      sentMessage = await db.transaction(async (tx) => {
+        // locks the application row, so a status change that closes it can't slip in between
+        const [application] = await tx
+          .select({ status: applications.status })
+          .from(applications)
+          .where(eq(applications.id, access.thread.applicationId))
+          .for("update");
+
+        if (!application || CLOSED_APPLICATION_STATUSES.includes(application.status)) return null;
+
+        await tx
+          .insert(conversations)
+          .values({ applicationId: access.thread.applicationId })
+          .onDuplicateKeyUpdate({ set: { applicationId: access.thread.applicationId } });
+
+        const [conversation] = await tx
+          .select({ id: conversations.id })
+          .from(conversations)
+          .where(eq(conversations.applicationId, access.thread.applicationId));
+
+        const [{ id: messageId }] = await tx
+          .insert(messages)
+          .values({
+            conversationId: conversation.id,
+            senderId: user.id,
+            senderParty: access.party,
+            body: validatedData.body,
+          })
+          .$returningId();
+
+        let attachmentId: number | null = null;
+
+        if (storedAttachment) {
+          [{ id: attachmentId }] = await tx
+            .insert(messageAttachments)
+            .values({ messageId, ...storedAttachment })
+            .$returningId();
+        }
+
+        const createdAt = new Date();
+
+        await tx.update(conversations).set({ lastMessageAt: createdAt }).where(eq(conversations.id, conversation.id));
+
+        // writing a message means everything before it has been seen
+        await advanceReadPosition(tx, { conversationId: conversation.id, userId: user.id, messageId });
+
+        return {
+          id: messageId,
+          body: validatedData.body,
+          senderParty: access.party,
+          senderName: user.name,
+          isOwn: true,
+          createdAt: createdAt.toISOString(),
+          attachments:
+            storedAttachment && attachmentId
+              ? [{ id: attachmentId, originalName: storedAttachment.originalName, size: storedAttachment.size }]
+              : [],
+        };
+      });
+    } catch (error) {
+      // don't leave an orphaned file behind if the message could not be written
+      if (storedAttachment) await getFileStorage().delete(storedAttachment.storageKey);
+      throw error;
+    }
+
+    if (!sentMessage) {
+      if (storedAttachment) await getFileStorage().delete(storedAttachment.storageKey);
+      return { status: "ERROR", message: "This conversation is archived" };
+    }
+
+    await notifyRecipients(access, sentMessage);
+
+    revalidateConversationLists();
+
+    return { status: "SUCCESS", message: "Message sent", sentMessage };
+  } catch (error) {
+    console.error("Send Message Error:", error);
+    return { status: "ERROR", message: "Unknown Error Occured ! Please Try Again Later" };
+  }
+};
+
+export const markConversationReadAction = async (data: MarkConversationReadInput) => {
+  try {
+    const user = await getAuthorizedUser();
+
+    if (!user) return { status: "ERROR", message: "You must be logged in" };
+
+    const { data: validatedData, error } = markConversationReadSchema.safeParse(data);
+
+    if (error) return { status: "ERROR", message: error.issues[0].message };
+
+    const access = await getConversationAccess({ applicationId: validatedData.applicationId, user });
+
+    if (!access || !access.thread.conversationId) return { status: "ERROR", message: "Conversation not found" };
+
+    await advanceReadPosition(db, {
+      conversationId: access.thread.conversationId,
+      userId: user.id,
+      messageId: validatedData.lastMessageId,
+    });
+
+    revalidateConversationLists();
+
+    return { status: "SUCCESS", message: "Conversation marked as read" };
+  } catch (error) {
+    console.error("Mark Conversation Read Error:", error);
+    return { status: "ERROR", message: "Unknown Error Occured ! Please Try Again Later" };
+  }
+};
+
+//* Blocks are per side: the applicant blocking a company and the company blocking an applicant are
+//* separate rows, and each side can only lift its own.
+const getBlockingAccess = async (applicationId: number) => {
+  const user = await getAuthorizedUser();
+
+  if (!user) return null;
+
+  const access = await getConversationAccess({ applicationId, user });
+
+  if (!access || !access.canWrite) return null;
+
+  return { user, access };
+};
+
+export const blockConversationAction = async (applicationId: number) => {
+  try {
+    const blocking = await getBlockingAccess(applicationId);
+
+    if (!blocking) return { status: "ERROR", message: "Conversation not found" };
+
+    const { user, access } = blocking;
+
+    await db.insert(messagingBlocks).values({
+      applicantId: access.thread.applicantId,
+      companyId: access.thread.companyId,
+      blockedBy: access.party,
+      createdBy: user.id,
+    });
+
+    revalidateConversationLists();
+
+    return { status: "SUCCESS", message: "Blocked. Neither side can send messages until you unblock" };
+  } catch (error) {
+    // already blocked from this side: the end state is what the user asked for
+    if (isDuplicateEntryError(error)) {
+      return { status: "SUCCESS", message: "Blocked. Neither side can send messages until you unblock" };
+    }
+
+    console.error("Block Conversation Error:", error);
+    return { status: "ERROR", message: "Unknown Error Occured ! Please Try Again Later" };
+  }
+};
+
+export const unblockConversationAction = async (applicationId: number) => {
+  try {
+    const blocking = await getBlockingAccess(applicationId);
+
+    if (!blocking) return { status: "ERROR", message: "Conversation not found" };
+
+    const { access } = blocking;
+
+    await db
+      .delete(messagingBlocks)
+      .where(
+        and(
+          eq(messagingBlocks.applicantId, access.thread.applicantId),
+          eq(messagingBlocks.companyId, access.thread.companyId),
+          eq(messagingBlocks.blockedBy, access.party),
+        ),
+      );
+
+    revalidateConversationLists();
+
+    return { status: "SUCCESS", message: "Unblocked" };
+  } catch (error) {
+    console.error("Unblock Conversation Error:", error);
+    return { status: "ERROR", message: "Unknown Error Occured ! Please Try Again Later" };
+  }
+};
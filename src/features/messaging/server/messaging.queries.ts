@@ -0,0 +1,235 @@
+import { db } from "@/config/db";
+import {
+  applications,
+  companies,
+  conversationReads,
+  conversations,
+  jobs,
+  messageAttachments,
+  messages,
+  messagingBlocks,
+  users,
+} from "@/drizzle/schema";
+import { CLOSED_APPLICATION_STATUSES } from "@/features/applications/applications.constants";
+import { CurrentUser } from "@/features/auth/server/auth.queries";
+import { canManageJobs } from "@/features/companies/companies.constants";
+import { getUserMembership } from "@/features/companies/server/companies.queries";
+import { and, asc, desc, eq, gt, inArray, isNotNull, isNull, max, ne, sql } from "drizzle-orm";
+import { ConversationParty } from "../messaging.constants";
+
+//* Everything the thread pages, actions and routes need to decide who may read or write.
+//* Deliberately carries names only: neither side ever sees the other's email address.
+export const getConversationAccess = async ({ applicationId, user }: { applicationId: number; user: CurrentUser }) => {
+  const [thread] = await db
+    .select({
+      applicationId: applications.id,
+      applicationStatus: applications.status,
+      applicantId: applications.applicantId,
+      applicantName: users.name,
+      jobId: jobs.id,
+      jobTitle: jobs.title,
+      companyId: companies.id,
+      companyName: companies.name,
+      conversationId: conversations.id,
+      archivedAt: conversations.archivedAt,
+    })
+    .from(applications)
+    .innerJoin(users, eq(users.id, applications.applicantId))
+    .innerJoin(jobs, eq(jobs.id, applications.jobId))
+    .innerJoin(companies, eq(companies.id, jobs.companyId))
+    .leftJoin(conversations, eq(conversations.applicationId, applications.id))
+    // a suspended applicant's threads disappear for the company, like the rest of their applications
+    .where(and(eq(applications.id, applicationId), isNull(users.deletedAt)));
+
+  if (!thread) return null;
+
+  let party: ConversationParty;
+  let canWrite: boolean;
+
+  if (user.role === "applicant" && thread.applicantId === user.id) {
+    party = "applicant";
+    canWrite = true;
+  } else if (user.role === "employer") {
+    const membership = await getUserMembership(user.id);
+
+    if (!membership || membership.company.id !== thread.companyId) return null;
+
+    // viewers can follow the conversation, but only people who manage candidates speak for the company
+    party = "company";
+    canWrite = canManageJobs(membership.role);
+  } else {
+    return null;
+  }
+
+  // a thread for a closed application is archived even if nobody wrote in it before it closed
+  const isArchived = thread.archivedAt !== null || CLOSED_APPLICATION_STATUSES.includes(thread.applicationStatus);
+
+  return { thread, party, canWrite, isArchived };
+};
+
+export type ConversationAccess = NonNullable<Awaited<ReturnType<typeof getConversationAccess>>>;
+
+export const getMessagingBlocks = async ({ applicantId, companyId }: { applicantId: number; companyId: number }) => {
+  const rows = await db
+    .select({ blockedBy: messagingBlocks.blockedBy })
+    .from(messagingBlocks)
+    .where(and(eq(messagingBlocks.applicantId, applicantId), eq(messagingBlocks.companyId, companyId)));
+
+  return rows.map((row) => row.blockedBy);
+};
+
+export const getConversationMessages = async ({
+  conversationId,
+  viewerId,
+  afterId = 0,
+}: {
+  conversationId: number;
+  viewerId: number;
+  afterId?: number;
+}) => {
+  const rows = await db
+    .select({
+      id: messages.id,
+      body: messages.body,
+      senderId: messages.senderId,
+      senderParty: messages.senderParty,
+      senderName: users.name,
+      createdAt: messages.createdAt,
+    })
+    .from(messages)
+    .leftJoin(users, eq(users.id, messages.senderId))
+    .where(and(eq(messages.conversationId, conversationId), gt(messages.id, afterId)))
+    .orderBy(asc(messages.id));
+
+  const attachments =
+    rows.length === 0
+      ? []
+      : await db
+          .select({
+            id: messageAttachments.id,
+            messageId: messageAttachments.messageId,
+            originalName: messageAttachments.originalName,
+            size: messageAttachments.size,
+          })
+          .from(messageAttachments)
+          .where(inArray(messageAttachments.messageId, rows.map((row) => row.id)));
+
+  return rows.map((row) => ({
+    id: row.id,
+    body: row.body,
+    senderParty: row.senderParty,
+    senderName: row.senderName ?? "Former user",
+    isOwn: row.senderId === viewerId,
+    createdAt: row.createdAt.toISOString(),
+    attachments: attachments
+      .filter((attachment) => attachment.messageId === row.id)
+      .map(({ id, originalName, size }) => ({ id, originalName, size })),
+  }));
+};
+
+export type ConversationMessage = Awaited<ReturnType<typeof getConversationMessages>>[number];
+
+//* The furthest message the other side has read, for "Seen" receipts. On the company side any
+//* team member having read it counts.
+export const getOtherPartyLastReadId = async ({
+  conversationId,
+  applicantId,
+  party,
+}: {
+  conversationId: number;
+  applicantId: number;
+  party: ConversationParty;
+}) => {
+  const [row] = await db
+    .select({ lastReadMessageId: max(conversationReads.lastReadMessageId) })
+    .from(conversationReads)
+    .where(
+      and(
+        eq(conversationReads.conversationId, conversationId),
+        party === "applicant"
+          ? ne(conversationReads.userId, applicantId)
+          : eq(conversationReads.userId, applicantId),
+      ),
+    );
+
+  return row?.lastReadMessageId ?? 0;
+};
+
+//* Messages from the other side past this user's read position.
+const getUnreadCount = (userId: number, party: ConversationParty) => sql<number>`(
+  SELECT COUNT(*) FROM ${messages}
+  WHERE ${messages.conversationId} = ${conversations.id}
+    AND ${messages.senderParty} <> ${party}
+    AND ${messages.id} > COALESCE((
+      SELECT ${conversationReads.lastReadMessageId} FROM ${conversationReads}
+      WHERE ${conversationReads.conversationId} = ${conversations.id} AND ${conversationReads.userId} = ${userId}
+    ), 0)
+)`.mapWith(Number);
+
+export const getApplicantConversations = async (applicantId: number) => {
+  return db
+    .select({
+      applicationId: applications.id,
+      jobTitle: jobs.title,
+      counterpartName: companies.name,
+      lastMessageAt: conversations.lastMessageAt,
+      archivedAt: conversations.archivedAt,
+      unreadCount: getUnreadCount(applicantId, "applicant"),
+    })
+    .from(conversations)
+    .innerJoin(applications, eq(applications.id, conversations.applicationId))
+    .innerJoin(jobs, eq(jobs.id, applications.jobId))
+    .innerJoin(companies, eq(companies.id, jobs.companyId))
+    .where(and(eq(applications.applicantId, applicantId), isNotNull(conversations.lastMessageAt)))
+    .orderBy(desc(conversations.lastMessageAt));
+};
+
+export const getCompanyConversations = async ({ companyId, userId }: { companyId: number; userId: number }) => {
+  return db
+    .select({
+      applicationId: applications.id,
+      jobTitle: jobs.title,
+      counterpartName: users.name,
+      lastMessageAt: conversations.lastMessageAt,
+      archivedAt: conversations.archivedAt,
+      unreadCount: getUnreadCount(userId, "company"),
+    })
+    .from(conversations)
+    .innerJoin(applications, eq(applications.id, conversations.applicationId))
+    .innerJoin(jobs, eq(jobs.id, applications.jobId))
+    .innerJoin(users, eq(users.id, applications.applicantId))
+    .where(and(eq(jobs.companyId, companyId), isNotNull(conversations.lastMessageAt), isNull(users.deletedAt)))
+    .orderBy(desc(conversations.lastMessageAt));
+};
+
+export type ConversationSummary = Awaited<ReturnType<typeof getApplicantConversations>>[number];
+
+//* Total unread messages across every thread the user can see, for the dashboard badge.
+export const getUnreadMessageCount = async (user: CurrentUser) => {
+  let summaries: ConversationSummary[] = [];
+
+  if (user.role === "applicant") {
+    summaries = await getApplicantConversations(user.id);
+  } else if (user.role === "employer") {
+    const membership = await getUserMembership(user.id);
+    if (membership) summaries = await getCompanyConversations({ companyId: membership.company.id, userId: user.id });
+  }
+
+  return summaries.reduce((total, summary) => total + summary.unreadCount, 0);
+};
+
+export const getMessageAttachmentById = async (attachmentId: number) => {
+  const [attachment] = await db
+    .select({
+      storageKey: messageAttachments.storageKey,
+      originalName: messageAttachments.originalName,
+      mimeType: messageAttachments.mimeType,
+      applicationId: conversations.applicationId,
+    })
+    .from(messageAttachments)
+    .innerJoin(messages, eq(messages.id, messageAttachments.messageId))
+    .innerJoin(conversations, eq(conversations.id, messages.conversationId))
+    .where(eq(messageAttachments.id, attachmentId));
+
+  return attachment ?? null;
+};
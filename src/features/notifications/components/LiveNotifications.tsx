@@ -0,0 +1,128 @@
+"use client"
+
+import { usePathname, useRouter } from "next/navigation";
+import { useEffect, useRef } from "react";
+import { toast } from "sonner";
+import { NOTIFICATIONS_UPDATED_EVENT } from "../notifications.constants";
+
+export interface NotificationSummary {
+  id: number;
+  title: string;
+  body: string | null;
+  url: string | null;
+  deliverByEmail: boolean;
+  readAt: string | null;
+  createdAt: string;
+}
+
+export interface NotificationsResponse {
+  userId: number;
+  notifications: NotificationSummary[];
+  unreadCount: number;
+}
+
+// while signed out the interval doubles up to this many poll intervals
+const MAX_BACKOFF_FACTOR = 8;
+
+//* Mounted once next to the Toaster in the root layout. Polls while the tab is visible, toasts
+//* in-app notifications that arrived since the last check and tells the bell about the new unread count.
+//* The layout stays mounted across client-side navigations, so signing in, out or as someone else happens
+//* under it: a 401 only slows polling down, a navigation while signed out checks again right away, and the
+//* baseline starts over whenever the user changes.
+const LiveNotifications = ({ pollInterval }: { pollInterval: number }) => {
+  const router = useRouter();
+  const pathname = usePathname();
+  const checkIfSignedOutRef = useRef<() => void>(() => {});
+
+  useEffect(() => {
+    let userId: number | null = null;
+    let latestId: number | null = null;
+    let isSignedOut = false;
+    let delay = pollInterval;
+    let timer: number | undefined;
+    let isActive = true;
+    let isChecking = false;
+
+    const check = async () => {
+      if (document.visibilityState !== "visible") return;
+
+      try {
+        const query = latestId === null ? "" : `?after=${latestId}`;
+        const response = await fetch(`/api/notifications${query}`, { cache: "no-store" });
+
+        if (response.status === 401) {
+          isSignedOut = true;
+          userId = null;
+          latestId = null;
+          delay = Math.min(delay * 2, pollInterval * MAX_BACKOFF_FACTOR);
+          return;
+        }
+
+        if (!response.ok) return;
+
+        const data: NotificationsResponse = await response.json();
+
+        isSignedOut = false;
+        delay = pollInterval;
+
+        // someone else signed in: their notifications so far aren't "live" either
+        if (data.userId !== userId) {
+          userId = data.userId;
+          latestId = null;
+        }
+
+        // the first response only sets the baseline; anything older than page load isn't "live"
+        if (latestId !== null) {
+          for (const notification of [...data.notifications].reverse()) {
+            if (notification.deliverByEmail) continue;
+
+            const { url } = notification;
+            toast(notification.title, {
+              description: notification.body ?? undefined,
+              action: url ? { label: "View", onClick: () => router.push(url) } : undefined,
+            });
+          }
+        }
+
+        latestId = Math.max(latestId ?? 0, ...data.notifications.map((notification) => notification.id));
+
+        window.dispatchEvent(
+          new CustomEvent(NOTIFICATIONS_UPDATED_EVENT, { detail: { unreadCount: data.unreadCount } }),
+        );
+      } catch {
+        // offline or server restarting: the next tick tries again
+      }
+    };
+
+    const run = async () => {
+      isChecking = true;
+      await check();
+      isChecking = false;
+      if (isActive) timer = window.setTimeout(run, delay * 1000);
+    };
+
+    checkIfSignedOutRef.current = () => {
+      if (!isSignedOut || isChecking) return;
+
+      window.clearTimeout(timer);
+      void run();
+    };
+
+    void run();
+
+    return () => {
+      isActive = false;
+      window.clearTimeout(timer);
+      checkIfSignedOutRef.current = () => {};
+    };
+  }, [pollInterval, router]);
+
+  // signing in ends with a client-side redirect, so a navigation is the cue to look again
+  useEffect(() => {
+    checkIfSignedOutRef.current();
+  }, [pathname]);
+
+  return null;
+};
+
+export default LiveNotifications;
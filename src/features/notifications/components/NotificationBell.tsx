@@ -0,0 +1,16 @@
+import { getCurrentUser } from "@/features/auth/server/auth.queries";
+import { getUnreadNotificationCount } from "../server/notifications.queries";
+import NotificationDropdown from "./NotificationDropdown";
+
+//* Renders nothing for visitors; the live badge updates come from LiveNotifications in the root layout.
+const NotificationBell = async () => {
+  const user = await getCurrentUser();
+
+  if (!user) return null;
+
+  const unreadCount = await getUnreadNotificationCount(user.id);
+
+  return <NotificationDropdown initialUnreadCount={unreadCount} />;
+};
+
+export default NotificationBell;
@@ -0,0 +1,145 @@
+"use client"
+
+import { Button } from "@/components/ui/button";
+import { cn } from "@/lib/utils";
+import { Bell } from "lucide-react";
+import Link from "next/link";
+import { useEffect, useRef, useState } from "react";
+import { toast } from "sonner";
+import { NOTIFICATIONS_UPDATED_EVENT } from "../notifications.constants";
+import { markAllNotificationsReadAction, markNotificationReadAction } from "../server/notifications.action";
+import type { NotificationsResponse, NotificationSummary } from "./LiveNotifications";
+
+const NotificationDropdown = ({ initialUnreadCount }: { initialUnreadCount: number }) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [isOpen, setIsOpen] = useState(false);
+  const [unreadCount, setUnreadCount] = useState(initialUnreadCount);
+  const [notifications, setNotifications] = useState<NotificationSummary[] | null>(null);
+
+  useEffect(() => {
+    const handleUpdate = (event: Event) => {
+      setUnreadCount((event as CustomEvent<{ unreadCount: number }>).detail.unreadCount);
+    };
+
+    window.addEventListener(NOTIFICATIONS_UPDATED_EVENT, handleUpdate);
+    return () => window.removeEventListener(NOTIFICATIONS_UPDATED_EVENT, handleUpdate);
+  }, []);
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const handleClickOutside = (event: MouseEvent) => {
+      if (!containerRef.current?.contains(event.target as Node)) setIsOpen(false);
+    };
+    const handleEscape = (event: KeyboardEvent) => {
+      if (event.key === "Escape") setIsOpen(false);
+    };
+
+    document.addEventListener("mousedown", handleClickOutside);
+    document.addEventListener("keydown", handleEscape);
+    return () => {
+      document.removeEventListener("mousedown", handleClickOutside);
+      document.removeEventListener("keydown", handleEscape);
+    };
+  }, [isOpen]);
+
+  const handleToggle = async () => {
+    const nextIsOpen = !isOpen;
+    setIsOpen(nextIsOpen);
+
+    if (!nextIsOpen) return;
+
+    const response = await fetch("/api/notifications", { cache: "no-store" });
+
+    if (!response.ok) return;
+
+    const data: NotificationsResponse = await response.json();
+    setNotifications(data.notifications);
+    setUnreadCount(data.unreadCount);
+  };
+
+  const handleOpenNotification = (notification: NotificationSummary) => {
+    setIsOpen(false);
+
+    if (notification.readAt) return;
+
+    setUnreadCount((count) => Math.max(count - 1, 0));
+    void markNotificationReadAction(notification.id);
+  };
+
+  const handleMarkAllRead = async () => {
+    const result = await markAllNotificationsReadAction();
+
+    if (result.status === "SUCCESS") {
+      const readAt = new Date().toISOString();
+      setUnreadCount(0);
+      setNotifications((prev) => prev?.map((notification) => ({ ...notification, readAt })) ?? null);
+    } else {
+      toast.error(result.message);
+    }
+  };
+
+  return (
+    <div ref={containerRef} className="relative">
+      <Button
+        type="button"
+        variant="outline"
+        size="icon"
+        aria-label={unreadCount > 0 ? `Notifications (${unreadCount} unread)` : "Notifications"}
+        aria-expanded={isOpen}
+        onClick={handleToggle}
+      >
+        <Bell className="w-4 h-4" />
+        {unreadCount > 0 && (
+          <span className="absolute -right-1 -top-1 min-w-5 rounded-full bg-primary px-1 text-xs text-primary-foreground">
+            {unreadCount > 99 ? "99+" : unreadCount}
+          </span>
+        )}
+      </Button>
+
+      {isOpen && (
+        <div className="absolute right-0 z-50 mt-2 w-80 rounded-md border bg-popover text-popover-foreground shadow-md">
+          <div className="flex items-center justify-between border-b px-3 py-2">
+            <p className="text-sm font-medium">Notifications</p>
+            {unreadCount > 0 && (
+              <button type="button" className="text-xs text-primary hover:underline" onClick={handleMarkAllRead}>
+                Mark all read
+              </button>
+            )}
+          </div>
+
+          <div className="max-h-96 overflow-y-auto">
+            {notifications === null && <p className="p-3 text-sm text-muted-foreground">Loading...</p>}
+            {notifications?.length === 0 && (
+              <p className="p-3 text-sm text-muted-foreground">You&apos;re all caught up.</p>
+            )}
+            {notifications?.map((notification) => (
+              <Link
+                key={notification.id}
+                href={notification.url ?? "/account/notifications"}
+                className={cn(
+                  "block border-b px-3 py-2 text-sm last:border-b-0 hover:bg-muted",
+                  !notification.readAt && "bg-muted/50",
+                )}
+                onClick={() => handleOpenNotification(notification)}
+              >
+                <p className={cn(!notification.readAt && "font-medium")}>{notification.title}</p>
+                <p className="text-xs text-muted-foreground">{new Date(notification.createdAt).toLocaleString()}</p>
+              </Link>
+            ))}
+          </div>
+
+          <Link
+            href="/account/notifications"
+            className="block border-t px-3 py-2 text-center text-sm text-primary hover:underline"
+            onClick={() => setIsOpen(false)}
+          >
+            View all notifications
+          </Link>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default NotificationDropdown;
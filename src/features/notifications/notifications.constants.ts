@@ -0,0 +1,55 @@
+//* Plain arrays (no drizzle/zod imports) so they can be shared by the DB schema, Zod schemas and client components.
+
+export const NOTIFICATION_TYPES = [
+  "job_alert",
+  "application_status",
+  "new_applicant",
+  "new_message",
+  "job_closed",
+  "interview",
+] as const;
+
+export type NotificationType = (typeof NOTIFICATION_TYPES)[number];
+
+export const NOTIFICATION_TYPE_LABELS: Record<NotificationType, string> = {
+  job_alert: "Job alerts",
+  application_status: "Application status changes",
+  new_applicant: "New applicants",
+  new_message: "New messages",
+  job_closed: "Jobs you applied to closing",
+  interview: "Interview invitations and changes",
+};
+
+//* in_app: bell, inbox and a live toast. email_digest: kept in the inbox and collected into one daily
+//* email instead of a toast. none: not recorded at all.
+export const NOTIFICATION_CHANNELS = ["in_app", "email_digest", "none"] as const;
+
+export type NotificationChannel = (typeof NOTIFICATION_CHANNELS)[number];
+
+export const NOTIFICATION_CHANNEL_LABELS: Record<NotificationChannel, string> = {
+  in_app: "In-app",
+  email_digest: "Daily email digest",
+  none: "Off",
+};
+
+//* Job alerts already arrive by email on their saved search's own schedule, so a second digest would repeat them.
+export const NOTIFICATION_TYPE_CHANNELS: Record<NotificationType, NotificationChannel[]> = {
+  job_alert: ["in_app", "none"],
+  application_status: ["in_app", "email_digest", "none"],
+  new_applicant: ["in_app", "email_digest", "none"],
+  new_message: ["in_app", "email_digest", "none"],
+  job_closed: ["in_app", "email_digest", "none"],
+  interview: ["in_app", "email_digest", "none"],
+};
+
+//* Which types each role can receive, so the preferences page only lists relevant ones.
+export const NOTIFICATION_TYPES_BY_ROLE: Record<"applicant" | "employer" | "admin", NotificationType[]> = {
+  applicant: ["job_alert", "application_status", "new_message", "job_closed", "interview"],
+  employer: ["new_applicant", "new_message", "interview"],
+  admin: [],
+};
+
+export const DEFAULT_NOTIFICATION_CHANNEL: NotificationChannel = "in_app";
+
+//* Fired on window by the live poller so the bell can update its badge without its own polling loop.
+export const NOTIFICATIONS_UPDATED_EVENT = "notifications:updated";
@@ -0,0 +1,14 @@
+import { z } from "zod";
+import { NOTIFICATION_CHANNELS, NOTIFICATION_TYPE_CHANNELS, NOTIFICATION_TYPES } from "./notifications.constants";
+
+export const updateNotificationPreferenceSchema = z
+  .object({
+    type: z.enum(NOTIFICATION_TYPES, { error: "Please select a notification type" }),
+    channel: z.enum(NOTIFICATION_CHANNELS, { error: "Please select how to be notified" }),
+  })
+  .refine((data) => NOTIFICATION_TYPE_CHANNELS[data.type].includes(data.channel), {
+    message: "That delivery option isn't available for this notification",
+    path: ["channel"],
+  });
+
+export type UpdateNotificationPreferenceInput = z.input<typeof updateNotificationPreferenceSchema>;
@@ -0,0 +1,75 @@
+"use server"
+
+import { db } from "@/config/db";
+import { notificationPreferences, notifications } from "@/drizzle/schema";
+import { getAuthorizedUser } from "@/features/auth/server/auth.queries";
+import { and, eq, isNull } from "drizzle-orm";
+import { revalidatePath } from "next/cache";
+import {
+  UpdateNotificationPreferenceInput,
+  updateNotificationPreferenceSchema,
+} from "../notifications.schema";
+
+export const markNotificationReadAction = async (notificationId: number) => {
+  try {
+    const user = await getAuthorizedUser();
+
+    if (!user) return { status: "ERROR", message: "You must be logged in" };
+
+    await db
+      .update(notifications)
+      .set({ readAt: new Date() })
+      .where(and(eq(notifications.id, notificationId), eq(notifications.userId, user.id), isNull(notifications.readAt)));
+
+    revalidatePath("/account/notifications");
+
+    return { status: "SUCCESS", message: "Notification marked as read" };
+  } catch (error) {
+    console.error("Mark Notification Read Error:", error);
+    return { status: "ERROR", message: "Unknown Error Occured ! Please Try Again Later" };
+  }
+};
+
+export const markAllNotificationsReadAction = async () => {
+  try {
+    const user = await getAuthorizedUser();
+
+    if (!user) return { status: "ERROR", message: "You must be logged in" };
+
+    await db
+      .update(notifications)
+      .set({ readAt: new Date() })
+      .where(and(eq(notifications.userId, user.id), isNull(notifications.readAt)));
+
+    revalidatePath("/account/notifications");
+
+    return { status: "SUCCESS", message: "All notifications marked as read" };
+  } catch (error) {
+    console.error("Mark All Notifications Read Error:", error);
+    return { status: "ERROR", message: "Unknown Error Occured ! Please Try Again Later" };
+  }
+};
+
+export const updateNotificationPreferenceAction = async (data: UpdateNotificationPreferenceInput) => {
+  try {
+    const user = await getAuthorizedUser();
+
+    if (!user) return { status: "ERROR", message: "You must be logged in" };
+
+    const { data: validatedData, error } = updateNotificationPreferenceSchema.safeParse(data);
+
+    if (error) return { status: "ERROR", message: error.issues[0].message };
+
+    await db
+      .insert(notificationPreferences)
+      .values({ userId: user.id, ...validatedData })
+      .onDuplicateKeyUpdate({ set: { channel: validatedData.channel } });
+
+    revalidatePath("/account/notifications/preferences");
+
+    return { status: "SUCCESS", message: "Notification preferences saved" };
+  } catch (error) {
+    console.error("Update Notification Preference Error:", error);
+    return { status: "ERROR", message: "Unknown Error Occured ! Please Try Again Later" };
+  }
+};
@@ -0,0 +1,116 @@
+import { NOTIFICATIONS_PAGE_SIZE } from "@/config/constant";
+import { db } from "@/config/db";
+import { notificationPreferences, notifications } from "@/drizzle/schema";
+import { and, count, desc, eq, gt, inArray, isNull, lt } from "drizzle-orm";
+import {
+  DEFAULT_NOTIFICATION_CHANNEL,
+  NOTIFICATION_TYPES,
+  NotificationChannel,
+  NotificationType,
+} from "../notifications.constants";
+
+const notificationColumns = {
+  id: notifications.id,
+  type: notifications.type,
+  title: notifications.title,
+  body: notifications.body,
+  url: notifications.url,
+  deliverByEmail: notifications.deliverByEmail,
+  readAt: notifications.readAt,
+  createdAt: notifications.createdAt,
+};
+
+//* Newest first, paged by id: pass the last id of the previous page as `before`.
+export const getUserNotifications = async ({ userId, before }: { userId: number; before?: number }) => {
+  const rows = await db
+    .select(notificationColumns)
+    .from(notifications)
+    .where(and(eq(notifications.userId, userId), before ? lt(notifications.id, before) : undefined))
+    .orderBy(desc(notifications.id))
+    .limit(NOTIFICATIONS_PAGE_SIZE + 1);
+
+  const hasMore = rows.length > NOTIFICATIONS_PAGE_SIZE;
+  const page = rows.slice(0, NOTIFICATIONS_PAGE_SIZE);
+
+  return { notifications: page, nextBefore: hasMore ? page.at(-1)?.id : undefined };
+};
+
+export const getRecentNotifications = async ({
+  userId,
+  afterId,
+  limit,
+}: {
+  userId: number;
+  afterId?: number;
+  limit: number;
+}) => {
+  return db
+    .select(notificationColumns)
+    .from(notifications)
+    .where(and(eq(notifications.userId, userId), afterId ? gt(notifications.id, afterId) : undefined))
+    .orderBy(desc(notifications.id))
+    .limit(limit);
+};
+
+export type NotificationItem = Awaited<ReturnType<typeof getRecentNotifications>>[number];
+
+export const getUnreadNotificationCount = async (userId: number) => {
+  const [row] = await db
+    .select({ total: count() })
+    .from(notifications)
+    .where(and(eq(notifications.userId, userId), isNull(notifications.readAt)));
+
+  return row?.total ?? 0;
+};
+
+//* Recipients who still have an unread notification pointing at the same place, e.g. an earlier
+//* message in the same thread. Used to avoid one notification per message.
+export const getUsersWithUnreadNotification = async ({
+  userIds,
+  type,
+  url,
+}: {
+  userIds: number[];
+  type: NotificationType;
+  url: string;
+}) => {
+  if (userIds.length === 0) return new Set<number>();
+
+  const rows = await db
+    .selectDistinct({ userId: notifications.userId })
+    .from(notifications)
+    .where(
+      and(
+        inArray(notifications.userId, userIds),
+        eq(notifications.type, type),
+        eq(notifications.url, url),
+        isNull(notifications.readAt),
+      ),
+    );
+
+  return new Set(rows.map((row) => row.userId));
+};
+
+export const getNotificationPreferences = async (userId: number) => {
+  const rows = await db
+    .select({ type: notificationPreferences.type, channel: notificationPreferences.channel })
+    .from(notificationPreferences)
+    .where(eq(notificationPreferences.userId, userId));
+
+  const preferences = Object.fromEntries(
+    NOTIFICATION_TYPES.map((type) => [type, DEFAULT_NOTIFICATION_CHANNEL]),
+  ) as Record<NotificationType, NotificationChannel>;
+
+  for (const row of rows) preferences[row.type] = row.channel;
+
+  return preferences;
+};
+
+export const getPendingDigestUserIds = async () => {
+  const rows = await db
+    .selectDistinct({ userId: notifications.userId })
+    .from(notifications)
+    .where(and(eq(notifications.deliverByEmail, true), isNull(notifications.emailedAt)));
+
+  return rows.map((row) => row.userId);
+};
@@ -0,0 +1,54 @@
+import { db } from "@/config/db";
+import { notificationPreferences, notifications } from "@/drizzle/schema";
+import { and, eq, inArray } from "drizzle-orm";
+import { DEFAULT_NOTIFICATION_CHANNEL, NotificationChannel, NotificationType } from "../notifications.constants";
+
+const getChannels = async (userIds: number[], type: NotificationType) => {
+  const rows = await db
+    .select({ userId: notificationPreferences.userId, channel: notificationPreferences.channel })
+    .from(notificationPreferences)
+    .where(and(inArray(notificationPreferences.userId, userIds), eq(notificationPreferences.type, type)));
+
+  const channels = new Map<number, NotificationChannel>(rows.map((row) => [row.userId, row.channel]));
+
+  return (userId: number) => channels.get(userId) ?? DEFAULT_NOTIFICATION_CHANNEL;
+};
+
+//* Records one event for several recipients, honouring each recipient's channel for this type.
+//* Never throws: a failed notification must not fail the action that triggered it.
+export const createNotifications = async ({
+  userIds,
+  type,
+  title,
+  body,
+  url,
+}: {
+  userIds: number[];
+  type: NotificationType;
+  title: string;
+  body?: string;
+  url?: string;
+}) => {
+  try {
+    const recipients = [...new Set(userIds)];
+
+    if (recipients.length === 0) return;
+
+    const getChannel = await getChannels(recipients, type);
+
+    const values = recipients
+      .filter((userId) => getChannel(userId) !== "none")
+      .map((userId) => ({
+        userId,
+        type,
+        title: title.slice(0, 255),
+        body: body ?? null,
+        url: url ?? null,
+        deliverByEmail: getChannel(userId) === "email_digest",
+      }));
+
+    if (values.length > 0) await db.insert(notifications).values(values);
+  } catch (error) {
+    console.error("Create Notifications Error:", error);
+  }
+};
@@ -0,0 +1,76 @@
+import { APP_URL } from "@/config/constant";
+import { db } from "@/config/db";
+import { notifications, users } from "@/drizzle/schema";
+import { sendEmail } from "@/features/email/server/email";
+import { notificationDigestEmail } from "@/features/email/templates";
+import { and, asc, eq, inArray, isNull } from "drizzle-orm";
+import { getPendingDigestUserIds } from "../notifications.queries";
+
+//* Claims every pending digest row for the user inside one transaction. FOR UPDATE makes an overlapping
+//* run wait, and it then finds the rows already claimed, so nothing is emailed twice.
+const claimPendingNotifications = async (userId: number, now: Date) => {
+  return db.transaction(async (tx) => {
+    const pending = await tx
+      .select({ id: notifications.id, title: notifications.title, body: notifications.body, url: notifications.url })
+      .from(notifications)
+      .where(
+        and(eq(notifications.userId, userId), eq(notifications.deliverByEmail, true), isNull(notifications.emailedAt)),
+      )
+      .orderBy(asc(notifications.id))
+      .for("update");
+
+    if (pending.length > 0) {
+      await tx
+        .update(notifications)
+        .set({ emailedAt: now })
+        .where(inArray(notifications.id, pending.map((notification) => notification.id)));
+    }
+
+    return pending;
+  });
+};
+
+const sendDigest = async (userId: number, now: Date) => {
+  const [user] = await db
+    .select({ name: users.name, email: users.email })
+    .from(users)
+    .where(and(eq(users.id, userId), isNull(users.deletedAt)));
+
+  if (!user) return false;
+
+  const pending = await claimPendingNotifications(userId, now);
+
+  if (pending.length === 0) return false;
+
+  await sendEmail({
+    to: user.email,
+    ...notificationDigestEmail({
+      name: user.name,
+      notifications: pending.map((notification) => ({
+        ...notification,
+        url: notification.url && `${APP_URL}${notification.url}`,
+      })),
+      inboxUrl: `${APP_URL}/account/notifications`,
+      preferencesUrl: `${APP_URL}/account/notifications/preferences`,
+    }),
+  });
+
+  return true;
+};
+
+//* Called by the scheduler once a day. Rows are claimed before sending (at most once): a failed email
+//* is logged rather than retried, so a bad address can't cause repeats.
+export const runNotificationDigests = async (now = new Date()) => {
+  const userIds = await getPendingDigestUserIds();
+
+  let sent = 0;
+  for (const userId of userIds) {
+    try {
+      if (await sendDigest(userId, now)) sent++;
+    } catch (error) {
+      console.error("Notification Digest Error:", error);
+    }
+  }
+
+  return { due: userIds.length, sent };
+};
@@ -0,0 +1,24 @@
+const ProfileCompleteness = ({ percent, missing }: { percent: number; missing: string[] }) => {
+  return (
+    <div className="space-y-2 rounded-md border p-4">
+      <div className="flex items-center justify-between text-sm">
+        <span className="font-medium">Profile completeness</span>
+        <span>{percent}%</span>
+      </div>
+      <div
+        className="h-2 w-full overflow-hidden rounded-full bg-muted"
+        role="progressbar"
+        aria-valuemin={0}
+        aria-valuemax={100}
+        aria-valuenow={percent}
+      >
+        <div className="h-full bg-primary transition-all" style={{ width: `${percent}%` }} />
+      </div>
+      {missing.length > 0 && (
+        <p className="text-xs text-muted-foreground">Next steps: {missing.slice(0, 3).join(" · ")}</p>
+      )}
+    </div>
+  );
+};
+
+export default ProfileCompleteness;
@@ -0,0 +1,378 @@
+"use client"
+
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import { SALARY_CURRENCIES, WORK_MODE_LABELS, WORK_MODES, WorkMode } from "@/features/jobs/jobs.constants";
+import { Plus, X } from "lucide-react";
+import { useRouter } from "next/navigation";
+import { FormEvent, useState } from "react";
+import { toast } from "sonner";
+import {
+  getProfileCompleteness,
+  PROFILE_LINK_TYPE_LABELS,
+  SKILL_PROFICIENCY_LABELS,
+} from "../profiles.constants";
+import { ProfileData, ProfileInput, profileSchema } from "../profiles.schema";
+import { saveProfileAction } from "../server/profiles.action";
+import ProfileCompleteness from "./ProfileCompleteness";
+
+//* Form state mirrors ProfileData, except that free-text lists and the salary are kept as the strings the inputs give us.
+type ProfileFormValues = Omit<ProfileData, "desiredRoles" | "preferredLocations" | "salaryExpectation"> & {
+  desiredRoles: string;
+  preferredLocations: string;
+  salaryExpectation: string;
+};
+
+type ListSection = "experiences" | "educations" | "skills" | "links";
+
+const NEW_ITEMS = {
+  experiences: { title: "", company: "", location: "", startMonth: "", endMonth: "", description: "" },
+  educations: { school: "", degree: "", fieldOfStudy: "", startMonth: "", endMonth: "" },
+  skills: { name: "", proficiency: "intermediate" },
+  links: { type: "linkedin", url: "" },
+} as const;
+
+const splitList = (value: string) =>
+  value
+    .split(",")
+    .map((item) => item.trim())
+    .filter(Boolean);
+
+const toFormValues = (profile: ProfileData): ProfileFormValues => ({
+  ...profile,
+  desiredRoles: profile.desiredRoles.join(", "),
+  preferredLocations: profile.preferredLocations.join(", "),
+  salaryExpectation: profile.salaryExpectation?.toString() ?? "",
+});
+
+const toProfileInput = (values: ProfileFormValues) =>
+  ({
+    ...values,
+    desiredRoles: splitList(values.desiredRoles),
+    preferredLocations: splitList(values.preferredLocations),
+    salaryExpectation: values.salaryExpectation ? Number(values.salaryExpectation) : null,
+  }) as ProfileInput;
+
+const ProfileEditor = ({ profile, publicUrl }: { profile: ProfileData; publicUrl: string }) => {
+  const router = useRouter();
+  const [formData, setFormData] = useState<ProfileFormValues>(() => toFormValues(profile));
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [isPending, setIsPending] = useState(false);
+
+  const profileInput = toProfileInput(formData);
+  const completeness = getProfileCompleteness({
+    ...formData,
+    headline: formData.headline.trim(),
+    summary: formData.summary.trim(),
+    desiredRoles: splitList(formData.desiredRoles),
+    preferredLocations: splitList(formData.preferredLocations),
+    salaryExpectation: formData.salaryExpectation ? Number(formData.salaryExpectation) : null,
+  });
+
+  const setField = <K extends keyof ProfileFormValues>(name: K, value: ProfileFormValues[K]) => {
+    setFormData((prev) => ({ ...prev, [name]: value }));
+  };
+
+  const updateItem = (section: ListSection, index: number, field: string, value: string) => {
+    setFormData((prev) => ({
+      ...prev,
+      [section]: prev[section].map((item, itemIndex) => (itemIndex === index ? { ...item, [field]: value } : item)),
+    }));
+  };
+
+  const addItem = (section: ListSection) => {
+    setFormData((prev) => ({ ...prev, [section]: [...prev[section], { ...NEW_ITEMS[section] }] }));
+  };
+
+  const removeItem = (section: ListSection, index: number) => {
+    setFormData((prev) => ({ ...prev, [section]: prev[section].filter((_, itemIndex) => itemIndex !== index) }));
+  };
+
+  const toggleWorkMode = (workMode: WorkMode) => {
+    setField(
+      "preferredWorkModes",
+      formData.preferredWorkModes.includes(workMode)
+        ? formData.preferredWorkModes.filter((mode) => mode !== workMode)
+        : [...formData.preferredWorkModes, workMode],
+    );
+  };
+
+  const handleFormSubmit = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+
+    const { error } = profileSchema.safeParse(profileInput);
+    if (error) {
+      const fieldErrors: Record<string, string> = {};
+      for (const issue of error.issues) {
+        fieldErrors[issue.path.join(".")] ??= issue.message;
+      }
+      setErrors(fieldErrors);
+      toast.error(error.issues[0].message);
+      return;
+    }
+
+    setErrors({});
+    setIsPending(true);
+
+    const result = await saveProfileAction(profileInput);
+
+    setIsPending(false);
+
+    if (result.status === "SUCCESS") {
+      toast.success(result.message);
+      router.refresh();
+    } else {
+      toast.error(result.message);
+    }
+  };
+
+  //* Errors are keyed by their Zod path, e.g. "experiences.0.startMonth".
+  const fieldError = (path: string) => errors[path] && <p className="text-sm text-destructive">{errors[path]}</p>;
+
+  const sectionHeader = (title: string, section: ListSection, addLabel: string) => (
+    <div className="flex items-center justify-between">
+      <h3 className="font-medium">{title}</h3>
+      <Button type="button" variant="outline" size="sm" onClick={() => addItem(section)}>
+        <Plus className="w-4 h-4" />
+        {addLabel}
+      </Button>
+    </div>
+  );
+
+  const removeButton = (section: ListSection, index: number) => (
+    <Button type="button" variant="ghost" size="sm" aria-label="Remove" onClick={() => removeItem(section, index)}>
+      <X className="w-4 h-4" />
+    </Button>
+  );
+
+  return (
+    <form className="space-y-8" onSubmit={handleFormSubmit}>
+      <ProfileCompleteness {...completeness} />
+
+      <section className="space-y-4">
+        <div className="space-y-2">
+          <Label htmlFor="headline">Headline</Label>
+          <Input
+            id="headline"
+            placeholder="e.g. Full-stack developer with 5 years of React and Node"
+            value={formData.headline}
+            onChange={(event) => setField("headline", event.target.value)}
+          />
+          {fieldError("headline")}
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="summary">Summary</Label>
+          <Textarea
+            id="summary"
+            rows={5}
+            placeholder="A few sentences about you and what you're looking for"
+            value={formData.summary}
+            onChange={(event) => setField("summary", event.target.value)}
+          />
+          {fieldError("summary")}
+        </div>
+      </section>
+
+      <section className="space-y-3">
+        {sectionHeader("Work Experience", "experiences", "Add Position")}
+        {formData.experiences.map((experience, index) => (
+          <div key={index} className="space-y-3 rounded-md border p-4">
+            <div className="flex justify-end">{removeButton("experiences", index)}</div>
+            <div className="grid gap-3 sm:grid-cols-2">
+              <div className="space-y-1">
+                <Input placeholder="Job title *" aria-label="Job title" value={experience.title} onChange={(event) => updateItem("experiences", index, "title", event.target.value)} />
+                {fieldError(`experiences.${index}.title`)}
+              </div>
+              <div className="space-y-1">
+                <Input placeholder="Company *" aria-label="Company" value={experience.company} onChange={(event) => updateItem("experiences", index, "company", event.target.value)} />
+                {fieldError(`experiences.${index}.company`)}
+              </div>
+              <Input placeholder="Location" aria-label="Location" value={experience.location} onChange={(event) => updateItem("experiences", index, "location", event.target.value)} />
+              <div className="grid grid-cols-2 gap-2">
+                <div className="space-y-1">
+                  <Input type="month" aria-label="Start month" value={experience.startMonth} onChange={(event) => updateItem("experiences", index, "startMonth", event.target.value)} />
+                  {fieldError(`experiences.${index}.startMonth`)}
+                </div>
+                <div className="space-y-1">
+                  <Input type="month" aria-label="End month (empty if current)" title="Leave empty if you still work here" value={experience.endMonth} onChange={(event) => updateItem("experiences", index, "endMonth", event.target.value)} />
+                  {fieldError(`experiences.${index}.endMonth`)}
+                </div>
+              </div>
+            </div>
+            <Textarea rows={3} placeholder="What did you work on?" aria-label="Description" value={experience.description} onChange={(event) => updateItem("experiences", index, "description", event.target.value)} />
+          </div>
+        ))}
+      </section>
+
+      <section className="space-y-3">
+        {sectionHeader("Education", "educations", "Add School")}
+        {formData.educations.map((education, index) => (
+          <div key={index} className="space-y-3 rounded-md border p-4">
+            <div className="flex justify-end">{removeButton("educations", index)}</div>
+            <div className="grid gap-3 sm:grid-cols-2">
+              <div className="space-y-1">
+                <Input placeholder="School *" aria-label="School" value={education.school} onChange={(event) => updateItem("educations", index, "school", event.target.value)} />
+                {fieldError(`educations.${index}.school`)}
+              </div>
+              <Input placeholder="Degree" aria-label="Degree" value={education.degree} onChange={(event) => updateItem("educations", index, "degree", event.target.value)} />
+              <Input placeholder="Field of study" aria-label="Field of study" value={education.fieldOfStudy} onChange={(event) => updateItem("educations", index, "fieldOfStudy", event.target.value)} />
+              <div className="grid grid-cols-2 gap-2">
+                <div className="space-y-1">
+                  <Input type="month" aria-label="Start month" value={education.startMonth} onChange={(event) => updateItem("educations", index, "startMonth", event.target.value)} />
+                  {fieldError(`educations.${index}.startMonth`)}
+                </div>
+                <div className="space-y-1">
+                  <Input type="month" aria-label="End month" value={education.endMonth} onChange={(event) => updateItem("educations", index, "endMonth", event.target.value)} />
+                  {fieldError(`educations.${index}.endMonth`)}
+                </div>
+              </div>
+            </div>
+          </div>
+        ))}
+      </section>
+
+      <section className="space-y-3">
+        {sectionHeader("Skills", "skills", "Add Skill")}
+        {formData.skills.map((skill, index) => (
+          <div key={index} className="space-y-1">
+            <div className="flex gap-2">
+              <Input placeholder="e.g. TypeScript" aria-label="Skill" value={skill.name} onChange={(event) => updateItem("skills", index, "name", event.target.value)} />
+              <Select value={skill.proficiency} onValueChange={(value) => updateItem("skills", index, "proficiency", value)}>
+                <SelectTrigger className="w-40" aria-label="Proficiency">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(SKILL_PROFICIENCY_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {removeButton("skills", index)}
+            </div>
+            {fieldError(`skills.${index}.name`)}
+          </div>
+        ))}
+        {fieldError("skills")}
+      </section>
+
+      <section className="space-y-3">
+        {sectionHeader("Links", "links", "Add Link")}
+        {formData.links.map((link, index) => (
+          <div key={index} className="space-y-1">
+            <div className="flex gap-2">
+              <Select value={link.type} onValueChange={(value) => updateItem("links", index, "type", value)}>
+                <SelectTrigger className="w-36" aria-label="Link type">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(PROFILE_LINK_TYPE_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Input type="url" placeholder="https://" aria-label="Link" value={link.url} onChange={(event) => updateItem("links", index, "url", event.target.value)} />
+              {removeButton("links", index)}
+            </div>
+            {fieldError(`links.${index}.url`)}
+          </div>
+        ))}
+      </section>
+
+      <section className="space-y-4">
+        <h3 className="font-medium">Job Preferences</h3>
+        <div className="space-y-2">
+          <Label htmlFor="desiredRoles">Desired Roles</Label>
+          <Input
+            id="desiredRoles"
+            placeholder="Comma separated, e.g. Frontend Engineer, UI Developer"
+            value={formData.desiredRoles}
+            onChange={(event) => setField("desiredRoles", event.target.value)}
+          />
+          {fieldError("desiredRoles")}
+        </div>
+        <div className="grid gap-4 sm:grid-cols-3">
+          <div className="space-y-2 sm:col-span-2">
+            <Label htmlFor="salaryExpectation">Salary Expectation (yearly)</Label>
+            <Input
+              id="salaryExpectation"
+              type="number"
+              min={0}
+              value={formData.salaryExpectation}
+              onChange={(event) => setField("salaryExpectation", event.target.value)}
+            />
+            {fieldError("salaryExpectation")}
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="salaryCurrency">Currency</Label>
+            <Select value={formData.salaryCurrency} onValueChange={(value) => setField("salaryCurrency", value as ProfileFormValues["salaryCurrency"])}>
+              <SelectTrigger id="salaryCurrency" className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {SALARY_CURRENCIES.map((currency) => (
+                  <SelectItem key={currency} value={currency}>{currency}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="preferredLocations">Preferred Locations</Label>
+          <Input
+            id="preferredLocations"
+            placeholder="Comma separated, e.g. Berlin, London"
+            value={formData.preferredLocations}
+            onChange={(event) => setField("preferredLocations", event.target.value)}
+          />
+          {fieldError("preferredLocations")}
+        </div>
+        <div className="flex flex-wrap gap-4 text-sm">
+          {WORK_MODES.map((workMode) => (
+            <label key={workMode} className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={formData.preferredWorkModes.includes(workMode)}
+                onChange={() => toggleWorkMode(workMode)}
+              />
+              {WORK_MODE_LABELS[workMode]}
+            </label>
+          ))}
+          <label className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={formData.openToRelocation}
+              onChange={(event) => setField("openToRelocation", event.target.checked)}
+            />
+            Open to relocation
+          </label>
+        </div>
+      </section>
+
+      <section className="space-y-2 rounded-md bg-muted p-4 text-sm">
+        <label className="flex items-center gap-2 font-medium">
+          <input
+            type="checkbox"
+            checked={formData.isPublic}
+            onChange={(event) => setField("isPublic", event.target.checked)}
+          />
+          Make my profile public
+        </label>
+        <p className="text-muted-foreground">
+          Anyone with the link can see it at <span className="font-mono">{publicUrl}</span>. Your email and salary
+          expectation are never shown there.
+        </p>
+      </section>
+
+      <div className="flex justify-end">
+        <Button type="submit" disabled={isPending}>
+          {isPending ? "Saving..." : "Save Profile"}
+        </Button>
+      </div>
+    </form>
+  );
+};
+
+export default ProfileEditor;
@@ -0,0 +1,68 @@
+//* Plain arrays (no drizzle/zod imports) so they can be shared by the DB schema, Zod schemas and client components.
+
+export const SKILL_PROFICIENCIES = ["beginner", "intermediate", "advanced", "expert"] as const;
+
+export const PROFILE_LINK_TYPES = ["linkedin", "github", "portfolio", "website", "other"] as const;
+
+export type SkillProficiency = (typeof SKILL_PROFICIENCIES)[number];
+export type ProfileLinkType = (typeof PROFILE_LINK_TYPES)[number];
+
+export const SKILL_PROFICIENCY_LABELS: Record<SkillProficiency, string> = {
+  beginner: "Beginner",
+  intermediate: "Intermediate",
+  advanced: "Advanced",
+  expert: "Expert",
+};
+
+export const PROFILE_LINK_TYPE_LABELS: Record<ProfileLinkType, string> = {
+  linkedin: "LinkedIn",
+  github: "GitHub",
+  portfolio: "Portfolio",
+  website: "Website",
+  other: "Other",
+};
+
+//* Each check is worth its weight in percent; together they add up to 100.
+const COMPLETENESS_CHECKS: {
+  label: string;
+  weight: number;
+  isDone: (profile: CompletenessInput) => boolean;
+}[] = [
+  { label: "Add a headline", weight: 10, isDone: (profile) => Boolean(profile.headline) },
+  { label: "Write a short summary", weight: 15, isDone: (profile) => Boolean(profile.summary) },
+  { label: "Add your work experience", weight: 20, isDone: (profile) => profile.experiences.length > 0 },
+  { label: "Add your education", weight: 15, isDone: (profile) => profile.educations.length > 0 },
+  { label: "List at least 3 skills", weight: 15, isDone: (profile) => profile.skills.length >= 3 },
+  { label: "Add a link (LinkedIn, GitHub, ...)", weight: 5, isDone: (profile) => profile.links.length > 0 },
+  { label: "Tell employers which roles you want", weight: 10, isDone: (profile) => profile.desiredRoles.length > 0 },
+  { label: "Set a salary expectation", weight: 5, isDone: (profile) => profile.salaryExpectation !== null },
+  {
+    label: "Pick preferred locations or work modes",
+    weight: 5,
+    isDone: (profile) => profile.preferredLocations.length > 0 || profile.preferredWorkModes.length > 0,
+  },
+];
+
+interface CompletenessInput {
+  headline: string;
+  summary: string;
+  experiences: unknown[];
+  educations: unknown[];
+  skills: unknown[];
+  links: unknown[];
+  desiredRoles: string[];
+  salaryExpectation: number | null;
+  preferredLocations: string[];
+  preferredWorkModes: string[];
+}
+
+//* Shared by the editor (live meter while typing) and the server-rendered pages.
+export const getProfileCompleteness = (profile: CompletenessInput) => {
+  const percent = COMPLETENESS_CHECKS.reduce(
+    (total, check) => total + (check.isDone(profile) ? check.weight : 0),
+    0,
+  );
+  const missing = COMPLETENESS_CHECKS.filter((check) => !check.isDone(profile)).map((check) => check.label);
+
+  return { percent, missing };
+};
@@ -0,0 +1,92 @@
+import { z } from "zod";
+import { SALARY_CURRENCIES, WORK_MODES } from "../jobs/jobs.constants";
+import { PROFILE_LINK_TYPES, SKILL_PROFICIENCIES } from "./profiles.constants";
+
+//* Months come from <input type="month">, i.e. "YYYY-MM".
+const monthSchema = z.string().regex(/^\d{4}-(0[1-9]|1[0-2])$/, "Please pick a month");
+
+const optionalMonthSchema = z.union([monthSchema, z.literal("")]).default("");
+
+const endsAfterStart = (entry: { startMonth: string; endMonth: string }) =>
+  !entry.endMonth || entry.endMonth >= entry.startMonth;
+
+const shortList = (itemLabel: string, max: number) =>
+  z
+    .array(z.string().trim().min(1).max(100, `Each ${itemLabel} must not exceed 100 characters`))
+    .max(max, `Add at most ${max} ${itemLabel}s`)
+    .default([]);
+
+export const experienceSchema = z
+  .object({
+    title: z.string().trim().min(2, "Job title must be atleast 2 characters long").max(255, "Job title must not exceed 255 characters"),
+    company: z.string().trim().min(1, "Company is required").max(255, "Company must not exceed 255 characters"),
+    location: z.string().trim().max(255, "Location must not exceed 255 characters").default(""),
+    startMonth: monthSchema,
+    //* Empty while the applicant still works there.
+    endMonth: optionalMonthSchema,
+    description: z.string().trim().max(5000, "Description must not exceed 5000 characters").default(""),
+  })
+  .refine(endsAfterStart, { message: "End date cannot be before the start date", path: ["endMonth"] });
+
+export const educationSchema = z
+  .object({
+    school: z.string().trim().min(2, "School must be atleast 2 characters long").max(255, "School must not exceed 255 characters"),
+    degree: z.string().trim().max(255, "Degree must not exceed 255 characters").default(""),
+    fieldOfStudy: z.string().trim().max(255, "Field of study must not exceed 255 characters").default(""),
+    startMonth: monthSchema,
+    endMonth: optionalMonthSchema,
+  })
+  .refine(endsAfterStart, { message: "End date cannot be before the start date", path: ["endMonth"] });
+
+export const skillSchema = z.object({
+  name: z.string().trim().min(1, "Skill name is required").max(50, "Each skill must not exceed 50 characters"),
+  proficiency: z.enum(SKILL_PROFICIENCIES, { error: "Please select a proficiency" }),
+});
+
+export const profileLinkSchema = z.object({
+  type: z.enum(PROFILE_LINK_TYPES, { error: "Please select a link type" }),
+  //* http(s) only: links are rendered as <a href> on the public profile.
+  url: z.url({ protocol: /^https?$/, error: "Please enter a valid link" }).max(2048, "Link is too long"),
+});
+
+export const profileSchema = z
+  .object({
+    headline: z.string().trim().max(255, "Headline must not exceed 255 characters").default(""),
+    summary: z.string().trim().max(5000, "Summary must not exceed 5000 characters").default(""),
+
+    experiences: z.array(experienceSchema).max(30, "Add at most 30 positions").default([]),
+    educations: z.array(educationSchema).max(10, "Add at most 10 schools").default([]),
+    skills: z.array(skillSchema).max(50, "Add at most 50 skills").default([]),
+    links: z.array(profileLinkSchema).max(10, "Add at most 10 links").default([]),
+
+    desiredRoles: shortList("role", 10),
+    salaryExpectation: z
+      .number({ error: "Salary must be a number" })
+      .int("Salary must be a whole number")
+      .nonnegative("Salary cannot be negative")
+      .max(100_000_000, "Salary is too large")
+      .nullable()
+      .default(null),
+    salaryCurrency: z.enum(SALARY_CURRENCIES, { error: "Please select a currency" }).default("USD"),
+    preferredLocations: shortList("location", 10),
+    preferredWorkModes: z.array(z.enum(WORK_MODES)).default([]),
+    openToRelocation: z.boolean().default(false),
+
+    isPublic: z.boolean().default(false),
+  })
+  .superRefine((profile, ctx) => {
+    const seen = new Set<string>();
+
+    profile.skills.forEach((skill, index) => {
+      const key = skill.name.toLowerCase();
+
+      if (seen.has(key)) {
+        ctx.addIssue({ code: "custom", message: `"${skill.name}" is listed twice`, path: ["skills", index, "name"] });
+      }
+
+      seen.add(key);
+    });
+  });
+
+export type ProfileData = z.infer<typeof profileSchema>;
+export type ProfileInput = z.input<typeof profileSchema>;
@@ -0,0 +1,97 @@
+"use server"
+
+import { db } from "@/config/db";
+import {
+  applicantProfiles,
+  profileEducations,
+  profileExperiences,
+  profileLinks,
+  profileSkills,
+} from "@/drizzle/schema";
+import { getAuthorizedUser } from "@/features/auth/server/auth.queries";
+import { eq } from "drizzle-orm";
+import { revalidatePath } from "next/cache";
+import { ProfileInput, profileSchema } from "../profiles.schema";
+
+//* "2024-03" -> "2024-03-01" for the DATE columns.
+const toDate = (month: string) => (month ? `${month}-01` : null);
+
+//* The editor always submits the whole profile, so list sections are simply replaced
+//* inside one transaction instead of diffing individual rows.
+export const saveProfileAction = async (formData: ProfileInput) => {
+  try {
+    const user = await getAuthorizedUser("applicant");
+
+    if (!user) {
+      return { status: "ERROR", message: "Only applicants have a profile" };
+    }
+
+    const { data: validatedData, error } = profileSchema.safeParse(formData);
+
+    if (error) return { status: "ERROR", message: error.issues[0].message };
+
+    const { experiences, educations, skills, links, ...profile } = validatedData;
+    const userId = user.id;
+
+    const profileValues = {
+      ...profile,
+      headline: profile.headline || null,
+      summary: profile.summary || null,
+    };
+
+    await db.transaction(async (tx) => {
+      await tx
+        .insert(applicantProfiles)
+        .values({ userId, ...profileValues })
+        .onDuplicateKeyUpdate({ set: profileValues });
+
+      await tx.delete(profileExperiences).where(eq(profileExperiences.userId, userId));
+      await tx.delete(profileEducations).where(eq(profileEducations.userId, userId));
+      await tx.delete(profileSkills).where(eq(profileSkills.userId, userId));
+      await tx.delete(profileLinks).where(eq(profileLinks.userId, userId));
+
+      if (experiences.length > 0) {
+        await tx.insert(profileExperiences).values(
+          experiences.map((experience) => ({
+            userId,
+            title: experience.title,
+            company: experience.company,
+            location: experience.location || null,
+            startDate: `${experience.startMonth}-01`,
+            endDate: toDate(experience.endMonth),
+            description: experience.description || null,
+          })),
+        );
+      }
+
+      if (educations.length > 0) {
+        await tx.insert(profileEducations).values(
+          educations.map((education) => ({
+            userId,
+            school: education.school,
+            degree: education.degree || null,
+            fieldOfStudy: education.fieldOfStudy || null,
+            startDate: `${education.startMonth}-01`,
+            endDate: toDate(education.endMonth),
+          })),
+        );
+      }
+
+      if (skills.length > 0) {
+        await tx.insert(profileSkills).values(skills.map((skill) => ({ userId, ...skill })));
+      }
+
+      if (links.length > 0) {
+        await tx.insert(profileLinks).values(links.map((link) => ({ userId, ...link })));
+      }
+    });
+
+    revalidatePath("/dashboard/profile");
+    revalidatePath(`/u/${user.userName}`);
+
+    return { status: "SUCCESS", message: "Profile saved" };
+  } catch (error) {
+    console.error("Save Profile Error:", error);
+    return { status: "ERROR", message: "Unknown Error Occured ! Please Try Again Later" };
+  }
+};
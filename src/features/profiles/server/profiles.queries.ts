@@ -0,0 +1,125 @@
+import { db } from "@/config/db";
+import {
+  applicantProfiles,
+  applications,
+  companyMembers,
+  jobs,
+  profileEducations,
+  profileExperiences,
+  profileLinks,
+  profileSkills,
+  users,
+} from "@/drizzle/schema";
+import { and, asc, eq, inArray, isNull } from "drizzle-orm";
+import { ProfileData } from "../profiles.schema";
+
+//* "2024-03-01" (DATE column) -> "2024-03" (what <input type="month"> and the Zod schema use).
+const toMonth = (date: string | null) => (date ? date.slice(0, 7) : "");
+
+export const EMPTY_PROFILE: ProfileData = {
+  headline: "",
+  summary: "",
+  experiences: [],
+  educations: [],
+  skills: [],
+  links: [],
+  desiredRoles: [],
+  salaryExpectation: null,
+  salaryCurrency: "USD",
+  preferredLocations: [],
+  preferredWorkModes: [],
+  openToRelocation: false,
+  isPublic: false,
+};
+
+//* Assembles the whole profile in the same shape the editor submits, so it can be fed straight back into it.
+export const getApplicantProfile = async (userId: number): Promise<ProfileData> => {
+  const [[profile], experiences, educations, skills, links] = await Promise.all([
+    db.select().from(applicantProfiles).where(eq(applicantProfiles.userId, userId)),
+    db.select().from(profileExperiences).where(eq(profileExperiences.userId, userId)).orderBy(asc(profileExperiences.id)),
+    db.select().from(profileEducations).where(eq(profileEducations.userId, userId)).orderBy(asc(profileEducations.id)),
+    db.select().from(profileSkills).where(eq(profileSkills.userId, userId)).orderBy(asc(profileSkills.id)),
+    db.select().from(profileLinks).where(eq(profileLinks.userId, userId)).orderBy(asc(profileLinks.id)),
+  ]);
+
+  if (!profile) return EMPTY_PROFILE;
+
+  return {
+    headline: profile.headline ?? "",
+    summary: profile.summary ?? "",
+    experiences: experiences.map((experience) => ({
+      title: experience.title,
+      company: experience.company,
+      location: experience.location ?? "",
+      startMonth: toMonth(experience.startDate),
+      endMonth: toMonth(experience.endDate),
+      description: experience.description ?? "",
+    })),
+    educations: educations.map((education) => ({
+      school: education.school,
+      degree: education.degree ?? "",
+      fieldOfStudy: education.fieldOfStudy ?? "",
+      startMonth: toMonth(education.startDate),
+      endMonth: toMonth(education.endDate),
+    })),
+    skills: skills.map(({ name, proficiency }) => ({ name, proficiency })),
+    links: links.map(({ type, url }) => ({ type, url })),
+    desiredRoles: profile.desiredRoles,
+    salaryExpectation: profile.salaryExpectation,
+    salaryCurrency: profile.salaryCurrency as ProfileData["salaryCurrency"],
+    preferredLocations: profile.preferredLocations,
+    preferredWorkModes: profile.preferredWorkModes,
+    openToRelocation: profile.openToRelocation,
+    isPublic: profile.isPublic,
+  };
+};
+
+//* The applicant behind /u/[userName]; callers decide whether a private profile may be shown.
+export const getApplicantByUserName = async (userName: string) => {
+  const [user] = await db
+    .select({ id: users.id, name: users.name, userName: users.userName })
+    .from(users)
+    .where(and(eq(users.userName, userName), eq(users.role, "applicant"), isNull(users.deletedAt)));
+
+  return user ?? null;
+};
+
+//* Employers may read the (even private) profile of anyone who applied to one of their company's jobs.
+export const hasAppliedToEmployerCompany = async ({
+  applicantId,
+  employerId,
+}: {
+  applicantId: number;
+  employerId: number;
+}) => {
+  const [application] = await db
+    .select({ id: applications.id })
+    .from(applications)
+    .innerJoin(jobs, eq(jobs.id, applications.jobId))
+    .innerJoin(companyMembers, eq(companyMembers.companyId, jobs.companyId))
+    .where(and(eq(applications.applicantId, applicantId), eq(companyMembers.userId, employerId)))
+    .limit(1);
+
+  return Boolean(application);
+};
+
+//* Profile basics, skills and links for many applicants at once (used by the applicant export).
+//* Applicants without a profile are simply missing from the map.
+export const getApplicantProfileSummaries = async (userIds: number[]) => {
+  const [profiles, skills, links] = await Promise.all([
+    db.select().from(applicantProfiles).where(inArray(applicantProfiles.userId, userIds)),
+    db.select().from(profileSkills).where(inArray(profileSkills.userId, userIds)).orderBy(asc(profileSkills.id)),
+    db.select().from(profileLinks).where(inArray(profileLinks.userId, userIds)).orderBy(asc(profileLinks.id)),
+  ]);
+
+  return new Map(
+    profiles.map((profile) => [
+      profile.userId,
+      {
+        ...profile,
+        skills: skills.filter((skill) => skill.userId === profile.userId),
+        links: links.filter((link) => link.userId === profile.userId),
+      },
+    ]),
+  );
+};
@@ -0,0 +1,46 @@
+"use client"
+
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Upload } from "lucide-react";
+import React, { FormEvent, useRef, useState } from "react";
+import { toast } from "sonner";
+import { RESUME_ACCEPT } from "../resumes.constants";
+import { uploadResumeAction } from "../server/resumes.action";
+
+const ResumeUploadForm = () => {
+  const formRef = useRef<HTMLFormElement>(null);
+  const [isPending, setIsPending] = useState(false);
+
+  const handleFormSubmit = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    setIsPending(true);
+
+    const result = await uploadResumeAction(new FormData(event.currentTarget));
+
+    setIsPending(false);
+
+    if (result.status === "SUCCESS") {
+      toast.success(result.message);
+      formRef.current?.reset();
+    } else {
+      toast.error(result.message);
+    }
+  };
+
+  return (
+    <form ref={formRef} className="space-y-2" onSubmit={handleFormSubmit}>
+      <Label htmlFor="resume">Upload a resume (PDF or DOCX, max 5 MB)</Label>
+      <div className="flex gap-2">
+        <Input id="resume" name="resume" type="file" accept={RESUME_ACCEPT} required />
+        <Button type="submit" disabled={isPending}>
+          <Upload className="w-4 h-4" />
+          {isPending ? "Uploading..." : "Upload"}
+        </Button>
+      </div>
+    </form>
+  );
+};
+
+export default ResumeUploadForm;
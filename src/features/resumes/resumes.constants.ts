@@ -0,0 +1,5 @@
+import { MIME_TYPES } from "@/lib/fileType";
+
+export const RESUME_MIME_TYPES: string[] = [MIME_TYPES.pdf, MIME_TYPES.docx];
+
+export const RESUME_ACCEPT = ".pdf,.docx,application/pdf,application/vnd.openxmlformats-officedocument.wordprocessingml.document";
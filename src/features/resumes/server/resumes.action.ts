@@ -0,0 +1,100 @@
+"use server"
+
+import { RESUME_MAX_PER_USER, RESUME_MAX_SIZE } from "@/config/constant";
+import { db } from "@/config/db";
+import { resumes } from "@/drizzle/schema";
+import { getAuthorizedUser } from "@/features/auth/server/auth.queries";
+import { FILE_EXTENSIONS, sniffMimeType } from "@/lib/fileType";
+import { getFileStorage } from "@/lib/storage";
+import crypto from "crypto";
+import { and, eq, isNull } from "drizzle-orm";
+import { revalidatePath } from "next/cache";
+import { RESUME_MIME_TYPES } from "../resumes.constants";
+import { countUserResumes } from "./resumes.queries";
+import { extractResumeText } from "./use-cases/extractResumeText";
+
+export const uploadResumeAction = async (formData: FormData) => {
+  try {
+    const user = await getAuthorizedUser("applicant");
+
+    if (!user) {
+      return { status: "ERROR", message: "Only applicants can upload resumes" };
+    }
+
+    const file = formData.get("resume");
+
+    if (!(file instanceof File) || file.size === 0) {
+      return { status: "ERROR", message: "Please choose a file to upload" };
+    }
+
+    if (file.size > RESUME_MAX_SIZE) {
+      return { status: "ERROR", message: "Resume must not exceed 5 MB" };
+    }
+
+    if ((await countUserResumes(user.id)) >= RESUME_MAX_PER_USER) {
+      return { status: "ERROR", message: `You can keep at most ${RESUME_MAX_PER_USER} resumes. Delete one first` };
+    }
+
+    const buffer = Buffer.from(await file.arrayBuffer());
+
+    // trust the bytes, not the file name or the browser-supplied type
+    const mimeType = sniffMimeType(buffer);
+
+    if (!mimeType || !RESUME_MIME_TYPES.includes(mimeType)) {
+      return { status: "ERROR", message: "Only PDF and DOCX resumes are supported" };
+    }
+
+    const storageKey = `resumes/${user.id}/${crypto.randomUUID()}.${FILE_EXTENSIONS[mimeType]}`;
+    const extractedText = await extractResumeText(buffer, mimeType);
+
+    await getFileStorage().put(storageKey, buffer, mimeType);
+
+    try {
+      await db.insert(resumes).values({
+        userId: user.id,
+        storageKey,
+        originalName: file.name.slice(0, 255) || `resume.${FILE_EXTENSIONS[mimeType]}`,
+        mimeType,
+        size: file.size,
+        extractedText,
+      });
+    } catch (error) {
+      // don't leave an orphaned file behind if the row could not be written
+      await getFileStorage().delete(storageKey);
+      throw error;
+    }
+
+    revalidatePath("/dashboard/resumes");
+
+    return {
+      status: "SUCCESS",
+      message: extractedText
+        ? "Resume uploaded"
+        : "Resume uploaded, but we couldn't read its text, so it won't appear in employer searches",
+    };
+  } catch (error) {
+    console.error("Upload Resume Error:", error);
+    return { status: "ERROR", message: "Unknown Error Occured ! Please Try Again Later" };
+  }
+};
+
+export const deleteResumeAction = async (resumeId: number) => {
+  try {
+    const user = await getAuthorizedUser();
+
+    if (!user) return { status: "ERROR", message: "You must be logged in" };
+
+    // soft delete: employers who already received this resume with an application keep access to it
+    await db
+      .update(resumes)
+      .set({ deletedAt: new Date() })
+      .where(and(eq(resumes.id, resumeId), eq(resumes.userId, user.id), isNull(resumes.deletedAt)));
+
+    revalidatePath("/dashboard/resumes");
+
+    return { status: "SUCCESS", message: "Resume deleted" };
+  } catch (error) {
+    console.error("Delete Resume Error:", error);
+    return { status: "ERROR", message: "Unknown Error Occured ! Please Try Again Later" };
+  }
+};
@@ -0,0 +1,99 @@
+import { db } from "@/config/db";
+import { applications, companyMembers, jobs, resumes, users } from "@/drizzle/schema";
+import { toBooleanSearchQuery } from "@/lib/fullTextSearch";
+import { and, count, desc, eq, isNull, sql } from "drizzle-orm";
+
+export const getUserResumes = async (userId: number) => {
+  return db
+    .select({
+      id: resumes.id,
+      originalName: resumes.originalName,
+      mimeType: resumes.mimeType,
+      size: resumes.size,
+      hasText: sql<boolean>`${resumes.extractedText} IS NOT NULL`,
+      createdAt: resumes.createdAt,
+    })
+    .from(resumes)
+    .where(and(eq(resumes.userId, userId), isNull(resumes.deletedAt)))
+    .orderBy(desc(resumes.createdAt));
+};
+
+export const countUserResumes = async (userId: number) => {
+  const [{ total }] = await db
+    .select({ total: count() })
+    .from(resumes)
+    .where(and(eq(resumes.userId, userId), isNull(resumes.deletedAt)));
+
+  return total;
+};
+
+export const getResumeById = async (resumeId: number) => {
+  const [resume] = await db.select().from(resumes).where(eq(resumes.id, resumeId));
+  return resume ?? null;
+};
+
+//* Owner, or a member of a company that received an application carrying this exact resume.
+//* Deleting a resume hides it from its owner's library, but copies already sent with an application stay readable.
+export const canDownloadResume = async ({
+  resume,
+  user,
+}: {
+  resume: { id: number; userId: number; deletedAt: Date | null };
+  user: { id: number; role: string | null };
+}) => {
+  if (resume.userId === user.id) return resume.deletedAt === null;
+
+  if (user.role !== "employer") return false;
+
+  const [application] = await db
+    .select({ id: applications.id })
+    .from(applications)
+    .innerJoin(jobs, eq(jobs.id, applications.jobId))
+    .innerJoin(companyMembers, eq(companyMembers.companyId, jobs.companyId))
+    .where(and(eq(applications.resumeId, resume.id), eq(companyMembers.userId, user.id)))
+    .limit(1);
+
+  return Boolean(application);
+};
+
+//* Full-text search over resumes attached to applications for this company's jobs only.
+export const searchCompanyCandidates = async ({
+  companyId,
+  query,
+}: {
+  companyId: number;
+  query: string;
+}) => {
+  const booleanQuery = toBooleanSearchQuery(query);
+
+  if (!booleanQuery) return [];
+
+  const relevance = sql<number>`MATCH(${resumes.extractedText}) AGAINST (${booleanQuery} IN BOOLEAN MODE)`;
+
+  return db
+    .select({
+      applicationId: applications.id,
+      applicationStatus: applications.status,
+      jobId: jobs.id,
+      jobTitle: jobs.title,
+      applicantName: users.name,
+      resumeId: resumes.id,
+      resumeName: resumes.originalName,
+      excerpt: sql<string>`LEFT(${resumes.extractedText}, 300)`,
+      relevance,
+    })
+    .from(applications)
+    .innerJoin(jobs, eq(jobs.id, applications.jobId))
+    .innerJoin(resumes, eq(resumes.id, applications.resumeId))
+    .innerJoin(users, eq(users.id, applications.applicantId))
+    .where(
+      and(
+        eq(jobs.companyId, companyId),
+        isNull(jobs.deletedAt),
+        isNull(users.deletedAt),
+        sql`${relevance} > 0`,
+      ),
+    )
+    .orderBy(desc(relevance))
+    .limit(50);
+};
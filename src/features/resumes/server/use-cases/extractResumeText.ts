@@ -0,0 +1,26 @@
+import { RESUME_MAX_TEXT_LENGTH } from "@/config/constant";
+import { MIME_TYPES } from "@/lib/fileType";
+import mammoth from "mammoth";
+import { extractText } from "unpdf";
+
+//* Best effort: a resume whose text can't be read is still stored, it just won't show up in search.
+export const extractResumeText = async (buffer: Buffer, mimeType: string) => {
+  try {
+    let text = "";
+
+    if (mimeType === MIME_TYPES.pdf) {
+      const result = await extractText(new Uint8Array(buffer), { mergePages: true });
+      text = result.text;
+    } else if (mimeType === MIME_TYPES.docx) {
+      const result = await mammoth.extractRawText({ buffer });
+      text = result.value;
+    }
+
+    const normalized = text.replace(/\s+/g, " ").trim();
+
+    return normalized ? normalized.slice(0, RESUME_MAX_TEXT_LENGTH) : null;
+  } catch (error) {
+    console.error("Resume Text Extraction Error:", error);
+    return null;
+  }
+};
@@ -0,0 +1,42 @@
+"use client"
+
+import { Button } from "@/components/ui/button";
+import { Bookmark, BookmarkCheck } from "lucide-react";
+import { useState, useTransition } from "react";
+import { toast } from "sonner";
+import { saveJobAction, unsaveJobAction } from "../server/savedJobs.action";
+
+const SaveJobButton = ({ jobId, initialSaved }: { jobId: number; initialSaved: boolean }) => {
+  const [isSaved, setIsSaved] = useState(initialSaved);
+  const [isPending, startTransition] = useTransition();
+
+  const handleToggle = () => {
+    startTransition(async () => {
+      const result = isSaved ? await unsaveJobAction(jobId) : await saveJobAction(jobId);
+
+      if (result.status === "SUCCESS") {
+        setIsSaved(!isSaved);
+        toast.success(result.message);
+      } else {
+        toast.error(result.message);
+      }
+    });
+  };
+
+  return (
+    <Button
+      type="button"
+      variant="ghost"
+      size="sm"
+      disabled={isPending}
+      aria-pressed={isSaved}
+      aria-label={isSaved ? "Remove from saved jobs" : "Save job"}
+      onClick={handleToggle}
+    >
+      {isSaved ? <BookmarkCheck className="w-4 h-4" /> : <Bookmark className="w-4 h-4" />}
+      {isSaved ? "Saved" : "Save"}
+    </Button>
+  );
+};
+
+export default SaveJobButton;
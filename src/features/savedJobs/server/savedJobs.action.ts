@@ -0,0 +1,50 @@
+"use server"
+
+import { db } from "@/config/db";
+import { savedJobs } from "@/drizzle/schema";
+import { getAuthorizedUser } from "@/features/auth/server/auth.queries";
+import { getPublishedJobById } from "@/features/jobs/server/jobs.queries";
+import { isDuplicateEntryError } from "@/lib/utils";
+import { and, eq } from "drizzle-orm";
+import { revalidatePath } from "next/cache";
+
+export const saveJobAction = async (jobId: number) => {
+  try {
+    const applicant = await getAuthorizedUser("applicant");
+
+    if (!applicant) return { status: "ERROR", message: "Sign in as an applicant to save jobs" };
+
+    const job = await getPublishedJobById(jobId);
+
+    if (!job) return { status: "ERROR", message: "This job is no longer available" };
+
+    await db.insert(savedJobs).values({ userId: applicant.id, jobId });
+
+    revalidatePath("/dashboard/saved");
+
+    return { status: "SUCCESS", message: "Job saved" };
+  } catch (error) {
+    // already saved (e.g. a double click): the end state is what the user asked for
+    if (isDuplicateEntryError(error)) return { status: "SUCCESS", message: "Job saved" };
+
+    console.error("Save Job Error:", error);
+    return { status: "ERROR", message: "Unknown Error Occured ! Please Try Again Later" };
+  }
+};
+
+export const unsaveJobAction = async (jobId: number) => {
+  try {
+    const applicant = await getAuthorizedUser("applicant");
+
+    if (!applicant) return { status: "ERROR", message: "Sign in as an applicant to save jobs" };
+
+    await db.delete(savedJobs).where(and(eq(savedJobs.userId, applicant.id), eq(savedJobs.jobId, jobId)));
+
+    revalidatePath("/dashboard/saved");
+
+    return { status: "SUCCESS", message: "Job removed from saved jobs" };
+  } catch (error) {
+    console.error("Unsave Job Error:", error);
+    return { status: "ERROR", message: "Unknown Error Occured ! Please Try Again Later" };
+  }
+};
@@ -0,0 +1,28 @@
+import { db } from "@/config/db";
+import { companies, jobs, savedJobs } from "@/drizzle/schema";
+import { and, desc, eq, isNull } from "drizzle-orm";
+
+export const getSavedJobIds = async (userId: number) => {
+  const rows = await db.select({ jobId: savedJobs.jobId }).from(savedJobs).where(eq(savedJobs.userId, userId));
+  return new Set(rows.map((row) => row.jobId));
+};
+
+//* Deleted jobs drop out; closed ones stay so the applicant can see what happened to them.
+export const getSavedJobs = async (userId: number) => {
+  return db
+    .select({
+      id: jobs.id,
+      title: jobs.title,
+      status: jobs.status,
+      workMode: jobs.workMode,
+      location: jobs.location,
+      companyName: companies.name,
+      companySlug: companies.slug,
+      savedAt: savedJobs.createdAt,
+    })
+    .from(savedJobs)
+    .innerJoin(jobs, eq(jobs.id, savedJobs.jobId))
+    .innerJoin(companies, eq(companies.id, jobs.companyId))
+    .where(and(eq(savedJobs.userId, userId), isNull(jobs.deletedAt)))
+    .orderBy(desc(savedJobs.createdAt));
+};
@@ -0,0 +1,67 @@
+"use client"
+
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { BellPlus } from "lucide-react";
+import { FormEvent, useState, useTransition } from "react";
+import { toast } from "sonner";
+import { JOB_ALERT_FREQUENCY_LABELS, JobAlertFrequency } from "../savedSearches.constants";
+import { SavedSearchParams } from "../savedSearches.schema";
+import { saveSearchAction } from "../server/savedSearches.action";
+
+//* Saves whatever filters are currently applied on the listing page.
+const SaveSearchForm = ({ params, defaultName }: { params: SavedSearchParams; defaultName: string }) => {
+  const [name, setName] = useState(defaultName);
+  const [frequency, setFrequency] = useState<JobAlertFrequency>("weekly");
+  const [isSaved, setIsSaved] = useState(false);
+  const [isPending, startTransition] = useTransition();
+
+  const handleSubmit = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+
+    startTransition(async () => {
+      const result = await saveSearchAction({ name, params, frequency });
+
+      if (result.status === "SUCCESS") {
+        toast.success(result.message);
+        setIsSaved(true);
+      } else {
+        toast.error(result.message);
+      }
+    });
+  };
+
+  if (isSaved) {
+    return <p className="text-sm text-muted-foreground">Search saved. Manage it from your saved items.</p>;
+  }
+
+  return (
+    <form className="flex flex-col gap-2 sm:flex-row" onSubmit={handleSubmit}>
+      <Input
+        required
+        maxLength={100}
+        placeholder="Name this search"
+        aria-label="Search name"
+        value={name}
+        onChange={(event) => setName(event.target.value)}
+      />
+      <Select value={frequency} onValueChange={(value) => setFrequency(value as JobAlertFrequency)}>
+        <SelectTrigger className="sm:w-44" aria-label="Alert frequency">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {Object.entries(JOB_ALERT_FREQUENCY_LABELS).map(([value, label]) => (
+            <SelectItem key={value} value={value}>{label}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <Button type="submit" variant="outline" disabled={isPending}>
+        <BellPlus className="w-4 h-4" />
+        {isPending ? "Saving..." : "Save Search"}
+      </Button>
+    </form>
+  );
+};
+
+export default SaveSearchForm;
@@ -0,0 +1,11 @@
+//* Plain arrays (no drizzle/zod imports) so they can be shared by the DB schema, Zod schemas and client components.
+
+export const JOB_ALERT_FREQUENCIES = ["daily", "weekly", "off"] as const;
+
+export type JobAlertFrequency = (typeof JOB_ALERT_FREQUENCIES)[number];
+
+export const JOB_ALERT_FREQUENCY_LABELS: Record<JobAlertFrequency, string> = {
+  daily: "Daily email",
+  weekly: "Weekly email",
+  off: "No emails",
+};
@@ -0,0 +1,39 @@
+import { z } from "zod";
+import { jobSearchSchema } from "../jobs/jobs.schema";
+import { JOB_ALERT_FREQUENCIES } from "./savedSearches.constants";
+
+//* The listing filters worth alerting on: paging, sorting and "posted within" make no sense for a digest of new jobs.
+export const savedSearchParamsSchema = jobSearchSchema.omit({ cursor: true, sort: true, postedWithin: true });
+
+export type SavedSearchParams = z.infer<typeof savedSearchParamsSchema>;
+
+export const saveSearchSchema = z.object({
+  name: z
+    .string()
+    .trim()
+    .min(1, "Please give your search a name")
+    .max(100, "Name must not exceed 100 characters"),
+
+  params: savedSearchParamsSchema,
+
+  frequency: z.enum(JOB_ALERT_FREQUENCIES, { error: "Please select how often to get alerts" }).default("weekly"),
+});
+
+export type SaveSearchInput = z.input<typeof saveSearchSchema>;
+
+export const updateSavedSearchSchema = z.object({
+  savedSearchId: z.number().int().positive(),
+  frequency: z.enum(JOB_ALERT_FREQUENCIES, { error: "Please select how often to get alerts" }),
+});
+
+export type UpdateSavedSearchInput = z.input<typeof updateSavedSearchSchema>;
+
+//* The listing URL for a saved search, so "see all" links land on exactly the same filters.
+export const getSavedSearchHref = (params: SavedSearchParams) => {
+  const query = new URLSearchParams();
+  for (const [key, value] of Object.entries(params)) {
+    if (value !== undefined && value !== "") query.set(key, String(value));
+  }
+  const queryString = query.toString();
+  return queryString ? `/?${queryString}` : "/";
+};
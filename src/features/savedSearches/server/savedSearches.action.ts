@@ -0,0 +1,92 @@
+"use server"
+
+import { SAVED_SEARCHES_MAX_PER_USER } from "@/config/constant";
+import { db } from "@/config/db";
+import { savedSearches } from "@/drizzle/schema";
+import { getAuthorizedUser } from "@/features/auth/server/auth.queries";
+import { and, eq } from "drizzle-orm";
+import { revalidatePath } from "next/cache";
+import {
+  SaveSearchInput,
+  saveSearchSchema,
+  UpdateSavedSearchInput,
+  updateSavedSearchSchema,
+} from "../savedSearches.schema";
+import { countUserSavedSearches } from "./savedSearches.queries";
+
+export const saveSearchAction = async (data: SaveSearchInput) => {
+  try {
+    const applicant = await getAuthorizedUser("applicant");
+
+    if (!applicant) return { status: "ERROR", message: "Sign in as an applicant to save searches" };
+
+    const { data: validatedData, error } = saveSearchSchema.safeParse(data);
+    if (error) return { status: "ERROR", message: error.issues[0].message };
+
+    if ((await countUserSavedSearches(applicant.id)) >= SAVED_SEARCHES_MAX_PER_USER) {
+      return {
+        status: "ERROR",
+        message: `You can save up to ${SAVED_SEARCHES_MAX_PER_USER} searches. Delete one to save another.`,
+      };
+    }
+
+    // lastSentAt stays empty: the first digest covers jobs published after the search was saved
+    await db.insert(savedSearches).values({ userId: applicant.id, ...validatedData });
+
+    revalidatePath("/dashboard/saved");
+
+    return { status: "SUCCESS", message: "Search saved" };
+  } catch (error) {
+    console.error("Save Search Error:", error);
+    return { status: "ERROR", message: "Unknown Error Occured ! Please Try Again Later" };
+  }
+};
+
+export const updateSavedSearchFrequencyAction = async (data: UpdateSavedSearchInput) => {
+  try {
+    const applicant = await getAuthorizedUser("applicant");
+
+    if (!applicant) return { status: "ERROR", message: "Sign in as an applicant to manage alerts" };
+
+    const { data: validatedData, error } = updateSavedSearchSchema.safeParse(data);
+    if (error) return { status: "ERROR", message: error.issues[0].message };
+
+    const [result] = await db
+      .update(savedSearches)
+      .set({ frequency: validatedData.frequency })
+      .where(and(eq(savedSearches.id, validatedData.savedSearchId), eq(savedSearches.userId, applicant.id)));
+
+    if (result.affectedRows === 0) return { status: "ERROR", message: "Saved search not found" };
+
+    revalidatePath("/dashboard/saved");
+
+    return {
+      status: "SUCCESS",
+      message: validatedData.frequency === "off" ? "Alerts turned off" : "Alert frequency updated",
+    };
+  } catch (error) {
+    console.error("Update Saved Search Error:", error);
+    return { status: "ERROR", message: "Unknown Error Occured ! Please Try Again Later" };
+  }
+};
+
+export const deleteSavedSearchAction = async (savedSearchId: number) => {
+  try {
+    const applicant = await getAuthorizedUser("applicant");
+
+    if (!applicant) return { status: "ERROR", message: "Sign in as an applicant to manage alerts" };
+
+    const [result] = await db
+      .delete(savedSearches)
+      .where(and(eq(savedSearches.id, savedSearchId), eq(savedSearches.userId, applicant.id)));
+
+    if (result.affectedRows === 0) return { status: "ERROR", message: "Saved search not found" };
+
+    revalidatePath("/dashboard/saved");
+
+    return { status: "SUCCESS", message: "Saved search deleted" };
+  } catch (error) {
+    console.error("Delete Saved Search Error:", error);
+    return { status: "ERROR", message: "Unknown Error Occured ! Please Try Again Later" };
+  }
+};
@@ -0,0 +1,103 @@
+import { JOB_ALERT_INTERVALS, JOB_ALERT_MAX_JOBS } from "@/config/constant";
+import { db } from "@/config/db";
+import { companies, jobAlertDeliveries, jobs, savedSearches, savedSearchUnsubscribeTokens, users } from "@/drizzle/schema";
+import { getPublishedJobConditions } from "@/features/jobs/server/jobs.queries";
+import { toBooleanSearchQuery } from "@/lib/fullTextSearch";
+import { hashToken } from "@/lib/token";
+import { and, asc, count, desc, eq, gt, isNotNull, isNull, lte, notExists, or } from "drizzle-orm";
+import { SavedSearchParams } from "../savedSearches.schema";
+
+export type SavedSearch = typeof savedSearches.$inferSelect;
+
+export const getUserSavedSearches = async (userId: number) => {
+  return db
+    .select()
+    .from(savedSearches)
+    .where(eq(savedSearches.userId, userId))
+    .orderBy(desc(savedSearches.createdAt));
+};
+
+export const countUserSavedSearches = async (userId: number) => {
+  const [row] = await db.select({ total: count() }).from(savedSearches).where(eq(savedSearches.userId, userId));
+  return row?.total ?? 0;
+};
+
+//* A search is due when it has never been sent, or its interval has passed since the last digest.
+//* Only verified, non-deleted applicants get emails.
+export const getDueSavedSearches = async (now: Date) => {
+  const dueBefore = (frequency: keyof typeof JOB_ALERT_INTERVALS) =>
+    new Date(now.getTime() - JOB_ALERT_INTERVALS[frequency] * 1000);
+
+  const isDue = (frequency: keyof typeof JOB_ALERT_INTERVALS) =>
+    and(
+      eq(savedSearches.frequency, frequency),
+      or(isNull(savedSearches.lastSentAt), lte(savedSearches.lastSentAt, dueBefore(frequency))),
+    );
+
+  return db
+    .select({
+      savedSearch: savedSearches,
+      user: { id: users.id, name: users.name, email: users.email },
+    })
+    .from(savedSearches)
+    .innerJoin(users, eq(users.id, savedSearches.userId))
+    .where(
+      and(
+        or(isDue("daily"), isDue("weekly")),
+        eq(users.role, "applicant"),
+        isNotNull(users.emailVerifiedAt),
+        isNull(users.deletedAt),
+      ),
+    )
+    .orderBy(asc(savedSearches.id));
+};
+
+//* Jobs published since the previous digest (or since the search was saved) that this user
+//* has never been sent, by this or any other of their searches.
+export const findNewJobsForSavedSearch = async ({
+  userId,
+  params,
+  since,
+}: {
+  userId: number;
+  params: SavedSearchParams;
+  since: Date;
+}) => {
+  const booleanQuery = params.q ? toBooleanSearchQuery(params.q) : "";
+
+  return db
+    .select({
+      id: jobs.id,
+      title: jobs.title,
+      location: jobs.location,
+      workMode: jobs.workMode,
+      companyName: companies.name,
+    })
+    .from(jobs)
+    .innerJoin(companies, eq(companies.id, jobs.companyId))
+    .where(
+      and(
+        ...getPublishedJobConditions(params, booleanQuery),
+        gt(jobs.publishedAt, since),
+        notExists(
+          db
+            .select({ id: jobAlertDeliveries.id })
+            .from(jobAlertDeliveries)
+            .where(and(eq(jobAlertDeliveries.userId, userId), eq(jobAlertDeliveries.jobId, jobs.id))),
+        ),
+      ),
+    )
+    .orderBy(desc(jobs.publishedAt), desc(jobs.id))
+    .limit(JOB_ALERT_MAX_JOBS);
+};
+
+export const findSavedSearchByUnsubscribeToken = async (token: string) => {
+  const [row] = await db
+    .select({ savedSearch: savedSearches })
+    .from(savedSearchUnsubscribeTokens)
+    .innerJoin(savedSearches, eq(savedSearches.id, savedSearchUnsubscribeTokens.savedSearchId))
+    .where(eq(savedSearchUnsubscribeTokens.tokenHash, hashToken(token)))
+    .limit(1);
+
+  return row?.savedSearch ?? null;
+};
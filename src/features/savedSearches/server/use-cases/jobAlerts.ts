@@ -0,0 +1,137 @@
+import { APP_URL } from "@/config/constant";
+import { db } from "@/config/db";
+import { jobAlertDeliveries, savedSearches, savedSearchUnsubscribeTokens } from "@/drizzle/schema";
+import { sendEmail } from "@/features/email/server/email";
+import { jobAlertDigestEmail } from "@/features/email/templates";
+import { createNotifications } from "@/features/notifications/server/notifications";
+import { generateToken, hashToken } from "@/lib/token";
+import { isDuplicateEntryError } from "@/lib/utils";
+import { and, eq, isNull } from "drizzle-orm";
+import { getSavedSearchHref } from "../../savedSearches.schema";
+import {
+  findNewJobsForSavedSearch,
+  findSavedSearchByUnsubscribeToken,
+  getDueSavedSearches,
+  SavedSearch,
+} from "../savedSearches.queries";
+
+//* Claims the next digest for a search by moving lastSentAt forward, guarded on the value we read.
+//* If two scheduler runs overlap, only one of them gets affectedRows = 1.
+const claimDigest = async (savedSearch: SavedSearch, now: Date) => {
+  const [result] = await db
+    .update(savedSearches)
+    .set({ lastSentAt: now })
+    .where(
+      and(
+        eq(savedSearches.id, savedSearch.id),
+        savedSearch.lastSentAt ? eq(savedSearches.lastSentAt, savedSearch.lastSentAt) : isNull(savedSearches.lastSentAt),
+      ),
+    );
+
+  return result.affectedRows === 1;
+};
+
+//* Records the delivery before the email goes out. The unique (user, job) index turns a job already
+//* sent by another search or another run into a duplicate error, which means "skip it".
+const claimDelivery = async ({ userId, jobId, savedSearchId }: { userId: number; jobId: number; savedSearchId: number }) => {
+  try {
+    await db.insert(jobAlertDeliveries).values({ userId, jobId, savedSearchId });
+    return true;
+  } catch (error) {
+    if (isDuplicateEntryError(error)) return false;
+    throw error;
+  }
+};
+
+const sendDigest = async ({
+  savedSearch,
+  user,
+  now,
+}: {
+  savedSearch: SavedSearch;
+  user: { id: number; name: string; email: string };
+  now: Date;
+}) => {
+  if (!(await claimDigest(savedSearch, now))) return false;
+
+  const candidates = await findNewJobsForSavedSearch({
+    userId: user.id,
+    params: savedSearch.params,
+    since: savedSearch.lastSentAt ?? savedSearch.createdAt,
+  });
+
+  const newJobs: typeof candidates = [];
+  for (const job of candidates) {
+    if (await claimDelivery({ userId: user.id, jobId: job.id, savedSearchId: savedSearch.id })) newJobs.push(job);
+  }
+
+  if (newJobs.length === 0) return false;
+
+  const unsubscribeToken = generateToken();
+  await db
+    .insert(savedSearchUnsubscribeTokens)
+    .values({ savedSearchId: savedSearch.id, tokenHash: hashToken(unsubscribeToken) });
+
+  const searchUrl = `${APP_URL}${getSavedSearchHref(savedSearch.params)}`;
+  const unsubscribeUrl = `${APP_URL}/alerts/unsubscribe?token=${unsubscribeToken}`;
+  const email = jobAlertDigestEmail({
+    name: user.name,
+    searchName: savedSearch.name,
+    jobs: newJobs.map((job) => ({
+      title: job.title,
+      companyName: job.companyName,
+      location: job.location,
+      url: `${APP_URL}/jobs/${job.id}`,
+    })),
+    searchUrl,
+    unsubscribeUrl,
+  });
+
+  await sendEmail({
+    to: user.email,
+    ...email,
+    // RFC 8058 one-click unsubscribe: mail clients POST to the confirm route without opening the page
+    headers: {
+      "List-Unsubscribe": `<${APP_URL}/alerts/unsubscribe/confirm?token=${unsubscribeToken}>`,
+      "List-Unsubscribe-Post": "List-Unsubscribe=One-Click",
+    },
+  });
+
+  await createNotifications({
+    userIds: [user.id],
+    type: "job_alert",
+    title: email.subject,
+    body: newJobs.map((job) => `${job.title} at ${job.companyName}`).join("\n"),
+    url: getSavedSearchHref(savedSearch.params),
+  });
+
+  return true;
+};
+
+//* Called by the scheduler. Each search is handled on its own, so one failure doesn't hold up the rest;
+//* a job that was claimed but whose email failed is not retried (at most once, never twice).
+export const runJobAlertDigests = async (now = new Date()) => {
+  const dueSearches = await getDueSavedSearches(now);
+
+  let sent = 0;
+  for (const { savedSearch, user } of dueSearches) {
+    try {
+      if (await sendDigest({ savedSearch, user, now })) sent++;
+    } catch (error) {
+      console.error("Job Alert Digest Error:", error);
+    }
+  }
+
+  return { due: dueSearches.length, sent };
+};
+
+//* Turns the alert off rather than deleting the search, so the applicant keeps it on their saved list.
+export const unsubscribeFromJobAlert = async (token: string) => {
+  const savedSearch = await findSavedSearchByUnsubscribeToken(token);
+
+  if (!savedSearch) return null;
+
+  await db.update(savedSearches).set({ frequency: "off" }).where(eq(savedSearches.id, savedSearch.id));
+
+  return savedSearch;
+};
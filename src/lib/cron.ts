@@ -0,0 +1,21 @@
+import crypto from "crypto";
+import { NextRequest, NextResponse } from "next/server";
+import { hashToken } from "./token";
+
+//* Scheduled routes are hit by an external scheduler (cron, Vercel Cron, ...) with
+//* "Authorization: Bearer $CRON_SECRET". Returns an error response to send back, or null when allowed.
+export const authorizeCronRequest = (request: NextRequest) => {
+  const secret = process.env.CRON_SECRET;
+
+  if (!secret) return NextResponse.json({ error: "CRON_SECRET is not configured" }, { status: 503 });
+
+  const header = request.headers.get("authorization") ?? "";
+
+  // comparing hashes keeps both buffers the same length for timingSafeEqual
+  const isAuthorized = crypto.timingSafeEqual(
+    Buffer.from(hashToken(header)),
+    Buffer.from(hashToken(`Bearer ${secret}`)),
+  );
+
+  return isAuthorized ? null : NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+};
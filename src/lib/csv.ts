@@ -0,0 +1,63 @@
+//* Spreadsheet apps run cells starting with these characters as formulas, so such cells get a leading quote.
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+export const toCsvCell = (value: unknown) => {
+  if (value === null || value === undefined) return "";
+
+  let text = value instanceof Date ? value.toISOString() : String(value);
+
+  if (typeof value === "string" && FORMULA_PREFIX.test(text)) text = `'${text}`;
+
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCsvRow = (values: unknown[]) => `${values.map(toCsvCell).join(",")}\r\n`;
+
+//* RFC 4180 reader: quoted fields may contain commas, line breaks and doubled quotes. Returns every row
+//* as an array of raw cells; a UTF-8 BOM (as written by Excel) is skipped and blank lines are kept as [""].
+export const parseCsv = (text: string) => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let inQuotes = false;
+
+  const input = text.startsWith("\uFEFF") ? text.slice(1) : text;
+
+  for (let index = 0; index < input.length; index++) {
+    const char = input[index];
+
+    if (inQuotes) {
+      if (char === '"' && input[index + 1] === '"') {
+        cell += '"';
+        index++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"' && cell === "") {
+      inQuotes = true;
+    } else if (char === ",") {
+      row.push(cell);
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[index + 1] === "\n") index++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = "";
+    } else {
+      cell += char;
+    }
+  }
+
+  if (inQuotes) throw new Error("Unterminated quoted field");
+
+  // no trailing newline after the last row
+  if (cell !== "" || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  return rows;
+};
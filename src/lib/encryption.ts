@@ -0,0 +1,39 @@
+import crypto from "crypto";
+
+//* Symmetric encryption for secrets we must be able to read back (TOTP seeds), unlike tokens and passwords
+//* which are only ever hashed. AES-256-GCM with a key derived from ENCRYPTION_KEY; the stored value is
+//* "v1.<iv>.<auth tag>.<ciphertext>" in base64url so the format can change later.
+
+const VERSION = "v1";
+
+const getKey = () => {
+  const secret = process.env.ENCRYPTION_KEY;
+
+  if (!secret) throw new Error("ENCRYPTION_KEY is not configured");
+
+  return crypto.createHash("sha256").update(secret).digest();
+};
+
+export const encrypt = (plaintext: string) => {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv("aes-256-gcm", getKey(), iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext, "utf8"), cipher.final()]);
+
+  return [VERSION, iv, cipher.getAuthTag(), ciphertext]
+    .map((part) => (typeof part === "string" ? part : part.toString("base64url")))
+    .join(".");
+};
+
+//* Throws when the value was tampered with or encrypted under another key.
+export const decrypt = (payload: string) => {
+  const [version, iv, authTag, ciphertext] = payload.split(".");
+
+  if (version !== VERSION || !iv || !authTag || ciphertext === undefined) {
+    throw new Error("Unsupported encrypted value");
+  }
+
+  const decipher = crypto.createDecipheriv("aes-256-gcm", getKey(), Buffer.from(iv, "base64url"));
+  decipher.setAuthTag(Buffer.from(authTag, "base64url"));
+
+  return Buffer.concat([decipher.update(Buffer.from(ciphertext, "base64url")), decipher.final()]).toString("utf8");
+};
@@ -0,0 +1,91 @@
+//* Builds RSS 2.0 and JSON Feed 1.1 documents from the same feed description, so both formats always
+//* carry the same items. Text is plain (no HTML) in both.
+
+export interface FeedItem {
+  id: string;
+  url: string;
+  title: string;
+  summary: string;
+  content: string;
+  author: string;
+  categories: string[];
+  publishedAt: Date;
+  updatedAt: Date;
+}
+
+export interface Feed {
+  title: string;
+  description: string;
+  homePageUrl: string;
+  rssUrl: string;
+  jsonUrl: string;
+  items: FeedItem[];
+}
+
+export const RSS_CONTENT_TYPE = "application/rss+xml; charset=utf-8";
+export const JSON_FEED_CONTENT_TYPE = "application/feed+json; charset=utf-8";
+
+// XML 1.0 has no escape for most control characters, so they are dropped rather than breaking the document
+const escapeXml = (value: string) =>
+  value
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F\uFFFE\uFFFF]/g, "")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+
+const element = (name: string, value: string) => `<${name}>${escapeXml(value)}</${name}>`;
+
+//* RSS dates are RFC 822, which is what toUTCString() produces.
+export const buildRssFeed = (feed: Feed) => {
+  const lastBuildDate =
+    feed.items.length > 0 ? new Date(Math.max(...feed.items.map((item) => item.updatedAt.getTime()))) : new Date();
+
+  const items = feed.items.map((item) =>
+    [
+      "<item>",
+      element("title", item.title),
+      element("link", item.url),
+      `<guid isPermaLink="true">${escapeXml(item.url)}</guid>`,
+      element("description", item.content),
+      element("dc:creator", item.author),
+      ...item.categories.map((category) => element("category", category)),
+      element("pubDate", item.publishedAt.toUTCString()),
+      "</item>",
+    ].join(""),
+  );
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom" xmlns:dc="http://purl.org/dc/elements/1.1/">',
+    "<channel>",
+    element("title", feed.title),
+    element("link", feed.homePageUrl),
+    element("description", feed.description),
+    `<atom:link href="${escapeXml(feed.rssUrl)}" rel="self" type="application/rss+xml"/>`,
+    element("lastBuildDate", lastBuildDate.toUTCString()),
+    ...items,
+    "</channel>",
+    "</rss>",
+  ].join("\n");
+};
+
+export const buildJsonFeed = (feed: Feed) => ({
+  version: "https://jsonfeed.org/version/1.1",
+  title: feed.title,
+  description: feed.description,
+  home_page_url: feed.homePageUrl,
+  feed_url: feed.jsonUrl,
+  items: feed.items.map((item) => ({
+    id: item.id,
+    url: item.url,
+    title: item.title,
+    summary: item.summary,
+    content_text: item.content,
+    authors: [{ name: item.author }],
+    tags: item.categories,
+    date_published: item.publishedAt.toISOString(),
+    date_modified: item.updatedAt.toISOString(),
+  })),
+});
@@ -0,0 +1,49 @@
+//* Detects a file's real type from its first bytes. The browser-supplied MIME type and the file
+//* extension are both user-controlled, so uploads are only ever trusted based on this.
+
+export const MIME_TYPES = {
+  pdf: "application/pdf",
+  docx: "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+  png: "image/png",
+  jpeg: "image/jpeg",
+  gif: "image/gif",
+  webp: "image/webp",
+} as const;
+
+export type SniffedMimeType = (typeof MIME_TYPES)[keyof typeof MIME_TYPES];
+
+export const FILE_EXTENSIONS: Record<SniffedMimeType, string> = {
+  [MIME_TYPES.pdf]: "pdf",
+  [MIME_TYPES.docx]: "docx",
+  [MIME_TYPES.png]: "png",
+  [MIME_TYPES.jpeg]: "jpg",
+  [MIME_TYPES.gif]: "gif",
+  [MIME_TYPES.webp]: "webp",
+};
+
+const startsWith = (buffer: Buffer, signature: number[], offset = 0) =>
+  signature.every((byte, index) => buffer[offset + index] === byte);
+
+export const sniffMimeType = (buffer: Buffer): SniffedMimeType | null => {
+  if (startsWith(buffer, [0x25, 0x50, 0x44, 0x46, 0x2d])) return MIME_TYPES.pdf; // %PDF-
+
+  // DOCX is a ZIP archive; entry names are stored uncompressed, so look for the Word part.
+  if (startsWith(buffer, [0x50, 0x4b, 0x03, 0x04])) {
+    return buffer.includes("word/") ? MIME_TYPES.docx : null;
+  }
+
+  if (startsWith(buffer, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) return MIME_TYPES.png;
+  if (startsWith(buffer, [0xff, 0xd8, 0xff])) return MIME_TYPES.jpeg;
+  if (startsWith(buffer, [0x47, 0x49, 0x46, 0x38])) return MIME_TYPES.gif; // GIF8
+  if (startsWith(buffer, [0x52, 0x49, 0x46, 0x46]) && startsWith(buffer, [0x57, 0x45, 0x42, 0x50], 8)) {
+    return MIME_TYPES.webp; // RIFF....WEBP
+  }
+
+  return null;
+};
+
+export const formatFileSize = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
@@ -0,0 +1,10 @@
+//* Strips MySQL boolean-mode operators and turns "react developer" into "+react* +developer*",
+//* so every word must match (as a prefix) and user input can never change the query syntax.
+export const toBooleanSearchQuery = (query: string) => {
+  return query
+    .replace(/[+\-<>()~*"@]/g, " ")
+    .split(/\s+/)
+    .filter((term) => term.length > 1)
+    .map((term) => `+${term}*`)
+    .join(" ");
+};
@@ -0,0 +1,92 @@
+//* Builds single-event iCalendar (RFC 5545) files. Calendars match events by UID and keep the one with the
+//* highest SEQUENCE, so an update or cancellation must reuse the UID with a bumped sequence.
+//* REQUEST adds/updates the event as an invitation, CANCEL removes it, PUBLISH is a plain download.
+
+export type CalendarMethod = "REQUEST" | "CANCEL" | "PUBLISH";
+
+export interface CalendarPerson {
+  name: string;
+  email: string;
+}
+
+export interface CalendarEvent {
+  uid: string;
+  sequence: number;
+  method: CalendarMethod;
+  start: Date;
+  end: Date;
+  summary: string;
+  description?: string;
+  location?: string;
+  url?: string;
+  organizer: CalendarPerson;
+  attendees: CalendarPerson[];
+}
+
+export const ICS_CONTENT_TYPE = "text/calendar; charset=utf-8";
+
+const formatUtc = (date: Date) => date.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+
+const escapeText = (value: string) =>
+  value.replace(/\\/g, "\\\\").replace(/;/g, "\\;").replace(/,/g, "\\,").replace(/\r?\n/g, "\\n");
+
+// parameter values can't contain quotes, and are quoted so ":" and ";" in names are safe
+const quoteParam = (value: string) => `"${value.replace(/"/g, "'")}"`;
+
+//* Content lines longer than 75 octets are folded onto continuation lines that start with a space.
+const foldLine = (line: string) => {
+  const encoder = new TextEncoder();
+  const chunks: string[] = [];
+  let current = "";
+  let currentLength = 0;
+
+  for (const char of line) {
+    const charLength = encoder.encode(char).length;
+    const limit = chunks.length === 0 ? 75 : 74;
+
+    if (currentLength + charLength > limit) {
+      chunks.push(current);
+      current = "";
+      currentLength = 0;
+    }
+
+    current += char;
+    currentLength += charLength;
+  }
+
+  chunks.push(current);
+
+  return chunks.join("\r\n ");
+};
+
+export const buildCalendarEvent = (event: CalendarEvent) => {
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//Job Portal//Interviews//EN",
+    "CALSCALE:GREGORIAN",
+    `METHOD:${event.method}`,
+    "BEGIN:VEVENT",
+    `UID:${event.uid}`,
+    `SEQUENCE:${event.sequence}`,
+    `DTSTAMP:${formatUtc(new Date())}`,
+    `DTSTART:${formatUtc(event.start)}`,
+    `DTEND:${formatUtc(event.end)}`,
+    `SUMMARY:${escapeText(event.summary)}`,
+    event.description ? `DESCRIPTION:${escapeText(event.description)}` : null,
+    event.location ? `LOCATION:${escapeText(event.location)}` : null,
+    event.url ? `URL:${event.url}` : null,
+    `STATUS:${event.method === "CANCEL" ? "CANCELLED" : "CONFIRMED"}`,
+    `ORGANIZER;CN=${quoteParam(event.organizer.name)}:mailto:${event.organizer.email}`,
+    ...event.attendees.map(
+      (attendee) => `ATTENDEE;CN=${quoteParam(attendee.name)};ROLE=REQ-PARTICIPANT;RSVP=FALSE:mailto:${attendee.email}`,
+    ),
+    "END:VEVENT",
+    "END:VCALENDAR",
+  ];
+
+  return `${lines
+    .filter((line): line is string => line !== null)
+    .map(foldLine)
+    .join("\r\n")}\r\n`;
+};
@@ -0,0 +1,146 @@
+import { APP_URL } from "@/config/constant";
+import crypto from "crypto";
+
+//* A tiny in-process OpenID Connect provider for development (/dev/oidc): discovery, an authorize page
+//* where you type whichever identity you want to be, a token endpoint that enforces PKCE, and RS256 ID
+//* tokens. Keys and codes live in memory, so restarting the dev server starts from scratch.
+
+export const MOCK_OIDC_ISSUER = `${APP_URL}/dev/oidc`;
+export const MOCK_OIDC_CLIENT_ID = "job-portal-dev";
+export const MOCK_OIDC_CLIENT_SECRET = "job-portal-dev-secret";
+
+const CODE_LIFETIME = 60 * 1000; // 1 minute
+const ID_TOKEN_LIFETIME = 5 * 60; // seconds
+
+interface MockAuthorization {
+  clientId: string;
+  redirectUri: string;
+  codeChallenge: string;
+  nonce: string | null;
+  email: string;
+  name: string;
+  emailVerified: boolean;
+  expiresAt: number;
+}
+
+// kept on globalThis so hot reloads in dev don't rotate the key or drop codes mid-flow
+const globalForMock = globalThis as unknown as {
+  mockOidc?: { kid: string; privateKey: crypto.KeyObject; publicJwk: crypto.JsonWebKey; codes: Map<string, MockAuthorization> };
+};
+
+const getState = () => {
+  if (!globalForMock.mockOidc) {
+    const { privateKey, publicKey } = crypto.generateKeyPairSync("rsa", { modulusLength: 2048 });
+
+    globalForMock.mockOidc = {
+      kid: crypto.randomBytes(8).toString("hex"),
+      privateKey,
+      publicJwk: publicKey.export({ format: "jwk" }),
+      codes: new Map(),
+    };
+  }
+
+  return globalForMock.mockOidc;
+};
+
+export const getMockOidcConfiguration = () => ({
+  issuer: MOCK_OIDC_ISSUER,
+  authorization_endpoint: `${MOCK_OIDC_ISSUER}/authorize`,
+  token_endpoint: `${MOCK_OIDC_ISSUER}/token`,
+  jwks_uri: `${MOCK_OIDC_ISSUER}/jwks`,
+  response_types_supported: ["code"],
+  subject_types_supported: ["public"],
+  id_token_signing_alg_values_supported: ["RS256"],
+  code_challenge_methods_supported: ["S256"],
+  token_endpoint_auth_methods_supported: ["client_secret_basic", "client_secret_post"],
+  scopes_supported: ["openid", "email", "profile"],
+});
+
+export const getMockOidcJwks = () => {
+  const { kid, publicJwk } = getState();
+  return { keys: [{ ...publicJwk, kid, alg: "RS256", use: "sig" }] };
+};
+
+//* The only redirect URI the mock client is registered with.
+export const isMockRedirectUri = (redirectUri: string) => redirectUri === `${APP_URL}/auth/oidc/mock/callback`;
+
+export const createMockAuthorizationCode = (authorization: Omit<MockAuthorization, "expiresAt">) => {
+  const { codes } = getState();
+  const code = crypto.randomBytes(24).toString("base64url");
+
+  codes.set(code, { ...authorization, expiresAt: Date.now() + CODE_LIFETIME });
+
+  return code;
+};
+
+const signJwt = (payload: object) => {
+  const { kid, privateKey } = getState();
+  const encode = (value: object) => Buffer.from(JSON.stringify(value)).toString("base64url");
+
+  const input = `${encode({ alg: "RS256", typ: "JWT", kid })}.${encode(payload)}`;
+  const signature = crypto.sign("sha256", Buffer.from(input), privateKey).toString("base64url");
+
+  return `${input}.${signature}`;
+};
+
+//* Token endpoint logic. Returns the token response, or an OAuth error code (RFC 6749 5.2).
+export const redeemMockAuthorizationCode = ({
+  code,
+  clientId,
+  clientSecret,
+  redirectUri,
+  codeVerifier,
+}: {
+  code: string;
+  clientId: string;
+  clientSecret: string;
+  redirectUri: string;
+  codeVerifier: string;
+}) => {
+  if (clientId !== MOCK_OIDC_CLIENT_ID || clientSecret !== MOCK_OIDC_CLIENT_SECRET) {
+    return { error: "invalid_client" } as const;
+  }
+
+  const { codes } = getState();
+  const authorization = codes.get(code);
+
+  // codes are single-use, whether or not the rest checks out
+  codes.delete(code);
+
+  const challenge = crypto.createHash("sha256").update(codeVerifier).digest("base64url");
+
+  if (
+    !authorization ||
+    authorization.expiresAt < Date.now() ||
+    authorization.clientId !== clientId ||
+    authorization.redirectUri !== redirectUri ||
+    authorization.codeChallenge !== challenge
+  ) {
+    return { error: "invalid_grant" } as const;
+  }
+
+  const now = Math.floor(Date.now() / 1000);
+  const email = authorization.email.toLowerCase();
+
+  const idToken = signJwt({
+    iss: MOCK_OIDC_ISSUER,
+    // stable per email, so signing in again as the same person hits the same identity
+    sub: crypto.createHash("sha256").update(email).digest("hex").slice(0, 24),
+    aud: clientId,
+    iat: now,
+    exp: now + ID_TOKEN_LIFETIME,
+    ...(authorization.nonce ? { nonce: authorization.nonce } : {}),
+    email,
+    email_verified: authorization.emailVerified,
+    name: authorization.name,
+  });
+
+  return {
+    tokens: {
+      access_token: crypto.randomBytes(24).toString("base64url"),
+      token_type: "Bearer",
+      expires_in: ID_TOKEN_LIFETIME,
+      id_token: idToken,
+    },
+  } as const;
+};
@@ -0,0 +1,239 @@
+import crypto from "crypto";
+
+//* A minimal OpenID Connect relying party: discovery, the authorization code flow with PKCE (S256), and
+//* ID token validation (signature against the provider's JWKS, issuer, audience, expiry and nonce).
+//* Everything provider-specific comes from the discovery document, so any compliant provider works.
+
+export interface OidcClientConfig {
+  issuer: string;
+  clientId: string;
+  clientSecret?: string;
+  scopes: string[];
+}
+
+interface OidcMetadata {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  jwks_uri: string;
+  token_endpoint_auth_methods_supported?: string[];
+}
+
+export interface IdTokenClaims {
+  iss: string;
+  sub: string;
+  aud: string | string[];
+  exp: number;
+  iat: number;
+  nonce?: string;
+  azp?: string;
+  email?: string;
+  email_verified?: boolean | string;
+  name?: string;
+  [claim: string]: unknown;
+}
+
+type Jwk = crypto.JsonWebKey & { kid?: string; alg?: string; use?: string };
+
+// discovery documents and key sets rarely change; keys are refetched early when an unknown kid shows up
+const CACHE_TTL = 60 * 60 * 1000; // 1 hour
+const CLOCK_SKEW = 60; // seconds
+
+const metadataCache = new Map<string, { metadata: OidcMetadata; fetchedAt: number }>();
+const jwksCache = new Map<string, { keys: Jwk[]; fetchedAt: number }>();
+
+const fetchJson = async (url: string, init?: RequestInit) => {
+  const response = await fetch(url, { ...init, cache: "no-store" });
+  const body = await response.json().catch(() => null);
+
+  if (!response.ok || !body) {
+    throw new Error(`OIDC request to ${url} failed with ${response.status}${body?.error ? `: ${body.error}` : ""}`);
+  }
+
+  return body;
+};
+
+export const getOidcMetadata = async (issuer: string): Promise<OidcMetadata> => {
+  const cached = metadataCache.get(issuer);
+  if (cached && Date.now() - cached.fetchedAt < CACHE_TTL) return cached.metadata;
+
+  const metadata = await fetchJson(`${issuer.replace(/\/$/, "")}/.well-known/openid-configuration`);
+
+  // OIDC Discovery 4.3: the document must be about the issuer we asked for
+  if (metadata.issuer !== issuer) throw new Error(`Discovery issuer ${metadata.issuer} doesn't match ${issuer}`);
+
+  metadataCache.set(issuer, { metadata, fetchedAt: Date.now() });
+
+  return metadata;
+};
+
+const base64url = (buffer: Buffer) => buffer.toString("base64url");
+
+//* Random values for one sign-in attempt: state (CSRF), nonce (ID token replay) and the PKCE verifier.
+export const createOidcAttempt = () => {
+  const codeVerifier = base64url(crypto.randomBytes(32));
+
+  return {
+    state: base64url(crypto.randomBytes(16)),
+    nonce: base64url(crypto.randomBytes(16)),
+    codeVerifier,
+    codeChallenge: base64url(crypto.createHash("sha256").update(codeVerifier).digest()),
+  };
+};
+
+export const getAuthorizationUrl = async ({
+  config,
+  redirectUri,
+  state,
+  nonce,
+  codeChallenge,
+}: {
+  config: OidcClientConfig;
+  redirectUri: string;
+  state: string;
+  nonce: string;
+  codeChallenge: string;
+}) => {
+  const metadata = await getOidcMetadata(config.issuer);
+  const url = new URL(metadata.authorization_endpoint);
+
+  url.search = new URLSearchParams({
+    response_type: "code",
+    client_id: config.clientId,
+    redirect_uri: redirectUri,
+    scope: config.scopes.join(" "),
+    state,
+    nonce,
+    code_challenge: codeChallenge,
+    code_challenge_method: "S256",
+  }).toString();
+
+  return url.toString();
+};
+
+const getSigningKey = async (jwksUri: string, kid: string | undefined) => {
+  const find = (keys: Jwk[]) => keys.find((key) => (kid ? key.kid === kid : key.use !== "enc"));
+
+  const cached = jwksCache.get(jwksUri);
+  const cachedKey = cached && Date.now() - cached.fetchedAt < CACHE_TTL ? find(cached.keys) : undefined;
+  if (cachedKey) return cachedKey;
+
+  const { keys } = await fetchJson(jwksUri);
+  jwksCache.set(jwksUri, { keys, fetchedAt: Date.now() });
+
+  return find(keys);
+};
+
+// JWS algorithm -> digest, plus the signature encoding node expects for ECDSA
+const ALGORITHMS: Record<string, { hash: string; isEcdsa?: boolean }> = {
+  RS256: { hash: "sha256" },
+  RS384: { hash: "sha384" },
+  RS512: { hash: "sha512" },
+  ES256: { hash: "sha256", isEcdsa: true },
+  ES384: { hash: "sha384", isEcdsa: true },
+};
+
+//* Validates the ID token as required by OIDC Core 3.1.3.7. Throws with the reason when anything is off.
+export const verifyIdToken = async ({
+  idToken,
+  config,
+  nonce,
+}: {
+  idToken: string;
+  config: OidcClientConfig;
+  nonce: string;
+}) => {
+  const metadata = await getOidcMetadata(config.issuer);
+  const [encodedHeader, encodedPayload, encodedSignature] = idToken.split(".");
+
+  if (!encodedHeader || !encodedPayload || !encodedSignature) throw new Error("Malformed ID token");
+
+  const header = JSON.parse(Buffer.from(encodedHeader, "base64url").toString("utf8"));
+  const algorithm = ALGORITHMS[header.alg];
+
+  // "none" and HMAC algorithms are refused outright
+  if (!algorithm) throw new Error(`Unsupported ID token algorithm ${header.alg}`);
+
+  const jwk = await getSigningKey(metadata.jwks_uri, header.kid);
+  if (!jwk) throw new Error("ID token signing key not found");
+
+  const isValidSignature = crypto.verify(
+    algorithm.hash,
+    Buffer.from(`${encodedHeader}.${encodedPayload}`),
+    {
+      key: crypto.createPublicKey({ key: jwk, format: "jwk" }),
+      ...(algorithm.isEcdsa ? { dsaEncoding: "ieee-p1363" as const } : {}),
+    },
+    Buffer.from(encodedSignature, "base64url"),
+  );
+
+  if (!isValidSignature) throw new Error("Invalid ID token signature");
+
+  const claims: IdTokenClaims = JSON.parse(Buffer.from(encodedPayload, "base64url").toString("utf8"));
+  const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+  const now = Math.floor(Date.now() / 1000);
+
+  if (claims.iss !== metadata.issuer) throw new Error("ID token issuer mismatch");
+  if (!audiences.includes(config.clientId)) throw new Error("ID token audience mismatch");
+  if (audiences.length > 1 && claims.azp !== config.clientId) throw new Error("ID token authorized party mismatch");
+  if (typeof claims.exp !== "number" || claims.exp + CLOCK_SKEW < now) throw new Error("ID token expired");
+  if (typeof claims.iat === "number" && claims.iat - CLOCK_SKEW > now) throw new Error("ID token issued in the future");
+  if (!claims.sub) throw new Error("ID token without subject");
+
+  const expectedNonce = Buffer.from(nonce);
+  const actualNonce = Buffer.from(claims.nonce ?? "");
+  if (actualNonce.length !== expectedNonce.length || !crypto.timingSafeEqual(actualNonce, expectedNonce)) {
+    throw new Error("ID token nonce mismatch");
+  }
+
+  return claims;
+};
+
+//* Exchanges the authorization code (with the PKCE verifier) and returns the validated ID token claims.
+export const exchangeAuthorizationCode = async ({
+  config,
+  code,
+  redirectUri,
+  codeVerifier,
+  nonce,
+}: {
+  config: OidcClientConfig;
+  code: string;
+  redirectUri: string;
+  codeVerifier: string;
+  nonce: string;
+}) => {
+  const metadata = await getOidcMetadata(config.issuer);
+
+  const body = new URLSearchParams({
+    grant_type: "authorization_code",
+    code,
+    redirect_uri: redirectUri,
+    code_verifier: codeVerifier,
+    client_id: config.clientId,
+  });
+  const headers: Record<string, string> = {
+    "Content-Type": "application/x-www-form-urlencoded",
+    Accept: "application/json",
+  };
+
+  // client_secret_post when the provider supports it, else client_secret_basic (the spec default)
+  if (config.clientSecret) {
+    if (metadata.token_endpoint_auth_methods_supported?.includes("client_secret_post")) {
+      body.set("client_secret", config.clientSecret);
+    } else {
+      const credentials = `${encodeURIComponent(config.clientId)}:${encodeURIComponent(config.clientSecret)}`;
+      headers.Authorization = `Basic ${Buffer.from(credentials).toString("base64")}`;
+    }
+  }
+
+  const tokens = await fetchJson(metadata.token_endpoint, { method: "POST", headers, body });
+
+  if (typeof tokens.id_token !== "string") throw new Error("Token response without an ID token");
+
+  return verifyIdToken({ idToken: tokens.id_token, config, nonce });
+};
+
+//* Some providers send email_verified as the string "true".
+export const isEmailVerified = (claims: IdTokenClaims) =>
+  claims.email_verified === true || claims.email_verified === "true";
@@ -0,0 +1,13 @@
+import { MySqlRateLimitStore } from "./mysqlStore";
+import { RateLimitStore } from "./store";
+
+export type { RateLimitEntry, RateLimitStore } from "./store";
+export { MemoryRateLimitStore } from "./store";
+
+let store: RateLimitStore = new MySqlRateLimitStore();
+
+export const getRateLimitStore = () => store;
+
+export const setRateLimitStore = (nextStore: RateLimitStore) => {
+  store = nextStore;
+};
@@ -0,0 +1,89 @@
+import { db } from "@/config/db";
+import { rateLimits } from "@/drizzle/schema";
+import { and, eq, gt, isNull, like, lt, or, sql } from "drizzle-orm";
+import { RateLimitEntry, RateLimitStore } from "./store";
+
+export class MySqlRateLimitStore implements RateLimitStore {
+  async get(key: string) {
+    const [entry] = await db
+      .select({
+        key: rateLimits.key,
+        count: rateLimits.count,
+        windowStartedAt: rateLimits.windowStartedAt,
+        lockedUntil: rateLimits.lockedUntil,
+      })
+      .from(rateLimits)
+      .where(eq(rateLimits.key, key));
+
+    return entry ?? null;
+  }
+
+  async set({ key, count, windowStartedAt, lockedUntil }: RateLimitEntry) {
+    await db
+      .insert(rateLimits)
+      .values({ key, count, windowStartedAt, lockedUntil })
+      .onDuplicateKeyUpdate({ set: { count, windowStartedAt, lockedUntil } });
+  }
+
+  //* One upsert decides between "new window" and "one more hit" on the row itself, and the row lock it
+  //* takes is held until the read-back, so concurrent hits are counted one by one.
+  async increment(key: string, { windowSeconds, now }: { windowSeconds: number; now: Date }) {
+    const windowCutoff = sql.param(new Date(now.getTime() - windowSeconds * 1000), rateLimits.windowStartedAt);
+    const isWindowExpired = sql`${rateLimits.windowStartedAt} <= ${windowCutoff}`;
+
+    return db.transaction(async (tx) => {
+      // count is assigned first, so both IF()s still compare the old window_started_at
+      await tx
+        .insert(rateLimits)
+        .values({ key, count: 1, windowStartedAt: now })
+        .onDuplicateKeyUpdate({
+          set: {
+            count: sql`IF(${isWindowExpired}, 1, ${rateLimits.count} + 1)`,
+            windowStartedAt: sql`IF(${isWindowExpired}, ${sql.param(now, rateLimits.windowStartedAt)}, ${rateLimits.windowStartedAt})`,
+          },
+        });
+
+      const [entry] = await tx
+        .select({
+          key: rateLimits.key,
+          count: rateLimits.count,
+          windowStartedAt: rateLimits.windowStartedAt,
+          lockedUntil: rateLimits.lockedUntil,
+        })
+        .from(rateLimits)
+        .where(eq(rateLimits.key, key));
+
+      return entry;
+    });
+  }
+
+  async decrement(key: string) {
+    await db
+      .update(rateLimits)
+      .set({ count: sql`GREATEST(${rateLimits.count} - 1, 0)` })
+      .where(eq(rateLimits.key, key));
+  }
+
+  async lock(key: string, until: Date) {
+    await db
+      .update(rateLimits)
+      .set({ lockedUntil: until })
+      .where(and(eq(rateLimits.key, key), or(isNull(rateLimits.lockedUntil), lt(rateLimits.lockedUntil, until))));
+  }
+
+  async delete(key: string) {
+    await db.delete(rateLimits).where(eq(rateLimits.key, key));
+  }
+
+  async listLocked(prefix: string, now: Date) {
+    return db
+      .select({
+        key: rateLimits.key,
+        count: rateLimits.count,
+        windowStartedAt: rateLimits.windowStartedAt,
+        lockedUntil: rateLimits.lockedUntil,
+      })
+      .from(rateLimits)
+      .where(and(like(rateLimits.key, `${prefix}%`), gt(rateLimits.lockedUntil, now)));
+  }
+}
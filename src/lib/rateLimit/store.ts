@@ -0,0 +1,73 @@
+//* Storage abstraction for rate limiting. The limiter logic only talks to this interface, so the
+//* MySQL store used today can be swapped for the in-memory one (tests, single instance) or a
+//* Redis-like store later without touching the callers.
+
+export interface RateLimitEntry {
+  key: string;
+  count: number;
+  windowStartedAt: Date;
+  lockedUntil: Date | null;
+}
+
+export interface RateLimitStore {
+  get: (key: string) => Promise<RateLimitEntry | null>;
+  set: (entry: RateLimitEntry) => Promise<void>;
+  //* Atomically counts one more hit in the key's fixed window (a new window starts once `windowSeconds`
+  //* have passed) and returns the entry as it is after this hit, so parallel callers each see their own count.
+  increment: (key: string, options: { windowSeconds: number; now: Date }) => Promise<RateLimitEntry>;
+  //* Gives one hit back (never below zero), e.g. for an attempt that turned out to be legitimate.
+  decrement: (key: string) => Promise<void>;
+  //* Locks the key until `until`; an existing lock that lasts longer is kept.
+  lock: (key: string, until: Date) => Promise<void>;
+  delete: (key: string) => Promise<void>;
+  //* Entries under a key prefix that are locked at `now`.
+  listLocked: (prefix: string, now: Date) => Promise<RateLimitEntry[]>;
+}
+
+export class MemoryRateLimitStore implements RateLimitStore {
+  private entries = new Map<string, RateLimitEntry>();
+
+  async get(key: string) {
+    const entry = this.entries.get(key);
+    return entry ? { ...entry } : null;
+  }
+
+  async set(entry: RateLimitEntry) {
+    this.entries.set(entry.key, { ...entry });
+  }
+
+  // no await between reading and writing, so this is atomic within the process
+  async increment(key: string, { windowSeconds, now }: { windowSeconds: number; now: Date }) {
+    const entry = this.entries.get(key);
+    const isWindowExpired = !entry || now.getTime() - entry.windowStartedAt.getTime() >= windowSeconds * 1000;
+
+    const next: RateLimitEntry = isWindowExpired
+      ? { key, count: 1, windowStartedAt: now, lockedUntil: entry?.lockedUntil ?? null }
+      : { ...entry, count: entry.count + 1 };
+
+    this.entries.set(key, next);
+    return { ...next };
+  }
+
+  async decrement(key: string) {
+    const entry = this.entries.get(key);
+
+    if (entry) entry.count = Math.max(entry.count - 1, 0);
+  }
+
+  async lock(key: string, until: Date) {
+    const entry = this.entries.get(key);
+
+    if (entry && !(entry.lockedUntil && entry.lockedUntil >= until)) entry.lockedUntil = until;
+  }
+
+  async delete(key: string) {
+    this.entries.delete(key);
+  }
+
+  async listLocked(prefix: string, now: Date) {
+    return [...this.entries.values()].filter(
+      (entry) => entry.key.startsWith(prefix) && entry.lockedUntil && entry.lockedUntil > now,
+    );
+  }
+}
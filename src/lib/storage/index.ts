@@ -0,0 +1,28 @@
+import { LocalDiskStorage } from "./localDiskStorage";
+
+//* Everything that stores user files (resumes, attachments, logos) goes through this interface.
+//* Local disk is used today; an S3-compatible driver only needs to implement these four methods.
+export interface FileStorage {
+  put: (key: string, data: Buffer, contentType: string) => Promise<void>;
+  get: (key: string) => Promise<Buffer | null>;
+  delete: (key: string) => Promise<void>;
+  exists: (key: string) => Promise<boolean>;
+}
+
+let storage: FileStorage | null = null;
+
+export const getFileStorage = () => {
+  if (!storage) {
+    const driver = process.env.FILE_STORAGE_DRIVER ?? "local";
+
+    if (driver !== "local") throw new Error(`Unsupported FILE_STORAGE_DRIVER "${driver}"`);
+
+    storage = new LocalDiskStorage(process.env.UPLOAD_DIR ?? "storage/uploads");
+  }
+
+  return storage;
+};
+
+export const setFileStorage = (nextStorage: FileStorage) => {
+  storage = nextStorage;
+};
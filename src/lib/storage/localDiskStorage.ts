@@ -0,0 +1,49 @@
+import fs from "fs/promises";
+import path from "path";
+import { FileStorage } from "./index";
+
+export class LocalDiskStorage implements FileStorage {
+  private root: string;
+
+  constructor(root: string) {
+    this.root = path.resolve(root);
+  }
+
+  //* Keys are generated by us, but resolve them anyway so "../" can never escape the upload root.
+  private resolveKey(key: string) {
+    const filePath = path.resolve(this.root, key);
+
+    if (!filePath.startsWith(this.root + path.sep)) throw new Error(`Invalid storage key "${key}"`);
+
+    return filePath;
+  }
+
+  async put(key: string, data: Buffer) {
+    const filePath = this.resolveKey(key);
+
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, data);
+  }
+
+  async get(key: string) {
+    try {
+      return await fs.readFile(this.resolveKey(key));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return null;
+      throw error;
+    }
+  }
+
+  async delete(key: string) {
+    await fs.rm(this.resolveKey(key), { force: true });
+  }
+
+  async exists(key: string) {
+    try {
+      await fs.access(this.resolveKey(key));
+      return true;
+    } catch {
+      return false;
+    }
+  }
+}
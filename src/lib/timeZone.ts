@@ -0,0 +1,59 @@
+//* Minimal IANA time zone helpers on top of Intl, so wall-clock times picked in one zone can be stored in UTC.
+
+const getWallClockParts = (date: Date, timeZone: string) => {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  }).formatToParts(date);
+
+  const get = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find((part) => part.type === type)?.value);
+
+  return {
+    year: get("year"),
+    month: get("month"),
+    day: get("day"),
+    hour: get("hour"),
+    minute: get("minute"),
+    second: get("second"),
+  };
+};
+
+//* How far the zone's wall clock is ahead of UTC at that instant, in milliseconds.
+const getTimeZoneOffset = (date: Date, timeZone: string) => {
+  const { year, month, day, hour, minute, second } = getWallClockParts(date, timeZone);
+  const wallClockAsUtc = Date.UTC(year, month - 1, day, hour, minute, second);
+
+  return wallClockAsUtc - Math.floor(date.getTime() / 1000) * 1000;
+};
+
+//* "2026-03-14T09:30" (a datetime-local value) read as wall-clock time in timeZone. Returns null for malformed input.
+//* Times inside a DST gap don't exist on the wall clock and are moved forward by the gap, like calendars do.
+export const zonedDateTimeToUtc = (value: string, timeZone: string) => {
+  const match = /^(\d{4})-(\d{2})-(\d{2})T(\d{2}):(\d{2})$/.exec(value);
+
+  if (!match) return null;
+
+  const [, year, month, day, hour, minute] = match.map(Number);
+  const wallClockAsUtc = Date.UTC(year, month - 1, day, hour, minute);
+
+  if (Number.isNaN(wallClockAsUtc)) return null;
+
+  // the offset depends on the instant, which depends on the offset: one correction covers DST changes
+  const firstGuess = wallClockAsUtc - getTimeZoneOffset(new Date(wallClockAsUtc), timeZone);
+
+  return new Date(wallClockAsUtc - getTimeZoneOffset(new Date(firstGuess), timeZone));
+};
+
+//* The reverse, for pre-filling datetime-local inputs: an instant shown as wall-clock time in timeZone.
+export const utcToZonedDateTime = (date: Date, timeZone: string) => {
+  const { year, month, day, hour, minute } = getWallClockParts(date, timeZone);
+  const pad = (value: number) => String(value).padStart(2, "0");
+
+  return `${year}-${pad(month)}-${pad(day)}T${pad(hour)}:${pad(minute)}`;
+};
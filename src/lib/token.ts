@@ -0,0 +1,12 @@
+import crypto from "crypto";
+
+//* Opaque tokens (sessions, email links, ...) are random strings handed to the user. Only their
+//* SHA-256 hash is stored, so a leaked table cannot be replayed.
+
+export const generateToken = (bytes = 32) => {
+  return crypto.randomBytes(bytes).toString("hex").normalize();
+};
+
+export const hashToken = (token: string) => {
+  return crypto.createHash("sha256").update(token).digest("hex");
+};
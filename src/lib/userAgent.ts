@@ -0,0 +1,32 @@
+//* A tiny user-agent parser, good enough to label a session as e.g. "Chrome on Windows".
+//* Order matters: Edge and Opera also advertise "Chrome", and Chrome also advertises "Safari".
+
+const BROWSERS: [name: string, pattern: RegExp][] = [
+  ["Edge", /Edg(?:e|A|iOS)?\/([\d.]+)/],
+  ["Opera", /(?:OPR|Opera)\/([\d.]+)/],
+  ["Samsung Internet", /SamsungBrowser\/([\d.]+)/],
+  ["Firefox", /(?:Firefox|FxiOS)\/([\d.]+)/],
+  ["Chrome", /(?:Chrome|CriOS)\/([\d.]+)/],
+  ["Safari", /Version\/([\d.]+).*Safari/],
+];
+
+const OPERATING_SYSTEMS: [name: string, pattern: RegExp][] = [
+  ["Windows", /Windows NT/],
+  ["Android", /Android/],
+  ["iOS", /iPhone|iPad|iPod/],
+  ["macOS", /Mac OS X|Macintosh/],
+  ["ChromeOS", /CrOS/],
+  ["Linux", /Linux/],
+];
+
+export const parseUserAgent = (userAgent: string) => {
+  const browserMatch = BROWSERS.find(([, pattern]) => pattern.test(userAgent));
+  const os = OPERATING_SYSTEMS.find(([, pattern]) => pattern.test(userAgent))?.[0] ?? "Unknown OS";
+
+  if (!browserMatch) return { browser: "Unknown browser", os };
+
+  const [name, pattern] = browserMatch;
+  const majorVersion = userAgent.match(pattern)?.[1]?.split(".")[0];
+
+  return { browser: majorVersion ? `${name} ${majorVersion}` : name, os };
+};
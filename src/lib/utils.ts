@@ -4,3 +4,13 @@ import { twMerge } from "tailwind-merge"
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
 }
+
+//* Escapes user input used inside a SQL LIKE pattern so "%" and "_" match literally.
+export function escapeLikePattern(value: string) {
+  return value.replace(/[\\%_]/g, "\\$&")
+}
+
+//* mysql2 reports unique index violations with this code; callers use it to turn races into friendly messages.
+export function isDuplicateEntryError(error: unknown) {
+  return typeof error === "object" && error !== null && "code" in error && error.code === "ER_DUP_ENTRY"
+}
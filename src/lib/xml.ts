@@ -0,0 +1,123 @@
+//* A small, dependency-free reader for record-style XML such as job feeds: a root element wrapping many
+//* <job> (or similar) elements whose children hold the values. It handles CDATA, comments, processing
+//* instructions and the predefined/numeric entities. DOCTYPEs are rejected, so no entity can expand.
+
+interface XmlElement {
+  name: string;
+  children: XmlElement[];
+  text: string;
+}
+
+const ENTITIES: Record<string, string> = { lt: "<", gt: ">", amp: "&", quot: '"', apos: "'" };
+
+const decodeEntities = (value: string) =>
+  value.replace(/&(#x[0-9a-f]+|#[0-9]+|[a-z]+);/gi, (match, entity: string) => {
+    if (/^#x/i.test(entity)) return String.fromCodePoint(parseInt(entity.slice(2), 16));
+    if (entity.startsWith("#")) return String.fromCodePoint(parseInt(entity.slice(1), 10));
+    return ENTITIES[entity] ?? match;
+  });
+
+// namespaced tags such as <g:id> are read by their local name
+const localName = (name: string) => name.slice(name.indexOf(":") + 1);
+
+const parseXml = (text: string): XmlElement => {
+  const root: XmlElement = { name: "", children: [], text: "" };
+  const stack = [root];
+  let index = text.startsWith("\uFEFF") ? 1 : 0;
+
+  const skipPast = (terminator: string) => {
+    const end = text.indexOf(terminator, index);
+    if (end === -1) throw new Error(`Unterminated markup (expected "${terminator}")`);
+    const content = text.slice(index, end);
+    index = end + terminator.length;
+    return content;
+  };
+
+  while (index < text.length) {
+    const current = stack[stack.length - 1];
+
+    if (text[index] !== "<") {
+      const end = text.indexOf("<", index);
+      const chunk = text.slice(index, end === -1 ? text.length : end);
+      current.text += decodeEntities(chunk);
+      index = end === -1 ? text.length : end;
+    } else if (text.startsWith("<!--", index)) {
+      skipPast("-->");
+    } else if (text.startsWith("<![CDATA[", index)) {
+      index += "<![CDATA[".length;
+      current.text += skipPast("]]>");
+    } else if (text.startsWith("<!", index)) {
+      throw new Error("DOCTYPE declarations are not supported");
+    } else if (text.startsWith("<?", index)) {
+      skipPast("?>");
+    } else if (text.startsWith("</", index)) {
+      index += 2;
+      const name = localName(skipPast(">").trim());
+      if (stack.length === 1 || current.name !== name) throw new Error(`Unexpected closing tag </${name}>`);
+      stack.pop();
+    } else {
+      index += 1;
+      const tag = skipPast(">");
+      const isSelfClosing = tag.endsWith("/");
+      const name = localName(tag.replace(/\/$/, "").trim().split(/\s+/)[0] ?? "");
+
+      if (!name) throw new Error("Empty tag name");
+
+      const element: XmlElement = { name, children: [], text: "" };
+      current.children.push(element);
+      if (!isSelfClosing) stack.push(element);
+    }
+  }
+
+  if (stack.length > 1) throw new Error(`Unclosed tag <${stack[stack.length - 1].name}>`);
+
+  const [documentElement, ...rest] = root.children;
+  if (!documentElement || rest.length > 0) throw new Error("Expected exactly one root element");
+
+  return documentElement;
+};
+
+const findElements = (element: XmlElement, name: string): XmlElement[] =>
+  element.children.flatMap((child) =>
+    child.name.toLowerCase() === name ? [child] : findElements(child, name),
+  );
+
+//* Nested values become dotted keys (<salary><min> → "salary.min"); repeated ones are joined with ", "
+//* (several <skill> elements → "a, b"). Attributes are ignored.
+const flatten = (element: XmlElement, prefix: string, record: Record<string, string>) => {
+  for (const child of element.children) {
+    const key = prefix ? `${prefix}.${child.name}` : child.name;
+
+    if (child.children.length > 0) {
+      flatten(child, key, record);
+    } else {
+      const value = child.text.trim();
+      record[key] = record[key] ? `${record[key]}, ${value}` : value;
+    }
+  }
+
+  return record;
+};
+
+//* The records are the <job> elements when there are any (the common feed shape); otherwise the most
+//* frequent child element below the root's single-child wrappers (<feed><jobs><posting>...).
+export const parseXmlRecords = (text: string) => {
+  const documentElement = parseXml(text);
+
+  let records = findElements(documentElement, "job");
+
+  if (records.length === 0) {
+    let container = documentElement;
+    while (container.children.length === 1 && container.children[0].children.length > 0) {
+      container = container.children[0];
+    }
+
+    const counts = new Map<string, number>();
+    for (const child of container.children) counts.set(child.name, (counts.get(child.name) ?? 0) + 1);
+
+    const [recordName] = [...counts.entries()].sort((a, b) => b[1] - a[1])[0] ?? [];
+    records = container.children.filter((child) => child.name === recordName);
+  }
+
+  return records.map((record) => flatten(record, "", {}));
+};
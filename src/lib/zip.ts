@@ -0,0 +1,131 @@
+import { once } from "node:events";
+import { createDeflateRaw } from "node:zlib";
+
+//* Streaming ZIP writer (deflate, no ZIP64). Entries are written one after another and each one's CRC and
+//* sizes go in a data descriptor after its data, so nothing has to be held in memory or known upfront.
+//* Archives are limited to 4 GB and 65535 entries, far beyond any export we produce.
+
+export interface ZipEntry {
+  name: string;
+  content: string | AsyncIterable<string>;
+}
+
+// general purpose flags: sizes follow in a data descriptor (bit 3), names are UTF-8 (bit 11)
+const FLAGS = 0x0808;
+const DEFLATE = 8;
+const VERSION = 20;
+
+// CRC-32 (IEEE) lookup table; zlib.crc32 would do, but it only exists from Node 20.15 / 22.2
+const CRC_TABLE = Uint32Array.from({ length: 256 }, (_, index) => {
+  let value = index;
+  for (let bit = 0; bit < 8; bit++) value = value & 1 ? 0xedb88320 ^ (value >>> 1) : value >>> 1;
+  return value;
+});
+
+const crc32 = (data: Uint8Array, previous = 0) => {
+  let crc = previous ^ 0xffffffff;
+  for (const byte of data) crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+const toDosDateTime = (date: Date) => ({
+  time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+  date: ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+});
+
+async function* toChunks(content: ZipEntry["content"]) {
+  if (typeof content === "string") {
+    yield Buffer.from(content, "utf8");
+    return;
+  }
+
+  for await (const chunk of content) yield Buffer.from(chunk, "utf8");
+}
+
+export async function* createZip(entries: ZipEntry[]): AsyncGenerator<Buffer> {
+  const { time, date } = toDosDateTime(new Date());
+  const centralDirectory: Buffer[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = Buffer.from(entry.name, "utf8");
+
+    const localHeader = Buffer.alloc(30);
+    localHeader.writeUInt32LE(0x04034b50, 0);
+    localHeader.writeUInt16LE(VERSION, 4);
+    localHeader.writeUInt16LE(FLAGS, 6);
+    localHeader.writeUInt16LE(DEFLATE, 8);
+    localHeader.writeUInt16LE(time, 10);
+    localHeader.writeUInt16LE(date, 12);
+    // CRC and sizes (offsets 14-25) stay zero: they are in the data descriptor
+    localHeader.writeUInt16LE(name.length, 26);
+
+    const headerOffset = offset;
+    yield Buffer.concat([localHeader, name]);
+    offset += localHeader.length + name.length;
+
+    let crc = 0;
+    let size = 0;
+    let compressedSize = 0;
+    const compressed: Buffer[] = [];
+
+    const deflate = createDeflateRaw();
+    deflate.on("data", (chunk: Buffer) => compressed.push(chunk));
+    const ended = once(deflate, "end");
+
+    const flushCompressed = function* () {
+      while (compressed.length > 0) {
+        const chunk = compressed.shift()!;
+        compressedSize += chunk.length;
+        yield chunk;
+      }
+    };
+
+    for await (const chunk of toChunks(entry.content)) {
+      crc = crc32(chunk, crc);
+      size += chunk.length;
+      if (!deflate.write(chunk)) await once(deflate, "drain");
+      yield* flushCompressed();
+    }
+
+    deflate.end();
+    await ended;
+    yield* flushCompressed();
+    offset += compressedSize;
+
+    const descriptor = Buffer.alloc(16);
+    descriptor.writeUInt32LE(0x08074b50, 0);
+    descriptor.writeUInt32LE(crc, 4);
+    descriptor.writeUInt32LE(compressedSize, 8);
+    descriptor.writeUInt32LE(size, 12);
+    yield descriptor;
+    offset += descriptor.length;
+
+    const centralHeader = Buffer.alloc(46);
+    centralHeader.writeUInt32LE(0x02014b50, 0);
+    centralHeader.writeUInt16LE(VERSION, 4);
+    centralHeader.writeUInt16LE(VERSION, 6);
+    centralHeader.writeUInt16LE(FLAGS, 8);
+    centralHeader.writeUInt16LE(DEFLATE, 10);
+    centralHeader.writeUInt16LE(time, 12);
+    centralHeader.writeUInt16LE(date, 14);
+    centralHeader.writeUInt32LE(crc, 16);
+    centralHeader.writeUInt32LE(compressedSize, 20);
+    centralHeader.writeUInt32LE(size, 24);
+    centralHeader.writeUInt16LE(name.length, 28);
+    centralHeader.writeUInt32LE(headerOffset, 42);
+    centralDirectory.push(centralHeader, name);
+  }
+
+  const directory = Buffer.concat(centralDirectory);
+
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(entries.length, 8);
+  end.writeUInt16LE(entries.length, 10);
+  end.writeUInt32LE(directory.length, 12);
+  end.writeUInt32LE(offset, 16);
+
+  yield directory;
+  yield end;
+}
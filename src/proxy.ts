@@ -0,0 +1,65 @@
+import { SESSION_COOKIE_NAME } from "@/config/constant";
+import {
+  AUTH_ROUTES,
+  getAllowedRoles,
+  getRoleHomeRoute,
+  matchesRoute,
+  TWO_FACTOR_SETUP_ROUTE,
+  VERIFY_EMAIL_ROUTE,
+} from "@/features/auth/auth.constants";
+import {
+  SESSION_COOKIE_OPTIONS,
+  validateSessionAndGetUser,
+} from "@/features/auth/server/use-cases/sessions";
+import { isTwoFactorRequired } from "@/features/auth/server/use-cases/twoFactor";
+import { NextRequest, NextResponse } from "next/server";
+
+//* The proxy (formerly middleware) runs before every matched request, so role checks happen
+//* before any page code is rendered. Pages still call requireRole() as a second line of defence.
+
+export async function proxy(request: NextRequest) {
+  const { pathname } = request.nextUrl;
+  const token = request.cookies.get(SESSION_COOKIE_NAME)?.value;
+
+  const result = token ? await validateSessionAndGetUser(token) : null;
+  const user = result?.user ?? null;
+
+  let response: NextResponse;
+
+  const isAuthRoute = AUTH_ROUTES.some((route) => matchesRoute(pathname, route));
+  const allowedRoles = getAllowedRoles(pathname);
+
+  if (isAuthRoute && user) {
+    response = NextResponse.redirect(new URL(getRoleHomeRoute(user.role), request.url));
+  } else if (allowedRoles && !user) {
+    response = NextResponse.redirect(new URL("/login", request.url));
+  } else if (allowedRoles && user && !user.emailVerifiedAt) {
+    response = NextResponse.redirect(new URL(VERIFY_EMAIL_ROUTE, request.url));
+  } else if (allowedRoles && user && isTwoFactorRequired(user.role) && !user.twoFactorEnabledAt) {
+    response = NextResponse.redirect(new URL(TWO_FACTOR_SETUP_ROUTE, request.url));
+  } else if (allowedRoles && user && !allowedRoles.includes(user.role ?? "applicant")) {
+    response = NextResponse.redirect(new URL(getRoleHomeRoute(user.role), request.url));
+  } else {
+    response = NextResponse.next();
+  }
+
+  if (token && !result) {
+    // Expired, revoked or unknown token: drop the stale cookie.
+    response.cookies.delete(SESSION_COOKIE_NAME);
+  } else if (token && result?.isRefreshed) {
+    response.cookies.set(SESSION_COOKIE_NAME, token, SESSION_COOKIE_OPTIONS);
+  }
+
+  return response;
+}
+
+export const config = {
+  matcher: [
+    "/login",
+    "/register",
+    "/admin/:path*",
+    "/employer/:path*",
+    "/dashboard/:path*",
+    "/account/:path*",
+  ],
+};